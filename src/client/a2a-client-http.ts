@@ -3,20 +3,41 @@
  * HTTP-based client for A2A protocol (WebSocket requires Durable Objects)
  */
 
-import { createLogger, type Logger } from '../../shared/src/logger.js';
+import { createLogger, type Logger } from '../shared/logger.js';
+import { buildHttpRequest, type A2AMethod } from '../shared/http-routes.js';
+import { a2aErrorFromHttp, type A2AError } from '../shared/errors.js';
+import { ClientCredentialsTokenSource, type ClientCredentialsOptions } from './oauth-client-credentials.js';
 import type {
   Message,
   Task,
   AgentCard,
-  MessageSendConfig,
-  ListTasksParams,
-  ListTasksResult
-} from '../../shared/src/a2a-types.js';
+  SendMessageConfiguration,
+  SendMessageResponse,
+  ListTasksRequest,
+  ListTasksResponse
+} from '../shared/a2a.types.js';
+
+/**
+ * Format a task resource name (`tasks/{task_id}`)
+ */
+function taskName(taskId: string): string {
+  return `tasks/${taskId}`;
+}
+
+/**
+ * Rebuild the typed error from an error response's `{ error, message }` body
+ */
+async function errorFromResponse(response: Response): Promise<A2AError> {
+  const body = await response.json().catch(() => undefined);
+  return a2aErrorFromHttp(response.status, body);
+}
 
 export interface A2AClientOptions {
   url: string;
   timeout?: number;
   authToken?: string;
+  /** Bearer token per request (takes precedence over authToken) */
+  getAuthToken?: () => Promise<string>;
 }
 
 /**
@@ -27,15 +48,32 @@ export class A2AClient {
   private url: string;
   private timeout: number;
   private authToken?: string;
+  private getAuthToken?: () => Promise<string>;
   private log: Logger;
 
   constructor(options: A2AClientOptions) {
     this.url = options.url.replace(/\/$/, ''); // Remove trailing slash
     this.timeout = options.timeout || 30000;
     this.authToken = options.authToken;
+    this.getAuthToken = options.getAuthToken;
     this.log = createLogger('a2a-client');
 
-    this.log.info('A2A HTTP Client initialized', { url: this.url, timeout: this.timeout });
+    this.log.info({ url: this.url, timeout: this.timeout }, 'A2A HTTP Client initialized');
+  }
+
+  /**
+   * Client authenticating with OAuth 2.0 client credentials, using the
+   * token URL from the agent's card
+   *
+   * @throws UnauthorizedError when the agent advertises no client credentials flow
+   */
+  static async withClientCredentials(
+    options: Omit<A2AClientOptions, 'authToken' | 'getAuthToken'>,
+    credentials: ClientCredentialsOptions & { schemeName?: string }
+  ): Promise<A2AClient> {
+    const card = await new A2AClient(options).getAgentCard();
+    const tokens = ClientCredentialsTokenSource.fromAgentCard(card, credentials);
+    return new A2AClient({ ...options, getAuthToken: () => tokens.getToken() });
   }
 
   /**
@@ -47,7 +85,7 @@ export class A2AClient {
     const response = await this.fetch('/.well-known/agent.json');
 
     if (!response.ok) {
-      throw new Error(`Failed to get agent card: ${response.status} ${response.statusText}`);
+      throw await errorFromResponse(response);
     }
 
     return response.json();
@@ -56,88 +94,38 @@ export class A2AClient {
   /**
    * Send a message and create/update a task
    */
-  async sendMessage(message: Message, config?: MessageSendConfig): Promise<Task> {
-    this.log.info('Sending message', { messageId: message.messageId });
-
-    const response = await this.fetch('/messages', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        message,
-        config
-      })
-    });
-
-    if (!response.ok) {
-      throw new Error(`Failed to send message: ${response.status} ${response.statusText}`);
-    }
+  async sendMessage(message: Message, config?: SendMessageConfiguration): Promise<Task | Message> {
+    this.log.info({ messageId: message.messageId }, 'Sending message');
 
-    return response.json();
+    const result: SendMessageResponse = await this.call('SendMessage', { request: message, configuration: config });
+    return (result.task ?? result.msg)!;
   }
 
   /**
    * Get task by ID
    */
   async getTask(taskId: string, historyLength?: number): Promise<Task> {
-    this.log.info('Getting task', { taskId, historyLength });
-
-    const params = new URLSearchParams();
-    if (historyLength !== undefined) {
-      params.set('historyLength', historyLength.toString());
-    }
-
-    const response = await this.fetch(`/tasks/${taskId}?${params}`);
-
-    if (!response.ok) {
-      throw new Error(`Failed to get task: ${response.status} ${response.statusText}`);
-    }
+    this.log.info({ taskId, historyLength }, 'Getting task');
 
-    return response.json();
+    return this.call('GetTask', { name: taskName(taskId), historyLength });
   }
 
   /**
    * List tasks with optional filtering
    */
-  async listTasks(params?: ListTasksParams): Promise<ListTasksResult> {
-    this.log.info('Listing tasks', { params });
-
-    const searchParams = new URLSearchParams();
-    if (params?.contextId) {
-      searchParams.set('contextId', params.contextId);
-    }
-    if (params?.limit !== undefined) {
-      searchParams.set('limit', params.limit.toString());
-    }
-    if (params?.offset !== undefined) {
-      searchParams.set('offset', params.offset.toString());
-    }
+  async listTasks(params: Partial<ListTasksRequest> = {}): Promise<ListTasksResponse> {
+    this.log.info({ params }, 'Listing tasks');
 
-    const response = await this.fetch(`/tasks?${searchParams}`);
-
-    if (!response.ok) {
-      throw new Error(`Failed to list tasks: ${response.status} ${response.statusText}`);
-    }
-
-    return response.json();
+    return this.call('ListTasks', params);
   }
 
   /**
    * Cancel a task
    */
   async cancelTask(taskId: string): Promise<Task> {
-    this.log.info('Cancelling task', { taskId });
-
-    const response = await this.fetch(`/tasks/${taskId}`, {
-      method: 'DELETE'
-    });
+    this.log.info({ taskId }, 'Cancelling task');
 
-    if (!response.ok) {
-      throw new Error(`Failed to cancel task: ${response.status} ${response.statusText}`);
-    }
-
-    return response.json();
+    return this.call('CancelTask', { name: taskName(taskId) });
   }
 
   /**
@@ -155,19 +143,44 @@ export class A2AClient {
     return response.json();
   }
 
+  /**
+   * Call an A2A method through its HTTP binding
+   *
+   * @param method - A2A method, looked up in the shared route table
+   * @param request - Request fields
+   * @throws A2AError rebuilt from the error response
+   */
+  private async call(method: A2AMethod, request: Record<string, any>): Promise<any> {
+    const spec = buildHttpRequest(method, request);
+
+    const response = await this.fetch(spec.path, {
+      method: spec.method,
+      ...(spec.body !== undefined
+        ? { headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(spec.body) }
+        : {})
+    });
+
+    if (!response.ok) {
+      throw await errorFromResponse(response);
+    }
+
+    return response.json();
+  }
+
   /**
    * Make HTTP request with timeout and auth
    */
   private async fetch(path: string, init?: RequestInit): Promise<Response> {
     const url = `${this.url}${path}`;
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
-
     const headers: Record<string, string> = {};
-    if (this.authToken) {
-      headers['Authorization'] = `Bearer ${this.authToken}`;
+    const authToken = this.getAuthToken ? await this.getAuthToken() : this.authToken;
+    if (authToken) {
+      headers['Authorization'] = `Bearer ${authToken}`;
     }
 
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+
     try {
       const response = await fetch(url, {
         ...init,
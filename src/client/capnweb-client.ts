@@ -0,0 +1,65 @@
+/**
+ * A2A Cap'n Web Client
+ *
+ * Opens a capnweb RPC session to the server's `/capnweb` WebSocket
+ * endpoint. The returned stub is the server's PublicA2AService; calls on
+ * it (and on the capabilities it returns) can be pipelined without
+ * awaiting intermediate results:
+ *
+ * ```ts
+ * const { api } = connectCapnweb('ws://localhost:8080/capnweb');
+ * const service = api.authenticate({ type: 'bearer', token });
+ * const stream = service.sendMessageStreaming(message, config, new MyCallback());
+ * ```
+ *
+ * Callbacks must extend RpcTarget so they are passed by reference. capnweb
+ * rejects failed calls with plain Errors; await them through
+ * `withA2AErrors` to get the typed A2AError the server threw.
+ */
+
+import { RpcSession, type RpcStub } from 'capnweb';
+import { WebSocket } from 'ws';
+import { WsRpcTransport } from '../shared/ws-rpc-transport.js';
+import { a2aErrorFromCapnweb } from '../shared/errors.js';
+import type { PublicA2AService } from '../server/capnweb-session.js';
+
+export interface CapnwebConnection {
+  /** Main stub of the session */
+  api: RpcStub<PublicA2AService>;
+  /** Dispose the main stub and close the socket */
+  close(): void;
+}
+
+/**
+ * Connect to an A2A server over Cap'n Web
+ *
+ * @param url - WebSocket URL of the capnweb endpoint
+ */
+export function connectCapnweb(url: string): CapnwebConnection {
+  const socket = new WebSocket(url);
+  const session = new RpcSession<PublicA2AService>(new WsRpcTransport(socket));
+  const api = session.getRemoteMain();
+
+  return {
+    api,
+    close() {
+      api[Symbol.dispose]();
+      socket.close();
+    }
+  };
+}
+
+/**
+ * Await a capnweb call, rethrowing its failure as a typed A2AError
+ *
+ * ```ts
+ * await withA2AErrors(api.authenticate(credentials).getTask(taskId));
+ * ```
+ */
+export async function withA2AErrors<T>(call: PromiseLike<T>): Promise<T> {
+  try {
+    return await call;
+  } catch (error) {
+    throw a2aErrorFromCapnweb(error);
+  }
+}
@@ -18,6 +18,7 @@ import type {
   Part
 } from '../shared/a2a.types.ts';
 import { Role as RoleEnum, TaskState } from '../shared/a2a.types.js';
+import { a2aErrorFromPayload } from '../shared/errors.js';
 
 export type MessageSendConfig = SendMessageRequest['configuration'];
 
@@ -94,7 +95,7 @@ export class A2AClient {
         this.pendingRequests.delete(message.id);
 
         if (message.error) {
-          request.reject(new Error(message.error.message || 'RPC Error'));
+          request.reject(a2aErrorFromPayload(message.error));
         } else {
           request.resolve(message.result);
         }
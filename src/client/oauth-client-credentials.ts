@@ -0,0 +1,159 @@
+/**
+ * OAuth 2.0 Client Credentials for agent-to-agent calls
+ *
+ * Lets an agent call another agent on its own behalf: the token URL comes
+ * from the `clientCredentials` flow of an OAuth2 security scheme in the
+ * target's agent card, and access tokens are fetched from it with the
+ * agent's client ID and secret, cached until shortly before they expire.
+ *
+ * ```ts
+ * const tokens = ClientCredentialsTokenSource.fromAgentCard(card, { clientId, clientSecret });
+ * const client = new A2AClient({ url, getAuthToken: () => tokens.getToken() });
+ * ```
+ */
+
+import { UnauthorizedError } from '../shared/errors.js';
+import { toBase64 } from '../shared/platform/crypto.js';
+import type { AgentCard } from '../shared/a2a.types.js';
+
+export interface ClientCredentialsFlowInfo {
+  /** Key of the security scheme in the agent card */
+  schemeName: string;
+  tokenUrl: string;
+  /** Scopes the agent advertises, with their descriptions */
+  scopes: { [scope: string]: string };
+}
+
+export interface ClientCredentialsOptions {
+  clientId: string;
+  clientSecret: string;
+  /** Scopes to request (defaults to none, i.e. the server's default) */
+  scopes?: string[];
+  /** How the client authenticates to the token endpoint (default client_secret_basic) */
+  authMethod?: 'client_secret_basic' | 'client_secret_post';
+  /** Seconds before expiry a token is replaced (default 30) */
+  refreshSkew?: number;
+  /** Request timeout in ms (default 10000) */
+  timeout?: number;
+}
+
+/**
+ * Token endpoint response (RFC 6749 section 5.1)
+ */
+interface TokenResponse {
+  access_token: string;
+  token_type: string;
+  expires_in?: number;
+  scope?: string;
+}
+
+/**
+ * Find the client credentials flow in an agent card
+ *
+ * @param schemeName - Security scheme to use (defaults to the first OAuth2
+ *   scheme with a client credentials flow)
+ */
+export function findClientCredentialsFlow(card: AgentCard, schemeName?: string): ClientCredentialsFlowInfo | undefined {
+  for (const [name, scheme] of Object.entries(card.securitySchemes ?? {})) {
+    const flow = scheme.oauth2SecurityScheme?.flows?.clientCredentials;
+    if ((!schemeName || name === schemeName) && flow?.tokenUrl) {
+      return { schemeName: name, tokenUrl: flow.tokenUrl, scopes: flow.scopes ?? {} };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Access tokens from a token endpoint via the client credentials grant
+ */
+export class ClientCredentialsTokenSource {
+  private readonly options: ClientCredentialsOptions;
+  private token?: { value: string; expiresAt: number };
+  private pending?: Promise<string>;
+
+  constructor(
+    readonly tokenUrl: string,
+    options: ClientCredentialsOptions
+  ) {
+    this.options = { authMethod: 'client_secret_basic', refreshSkew: 30, timeout: 10000, ...options };
+  }
+
+  /**
+   * Token source for the client credentials flow of an agent card
+   *
+   * @throws UnauthorizedError when the card advertises no such flow
+   */
+  static fromAgentCard(
+    card: AgentCard,
+    options: ClientCredentialsOptions & { schemeName?: string }
+  ): ClientCredentialsTokenSource {
+    const flow = findClientCredentialsFlow(card, options.schemeName);
+    if (!flow) {
+      throw new UnauthorizedError(`Agent ${card.name} has no OAuth 2.0 client credentials flow`);
+    }
+    return new ClientCredentialsTokenSource(flow.tokenUrl, options);
+  }
+
+  /**
+   * Current access token, fetching a new one when the cached one is about
+   * to expire. Concurrent callers share one token request.
+   *
+   * @throws UnauthorizedError when the token endpoint rejects the client
+   */
+  async getToken(): Promise<string> {
+    if (this.token && this.token.expiresAt > Date.now()) {
+      return this.token.value;
+    }
+
+    this.pending ??= this.requestToken().finally(() => {
+      this.pending = undefined;
+    });
+    return this.pending;
+  }
+
+  /**
+   * Drop the cached token, e.g. after the agent rejected it
+   */
+  invalidate(): void {
+    this.token = undefined;
+  }
+
+  private async requestToken(): Promise<string> {
+    const { clientId, clientSecret, scopes, authMethod } = this.options;
+    const params = new URLSearchParams({ grant_type: 'client_credentials' });
+    if (scopes?.length) {
+      params.set('scope', scopes.join(' '));
+    }
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json'
+    };
+    if (authMethod === 'client_secret_post') {
+      params.set('client_id', clientId);
+      params.set('client_secret', clientSecret);
+    } else {
+      headers['Authorization'] = `Basic ${toBase64(`${encodeURIComponent(clientId)}:${encodeURIComponent(clientSecret)}`)}`;
+    }
+
+    const response = await fetch(this.tokenUrl, {
+      method: 'POST',
+      headers,
+      body: params.toString(),
+      signal: AbortSignal.timeout(this.options.timeout!)
+    });
+    const body = await response.json().catch(() => undefined);
+    if (!response.ok || typeof body?.access_token !== 'string') {
+      throw new UnauthorizedError(
+        body?.error_description ?? body?.error ?? `Token request failed: ${response.status}`,
+        { tokenUrl: this.tokenUrl, error: body?.error }
+      );
+    }
+
+    const token = body as TokenResponse;
+    // Without expires_in the token is reused until invalidated
+    const lifetime = token.expires_in !== undefined ? Math.max(token.expires_in - this.options.refreshSkew!, 0) : Infinity;
+    this.token = { value: token.access_token, expiresAt: Date.now() + lifetime * 1000 };
+    return token.access_token;
+  }
+}
@@ -5,6 +5,7 @@
  * replacing traditional HTTP+JSON-RPC transport with capnweb.
  */
 
+import { RpcTarget } from 'capnweb';
 import { createLogger, type Logger } from '../shared/logger.js';
 const log: Logger = createLogger('a2a-service');
 
@@ -12,32 +13,57 @@ import type {
   Message,
   Task,
   AgentCard,
+  AgentInterface,
   SendMessageConfiguration,
   ListTasksRequest,
   ListTasksResponse,
   AuthenticationInfo,
-  Part
+  TaskPushNotificationConfig,
+  SetTaskPushNotificationConfigRequest,
+  GetTaskPushNotificationConfigRequest,
+  ListTaskPushNotificationConfigRequest,
+  ListTaskPushNotificationConfigResponse,
+  DeleteTaskPushNotificationConfigRequest,
+  SubscribeToTaskRequest,
+  Security,
+  SecurityScheme
 } from '../shared/a2a.types.js';
-import { TaskState, Role } from '../shared/a2a.types.js';
+import { TaskState } from '../shared/a2a.types.js';
 
 // Import ToolCall from tool-executor
 import type { ToolCall } from './tool-executor.js';
 
-interface AuthCredentials {
-  type: 'jwt' | 'apikey' | 'oauth2';
-  token: string;
-}
-
 
-import { TaskManager } from './task-manager.js';
-import { StreamingTask } from './streaming-task.js';
+import {
+  ForbiddenError,
+  InvalidParamsError,
+  NotFoundError,
+  UnauthorizedError,
+  UnsupportedOperationError
+} from '../shared/errors.js';
+import { TaskManager, type TaskManagerOptions } from './task-manager.js';
+import type { TaskStore } from './store/task-store.js';
+import { canonicalState, isInterruptedState, isTerminalState, type TaskStateTransition } from './task-state-machine.js';
+import { assertAcceptedOutputModes } from './output-modes.js';
+import { parsePushConfigName, parseTaskName, pushConfigName } from './resource-names.js';
+import { AgentEventBus, type AgentExecutor } from './executors/agent-executor.js';
+import { EchoAgentExecutor } from './executors/echo-agent-executor.js';
+import { StreamingTask, type StreamingTaskOptions } from './streaming-task.js';
+import { PushNotificationSender, type PushNotificationSenderOptions } from './push/push-notification-sender.js';
 
 import { ToolRegistry } from './tool-registry.js';
 import { ToolExecutor } from './tool-executor.js';
 import type { TaskUpdateCallback } from './task-update-callback.js';
 import type { ToolApproval, ToolStatusChangeEvent, ToolApprovalNeededEvent } from './tool-executor.js';
-import type { AuthenticationService } from './authentication-service.js';
-import { SessionManager } from './session-manager.js';
+import type { ApiKeyInfo, AuthCredentials, AuthenticationService } from './authentication-service.js';
+import {
+  AuthorizationPolicy,
+  TASK_OWNER_ACTIONS,
+  type Action,
+  type CapabilitySet,
+  type Principal
+} from './authorization-policy.js';
+import { CapabilityTokenIssuer, type CapabilityGrant } from './capability-token.js';
 
 
 export interface A2AServiceConfig {
@@ -45,6 +71,30 @@ export interface A2AServiceConfig {
   agentDescription?: string;
   agentUrl?: string;
   protocolVersion?: string;
+  /** Task persistence backend (defaults to in-memory) */
+  taskStore?: TaskStore;
+  /** Page token secret, event log size and task ID generation */
+  taskManager?: TaskManagerOptions;
+  /** Agent logic invoked for every incoming message (defaults to echo) */
+  executor?: AgentExecutor;
+  /** Media types the agent produces (defaults to text/plain) */
+  outputModes?: string[];
+  /** Server-side deadline for blocking sendMessage calls in ms (default 30000) */
+  blockingTimeoutMs?: number;
+  /** Webhook delivery settings (retries, backoff, timeouts) */
+  pushNotifications?: PushNotificationSenderOptions;
+  /** Per-subscriber queue settings for streaming tasks */
+  streaming?: StreamingTaskOptions;
+  /** Other transports the agent is reachable over (JSON-RPC, HTTP+JSON, ...) */
+  additionalInterfaces?: AgentInterface[];
+  /** Security schemes advertised next to bearer tokens (e.g. OAuth 2.0 flows) */
+  securitySchemes?: { [name: string]: SecurityScheme };
+  /** Requirements for securitySchemes; each alternative to bearer tokens */
+  security?: Security[];
+  /** Actions each permission grants to AuthenticatedA2AService callers */
+  authorizationPolicy?: AuthorizationPolicy;
+  /** Signs delegated capability tokens (defaults to a per-process secret) */
+  capabilityTokens?: CapabilityTokenIssuer;
 }
 
 /**
@@ -52,23 +102,37 @@ export interface A2AServiceConfig {
  * Implements all A2A protocol methods
  */
 export class A2AService {
-  private sessionManager = new SessionManager({ sessionTimeout: 3600 });
-
   private taskManager: TaskManager;
   private toolExecutor: ToolExecutor;
   private config: A2AServiceConfig;
   private authService?: AuthenticationService;
+  private executor: AgentExecutor;
+  private executions = new Map<string, AbortController>(); // taskId -> running execution
+  private pushSender: PushNotificationSender;
+  private streamingOptions?: StreamingTaskOptions;
+  private authorizationPolicy: AuthorizationPolicy;
+  private capabilityTokens: CapabilityTokenIssuer;
 
   constructor(config: A2AServiceConfig = {}, authService?: AuthenticationService) {
     // super();
-    this.taskManager = new TaskManager();
+    this.taskManager = new TaskManager(config.taskStore, config.taskManager);
     this.toolExecutor = new ToolExecutor();
+    this.executor = config.executor || new EchoAgentExecutor();
+    this.pushSender = new PushNotificationSender(this.taskManager, config.pushNotifications);
+    this.pushSender.start();
+    this.streamingOptions = config.streaming;
+    this.authorizationPolicy = config.authorizationPolicy ?? new AuthorizationPolicy();
+    this.capabilityTokens = config.capabilityTokens ?? new CapabilityTokenIssuer();
     this.authService = authService;
     this.config = {
       agentName: config.agentName || 'A2A CapnWeb Server',
       agentDescription: config.agentDescription || 'A2A server using capnweb transport',
       agentUrl: config.agentUrl || 'http://localhost:8080',
-      protocolVersion: config.protocolVersion || '0.4.0'
+      protocolVersion: config.protocolVersion || '0.4.0',
+      outputModes: config.outputModes || ['text/plain'],
+      blockingTimeoutMs: config.blockingTimeoutMs ?? 30000,
+      securitySchemes: config.securitySchemes,
+      security: config.security
     };
 
     log.info({ config: this.config }, 'A2AService initialized');
@@ -123,7 +187,7 @@ export class A2AService {
           const pendingApprovals = this.toolExecutor.getPendingApprovals(event.taskId);
           if (pendingApprovals.length === 0) {
             const task = await this.taskManager.getTask(event.taskId);
-            if (task.status?.state === TaskState.TASK_STATE_INPUT_REQUIRED) {
+            if (canonicalState(task.status?.state) === 'input-required') {
               await this.taskManager.updateTaskStatus(
                 task.id,
                 TaskState.TASK_STATE_WORKING
@@ -147,54 +211,116 @@ export class A2AService {
    * Implements: message/send (A2A Protocol)
    * Maps to: RPC method invocation with Promise return
    *
+   * Honours SendMessageConfiguration:
+   * - `acceptedOutputModes`: rejected with CONTENT_TYPE_NOT_SUPPORTED when
+   *   none of them matches the agent's output modes
+   * - `blocking`: waits until the task reaches a terminal or interrupted
+   *   state, or the server-side deadline passes
+   * - `historyLength`: trims the history of the returned task
+   *
    * @param message - Message to send
    * @param config - Optional configuration
+   * @param userId - Owner recorded on a new task (`metadata.userId`)
    * @returns Task or Message depending on whether task is created
    */
 async sendMessage(
   connectionId: string,
   message: Message,
-  config: SendMessageConfiguration | undefined
+  config: SendMessageConfiguration | undefined,
+  userId?: string
 ): Promise<Task | Message> {
-   // TODO: Implement proper capability check
-   // For now, allow all requests
+  // Callers are authorized by AuthenticatedA2AService
 
   log.info({
     messageId: message.messageId,
     role: message.role,
-    hasTaskId: !!message.taskId
+    hasTaskId: !!message.taskId,
+    blocking: !!config?.blocking
   }, 'sendMessage called');
 
     try {
+      assertAcceptedOutputModes(config?.acceptedOutputModes, this.config.outputModes!);
+
+      let taskId: string;
+
       // If message has taskId, continue existing task
       if (message.taskId) {
         const task = await this.taskManager.getTask(message.taskId);
 
+        // Resume the task; this rejects messages for tasks in a terminal state
+        if (canonicalState(task.status?.state) !== 'working') {
+          await this.taskManager.updateTaskStatus(task.id, TaskState.TASK_STATE_WORKING);
+        }
+
         // Add message to history
         await this.taskManager.addMessageToHistory(task.id, message);
-
-        // Process the message (stub implementation for now)
-        await this.processMessage(task.id, message);
-
-        return await this.taskManager.getTask(task.id);
+        taskId = task.id;
+      } else {
+        // Create new task
+        const task = await this.taskManager.createTask(message, taskMetadata(config, userId));
+        taskId = task.id;
       }
 
-      // Create new task
-      const task = await this.taskManager.createTask(message, config?.pushNotificationConfig ? { notificationConfig: config.pushNotificationConfig } : undefined);
-
-       // Process the message asynchronously
-      this.processMessage(task.id, message).catch(err => {
-        log.error({ error: err, taskId: task.id }, 'Error processing message');
-        this.taskManager.updateTaskStatus(task.id, TaskState.TASK_STATE_FAILED).catch(() => {});
+      // Process the message asynchronously
+      this.processMessage(taskId, message).catch(err => {
+        log.error({ error: err, taskId }, 'Error processing message');
+        this.taskManager.updateTaskStatus(taskId, TaskState.TASK_STATE_FAILED).catch(() => {});
       });
 
-      return task;
+      if (config?.blocking) {
+        await this.waitForTaskToSettle(taskId, this.config.blockingTimeoutMs!);
+      }
+
+      return await this.taskManager.getTask(taskId, config?.historyLength);
     } catch (error) {
       log.error({ error }, 'sendMessage error');
       throw error;
     }
   }
 
+  /**
+   * Wait until a task is terminal or interrupted
+   *
+   * Resolves (without throwing) when the deadline passes so that blocking
+   * callers still get the task in whatever state it reached.
+   *
+   * @param taskId - Task to wait for
+   * @param timeoutMs - Server-side deadline
+   */
+  private async waitForTaskToSettle(taskId: string, timeoutMs: number): Promise<void> {
+    const settled = (state?: TaskState) => isTerminalState(state) || isInterruptedState(state);
+
+    await new Promise<void>((resolve) => {
+      let unsubscribe = () => {};
+      const finish = () => {
+        clearTimeout(timer);
+        unsubscribe();
+        resolve();
+      };
+
+      const timer = setTimeout(() => {
+        log.warn({ taskId, timeoutMs }, 'Blocking sendMessage deadline reached');
+        finish();
+      }, timeoutMs);
+
+      unsubscribe = this.taskManager.onTaskUpdate(taskId, (event) => {
+        if (settled(event.status?.state)) {
+          finish();
+        }
+      });
+
+      // The task may already have settled before we subscribed
+      this.taskManager.getTask(taskId).then(
+        (task) => {
+          if (settled(task.status?.state)) {
+            finish();
+          }
+        },
+        () => finish()
+      );
+    });
+  }
+
   /**
    * Send a message with streaming updates
    *
@@ -204,12 +330,14 @@ async sendMessage(
    * @param message - Message to send
    * @param config - Optional configuration
    * @param callback - Optional callback for push notifications
+   * @param userId - Owner recorded on the task (`metadata.userId`)
    * @returns StreamingTask that client can subscribe to
    */
   async sendMessageStreaming(
     message: Message,
     config?: SendMessageConfiguration,
-    callback?: TaskUpdateCallback
+    callback?: TaskUpdateCallback,
+    userId?: string
   ): Promise<StreamingTask> {
     log.info({
       messageId: message.messageId,
@@ -219,10 +347,10 @@ async sendMessage(
 
     try {
       // Create task
-      const task = await this.taskManager.createTask(message, config?.pushNotificationConfig ? { notificationConfig: config.pushNotificationConfig } : undefined);
+      const task = await this.taskManager.createTask(message, taskMetadata(config, userId));
 
       // Create streaming task
-      const streamingTask = new StreamingTask(task, this.taskManager);
+      const streamingTask = new StreamingTask(task, this.taskManager, this.streamingOptions);
 
       // Register callback if provided
       if (callback) {
@@ -242,6 +370,49 @@ async sendMessage(
     }
   }
 
+  /**
+   * Resubscribe to the update stream of an existing task
+   *
+   * Implements: tasks/resubscribe (A2A Protocol)
+   * Maps to: Returns StreamingTask RpcTarget, like sendMessageStreaming
+   *
+   * The callback first receives the task's current status, then live
+   * updates. Lets clients that lost their connection (e.g. while waiting on
+   * a tool approval) pick the stream back up.
+   *
+   * @param request - Task resource name (tasks/{task_id})
+   * @param callback - Optional callback for updates
+   * @param afterSequence - Replay events after this sequence number instead
+   *   of sending a snapshot (see StreamingTask.subscribe)
+   * @returns StreamingTask that client can subscribe to
+   * @throws UnsupportedOperationError if the task is in a terminal state
+   */
+  async subscribeToTask(
+    request: SubscribeToTaskRequest,
+    callback?: TaskUpdateCallback,
+    afterSequence?: number
+  ): Promise<StreamingTask> {
+    log.info({ name: request.name, hasCallback: !!callback, afterSequence }, 'subscribeToTask called');
+
+    try {
+      const task = await this.taskManager.getTask(parseTaskName(request.name), 0);
+
+      if (isTerminalState(task.status?.state)) {
+        throw new UnsupportedOperationError(`Cannot subscribe to task in terminal state: ${task.id}`);
+      }
+
+      const streamingTask = new StreamingTask(task, this.taskManager, this.streamingOptions);
+      if (callback) {
+        await streamingTask.subscribe(callback, afterSequence);
+      }
+
+      return streamingTask;
+    } catch (error) {
+      log.error({ error, name: request.name }, 'subscribeToTask error');
+      throw error;
+    }
+  }
+
   /**
    * Get task status
    *
@@ -263,6 +434,25 @@ async sendMessage(
     }
   }
 
+  /**
+   * Get the state transition log for a task
+   *
+   * Backs the `stateTransitionHistory` capability advertised in the AgentCard.
+   *
+   * @param taskId - Task ID
+   * @returns Transitions in the order they happened
+   */
+  async getTaskStateTransitions(taskId: string): Promise<TaskStateTransition[]> {
+    log.info({ taskId }, 'getTaskStateTransitions called');
+
+    try {
+      return await this.taskManager.getStateTransitions(taskId);
+    } catch (error) {
+      log.error({ error, taskId }, 'getTaskStateTransitions error');
+      throw error;
+    }
+  }
+
   /**
    * List tasks with optional filtering
    *
@@ -296,13 +486,134 @@ async sendMessage(
     log.info({ taskId }, 'cancelTask called');
 
     try {
-      return await this.taskManager.cancelTask(taskId);
+      const task = await this.taskManager.cancelTask(taskId);
+
+      // Let the running executor know it should stop
+      this.executions.get(taskId)?.abort(new Error('Task canceled'));
+
+      return task;
     } catch (error) {
       log.error({ error, taskId }, 'cancelTask error');
       throw error;
     }
   }
 
+  /**
+   * Create or replace a push notification config on a task
+   *
+   * Implements: tasks/pushNotificationConfig/set (A2A Protocol)
+   *
+   * @param request - Parent task name, config ID and config
+   * @returns The stored config with its resource name
+   */
+  async setTaskPushNotificationConfig(
+    request: SetTaskPushNotificationConfigRequest
+  ): Promise<TaskPushNotificationConfig> {
+    log.info({ parent: request.parent, configId: request.configId }, 'setTaskPushNotificationConfig called');
+
+    try {
+      const taskId = parseTaskName(request.parent);
+      const config = request.config?.pushNotificationConfig;
+
+      if (!config?.url) {
+        throw new InvalidParamsError('pushNotificationConfig.url is required');
+      }
+      let url: URL;
+      try {
+        url = new URL(config.url);
+      } catch {
+        throw new InvalidParamsError(`Invalid webhook URL: ${config.url}`);
+      }
+      if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+        throw new InvalidParamsError(`Unsupported webhook URL scheme: ${url.protocol}`);
+      }
+
+      const stored = await this.taskManager.setPushNotificationConfig(taskId, {
+        ...config,
+        id: request.configId || config.id
+      });
+
+      return { name: pushConfigName(taskId, stored.id), pushNotificationConfig: stored };
+    } catch (error) {
+      log.error({ error, parent: request.parent }, 'setTaskPushNotificationConfig error');
+      throw error;
+    }
+  }
+
+  /**
+   * Get a push notification config
+   *
+   * Implements: tasks/pushNotificationConfig/get (A2A Protocol)
+   *
+   * @param request - Config resource name
+   */
+  async getTaskPushNotificationConfig(
+    request: GetTaskPushNotificationConfigRequest
+  ): Promise<TaskPushNotificationConfig> {
+    log.info({ name: request.name }, 'getTaskPushNotificationConfig called');
+
+    try {
+      const { taskId, configId } = parsePushConfigName(request.name);
+      const config = await this.taskManager.getPushNotificationConfig(taskId, configId);
+      return { name: pushConfigName(taskId, config.id), pushNotificationConfig: config };
+    } catch (error) {
+      log.error({ error, name: request.name }, 'getTaskPushNotificationConfig error');
+      throw error;
+    }
+  }
+
+  /**
+   * List the push notification configs of a task
+   *
+   * Implements: tasks/pushNotificationConfig/list (A2A Protocol)
+   *
+   * @param request - Parent task name and paging parameters
+   */
+  async listTaskPushNotificationConfig(
+    request: ListTaskPushNotificationConfigRequest
+  ): Promise<ListTaskPushNotificationConfigResponse> {
+    log.info({ parent: request.parent }, 'listTaskPushNotificationConfig called');
+
+    try {
+      const taskId = parseTaskName(request.parent);
+      const { configs, nextPageToken } = await this.taskManager.listPushNotificationConfigs(
+        taskId,
+        request.pageSize || 0,
+        request.pageToken || undefined
+      );
+
+      return {
+        configs: configs.map(config => ({
+          name: pushConfigName(taskId, config.id),
+          pushNotificationConfig: config
+        })),
+        nextPageToken
+      };
+    } catch (error) {
+      log.error({ error, parent: request.parent }, 'listTaskPushNotificationConfig error');
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a push notification config
+   *
+   * Implements: tasks/pushNotificationConfig/delete (A2A Protocol)
+   *
+   * @param request - Config resource name
+   */
+  async deleteTaskPushNotificationConfig(request: DeleteTaskPushNotificationConfigRequest): Promise<void> {
+    log.info({ name: request.name }, 'deleteTaskPushNotificationConfig called');
+
+    try {
+      const { taskId, configId } = parsePushConfigName(request.name);
+      await this.taskManager.deletePushNotificationConfig(taskId, configId);
+    } catch (error) {
+      log.error({ error, name: request.name }, 'deleteTaskPushNotificationConfig error');
+      throw error;
+    }
+  }
+
   /**
    * Get agent card (agent discovery)
    *
@@ -328,7 +639,8 @@ async sendMessage(
         {
           url: this.config.agentUrl!,
           protocolBinding: 'CAPNWEB'
-        }
+        },
+        ...(this.config.additionalInterfaces || [])
       ],
       capabilities: {
         streaming: true,
@@ -348,17 +660,19 @@ async sendMessage(
             scheme: 'bearer',
             bearerFormat: 'JWT'
           }
-        }
+        },
+        ...this.config.securitySchemes
       },
       security: [
         {
           schemes: {
             bearer: { list: ['bearer'] }
           }
-        }
+        },
+        ...(this.config.security || [])
       ],
       defaultInputModes: ['text/plain'],
-      defaultOutputModes: ['text/plain'],
+      defaultOutputModes: this.config.outputModes!,
       skills: [],
       signatures: []
     };
@@ -378,10 +692,8 @@ async executeTool(
   toolName: string,
   input?: Record<string, any>
 ): Promise<ToolCall> {
-   // TODO: Implement proper capability check
-   // For now, allow all tool execution requests
+  // Callers are authorized by AuthenticatedA2AService
 
-  log.info({ taskId, toolName }, 'executeTool called');
     log.info({ taskId, toolName }, 'executeTool called');
 
     try {
@@ -444,6 +756,16 @@ async executeTool(
     return this.toolExecutor.getPendingApprovals(taskId);
   }
 
+  /**
+   * Get the task a tool call belongs to
+   *
+   * @param callId - Tool call ID
+   * @returns Task ID, or undefined for unknown calls
+   */
+  getToolCallTaskId(callId: string): string | undefined {
+    return this.toolExecutor.getToolCallTaskId(callId);
+  }
+
   /**
    * Authenticate and return authorized service stub
    *
@@ -451,19 +773,23 @@ async executeTool(
    * This is a capnweb-specific enhancement over standard A2A
    *
    * @param credentials - Authentication credentials
+   * @param client - The connected client, checked against API key IP allowlists
    * @returns Authenticated service (stub with user context)
    */
-  async authenticate(credentials: AuthCredentials): Promise<AuthenticatedA2AService> {
+  async authenticate(
+    credentials: AuthCredentials,
+    client?: { ipAddress?: string; userAgent?: string }
+  ): Promise<AuthenticatedA2AService> {
     log.info({ type: credentials.type, hasToken: !!credentials.token }, 'authenticate called');
 
     // Use real authentication service if available
     if (this.authService) {
-      const authResult = await this.authService.authenticate(credentials);
+      const authResult = await this.authService.authenticate(credentials, client);
 
       if (!authResult.authenticated) {
         const error = authResult.metadata?.error || 'Authentication failed';
         log.warn({ error }, 'Authentication failed');
-        throw new Error(`UNAUTHORIZED: ${error}`);
+        throw new UnauthorizedError(error);
       }
 
       log.info(
@@ -478,7 +804,10 @@ async executeTool(
         this,
         this.taskManager,
         authResult.userId!,
-        authResult.permissions || []
+        authResult.permissions || [],
+        authResult.capabilities,
+        undefined,
+        authResult.scopes
       );
     }
 
@@ -487,7 +816,7 @@ async executeTool(
     log.warn('Using stub authentication - not secure for production!');
 
     if (!credentials.token || credentials.token.length === 0) {
-      throw new Error('UNAUTHORIZED: Invalid credentials');
+      throw new UnauthorizedError('Invalid credentials');
     }
 
     const userId = 'user-' + credentials.token.substring(0, 8);
@@ -501,55 +830,62 @@ async executeTool(
   }
 
   /**
-   * Process a message (stub implementation)
+   * Exchange a delegated capability token for a service restricted to it
    *
-   * In a real implementation, this would:
-   * - Parse the message content
-   * - Execute appropriate tools/actions
-   * - Generate response
-   * - Update task status
-   * - Create artifacts
+   * The service acts for the user who delegated the token, but may only
+   * perform the token's actions on its task, until the token expires or it
+   * or a token it was delegated from is revoked.
    *
-   * For MVP, we just echo back with a simple response
+   * @param token - Token from AuthenticatedA2AService.delegate
+   * @throws InvalidCapabilityTokenError if the token is invalid, expired or revoked
    */
-  private async processMessage(taskId: string, message: Message): Promise<void> {
-    log.info({ taskId, messageId: message.messageId }, 'Processing message');
-
-    // Simulate some processing time
-    await new Promise(resolve => setTimeout(resolve, 100));
+  async redeemCapability(token: string): Promise<AuthenticatedA2AService> {
+    const grant = await this.capabilityTokens.verify(token);
+    log.info({ userId: grant.userId, taskId: grant.taskId, actions: grant.actions, chain: grant.chain }, 'Capability token redeemed');
 
-    // Extract text from message parts
-    const textParts = message.parts
-      .filter((p: Part): p is Part & { text: string } => p.text !== undefined)
-      .map((p: Part & { text: string }) => p.text)
-      .join(' ');
-
-    // Create a simple echo response
-    const responseText = `Echo: ${textParts}`;
+    return new AuthenticatedA2AService(
+      this,
+      this.taskManager,
+      grant.userId,
+      [],
+      {
+        capabilities: [{ actions: grant.actions, taskId: grant.taskId, expiresAt: grant.expiresAt.toISOString() }]
+      },
+      grant
+    );
+  }
 
-    // Add response message to history
-    const responseMessage: Message = {
-      messageId: `msg-${Date.now()}`,
-      contextId: message.contextId,
-      taskId,
-      role: Role.ROLE_AGENT,
-      parts: [
-        {
-          text: responseText,
-          metadata: {}
-        }
-      ],
-      metadata: {},
-      extensions: [],
-      referenceTaskIds: []
-    };
+  /**
+   * Process a message by handing it to the configured AgentExecutor
+   *
+   * The executor publishes status changes, artifacts and tool calls through
+   * an AgentEventBus bound to the task. Canceling the task aborts the
+   * execution's AbortSignal.
+   */
+  private async processMessage(taskId: string, message: Message): Promise<void> {
+    log.info({ taskId, messageId: message.messageId }, 'Processing message');
 
-    await this.taskManager.addMessageToHistory(taskId, responseMessage);
+    // A new message supersedes any execution still running for this task
+    this.executions.get(taskId)?.abort(new Error('Superseded by a new message'));
 
-    // Mark task as completed
-    await this.taskManager.updateTaskStatus(taskId, TaskState.TASK_STATE_COMPLETED, responseMessage);
+    const controller = new AbortController();
+    this.executions.set(taskId, controller);
 
-    log.info({ taskId }, 'Message processing completed');
+    try {
+      const task = await this.taskManager.getTask(taskId);
+      const eventBus = new AgentEventBus(task.id, task.contextId, this.taskManager, this.toolExecutor);
+
+      await this.executor.execute({
+        task,
+        message,
+        eventBus,
+        signal: controller.signal
+      });
+    } finally {
+      if (this.executions.get(taskId) === controller) {
+        this.executions.delete(taskId);
+      }
+    }
   }
 
   /**
@@ -557,17 +893,55 @@ async executeTool(
    *
    * @param userId - User ID
    * @param permissions - User permissions
+   * @param capabilities - Capabilities the user holds, e.g. from their session
+   * @param scopes - Action patterns the user's credentials are limited to
    * @returns AuthenticatedA2AService instance
    */
-  createAuthenticatedService(userId: string, permissions: string[]): AuthenticatedA2AService {
+  createAuthenticatedService(
+    userId: string,
+    permissions: string[],
+    capabilities?: CapabilitySet,
+    scopes?: string[]
+  ): AuthenticatedA2AService {
     return new AuthenticatedA2AService(
       this,
       this.taskManager,
       userId,
-      permissions
+      permissions,
+      capabilities,
+      undefined,
+      scopes
     );
   }
 
+  /**
+   * Get the service credentials are checked against, if one is configured
+   */
+  getAuthenticationService(): AuthenticationService | undefined {
+    return this.authService;
+  }
+
+  /**
+   * Get the policy AuthenticatedA2AService checks calls against
+   */
+  getAuthorizationPolicy(): AuthorizationPolicy {
+    return this.authorizationPolicy;
+  }
+
+  /**
+   * Get the issuer of delegated capability tokens
+   */
+  getCapabilityTokenIssuer(): CapabilityTokenIssuer {
+    return this.capabilityTokens;
+  }
+
+  /**
+   * Get the webhook delivery worker (delivery status, dead letters)
+   */
+  getPushNotificationSender(): PushNotificationSender {
+    return this.pushSender;
+  }
+
   /**
    * Get the underlying task manager (for testing)
    */
@@ -583,15 +957,31 @@ async executeTool(
  * - Authentication returns a NEW stub with user context
  * - No need to send credentials with every request
  * - Stub disposal automatically revokes access
+ * - Every call is checked against the AuthorizationPolicy; creating a task
+ *   grants this stub a capability for it
+ * - Rights on a task can be delegated as attenuated capability tokens; a
+ *   stub redeemed from a token dies with it
  */
-export class AuthenticatedA2AService {
+export class AuthenticatedA2AService extends RpcTarget {
+  private disposed = false;
+  private principal: Principal;
+
   constructor(
     private a2aService: A2AService,
     private taskManager: TaskManager,
     private userId: string,
-    private permissions: string[]
+    private permissions: string[],
+    capabilities?: CapabilitySet,
+    private delegation?: CapabilityGrant,
+    scopes?: string[]
   ) {
-    // super();
+    super();
+    this.principal = {
+      userId,
+      permissions,
+      capabilities: { capabilities: [...(capabilities?.capabilities ?? [])] },
+      scopes
+    };
     log.info({ userId, permissions }, 'AuthenticatedA2AService created');
   }
 
@@ -599,61 +989,359 @@ export class AuthenticatedA2AService {
    * Send message with automatic user context
    */
   async sendMessage(message: Message, config?: SendMessageConfiguration): Promise<Task | Message> {
+    await this.authorizeMessage(message);
     log.info({ userId: this.userId, messageId: message.messageId }, 'Authenticated sendMessage');
 
-    // Add user context to metadata
-    const enrichedConfig = {
-      ...config,
-      pushNotificationConfig: config?.pushNotificationConfig,
-      userId: this.userId
-    };
-
     // Delegate to original A2AService.sendMessage to ensure proper message processing
-    // This ensures task state transitions and tool execution occur
-    return await this.a2aService.sendMessage('authenticated-user', message, config);
+    // This ensures task state transitions and tool execution occur; new
+    // tasks are recorded as this user's
+    const result = await this.a2aService.sendMessage('authenticated-user', message, config, this.userId);
+    if (!message.taskId && 'status' in result) {
+      this.grantTaskOwnership(result.id);
+    }
+    return result;
+  }
+
+  /**
+   * Send message with streaming updates
+   */
+  async sendMessageStreaming(
+    message: Message,
+    config?: SendMessageConfiguration,
+    callback?: TaskUpdateCallback
+  ): Promise<StreamingTask> {
+    this.authorize('task:create');
+    log.info({ userId: this.userId, messageId: message.messageId }, 'Authenticated sendMessageStreaming');
+    const streamingTask = await this.a2aService.sendMessageStreaming(message, config, callback, this.userId);
+    this.grantTaskOwnership((await streamingTask.getTask()).id);
+    return streamingTask;
   }
 
   /**
    * Get task with ownership check
    */
   async getTask(taskId: string, historyLength?: number): Promise<Task> {
-    const task = await this.taskManager.getTask(taskId, historyLength);
-
-    // Verify task belongs to user
-    if (task.metadata?.userId && task.metadata.userId !== this.userId) {
-      throw new Error('FORBIDDEN: Task does not belong to user');
-    }
+    await this.authorizeTask('task:read', taskId);
+    return await this.taskManager.getTask(taskId, historyLength);
+  }
 
-    return task;
+  /**
+   * Get task state transition log with ownership check
+   */
+  async getTaskStateTransitions(taskId: string): Promise<TaskStateTransition[]> {
+    await this.authorizeTask('task:read', taskId);
+    return await this.taskManager.getStateTransitions(taskId);
   }
 
   /**
-   * List tasks filtered by user ownership
+   * List the user's tasks (every task for admins)
    */
   async listTasks(params: ListTasksRequest): Promise<ListTasksResponse> {
-    // Filter by userId to enforce ownership
-    return await this.taskManager.listTasks(params, this.userId);
+    this.authorize('task:read');
+    const isAdmin = this.permissions.includes('admin') && !this.principal.scopes;
+    return await this.taskManager.listTasks(params, isAdmin ? undefined : this.userId);
   }
 
   /**
    * Cancel task with ownership check
    */
   async cancelTask(taskId: string): Promise<Task> {
-    // Verify task belongs to user before canceling
-    const task = await this.taskManager.getTask(taskId);
+    await this.authorizeTask('task:cancel', taskId);
 
-    if (task.metadata?.userId && task.metadata.userId !== this.userId) {
-      throw new Error('FORBIDDEN: Cannot cancel task that does not belong to user');
-    }
+    // Go through A2AService so the running executor is aborted
+    return await this.a2aService.cancelTask(taskId);
+  }
 
-    return await this.taskManager.cancelTask(taskId);
+  /**
+   * Resubscribe to a task's update stream with ownership check
+   */
+  async subscribeToTask(
+    request: SubscribeToTaskRequest,
+    callback?: TaskUpdateCallback,
+    afterSequence?: number
+  ): Promise<StreamingTask> {
+    const taskId = parseTaskName(request.name);
+    await this.authorizeTask('task:read', taskId);
+    return await this.a2aService.subscribeToTask(request, callback, afterSequence);
+  }
+
+  /**
+   * Set a push notification config with ownership check
+   */
+  async setTaskPushNotificationConfig(
+    request: SetTaskPushNotificationConfigRequest
+  ): Promise<TaskPushNotificationConfig> {
+    const taskId = parseTaskName(request.parent);
+    await this.authorizeTask('task:update', taskId);
+    return await this.a2aService.setTaskPushNotificationConfig(request);
+  }
+
+  /**
+   * Get a push notification config with ownership check
+   */
+  async getTaskPushNotificationConfig(
+    request: GetTaskPushNotificationConfigRequest
+  ): Promise<TaskPushNotificationConfig> {
+    const { taskId } = parsePushConfigName(request.name);
+    await this.authorizeTask('task:read', taskId);
+    return await this.a2aService.getTaskPushNotificationConfig(request);
+  }
+
+  /**
+   * List push notification configs with ownership check
+   */
+  async listTaskPushNotificationConfig(
+    request: ListTaskPushNotificationConfigRequest
+  ): Promise<ListTaskPushNotificationConfigResponse> {
+    const taskId = parseTaskName(request.parent);
+    await this.authorizeTask('task:read', taskId);
+    return await this.a2aService.listTaskPushNotificationConfig(request);
+  }
+
+  /**
+   * Delete a push notification config with ownership check
+   */
+  async deleteTaskPushNotificationConfig(request: DeleteTaskPushNotificationConfigRequest): Promise<void> {
+    const { taskId } = parsePushConfigName(request.name);
+    await this.authorizeTask('task:update', taskId);
+    await this.a2aService.deleteTaskPushNotificationConfig(request);
   }
 
   /**
    * Get agent card (public information)
    */
   getAgentCard(): AgentCard {
+    this.assertActive();
     // Could customize based on user permissions
-    return new A2AService().getAgentCard();
+    return this.a2aService.getAgentCard();
+  }
+
+  /**
+   * Execute a tool in a task with ownership check
+   */
+  async executeTool(taskId: string, toolName: string, input?: Record<string, any>): Promise<ToolCall> {
+    await this.authorizeTask(`tool:execute:${toolName}`, taskId);
+    return await this.a2aService.executeTool('authenticated-user', taskId, toolName, input);
+  }
+
+  /**
+   * Approve or reject a pending tool call of one of the user's tasks
+   */
+  async approveToolCall(approval: ToolApproval): Promise<void> {
+    const taskId = this.a2aService.getToolCallTaskId(approval.callId);
+    if (taskId) {
+      await this.authorizeTask('tool:approve', taskId);
+    } else {
+      this.authorize('tool:approve');
+    }
+    await this.a2aService.approveToolCall(approval);
+  }
+
+  /**
+   * Get pending tool approvals of a task with ownership check
+   */
+  async getPendingApprovals(taskId: string): Promise<ToolCall[]> {
+    await this.authorizeTask('task:read', taskId);
+    return this.a2aService.getPendingApprovals(taskId);
+  }
+
+  /**
+   * List available tools
+   */
+  listTools(): Array<{ name: string; description: string; requiresApproval: boolean }> {
+    this.assertActive();
+    return this.a2aService.listTools();
+  }
+
+  /**
+   * Delegate rights on a task as a capability token
+   *
+   * The token can only carry actions this stub may perform on the task
+   * itself, and never outlives the token this stub was redeemed from.
+   * Holders can narrow it further with attenuateCapabilityToken and
+   * exchange it with A2AService.redeemCapability.
+   *
+   * @param taskId - Task the token is limited to
+   * @param actions - Actions (or patterns such as `tool:execute:*`) to delegate
+   * @param ttl - Lifetime in seconds
+   * @throws ForbiddenError if this stub may not perform one of the actions
+   */
+  async delegate(taskId: string, actions: string[], ttl: number): Promise<{ token: string; id: string; expiresAt: string }> {
+    if (actions.length === 0 || !(ttl > 0)) {
+      throw new InvalidParamsError('Delegation needs at least one action and a positive ttl');
+    }
+    await this.assertOwnsTask(taskId);
+    for (const action of actions) {
+      await this.authorizeTask(action as Action, taskId);
+    }
+
+    const { token, grant } = await this.a2aService.getCapabilityTokenIssuer().mint({
+      userId: this.userId,
+      taskId,
+      actions,
+      expiresAt: new Date(Date.now() + ttl * 1000),
+      parent: this.delegation
+    });
+    log.info({ userId: this.userId, taskId, actions, id: grant.id, expiresAt: grant.expiresAt }, 'Capability delegated');
+
+    return { token, id: grant.id, expiresAt: grant.expiresAt.toISOString() };
+  }
+
+  /**
+   * Revoke a delegated capability token and every token delegated from it
+   *
+   * Users may revoke tokens they delegated; stubs redeemed from a token may
+   * revoke the tokens delegated from theirs.
+   *
+   * @throws ForbiddenError if the token was not delegated by this user or stub
+   */
+  async revokeCapability(token: string): Promise<void> {
+    this.assertActive();
+    const issuer = this.a2aService.getCapabilityTokenIssuer();
+    const grant = await issuer.decode(token);
+
+    const delegatedFromHere = this.delegation
+      ? grant.chain.length > this.delegation.chain.length &&
+        this.delegation.chain.every((id, index) => grant.chain[index] === id)
+      : grant.userId === this.userId;
+    if (!delegatedFromHere) {
+      throw new ForbiddenError('Capability token was not delegated by this user');
+    }
+
+    await issuer.revoke(token);
+    log.info({ userId: this.userId, id: grant.id, taskId: grant.taskId }, 'Capability revoked');
+  }
+
+  /**
+   * List API keys (admin), without their hashes
+   *
+   * @param userId - Only list this user's keys
+   * @throws ForbiddenError without the `admin` permission (or `apikey:list`)
+   */
+  async listApiKeys(userId?: string): Promise<ApiKeyInfo[]> {
+    this.authorize('apikey:list');
+    return await this.requireAuthenticationService().listApiKeys(userId);
+  }
+
+  /**
+   * Revoke an API key (admin)
+   *
+   * @throws ForbiddenError without the `admin` permission (or `apikey:revoke`)
+   * @throws NotFoundError if there is no such key
+   */
+  async revokeApiKey(keyId: string): Promise<void> {
+    this.authorize('apikey:revoke');
+    if (!(await this.requireAuthenticationService().revokeApiKey(keyId))) {
+      throw new NotFoundError(`API key not found: ${keyId}`, { keyId });
+    }
+    log.info({ adminId: this.userId, keyId }, 'API key revoked by admin');
+  }
+
+  private requireAuthenticationService(): AuthenticationService {
+    const authService = this.a2aService.getAuthenticationService();
+    if (!authService) {
+      throw new UnsupportedOperationError('API keys are not supported without an authentication service');
+    }
+    return authService;
+  }
+
+  /**
+   * Ensure a task belongs to this user
+   *
+   * @throws ForbiddenError if the task belongs to another user or to nobody
+   */
+  private async assertOwnsTask(taskId: string): Promise<void> {
+    const task = await this.taskManager.getTask(taskId, 0);
+    if (!task.metadata?.userId || task.metadata.userId !== this.userId) {
+      throw new ForbiddenError('Task does not belong to user');
+    }
+  }
+
+  /**
+   * Messages for an existing task update it; all others create one
+   */
+  private async authorizeMessage(message: Message): Promise<void> {
+    if (message.taskId) {
+      await this.authorizeTask('task:update', message.taskId);
+    } else {
+      this.authorize('task:create');
+    }
+  }
+
+  /**
+   * @throws UnauthorizedError if the capability was disposed
+   * @throws ForbiddenError if the policy denies the action
+   */
+  private authorize(action: Action): void {
+    this.assertActive();
+    this.a2aService.getAuthorizationPolicy().authorize(this.principal, action);
+  }
+
+  /**
+   * Authorize an action on a task, which permissions only grant on the
+   * user's own tasks
+   *
+   * @throws UnauthorizedError if the capability was disposed
+   * @throws TaskNotFoundError if the task doesn't exist
+   * @throws ForbiddenError if the policy denies the action
+   */
+  private async authorizeTask(action: Action, taskId: string): Promise<void> {
+    this.assertActive();
+    const task = await this.taskManager.getTask(taskId, 0);
+    this.a2aService.getAuthorizationPolicy().authorize(this.principal, action, taskId, task.metadata?.userId);
+  }
+
+  /**
+   * Let this stub keep working on a task it created, whatever its
+   * permissions allow on other tasks
+   */
+  private grantTaskOwnership(taskId: string): void {
+    this.principal.capabilities!.capabilities.push({ actions: TASK_OWNER_ACTIONS, taskId });
+  }
+
+  /**
+   * Capabilities this stub holds, including those for tasks it created, so
+   * a stub rebuilt later for the same client can be given them again
+   */
+  getCapabilities(): CapabilitySet {
+    return { capabilities: this.principal.capabilities!.capabilities.map((capability) => ({ ...capability })) };
+  }
+
+  /**
+   * Revoke this capability, e.g. when its session is revoked; later calls
+   * fail with UnauthorizedError. capnweb also calls this when the client
+   * disposes its stub.
+   */
+  [Symbol.dispose](): void {
+    if (!this.disposed) {
+      this.disposed = true;
+      log.info({ userId: this.userId }, 'AuthenticatedA2AService disposed');
+    }
+  }
+
+  /**
+   * @throws UnauthorizedError if the capability was disposed, or the token
+   *   it was redeemed from expired or was revoked
+   */
+  private assertActive(): void {
+    if (this.disposed) {
+      throw new UnauthorizedError('Session revoked');
+    }
+    if (this.delegation) {
+      this.a2aService.getCapabilityTokenIssuer().assertValid(this.delegation);
+    }
+  }
+}
+
+/**
+ * Metadata of a task created by a message: its first webhook and owner
+ */
+function taskMetadata(config: SendMessageConfiguration | undefined, userId: string | undefined): Record<string, any> | undefined {
+  if (!config?.pushNotificationConfig && !userId) {
+    return undefined;
   }
+  return {
+    ...(config?.pushNotificationConfig ? { notificationConfig: config.pushNotificationConfig } : {}),
+    ...(userId ? { userId } : {})
+  };
 }
@@ -0,0 +1,64 @@
+/**
+ * ArtifactWriter - Incrementally builds a streamed artifact
+ *
+ * Returned by TaskManager.openArtifact. Each call appends a chunk to the
+ * stored artifact and emits an artifact update with `append: true`, so
+ * streaming subscribers see the artifact grow (e.g. token by token) while
+ * the stored task always holds the merged result.
+ */
+
+import type { Part } from '../shared/a2a.types.js';
+import type { TaskManager } from './task-manager.js';
+
+export class ArtifactWriter {
+  private closed = false;
+
+  constructor(
+    private taskManager: TaskManager,
+    public readonly taskId: string,
+    public readonly artifactId: string
+  ) {}
+
+  /**
+   * Append a text delta
+   *
+   * Consecutive deltas are merged into a single text part in the stored
+   * artifact; subscribers receive each delta as its own chunk.
+   */
+  async appendText(delta: string): Promise<void> {
+    this.assertOpen();
+    await this.taskManager.appendArtifactChunk(this.taskId, this.artifactId, { text: delta });
+  }
+
+  /**
+   * Append whole parts (files, data, or separate text parts)
+   */
+  async appendParts(parts: Part[]): Promise<void> {
+    this.assertOpen();
+    await this.taskManager.appendArtifactChunk(this.taskId, this.artifactId, { parts });
+  }
+
+  /**
+   * Close the artifact, emitting the `lastChunk` event
+   *
+   * @param parts - Optional final parts to append
+   */
+  async close(parts: Part[] = []): Promise<void> {
+    this.assertOpen();
+    this.closed = true;
+    await this.taskManager.appendArtifactChunk(this.taskId, this.artifactId, { parts, lastChunk: true });
+  }
+
+  /**
+   * Whether close() has been called
+   */
+  isClosed(): boolean {
+    return this.closed;
+  }
+
+  private assertOpen(): void {
+    if (this.closed) {
+      throw new Error(`Artifact ${this.artifactId} is already closed`);
+    }
+  }
+}
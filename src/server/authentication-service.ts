@@ -2,32 +2,28 @@
  * AuthenticationService - Workers-compatible authentication implementation
  *
  * Implements:
- * - JWT validation with signature verification using Web Crypto API
+ * - JWT validation with signature verification using Web Crypto API:
+ *   HS256 with the shared secret, asymmetric keys (RS256, RS384, ES256,
+ *   EdDSA) from this server's JWKS by `kid`, and tokens of trusted identity
+ *   providers, picked by `iss`
  * - API key validation with hashing
- * - OAuth 2.0 token introspection (optional)
+ * - OAuth 2.0 token introspection (RFC 7662, optional): opaque bearer
+ *   tokens are checked with the authorization server and their scopes
+ *   mapped to permissions
  * - Audit logging
  */
 
 import * as jwt from './jwt-worker.js';
-import crypto from 'crypto';
+import type { JwksResolver } from './jwks.js';
+import type { OAuthIntrospector } from './oauth-introspection.js';
+import type { CapabilitySet } from './authorization-policy.js';
+import type { ApiKey, ApiKeyStore } from './store/api-key-store.js';
+import { InMemoryApiKeyStore } from './store/in-memory-api-key-store.js';
+import { randomBytes, randomUUID, sha256, toHex } from '../shared/platform/crypto.js';
 import { createLogger, type Logger } from '../shared/logger.js';
+import { InvalidParamsError, NotFoundError } from '../shared/errors.js';
 
-// Minimal type definitions for missing types - simplified for compilation
-interface Capability {
-  name: string;
-  resource: string;
-  actions?: string[];
-  resources?: string[];
-  expiresAt?: Date;
-}
-
-interface CapabilitySet {
-  capabilities: Capability[];
-  globalCapabilities?: Capability[];
-  taskCapabilities?: Capability[];
-}
-
-interface AuthCredentials {
+export interface AuthCredentials {
   type: 'jwt' | 'apikey' | 'oauth2' | 'bearer';
   token: string;
   apiKey?: string;
@@ -38,28 +34,69 @@ interface AuthResult {
   userId?: string;
   permissions?: string[];
   capabilities?: CapabilitySet;
+  /** Action patterns the credentials are limited to */
+  scopes?: string[];
   metadata?: Record<string, any>;
   expiresAt?: Date;
 }
 
+export type { ApiKey, ApiKeyStore };
+
+/**
+ * An API key as shown to its owner and to operators (without its hash)
+ */
+export type ApiKeyInfo = Omit<ApiKey, 'hashedKey'>;
+
+/** Hex characters of the secret kept in a key's prefix */
+const API_KEY_PREFIX_LENGTH = 8;
+
+/** How stale a key's persisted lastUsedAt may get before it is written again */
+const LAST_USED_RESOLUTION_MS = 60_000;
+
 const log = createLogger('auth-service');
 
+/**
+ * External identity provider whose tokens are accepted
+ */
+export interface TrustedIssuer {
+  /** `iss` claim of the provider's tokens */
+  issuer: string;
+  /** Keys the provider signs with, looked up by `kid` */
+  jwks: JwksResolver;
+  /** Accepted `aud` values (defaults to jwtAudience) */
+  audience?: string | string[];
+  /** Accepted algorithms (defaults to RS256, RS384, ES256 and EdDSA) */
+  algorithms?: jwt.JwtAlgorithm[];
+}
+
+const ASYMMETRIC_ALGORITHMS: jwt.JwtAlgorithm[] = ['RS256', 'RS384', 'ES256', 'EdDSA'];
+
 export interface AuthenticationServiceConfig {
+  /** HMAC secret of HS256 tokens */
   jwtSecret: string;
-  jwtAlgorithm?: string;
+  /**
+   * Algorithm of the tokens this server issues (defaults to HS256, or to the
+   * signing key's algorithm when jwtKeys is set)
+   */
+  jwtAlgorithm?: jwt.JwtAlgorithm;
+  /**
+   * This server's key set: tokens are signed with its first private key
+   * and verified by `kid`
+   */
+  jwtKeys?: JwksResolver;
+  /** Identity providers whose tokens are accepted, by `iss` */
+  trustedIssuers?: TrustedIssuer[];
+  /**
+   * Introspection endpoint for OAuth access tokens; bearer tokens that are
+   * not JWTs are introspected too
+   */
+  oauthIntrospection?: OAuthIntrospector;
   jwtIssuer?: string;
   jwtAudience?: string;
-  apiKeyHashAlgorithm?: string;
-}
-
-export interface ApiKey {
-  id: string;
-  hashedKey: string;
-  userId: string;
-  permissions: string[];
-  expiresAt?: Date;
-  lastUsedAt?: Date;
-  createdAt: Date;
+  /** Only 'sha256' is supported */
+  apiKeyHashAlgorithm?: 'sha256';
+  /** Where API keys live (defaults to in-memory) */
+  apiKeyStore?: ApiKeyStore;
 }
 
 export interface AuthAuditLog {
@@ -73,96 +110,34 @@ export interface AuthAuditLog {
   reason?: string;
 }
 
-/**
- * In-memory API key store (for MVP - use database in production)
- */
-class ApiKeyStore {
-  private keys = new Map<string, ApiKey>();
-
-  async findByHash(hashedKey: string): Promise<ApiKey | null> {
-    for (const key of this.keys.values()) {
-      if (key.hashedKey === hashedKey) {
-        return key;
-      }
-    }
-    return null;
-  }
-
-  async create(apiKey: ApiKey): Promise<void> {
-    this.keys.set(apiKey.id, apiKey);
-  }
-
-  async update(id: string, updates: Partial<ApiKey>): Promise<void> {
-    const key = this.keys.get(id);
-    if (key) {
-      Object.assign(key, updates);
-    }
-  }
-
-  async delete(id: string): Promise<void> {
-    this.keys.delete(id);
-  }
-
-  async list(): Promise<ApiKey[]> {
-    return Array.from(this.keys.values());
-  }
-}
-
 /**
  * Main authentication service
  */
 export class AuthenticationService {
-  private capabilities = new Map<string, CapabilitySet>();
-
-  createCapabilitySet(sessionId: string): CapabilitySet {
-    const capSet: CapabilitySet = {
-      taskCapabilities: {},
-      globalCapabilities: []
-    };
-    this.capabilities.set(sessionId, capSet);
-    return capSet;
-  }
-
-  hasCapability(sessionId: string, action: string, resource: string, taskId?: string): boolean {
-    const caps = this.capabilities.get(sessionId);
-    if (!caps) return false;
-
-    const checkCaps = (capabilities: Capability[]): boolean => {
-      return capabilities.some(cap => 
-        cap.actions.includes(action) && 
-        cap.resources.includes(resource) && 
-        (!cap.expiresAt || cap.expiresAt > Date.now())
-      );
-    };
-
-    // Check global capabilities first
-    if (checkCaps(caps.globalCapabilities)) return true;
-
-    // Check task-specific capabilities
-    if (taskId && caps.taskCapabilities[taskId]) {
-      return checkCaps(caps.taskCapabilities[taskId]);
-    }
-
-    return false;
-  }
-
-  private generateCapabilityId(): string {
-    return crypto.randomUUID();
-  }
-
   private config: AuthenticationServiceConfig;
   private apiKeyStore: ApiKeyStore;
   private revokedTokens = new Set<string>(); // In-memory revocation list
+  private trustedIssuers = new Map<string, TrustedIssuer>();
 
   constructor(config: AuthenticationServiceConfig) {
     this.config = {
-      jwtAlgorithm: 'HS256',
       apiKeyHashAlgorithm: 'sha256',
       ...config
     };
-    this.apiKeyStore = new ApiKeyStore();
+    this.apiKeyStore = config.apiKeyStore ?? new InMemoryApiKeyStore();
 
-    log.info({ config: { jwtIssuer: config.jwtIssuer } }, 'AuthenticationService initialized');
+    if (this.config.apiKeyHashAlgorithm !== 'sha256') {
+      throw new Error(`Unsupported API key hash algorithm: ${this.config.apiKeyHashAlgorithm}`);
+    }
+
+    for (const trusted of config.trustedIssuers ?? []) {
+      this.trustedIssuers.set(trusted.issuer, trusted);
+    }
+
+    log.info(
+      { config: { jwtIssuer: config.jwtIssuer, trustedIssuers: Array.from(this.trustedIssuers.keys()) } },
+      'AuthenticationService initialized'
+    );
   }
 
   /**
@@ -179,11 +154,14 @@ export class AuthenticationService {
 
       switch (credentials.type) {
         case 'bearer':
-          result = await this.validateBearerToken(credentials.token!);
+          result =
+            this.config.oauthIntrospection && !jwt.decode(credentials.token!)
+              ? await this.validateOAuthToken(credentials.token!)
+              : await this.validateBearerToken(credentials.token!);
           break;
 
         case 'apikey':
-          result = await this.validateApiKey(credentials.apiKey || credentials.token!);
+          result = await this.validateApiKey(credentials.apiKey || credentials.token!, metadata?.ipAddress);
           break;
 
         case 'oauth2':
@@ -243,15 +221,26 @@ export class AuthenticationService {
 
   /**
    * Validate JWT bearer token
+   *
+   * Tokens whose `iss` is a trusted issuer are verified with that issuer's
+   * keys; all others must be this server's own tokens.
    */
   private async validateBearerToken(token: string): Promise<AuthResult> {
     try {
       // Verify JWT signature and claims
-      const decoded = await jwt.verify(token, this.config.jwtSecret, {
-        algorithms: [this.config.jwtAlgorithm || 'HS256'],
-        issuer: this.config.jwtIssuer,
-        audience: this.config.jwtAudience
-      });
+      const issuer = jwt.decode(token)?.iss;
+      const trusted = typeof issuer === 'string' ? this.trustedIssuers.get(issuer) : undefined;
+      const decoded = trusted
+        ? await jwt.verify(token, trusted.jwks.resolver(), {
+            algorithms: trusted.algorithms ?? ASYMMETRIC_ALGORITHMS,
+            issuer: trusted.issuer,
+            audience: trusted.audience ?? this.config.jwtAudience
+          })
+        : await jwt.verify(token, (header) => this.localVerificationKey(header), {
+            algorithms: this.localAlgorithms(),
+            issuer: this.config.jwtIssuer,
+            audience: this.config.jwtAudience
+          });
 
       // Check if token is revoked
       const tokenId = decoded.jti;
@@ -298,9 +287,32 @@ export class AuthenticationService {
   }
 
   /**
-   * Validate API key
+   * Key of a token issued by this server: the JWKS key named by `kid`, or
+   * the shared secret for HMAC tokens without one
+   */
+  private async localVerificationKey(header: jwt.JwtHeader): Promise<jwt.JwtKey | undefined> {
+    if (header.kid && this.config.jwtKeys) {
+      return this.config.jwtKeys.getKey(header.kid, header.alg);
+    }
+    if (header.alg.startsWith('HS')) {
+      return this.config.jwtSecret;
+    }
+    return this.config.jwtKeys?.getKey(undefined, header.alg);
+  }
+
+  private localAlgorithms(): jwt.JwtAlgorithm[] {
+    const algorithms: jwt.JwtAlgorithm[] = [this.config.jwtAlgorithm ?? 'HS256'];
+    return this.config.jwtKeys ? [...new Set([...algorithms, 'HS256' as const, ...ASYMMETRIC_ALGORITHMS])] : algorithms;
+  }
+
+  /**
+   * Validate an API key
+   *
+   * Keys are found by the hash of the secret, then checked against their
+   * expiry (shortened to the grace period when the key is rotated) and IP
+   * allowlist. The time of use is persisted, at most once a minute per key.
    */
-  private async validateApiKey(apiKey: string): Promise<AuthResult> {
+  private async validateApiKey(apiKey: string, ipAddress?: string): Promise<AuthResult> {
     try {
       // Extract key prefix (e.g., "ak_live_" or "ak_test_")
       const parts = apiKey.split('_');
@@ -312,7 +324,7 @@ export class AuthenticationService {
       }
 
       // Hash the key
-      const hashedKey = this.hashApiKey(apiKey);
+      const hashedKey = await this.hashApiKey(apiKey);
 
       // Look up in store
       const storedKey = await this.apiKeyStore.findByHash(hashedKey);
@@ -328,22 +340,33 @@ export class AuthenticationService {
       if (storedKey.expiresAt && storedKey.expiresAt < new Date()) {
         return {
           authenticated: false,
-          metadata: { error: 'API key has expired' }
+          metadata: { error: storedKey.rotatedTo ? 'API key has been rotated' : 'API key has expired' }
         };
       }
 
-      // Update last used timestamp (async, don't wait)
-      this.apiKeyStore
-        .update(storedKey.id, { lastUsedAt: new Date() })
-        .catch((err) => log.error({ error: err }, 'Failed to update API key last used'));
+      if (storedKey.allowedIps && !isIpAllowed(ipAddress, storedKey.allowedIps)) {
+        return {
+          authenticated: false,
+          metadata: { error: 'API key is not allowed from this address', keyId: storedKey.id }
+        };
+      }
+
+      const now = Date.now();
+      if (!storedKey.lastUsedAt || now - storedKey.lastUsedAt.getTime() >= LAST_USED_RESOLUTION_MS) {
+        await this.apiKeyStore
+          .update(storedKey.id, { lastUsedAt: new Date(now) })
+          .catch((err) => log.error({ error: err, keyId: storedKey.id }, 'Failed to update API key last used'));
+      }
 
       return {
         authenticated: true,
         userId: storedKey.userId,
         permissions: storedKey.permissions,
-        expiresAt: storedKey.expiresAt?.toISOString(),
+        scopes: storedKey.scopes,
+        expiresAt: storedKey.expiresAt,
         metadata: {
           keyId: storedKey.id,
+          prefix: storedKey.prefix,
           createdAt: storedKey.createdAt.toISOString()
         }
       };
@@ -357,19 +380,34 @@ export class AuthenticationService {
 
   /**
    * Validate OAuth 2.0 token via introspection
-   * (Placeholder implementation - requires OAuth provider configuration)
    */
   private async validateOAuthToken(token: string): Promise<AuthResult> {
-    // In production, this would call the OAuth introspection endpoint
-    // For MVP, we'll just return a not-implemented response
+    if (!this.config.oauthIntrospection) {
+      return {
+        authenticated: false,
+        metadata: {
+          error: 'OAuth 2.0 validation not configured',
+          hint: 'Configure OAUTH_INTROSPECTION_URL in environment'
+        }
+      };
+    }
 
-    log.warn('OAuth 2.0 token validation not fully implemented');
+    const introspection = await this.config.oauthIntrospection.introspect(token);
+    if (!introspection.active) {
+      return {
+        authenticated: false,
+        metadata: { error: introspection.reason ?? 'Token is not active', errorType: 'inactive' }
+      };
+    }
 
     return {
-      authenticated: false,
+      authenticated: true,
+      userId: introspection.userId,
+      permissions: introspection.permissions,
+      expiresAt: introspection.expiresAt,
       metadata: {
-        error: 'OAuth 2.0 validation not configured',
-        hint: 'Configure OAUTH_INTROSPECTION_URL in environment'
+        clientId: introspection.clientId,
+        scopes: introspection.scopes
       }
     };
   }
@@ -377,27 +415,37 @@ export class AuthenticationService {
   /**
    * Hash an API key for storage
    */
-  private hashApiKey(apiKey: string): string {
-    return crypto
-      .createHash(this.config.apiKeyHashAlgorithm!)
-      .update(apiKey)
-      .digest('hex');
+  private async hashApiKey(apiKey: string): Promise<string> {
+    return toHex(await sha256(apiKey));
   }
 
   /**
    * Generate a new API key
+   *
+   * The secret is returned once and only its hash is stored; the key is
+   * stored before this resolves.
+   *
+   * @param options.expiresIn - Lifetime in seconds (keys never expire by default)
+   * @param options.scopes - Action patterns the key is limited to
+   * @param options.allowedIps - IP addresses or IPv4 CIDR ranges the key may be used from
    */
-  generateApiKey(
+  async generateApiKey(
     userId: string,
     permissions: string[],
-    options?: { expiresIn?: number; environment?: 'live' | 'test' }
-  ): { apiKey: string; keyId: string } {
+    options?: {
+      expiresIn?: number;
+      environment?: 'live' | 'test';
+      scopes?: string[];
+      allowedIps?: string[];
+    }
+  ): Promise<{ apiKey: string; keyId: string; prefix: string }> {
     const env = options?.environment || 'test';
-    const keyId = crypto.randomUUID();
-    const randomPart = crypto.randomBytes(32).toString('hex');
+    const keyId = randomUUID();
+    const randomPart = toHex(randomBytes(32));
     const apiKey = `ak_${env}_${randomPart}`;
+    const prefix = `ak_${env}_${randomPart.slice(0, API_KEY_PREFIX_LENGTH)}`;
 
-    const hashedKey = this.hashApiKey(apiKey);
+    const hashedKey = await this.hashApiKey(apiKey);
 
     const expiresAt = options?.expiresIn
       ? new Date(Date.now() + options.expiresIn * 1000)
@@ -405,20 +453,63 @@ export class AuthenticationService {
 
     const keyData: ApiKey = {
       id: keyId,
+      prefix,
       hashedKey,
       userId,
       permissions,
+      scopes: options?.scopes,
+      allowedIps: options?.allowedIps,
       expiresAt,
       createdAt: new Date()
     };
 
-    this.apiKeyStore.create(keyData).catch((err) => {
-      log.error({ error: err }, 'Failed to store API key');
+    await this.apiKeyStore.create(keyData);
+
+    log.info({ userId, keyId, prefix, expiresAt }, 'Generated new API key');
+
+    return { apiKey, keyId, prefix };
+  }
+
+  /**
+   * Replace an API key with a new one
+   *
+   * The new key gets the old one's permissions, scopes, allowlist and
+   * lifetime. The old key keeps working for the grace period, so clients
+   * can switch over without downtime, and then expires.
+   *
+   * @param options.gracePeriod - Seconds the old key stays valid (default: 1 hour)
+   * @throws NotFoundError if there is no such key
+   * @throws InvalidParamsError if the key was already rotated
+   */
+  async rotateApiKey(
+    keyId: string,
+    options?: { gracePeriod?: number }
+  ): Promise<{ apiKey: string; keyId: string; prefix: string }> {
+    const current = await this.apiKeyStore.get(keyId);
+    if (!current) {
+      throw new NotFoundError(`API key not found: ${keyId}`, { keyId });
+    }
+    if (current.rotatedTo) {
+      throw new InvalidParamsError(`API key was already rotated: ${keyId}`, { keyId, rotatedTo: current.rotatedTo });
+    }
+
+    const lifetime = current.expiresAt ? current.expiresAt.getTime() - current.createdAt.getTime() : undefined;
+    const replacement = await this.generateApiKey(current.userId, current.permissions, {
+      expiresIn: lifetime !== undefined ? Math.ceil(lifetime / 1000) : undefined,
+      environment: current.prefix.startsWith('ak_live_') ? 'live' : 'test',
+      scopes: current.scopes,
+      allowedIps: current.allowedIps
+    });
+
+    const graceEnd = Date.now() + (options?.gracePeriod ?? 3600) * 1000;
+    await this.apiKeyStore.update(keyId, {
+      rotatedTo: replacement.keyId,
+      expiresAt: new Date(Math.min(graceEnd, current.expiresAt?.getTime() ?? Infinity))
     });
 
-    log.info({ userId, keyId, expiresAt }, 'Generated new API key');
+    log.info({ userId: current.userId, keyId, replacedBy: replacement.keyId }, 'API key rotated');
 
-    return { apiKey, keyId };
+    return replacement;
   }
 
   /**
@@ -431,20 +522,21 @@ export class AuthenticationService {
 
   /**
    * Revoke an API key
+   *
+   * @returns Whether the key existed
    */
-  async revokeApiKey(keyId: string): Promise<void> {
-    await this.apiKeyStore.delete(keyId);
-    log.info({ keyId }, 'API key revoked');
+  async revokeApiKey(keyId: string): Promise<boolean> {
+    const revoked = await this.apiKeyStore.delete(keyId);
+    log.info({ keyId, revoked }, 'API key revoked');
+    return revoked;
   }
 
   /**
-   * List all API keys for a user
+   * List the API keys of a user, or every key when no user is given
    */
-  async listApiKeys(userId: string): Promise<Array<Omit<ApiKey, 'hashedKey'>>> {
-    const allKeys = await this.apiKeyStore.list();
-    return allKeys
-      .filter((key) => key.userId === userId)
-      .map(({ hashedKey, ...rest }) => rest);
+  async listApiKeys(userId?: string): Promise<ApiKeyInfo[]> {
+    const keys = await this.apiKeyStore.list(userId);
+    return keys.map(({ hashedKey, ...rest }) => rest);
   }
 
   /**
@@ -475,17 +567,18 @@ export class AuthenticationService {
     const payload = {
       sub: userId,
       permissions,
-      jti: options?.tokenId || crypto.randomUUID(),
+      jti: options?.tokenId || randomUUID(),
       iss: this.config.jwtIssuer,
       aud: this.config.jwtAudience
     };
 
-    const signOptions: any = {
-      algorithm: this.config.jwtAlgorithm || 'HS256',
+    const signOptions: jwt.JwtSignOptions = {
+      algorithm: this.config.jwtAlgorithm,
       expiresIn: options?.expiresIn || '1h'
     };
 
-    return jwt.sign(payload, this.config.jwtSecret, signOptions);
+    const signingKey = await this.config.jwtKeys?.getSigningKey();
+    return jwt.sign(payload, signingKey ?? this.config.jwtSecret, signOptions);
   }
 
   /**
@@ -495,3 +588,40 @@ export class AuthenticationService {
     return this.apiKeyStore;
   }
 }
+
+/**
+ * Check an address against an allowlist of addresses and IPv4 CIDR ranges
+ *
+ * IPv4-mapped IPv6 addresses (`::ffff:10.0.0.1`) match their IPv4 form.
+ * Unknown addresses match nothing.
+ */
+function isIpAllowed(ipAddress: string | undefined, allowedIps: string[]): boolean {
+  if (!ipAddress) {
+    return false;
+  }
+  const address = ipAddress.replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/i, '');
+
+  return allowedIps.some((entry) => {
+    const [network, bits] = entry.split('/');
+    if (bits === undefined) {
+      return network.toLowerCase() === address.toLowerCase();
+    }
+
+    const networkValue = ipv4ToNumber(network);
+    const addressValue = ipv4ToNumber(address);
+    const prefix = Number(bits);
+    if (networkValue === undefined || addressValue === undefined || !(prefix >= 0 && prefix <= 32)) {
+      return false;
+    }
+    const mask = prefix === 0 ? 0 : (~0 << (32 - prefix)) >>> 0;
+    return ((networkValue & mask) >>> 0) === ((addressValue & mask) >>> 0);
+  });
+}
+
+function ipv4ToNumber(address: string): number | undefined {
+  const octets = address.split('.');
+  if (octets.length !== 4 || !octets.every((octet) => /^\d{1,3}$/.test(octet) && Number(octet) <= 255)) {
+    return undefined;
+  }
+  return octets.reduce((value, octet) => value * 256 + Number(octet), 0);
+}
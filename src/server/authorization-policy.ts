@@ -0,0 +1,151 @@
+/**
+ * Authorization policy
+ *
+ * Every call on AuthenticatedA2AService names an action. A caller may
+ * perform it when one of their permissions grants it or when they hold a
+ * capability for it:
+ *
+ * - Coarse permissions (`read`, `write`) grant actions through the policy
+ *   rules; `admin` grants every action
+ * - Action permissions grant the action directly, with `*` matching any
+ *   rest of the action (`task:*`, `tool:execute:*`)
+ * - Capabilities grant actions on one task (or on all tasks when they name
+ *   none) until they expire. Creating a task grants its creator a
+ *   capability for it.
+ *
+ * Permissions other than `admin` only reach the caller's own tasks: on a
+ * task owned by someone else, or by nobody, only capabilities grant
+ * anything.
+ *
+ * Credentials can also be limited to scopes (e.g. a scoped API key): then
+ * nothing outside the scopes is granted, whatever the permissions say.
+ * The `apikey:*` actions have no rule, so only `admin` and action
+ * permissions grant them.
+ */
+
+import { ForbiddenError } from '../shared/errors.js';
+
+/**
+ * Actions checked by the policy
+ */
+export type Action =
+  | 'task:create'
+  | 'task:read'
+  | 'task:update'
+  | 'task:cancel'
+  | 'tool:approve'
+  | `tool:execute:${string}`
+  | 'apikey:list'
+  | 'apikey:revoke';
+
+/**
+ * Grant of actions, optionally limited to one task
+ */
+export interface Capability {
+  /** Action patterns, e.g. `task:read` or `tool:execute:*` */
+  actions: string[];
+  /** Task the capability is limited to (all tasks when unset) */
+  taskId?: string;
+  /** ISO 8601 expiry */
+  expiresAt?: string;
+}
+
+export interface CapabilitySet {
+  capabilities: Capability[];
+}
+
+/**
+ * Who is asking: the permissions from their credentials and the
+ * capabilities they hold
+ */
+export interface Principal {
+  userId: string;
+  permissions: string[];
+  capabilities?: CapabilitySet;
+  /** Action patterns the credentials are limited to (unlimited when unset) */
+  scopes?: string[];
+}
+
+/**
+ * Action patterns and the coarse permissions granting them
+ */
+export type PolicyRules = Record<string, string[]>;
+
+export const DEFAULT_POLICY_RULES: PolicyRules = {
+  'task:create': ['write'],
+  'task:read': ['read', 'write'],
+  'task:update': ['write'],
+  'task:cancel': ['write'],
+  'tool:execute:*': ['write'],
+  'tool:approve': ['write']
+};
+
+/** Actions granted on a task to the user who created it */
+export const TASK_OWNER_ACTIONS = ['task:read', 'task:update', 'task:cancel', 'tool:approve'];
+
+/**
+ * Check whether an action pattern covers an action
+ */
+export function matchesAction(pattern: string, action: string): boolean {
+  if (pattern === '*' || pattern === action) {
+    return true;
+  }
+  return pattern.endsWith(':*') && action.startsWith(pattern.slice(0, -1));
+}
+
+export class AuthorizationPolicy {
+  private readonly rules: PolicyRules;
+
+  /**
+   * @param rules - Replace the default rules (actions without a rule are
+   *   only granted by action permissions and capabilities)
+   */
+  constructor(rules: PolicyRules = DEFAULT_POLICY_RULES) {
+    this.rules = rules;
+  }
+
+  /**
+   * Check whether a principal may perform an action
+   *
+   * @param taskId - Task the action applies to, if any
+   * @param taskOwner - User who owns that task
+   */
+  isAllowed(principal: Principal, action: Action, taskId?: string, taskOwner?: string): boolean {
+    const { permissions } = principal;
+    if (principal.scopes && !principal.scopes.some((pattern) => matchesAction(pattern, action))) {
+      return false;
+    }
+    if (permissions.includes('admin')) {
+      return true;
+    }
+    if ((taskId === undefined || taskOwner === principal.userId) && this.permissionsGrant(permissions, action)) {
+      return true;
+    }
+
+    const now = Date.now();
+    return (principal.capabilities?.capabilities ?? []).some(
+      (capability) =>
+        (capability.taskId === undefined || capability.taskId === taskId) &&
+        (!capability.expiresAt || Date.parse(capability.expiresAt) > now) &&
+        capability.actions.some((pattern) => matchesAction(pattern, action))
+    );
+  }
+
+  /**
+   * @throws ForbiddenError if the principal may not perform the action
+   */
+  authorize(principal: Principal, action: Action, taskId?: string, taskOwner?: string): void {
+    if (!this.isAllowed(principal, action, taskId, taskOwner)) {
+      throw new ForbiddenError(`Not allowed to ${action}${taskId ? ` on task ${taskId}` : ''}`, { action, taskId });
+    }
+  }
+
+  private permissionsGrant(permissions: string[], action: Action): boolean {
+    if (permissions.some((permission) => matchesAction(permission, action))) {
+      return true;
+    }
+    return Object.entries(this.rules).some(
+      ([pattern, granting]) => matchesAction(pattern, action) && granting.some((permission) => permissions.includes(permission))
+    );
+  }
+}
@@ -0,0 +1,267 @@
+/**
+ * Delegable capability tokens
+ *
+ * A capability token hands someone a narrow right on one task ("read task
+ * X and approve its tool calls for 10 minutes") without sharing the
+ * delegator's credentials. Tokens are macaroon-style: the first segment
+ * names the task, actions, expiry and delegation chain, and each later
+ * segment is a caveat that can only narrow them. Every segment chains the
+ * HMAC signature, so anyone holding a token can attenuate it further
+ * without the server (see attenuateCapabilityToken), but nobody can widen
+ * it.
+ *
+ * Each minted token records the IDs of the tokens it was delegated from.
+ * Revoking a token therefore revokes every token delegated from it, and
+ * every attenuation of those, on their next use. Revocations are kept in
+ * memory until the revoked token would have expired anyway.
+ */
+
+import { fromBase64Url, hmacSha256, randomBytes, randomUUID, timingSafeEqual, toBase64Url } from '../shared/platform/crypto.js';
+import { UnauthorizedError } from '../shared/errors.js';
+import { matchesAction } from './authorization-policy.js';
+
+/**
+ * Narrowing appended to a token
+ */
+export interface Caveat {
+  /** Only these actions (patterns) of the ones granted so far */
+  actions?: string[];
+  /** Expiry no later than this (ms since epoch) */
+  expiresAt?: number;
+}
+
+interface RootSegment {
+  /** Token IDs from the first delegation down to this token */
+  chain: string[];
+  userId: string;
+  taskId: string;
+  actions: string[];
+  expiresAt: number;
+}
+
+/**
+ * What a verified token grants
+ */
+export interface CapabilityGrant {
+  /** ID of the minted token (attenuations share it) */
+  id: string;
+  /** Token IDs from the first delegation down to this token */
+  chain: string[];
+  /** User who delegated the first token in the chain */
+  userId: string;
+  taskId: string;
+  actions: string[];
+  expiresAt: Date;
+}
+
+/**
+ * Error thrown for malformed, tampered, expired or revoked capability tokens
+ */
+export class InvalidCapabilityTokenError extends UnauthorizedError {
+  name = 'InvalidCapabilityTokenError';
+}
+
+/**
+ * Narrow a token without the server's secret
+ *
+ * @param token - Token from CapabilityTokenIssuer.mint or an earlier attenuation
+ * @param caveat - Actions and expiry to narrow the token to
+ */
+export async function attenuateCapabilityToken(token: string, caveat: Caveat): Promise<string> {
+  const segments = token.split('.');
+  if (segments.length < 2) {
+    throw new InvalidCapabilityTokenError('Malformed capability token');
+  }
+
+  const signature = fromBase64Url(segments.pop()!);
+  const segment = encodeSegment(caveat);
+  return [...segments, segment, toBase64Url(await hmacSha256(signature, segment))].join('.');
+}
+
+/**
+ * Mints, verifies and revokes capability tokens with a server-side secret
+ */
+export class CapabilityTokenIssuer {
+  private readonly secret: Uint8Array;
+  /** Revoked token ID -> when the revocation can be forgotten (ms since epoch) */
+  private revoked = new Map<string, number>();
+
+  /**
+   * @param secret - HMAC secret. Defaults to a random per-process secret,
+   *   which invalidates outstanding tokens on restart.
+   */
+  constructor(secret?: string) {
+    this.secret = secret ? new TextEncoder().encode(secret) : randomBytes(32);
+  }
+
+  /**
+   * Mint a token for actions on a task
+   *
+   * @param parent - Grant the new token is delegated from; the new token
+   *   never outlives it
+   */
+  async mint(params: {
+    userId: string;
+    taskId: string;
+    actions: string[];
+    expiresAt: Date;
+    parent?: CapabilityGrant;
+  }): Promise<{ token: string; grant: CapabilityGrant }> {
+    const id = randomUUID();
+    const expiresAt = Math.min(params.expiresAt.getTime(), params.parent?.expiresAt.getTime() ?? Infinity);
+    const root: RootSegment = {
+      chain: [...(params.parent?.chain ?? []), id],
+      userId: params.parent?.userId ?? params.userId,
+      taskId: params.taskId,
+      actions: params.actions,
+      expiresAt
+    };
+
+    const segment = encodeSegment(root);
+    return {
+      token: `${segment}.${toBase64Url(await hmacSha256(this.secret, segment))}`,
+      grant: { id, chain: root.chain, userId: root.userId, taskId: root.taskId, actions: root.actions, expiresAt: new Date(expiresAt) }
+    };
+  }
+
+  /**
+   * Verify a token and apply its caveats
+   *
+   * @throws InvalidCapabilityTokenError if the token is malformed, has a bad
+   *   signature, has expired, grants nothing or was revoked
+   */
+  async verify(token: string): Promise<CapabilityGrant> {
+    const grant = await this.decode(token);
+    this.assertValid(grant);
+    return grant;
+  }
+
+  /**
+   * Check a token's signature and apply its caveats, without checking
+   * whether it is still valid
+   *
+   * @throws InvalidCapabilityTokenError if the token is malformed or has a
+   *   bad signature
+   */
+  async decode(token: string): Promise<CapabilityGrant> {
+    return (await this.parse(token)).grant;
+  }
+
+  /**
+   * Revoke a token and everything delegated from it
+   *
+   * Attenuations share the ID of the token they narrow, so revoking one
+   * revokes that token.
+   *
+   * @returns What the token granted
+   * @throws InvalidCapabilityTokenError if the token is malformed or has a
+   *   bad signature
+   */
+  async revoke(token: string): Promise<CapabilityGrant> {
+    const { root, grant } = await this.parse(token);
+    this.purge();
+    // Attenuations may expire earlier than the token itself
+    this.revoked.set(grant.id, root.expiresAt);
+    return grant;
+  }
+
+  private async parse(token: string): Promise<{ root: RootSegment; grant: CapabilityGrant }> {
+    const segments = token.split('.');
+    const signature = segments.pop();
+    if (!signature || segments.length === 0) {
+      throw new InvalidCapabilityTokenError('Malformed capability token');
+    }
+
+    let expected = await hmacSha256(this.secret, segments[0]);
+    for (const segment of segments.slice(1)) {
+      expected = await hmacSha256(expected, segment);
+    }
+    const encoder = new TextEncoder();
+    if (!timingSafeEqual(encoder.encode(toBase64Url(expected)), encoder.encode(signature))) {
+      throw new InvalidCapabilityTokenError('Invalid capability token signature');
+    }
+
+    let root: RootSegment;
+    let caveats: Caveat[];
+    try {
+      root = decodeSegment<RootSegment>(segments[0]);
+      caveats = segments.slice(1).map((segment) => decodeSegment<Caveat>(segment));
+    } catch {
+      throw new InvalidCapabilityTokenError('Malformed capability token');
+    }
+
+    let { actions, expiresAt } = root;
+    for (const caveat of caveats) {
+      if (caveat.actions) {
+        actions = narrowActions(actions, caveat.actions);
+      }
+      if (caveat.expiresAt !== undefined) {
+        expiresAt = Math.min(expiresAt, caveat.expiresAt);
+      }
+    }
+
+    return {
+      root,
+      grant: {
+        id: root.chain[root.chain.length - 1],
+        chain: root.chain,
+        userId: root.userId,
+        taskId: root.taskId,
+        actions,
+        expiresAt: new Date(expiresAt)
+      }
+    };
+  }
+
+  /**
+   * Check whether a grant, or any grant it was delegated from, was revoked
+   */
+  isRevoked(grant: Pick<CapabilityGrant, 'chain'>): boolean {
+    return grant.chain.some((id) => this.revoked.has(id));
+  }
+
+  /**
+   * @throws InvalidCapabilityTokenError if the grant has expired, grants
+   *   nothing or was revoked
+   */
+  assertValid(grant: CapabilityGrant): void {
+    if (grant.expiresAt.getTime() <= Date.now()) {
+      throw new InvalidCapabilityTokenError('Capability token has expired');
+    }
+    if (grant.actions.length === 0) {
+      throw new InvalidCapabilityTokenError('Capability token grants no actions');
+    }
+    if (this.isRevoked(grant)) {
+      throw new InvalidCapabilityTokenError('Capability token has been revoked');
+    }
+  }
+
+  private purge(): void {
+    const now = Date.now();
+    for (const [id, until] of this.revoked) {
+      if (until <= now) {
+        this.revoked.delete(id);
+      }
+    }
+  }
+}
+
+/**
+ * Actions covered by both sets: each action of one set that a pattern of
+ * the other covers
+ */
+function narrowActions(granted: string[], allowed: string[]): string[] {
+  const narrowed = [
+    ...granted.filter((action) => allowed.some((pattern) => matchesAction(pattern, action))),
+    ...allowed.filter((action) => granted.some((pattern) => matchesAction(pattern, action)))
+  ];
+  return Array.from(new Set(narrowed));
+}
+
+function encodeSegment(value: RootSegment | Caveat): string {
+  return toBase64Url(JSON.stringify(value));
+}
+
+function decodeSegment<T>(segment: string): T {
+  return JSON.parse(new TextDecoder().decode(fromBase64Url(segment)));
+}
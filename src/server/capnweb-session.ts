@@ -0,0 +1,144 @@
+/**
+ * Cap'n Web RPC sessions
+ *
+ * Runs a capnweb session over a WebSocket connection. The client's main
+ * stub is a PublicA2AService, which only offers the agent card,
+ * authentication and redeeming delegated capability tokens; both return an
+ * AuthenticatedA2AService capability, and everything else (streaming tasks, callbacks) is passed
+ * by reference from there. Calls can be pipelined, e.g.
+ * `main.authenticate(creds).sendMessageStreaming(msg, config, callback)`
+ * takes one round trip, and disposing a stub on the client releases the
+ * object on the server.
+ */
+
+import { RpcSession, RpcTarget } from 'capnweb';
+import type { WebSocket } from 'ws';
+import { createLogger } from '../shared/logger.js';
+import { UnauthorizedError, toCapnwebError } from '../shared/errors.js';
+import { WsRpcTransport } from '../shared/ws-rpc-transport.js';
+import type { A2AService, AuthenticatedA2AService } from './a2a-service.js';
+import type { AuthCredentials } from './authentication-service.js';
+import type { ClientInfo, Session, SessionManager } from './session-manager.js';
+import type { AgentCard } from '../shared/a2a.types.js';
+
+const log = createLogger('capnweb-session');
+
+export interface PublicA2AServiceOptions {
+  /** The connected client, checked against sessions bound to clients */
+  client?: ClientInfo;
+  /** Called after a session this connection authenticated with is revoked */
+  onSessionRevoked?: (session: Session) => void;
+}
+
+/**
+ * Bootstrap capability handed to every capnweb client
+ */
+export class PublicA2AService extends RpcTarget {
+  /** Capabilities handed out per session, disposed when it is revoked */
+  private sessionServices = new Map<string, AuthenticatedA2AService[]>();
+
+  constructor(
+    private a2aService: A2AService,
+    private sessionManager: SessionManager,
+    private options: PublicA2AServiceOptions = {}
+  ) {
+    super();
+  }
+
+  /**
+   * Get agent card (public information)
+   */
+  getAgentCard(): AgentCard {
+    return this.a2aService.getAgentCard();
+  }
+
+  /**
+   * Authenticate with credentials (Bearer JWT, API key, ...)
+   *
+   * @returns Capability scoped to the authenticated user
+   * @throws UnauthorizedError if the credentials are invalid or an API key
+   *   is used from an address outside its allowlist
+   */
+  async authenticate(credentials: AuthCredentials): Promise<AuthenticatedA2AService> {
+    return await this.a2aService.authenticate(credentials, this.options.client);
+  }
+
+  /**
+   * Redeem a capability token delegated by another user
+   *
+   * @returns Capability limited to the token's task and actions
+   * @throws UnauthorizedError if the token is invalid, expired or revoked
+   */
+  async redeemCapability(token: string): Promise<AuthenticatedA2AService> {
+    return await this.a2aService.redeemCapability(token);
+  }
+
+  /**
+   * Authenticate with a session ID obtained from `POST /a2a/auth`
+   *
+   * @returns Capability scoped to the session's user
+   * @throws UnauthorizedError if the session is invalid or expired
+   */
+  async authenticateSession(sessionId: string): Promise<AuthenticatedA2AService> {
+    const session = await this.sessionManager.validateSession(sessionId, this.options.client);
+    if (!session) {
+      throw new UnauthorizedError('Invalid or expired session');
+    }
+
+    await this.sessionManager.touchSession(sessionId);
+    log.info({ userId: session.userId }, 'capnweb session authenticated');
+
+    const service = this.a2aService.createAuthenticatedService(session.userId, session.permissions, session.capabilities);
+    if (this.sessionServices.size === 0) {
+      this.sessionManager.on('session:revoked', this.onSessionRevoked);
+    }
+    this.sessionServices.set(sessionId, [...(this.sessionServices.get(sessionId) ?? []), service]);
+    return service;
+  }
+
+  /**
+   * Called by capnweb when the connection ends
+   */
+  [Symbol.dispose](): void {
+    this.sessionManager.off('session:revoked', this.onSessionRevoked);
+    this.sessionServices.clear();
+  }
+
+  private onSessionRevoked = (session: Session): void => {
+    const services = this.sessionServices.get(session.id);
+    if (!services) {
+      return;
+    }
+
+    this.sessionServices.delete(session.id);
+    if (this.sessionServices.size === 0) {
+      this.sessionManager.off('session:revoked', this.onSessionRevoked);
+    }
+    for (const service of services) {
+      service[Symbol.dispose]();
+    }
+    log.info({ userId: session.userId }, 'capnweb session revoked');
+    this.options.onSessionRevoked?.(session);
+  };
+}
+
+/**
+ * Start a capnweb session on a WebSocket
+ *
+ * The session ends when the socket closes; capnweb then disposes every
+ * capability the client still held.
+ *
+ * @param socket - Accepted WebSocket
+ * @param main - Capability exposed as the client's main stub
+ */
+export function startCapnwebSession(socket: WebSocket, main: RpcTarget): void {
+  log.info('capnweb session started');
+
+  new RpcSession(new WsRpcTransport(socket), main, {
+    onSendError: (error) => {
+      log.warn({ error: error.message }, 'RPC call failed');
+      // Send the A2A error payload, never the server-side stack
+      return toCapnwebError(error);
+    }
+  });
+}
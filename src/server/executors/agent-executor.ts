@@ -0,0 +1,101 @@
+/**
+ * Core AgentExecutor interfaces used by A2AService.
+ *
+ * A2AService owns the protocol (task creation, history, cancellation);
+ * an AgentExecutor owns the agent logic that turns an incoming message into
+ * status changes, artifacts and tool calls. Executors never touch
+ * TaskManager directly - they publish through the AgentEventBus they are
+ * handed for each execution.
+ */
+
+import type { Artifact, Message, Task, TaskState } from '../../shared/a2a.types.js';
+import type { ArtifactWriter } from '../artifact-writer.js';
+import type { TaskManager } from '../task-manager.js';
+import type { ToolCall, ToolExecutor } from '../tool-executor.js';
+
+export interface AgentExecutionContext {
+  /** Snapshot of the task at the time execution started */
+  task: Task;
+  /** The message that triggered this execution */
+  message: Message;
+  /** Publishes status changes, artifacts and tool calls for this task */
+  eventBus: AgentEventBus;
+  /** Aborted when the task is canceled */
+  signal: AbortSignal;
+}
+
+export interface AgentExecutor {
+  /**
+   * Handle one incoming message for a task.
+   *
+   * The returned promise should settle once the executor has published its
+   * final state for this turn (completed, failed, input-required, ...).
+   * Rejecting marks the task as failed unless it was canceled.
+   */
+  execute(context: AgentExecutionContext): Promise<void>;
+}
+
+/**
+ * Per-task event bus handed to an AgentExecutor
+ *
+ * Every method writes through TaskManager, which persists the change and
+ * emits `task:update` for streaming subscribers.
+ */
+export class AgentEventBus {
+  constructor(
+    public readonly taskId: string,
+    public readonly contextId: string,
+    private taskManager: TaskManager,
+    private toolExecutor: ToolExecutor
+  ) {}
+
+  /**
+   * Move the task to a new state
+   *
+   * @param state - New task state
+   * @param message - Optional status message; agent messages are also
+   *   appended to the task history
+   */
+  async publishStatus(state: TaskState, message?: Message): Promise<void> {
+    if (message) {
+      await this.taskManager.addMessageToHistory(this.taskId, message);
+    }
+    await this.taskManager.updateTaskStatus(this.taskId, state, message);
+  }
+
+  /**
+   * Append a message to the task history without changing state
+   */
+  async publishMessage(message: Message): Promise<void> {
+    await this.taskManager.addMessageToHistory(this.taskId, message);
+  }
+
+  /**
+   * Attach an artifact to the task
+   */
+  async publishArtifact(artifact: Artifact): Promise<void> {
+    await this.taskManager.addArtifact(this.taskId, artifact);
+  }
+
+  /**
+   * Open an artifact that is streamed in chunks
+   *
+   * Subscribers receive each chunk as it is appended; close the returned
+   * writer when the artifact is complete.
+   */
+  async openArtifact(init: Partial<Artifact> = {}): Promise<ArtifactWriter> {
+    return this.taskManager.openArtifact(this.taskId, init);
+  }
+
+  /**
+   * Start a tool call in the context of this task
+   *
+   * Tools that need approval move the task to input-required until the
+   * client approves or rejects the call.
+   */
+  async executeTool(toolName: string, input?: Record<string, any>): Promise<ToolCall> {
+    const toolCall = await this.toolExecutor.executeTool(this.taskId, toolName, input);
+    await this.taskManager.addToolCall(this.taskId, toolCall);
+    return toolCall;
+  }
+}
@@ -0,0 +1,69 @@
+import { createLogger } from '../../shared/logger.js';
+import type { Message, Part } from '../../shared/a2a.types.js';
+import { Role, TaskState } from '../../shared/a2a.types.js';
+import type { AgentExecutionContext, AgentExecutor } from './agent-executor.js';
+
+const log = createLogger('echo-agent-executor');
+
+export interface EchoAgentExecutorOptions {
+  /** Simulated processing time in milliseconds (default 100) */
+  delayMs?: number;
+}
+
+/**
+ * Reference executor that echoes the text parts of the incoming message.
+ *
+ * This is the default executor and reproduces the original MVP behaviour:
+ * wait briefly, reply "Echo: ..." and complete the task.
+ */
+export class EchoAgentExecutor implements AgentExecutor {
+  private readonly delayMs: number;
+
+  constructor(options: EchoAgentExecutorOptions = {}) {
+    this.delayMs = options.delayMs ?? 100;
+  }
+
+  async execute({ task, message, eventBus, signal }: AgentExecutionContext): Promise<void> {
+    log.info({ taskId: task.id, messageId: message.messageId }, 'Processing message');
+
+    // Simulate some processing time
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, this.delayMs);
+      signal.addEventListener('abort', () => {
+        clearTimeout(timer);
+        resolve();
+      }, { once: true });
+    });
+
+    if (signal.aborted) {
+      log.info({ taskId: task.id }, 'Execution aborted');
+      return;
+    }
+
+    // Extract text from message parts
+    const textParts = message.parts
+      .filter((p: Part): p is Part & { text: string } => p.text !== undefined)
+      .map((p: Part & { text: string }) => p.text)
+      .join(' ');
+
+    const responseMessage: Message = {
+      messageId: `msg-${Date.now()}`,
+      contextId: message.contextId,
+      taskId: task.id,
+      role: Role.ROLE_AGENT,
+      parts: [
+        {
+          text: `Echo: ${textParts}`,
+          metadata: {}
+        }
+      ],
+      metadata: {},
+      extensions: [],
+      referenceTaskIds: []
+    };
+
+    await eventBus.publishStatus(TaskState.TASK_STATE_COMPLETED, responseMessage);
+
+    log.info({ taskId: task.id }, 'Message processing completed');
+  }
+}
@@ -0,0 +1,65 @@
+import { randomUUID } from '../../shared/platform/crypto.js';
+import { createLogger } from '../../shared/logger.js';
+import type { Message, Part } from '../../shared/a2a.types.js';
+import { Role, TaskState } from '../../shared/a2a.types.js';
+import type { AgentExecutionContext, AgentExecutor } from './agent-executor.js';
+
+const log = createLogger('function-agent-executor');
+
+/**
+ * Handler for FunctionAgentExecutor
+ *
+ * Receives the concatenated text of the incoming message and the full
+ * execution context. Returning a string replies with a text message;
+ * returning a Message replies with it as-is; returning nothing leaves the
+ * task state to the handler (e.g. it published input-required itself).
+ */
+export type AgentHandler = (
+  text: string,
+  context: AgentExecutionContext
+) => Promise<string | Message | void> | string | Message | void;
+
+/**
+ * Reference executor that adapts a plain async function.
+ *
+ * Useful for simple request/response agents that don't need to stream
+ * intermediate states: the handler's reply completes the task.
+ */
+export class FunctionAgentExecutor implements AgentExecutor {
+  constructor(private handler: AgentHandler) {}
+
+  async execute(context: AgentExecutionContext): Promise<void> {
+    const { task, message, eventBus, signal } = context;
+
+    const text = message.parts
+      .filter((p: Part): p is Part & { text: string } => p.text !== undefined)
+      .map((p: Part & { text: string }) => p.text)
+      .join(' ');
+
+    const reply = await this.handler(text, context);
+
+    if (signal.aborted) {
+      log.info({ taskId: task.id }, 'Execution aborted, discarding reply');
+      return;
+    }
+
+    if (reply === undefined) {
+      return;
+    }
+
+    const responseMessage: Message = typeof reply === 'string'
+      ? {
+          messageId: randomUUID(),
+          contextId: task.contextId,
+          taskId: task.id,
+          role: Role.ROLE_AGENT,
+          parts: [{ text: reply, metadata: {} }],
+          metadata: {},
+          extensions: [],
+          referenceTaskIds: []
+        }
+      : reply;
+
+    await eventBus.publishStatus(TaskState.TASK_STATE_COMPLETED, responseMessage);
+  }
+}
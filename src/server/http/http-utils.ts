@@ -0,0 +1,113 @@
+/**
+ * Shared helpers for the HTTP bindings of the standalone server
+ *
+ * Authenticates requests from their Bearer token, reads JSON bodies, and
+ * sends A2A errors with their HTTP status codes.
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { A2AService, AuthenticatedA2AService } from '../a2a-service.js';
+import type { AuthenticationService } from '../authentication-service.js';
+import {
+  InvalidRequestError,
+  PayloadTooLargeError,
+  RateLimitedError,
+  UnauthorizedError,
+  toA2AError
+} from '../../shared/errors.js';
+
+const MAX_BODY_BYTES = 1024 * 1024; // 1 MiB
+
+/**
+ * Authenticate an HTTP request from its `Authorization: Bearer` header
+ *
+ * @returns Service scoped to the authenticated user
+ * @throws UnauthorizedError if the header is missing or the token is invalid
+ */
+export async function authenticateRequest(
+  req: IncomingMessage,
+  a2aService: A2AService,
+  authService: AuthenticationService
+): Promise<AuthenticatedA2AService> {
+  const { userId, permissions } = await authenticateBearer(req.headers.authorization, authService, {
+    ipAddress: req.socket.remoteAddress,
+    userAgent: req.headers['user-agent']
+  });
+  return a2aService.createAuthenticatedService(userId, permissions);
+}
+
+/**
+ * Authenticate the value of an `Authorization: Bearer` header
+ *
+ * Also used by the Workers deployment, which has no IncomingMessage.
+ *
+ * @returns The authenticated user and their permissions
+ * @throws UnauthorizedError if the header is missing or the token is invalid
+ */
+export async function authenticateBearer(
+  authorization: string | null | undefined,
+  authService: AuthenticationService,
+  metadata?: { ipAddress?: string; userAgent?: string }
+): Promise<{ userId: string; permissions: string[] }> {
+  const [scheme, token] = (authorization || '').split(' ');
+
+  if (!token || scheme.toLowerCase() !== 'bearer') {
+    throw new UnauthorizedError('Missing or unsupported Authorization header');
+  }
+
+  const authResult = await authService.authenticate({ type: 'bearer', token }, metadata);
+
+  if (!authResult.authenticated) {
+    throw new UnauthorizedError(authResult.metadata?.error || 'Invalid or expired token');
+  }
+
+  return { userId: authResult.userId!, permissions: authResult.permissions || [] };
+}
+
+/**
+ * Read and parse a JSON request body
+ *
+ * @throws InvalidRequestError if the body is not valid JSON
+ * @throws PayloadTooLargeError if the body exceeds 1 MiB
+ */
+export async function readJsonBody(req: IncomingMessage): Promise<any> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new PayloadTooLargeError('Request body too large');
+    }
+    chunks.push(chunk);
+  }
+
+  if (size === 0) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new InvalidRequestError('Request body is not valid JSON');
+  }
+}
+
+/**
+ * Send an error as a JSON `{ error, message, data? }` response
+ *
+ * Errors that aren't A2AErrors are reported as INTERNAL_ERROR without
+ * their details.
+ */
+export function sendJsonError(res: ServerResponse, error: unknown, headers: Record<string, string> = {}): void {
+  const a2aError = toA2AError(error);
+  const { code, message, data } = a2aError.toJSON();
+
+  res.writeHead(a2aError.httpStatus, {
+    'Content-Type': 'application/json',
+    ...(code === 'UNAUTHORIZED' ? { 'WWW-Authenticate': 'Bearer realm="a2a"' } : {}),
+    ...(a2aError instanceof RateLimitedError ? { 'Retry-After': String(a2aError.retryAfter) } : {}),
+    ...headers
+  });
+  res.end(JSON.stringify(data ? { error: code, message, data } : { error: code, message }));
+}
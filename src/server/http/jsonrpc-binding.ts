@@ -0,0 +1,106 @@
+/**
+ * JSON-RPC 2.0 over HTTP
+ *
+ * Serves the A2A JSON-RPC binding at `POST /` (the agent URL). Regular
+ * requests and batches get a JSON response, notification-only payloads a
+ * 204. Streaming requests (`message/stream`, `tasks/resubscribe`) are
+ * answered with an SSE stream whose events each carry one JSON-RPC response.
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Logger } from '../../shared/logger.js';
+import type { A2AService } from '../a2a-service.js';
+import type { AuthenticationService } from '../authentication-service.js';
+import {
+  JsonRpcErrorCode,
+  errorResponse,
+  toJsonRpcError,
+  type JsonRpcDispatcher
+} from '../jsonrpc/jsonrpc-dispatcher.js';
+import { authenticateRequest, readJsonBody } from './http-utils.js';
+import { openEventStream } from './sse-binding.js';
+
+/**
+ * Handle a JSON-RPC request sent over HTTP POST
+ */
+export async function handleJsonRpcRequest({
+  req,
+  res,
+  dispatcher,
+  a2aService,
+  authService,
+  logger,
+  corsHeaders
+}: {
+  req: IncomingMessage;
+  res: ServerResponse;
+  dispatcher: JsonRpcDispatcher;
+  a2aService: A2AService;
+  authService: AuthenticationService;
+  logger: Logger;
+  corsHeaders: Record<string, string>;
+}): Promise<void> {
+  const sendJson = (status: number, body: unknown) => {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...corsHeaders });
+    res.end(JSON.stringify(body));
+  };
+
+  let payload: unknown;
+  try {
+    payload = await readJsonBody(req);
+  } catch (error: any) {
+    sendJson(200, errorResponse(null, { code: JsonRpcErrorCode.PARSE_ERROR, message: error.message }));
+    return;
+  }
+
+  let service;
+  try {
+    service = await authenticateRequest(req, a2aService, authService);
+  } catch (error: any) {
+    const id = Array.isArray(payload) ? null : (payload as any)?.id ?? null;
+    res.setHeader('WWW-Authenticate', 'Bearer realm="a2a"');
+    sendJson(401, errorResponse(id, toJsonRpcError(error)));
+    return;
+  }
+
+  let stream: ReturnType<typeof openEventStream> | undefined;
+
+  const response = await dispatcher.handle(payload, {
+    service,
+    openStream: dispatcher.isStreamingRequest(payload)
+      ? (_id, streamingTask) => {
+          stream = openEventStream(res, corsHeaders);
+          const sse = stream;
+          req.on('close', () => {
+            sse.close();
+            streamingTask.dispose();
+          });
+          return {
+            send: (rpcResponse) => sse.send(undefined, rpcResponse),
+            close: () => {
+              sse.close();
+              streamingTask.dispose();
+            }
+          };
+        }
+      : undefined
+  });
+
+  if (stream) {
+    // Errors after the stream opened are sent as a last event
+    if (response) {
+      stream.send(undefined, response);
+      stream.close();
+    }
+    return;
+  }
+
+  if (response === undefined) {
+    res.writeHead(204, corsHeaders);
+    res.end();
+    return;
+  }
+
+  logger.debug({ batch: Array.isArray(response) }, 'JSON-RPC response');
+  sendJson(200, response);
+}
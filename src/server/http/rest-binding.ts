@@ -0,0 +1,126 @@
+/**
+ * HTTP+JSON REST binding
+ *
+ * Serves the A2A methods at the paths of their `google.api.http`
+ * annotations (see shared/http-routes.ts), e.g. `POST /v1/message:send`,
+ * `GET /v1/tasks/{id}` and `POST /v1/tasks/{id}:cancel`. Requests are
+ * authenticated with a Bearer token and dispatched to the
+ * AuthenticatedA2AService of the caller, so ownership checks are the same
+ * as over WebSocket. Streaming methods are answered by the SSE binding.
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Logger } from '../../shared/logger.js';
+import type { A2AService, AuthenticatedA2AService } from '../a2a-service.js';
+import type { AuthenticationService } from '../authentication-service.js';
+import { parseTaskName } from '../resource-names.js';
+import { authenticateRequest, readJsonBody, sendJsonError } from './http-utils.js';
+import { handleSseRequest } from './sse-binding.js';
+import { buildRequest, type HttpRouteMatch } from '../../shared/http-routes.js';
+import { InvalidParamsError } from '../../shared/errors.js';
+import type {
+  CancelTaskRequest,
+  DeleteTaskPushNotificationConfigRequest,
+  GetExtendedAgentCardRequest,
+  GetTaskPushNotificationConfigRequest,
+  GetTaskRequest,
+  ListTaskPushNotificationConfigRequest,
+  ListTasksRequest,
+  Message,
+  SendMessageRequest,
+  SetTaskPushNotificationConfigRequest
+} from '../../shared/a2a.types.js';
+
+/**
+ * Request type of each method answered here (streaming methods go to SSE)
+ */
+interface RestRequests {
+  /** Older clients send the message as `message` */
+  SendMessage: SendMessageRequest & { message?: Message };
+  GetTask: GetTaskRequest;
+  ListTasks: ListTasksRequest;
+  CancelTask: CancelTaskRequest;
+  SetTaskPushNotificationConfig: SetTaskPushNotificationConfigRequest;
+  GetTaskPushNotificationConfig: GetTaskPushNotificationConfigRequest;
+  ListTaskPushNotificationConfig: ListTaskPushNotificationConfigRequest;
+  DeleteTaskPushNotificationConfig: DeleteTaskPushNotificationConfigRequest;
+  GetExtendedAgentCard: GetExtendedAgentCardRequest;
+}
+
+type RestHandlers = {
+  [M in keyof RestRequests]: (service: AuthenticatedA2AService, request: RestRequests[M]) => Promise<unknown>;
+};
+
+const HANDLERS: RestHandlers = {
+  SendMessage: async (service, request) => {
+    const message = request.request ?? request.message;
+    if (!message) {
+      throw new InvalidParamsError('Missing message');
+    }
+    const result = await service.sendMessage(message, request.configuration);
+    return 'status' in result ? { task: result } : { msg: result };
+  },
+  GetTask: (service, request) => service.getTask(parseTaskName(request.name), request.historyLength),
+  ListTasks: (service, request) => service.listTasks(request),
+  CancelTask: (service, request) => service.cancelTask(parseTaskName(request.name)),
+  SetTaskPushNotificationConfig: (service, request) => service.setTaskPushNotificationConfig(request),
+  GetTaskPushNotificationConfig: (service, request) => service.getTaskPushNotificationConfig(request),
+  ListTaskPushNotificationConfig: (service, request) => service.listTaskPushNotificationConfig(request),
+  DeleteTaskPushNotificationConfig: async (service, request) => {
+    await service.deleteTaskPushNotificationConfig(request);
+    return {};
+  },
+  GetExtendedAgentCard: async (service) => service.getAgentCard()
+};
+
+/**
+ * Handle a request matched against the A2A route table
+ */
+export async function handleRestRequest({
+  req,
+  res,
+  match,
+  a2aService,
+  authService,
+  logger,
+  corsHeaders
+}: {
+  req: IncomingMessage;
+  res: ServerResponse;
+  match: HttpRouteMatch;
+  a2aService: A2AService;
+  authService: AuthenticationService;
+  logger: Logger;
+  corsHeaders: Record<string, string>;
+}): Promise<void> {
+  if (match.method === 'SendStreamingMessage' || match.method === 'SubscribeToTask') {
+    const route = match.method === 'SendStreamingMessage'
+      ? { kind: 'messageStream' as const }
+      : { kind: 'subscribe' as const, taskId: parseTaskName(match.pathParams.name) };
+    await handleSseRequest({ req, res, route, a2aService, authService, logger, corsHeaders });
+    return;
+  }
+
+  try {
+    const service = await authenticateRequest(req, a2aService, authService);
+    const url = new URL(req.url || '/', 'http://localhost');
+    const body = match.rule.body ? await readJsonBody(req) : undefined;
+    const request = buildRequest(match, url.searchParams, body);
+
+    // The request is shaped by the route table; the handler map types it per method
+    const handler = HANDLERS[match.method as keyof RestHandlers] as (
+      service: AuthenticatedA2AService,
+      request: Record<string, any>
+    ) => Promise<unknown>;
+    const result = await handler(service, request);
+
+    res.writeHead(200, {
+      'Content-Type': 'application/json',
+      ...corsHeaders
+    });
+    res.end(JSON.stringify(result));
+  } catch (error: any) {
+    logger.error({ error: error.message, method: match.method }, 'REST request error');
+    sendJsonError(res, error, corsHeaders);
+  }
+}
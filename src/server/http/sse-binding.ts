@@ -0,0 +1,197 @@
+/**
+ * Server-Sent Events binding
+ *
+ * Streams task progress over plain HTTP for clients that can't (or don't
+ * want to) use the WebSocket transport:
+ *
+ * - `POST /message:stream` sends a message and streams the new task
+ * - `GET /tasks/{id}:subscribe` streams updates of an existing task
+ *
+ * Every frame is a `StreamResponse` (`task`, `msg`, `statusUpdate` or
+ * `artifactUpdate`) whose SSE `id` is the task event sequence number, so a
+ * client that reconnects with `Last-Event-ID` only receives the events it
+ * missed. Frames come from the same StreamingTask machinery as the
+ * WebSocket and capnweb transports.
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Logger } from '../../shared/logger.js';
+import type { A2AService } from '../a2a-service.js';
+import type { AuthenticationService } from '../authentication-service.js';
+import type { StreamingTask } from '../streaming-task.js';
+import { taskName } from '../resource-names.js';
+import { isTerminalState } from '../task-state-machine.js';
+import { InvalidParamsError } from '../../shared/errors.js';
+import { decodePathSegment } from '../../shared/http-routes.js';
+import { authenticateRequest, readJsonBody, sendJsonError } from './http-utils.js';
+import type {
+  StreamResponse,
+  TaskArtifactUpdateEvent,
+  TaskStatusUpdateEvent
+} from '../../shared/a2a.types.js';
+
+const SUBSCRIBE_PATH = /^\/tasks\/([^/:]+):subscribe$/;
+const KEEPALIVE_INTERVAL_MS = 15000;
+
+export type SseRoute =
+  | { kind: 'messageStream' }
+  | { kind: 'subscribe'; taskId: string };
+
+/**
+ * Match a request against the SSE endpoints
+ *
+ * @returns The route, or undefined if the request is not an SSE request
+ * @throws InvalidRequestError if the task ID contains a malformed escape
+ */
+export function matchSseRoute(method: string | undefined, url: string | undefined): SseRoute | undefined {
+  const pathname = new URL(url || '/', 'http://localhost').pathname;
+
+  if (method === 'POST' && pathname === '/message:stream') {
+    return { kind: 'messageStream' };
+  }
+
+  const match = SUBSCRIBE_PATH.exec(pathname);
+  if (method === 'GET' && match) {
+    return { kind: 'subscribe', taskId: decodePathSegment(match[1]) };
+  }
+
+  return undefined;
+}
+
+/**
+ * Handle a request for one of the SSE endpoints
+ *
+ * Errors before the stream starts are sent as JSON error responses; once
+ * the stream is open the response simply ends.
+ */
+export async function handleSseRequest({
+  req,
+  res,
+  route,
+  a2aService,
+  authService,
+  logger,
+  corsHeaders
+}: {
+  req: IncomingMessage;
+  res: ServerResponse;
+  route: SseRoute;
+  a2aService: A2AService;
+  authService: AuthenticationService;
+  logger: Logger;
+  corsHeaders: Record<string, string>;
+}): Promise<void> {
+  let streamingTask: StreamingTask | undefined;
+
+  try {
+    const service = await authenticateRequest(req, a2aService, authService);
+    const lastEventId = parseLastEventId(req.headers['last-event-id']);
+    let afterSequence: number | undefined;
+
+    if (route.kind === 'messageStream') {
+      const body = await readJsonBody(req);
+      const message = body.request ?? body.message;
+      if (!message) {
+        throw new InvalidParamsError('Missing message');
+      }
+      streamingTask = await service.sendMessageStreaming(message, body.configuration);
+    } else {
+      streamingTask = await service.subscribeToTask({ name: taskName(route.taskId) });
+      afterSequence = lastEventId;
+    }
+
+    const stream = openEventStream(res, corsHeaders);
+    const task = streamingTask;
+
+    const close = () => {
+      stream.close();
+      task.dispose();
+    };
+    req.on('close', close);
+
+    // A fresh stream starts with the task itself; a resumed one continues
+    // after the last event the client saw
+    const { task: snapshot, sequence } = await a2aService
+      .getTaskManager()
+      .getTaskSnapshot((await task.getTask()).id);
+    if (afterSequence === undefined) {
+      stream.send(sequence, { task: snapshot });
+      afterSequence = sequence;
+    }
+
+    // A finished task the client is up to date with has nothing left to send
+    if (isTerminalState(snapshot.status?.state) && sequence <= afterSequence) {
+      close();
+      return;
+    }
+
+    await task.subscribe(
+      {
+        onStatusUpdate: async (statusUpdate: TaskStatusUpdateEvent) => {
+          stream.send(statusUpdate.metadata?.sequence, { statusUpdate });
+          if (statusUpdate.final) {
+            close();
+          }
+        },
+        onArtifactUpdate: async (artifactUpdate: TaskArtifactUpdateEvent) => {
+          stream.send(artifactUpdate.metadata?.sequence, { artifactUpdate });
+        }
+      },
+      afterSequence
+    );
+  } catch (error: any) {
+    logger.error({ error: error.message, route }, 'SSE request error');
+    streamingTask?.dispose();
+
+    if (!res.headersSent) {
+      sendJsonError(res, error, corsHeaders);
+    } else {
+      res.end();
+    }
+  }
+}
+
+/**
+ * Start an SSE response
+ *
+ * Sends a comment every 15s so proxies don't close an idle stream.
+ */
+export function openEventStream(res: ServerResponse, corsHeaders: Record<string, string>) {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+    ...corsHeaders
+  });
+
+  const keepalive = setInterval(() => res.write(': keepalive\n\n'), KEEPALIVE_INTERVAL_MS);
+  keepalive.unref();
+
+  return {
+    send(sequence: number | undefined, data: StreamResponse | object): void {
+      if (res.writableEnded) {
+        return;
+      }
+      const id = sequence !== undefined ? `id: ${sequence}\n` : '';
+      res.write(`${id}data: ${JSON.stringify(data)}\n\n`);
+    },
+    close(): void {
+      clearInterval(keepalive);
+      if (!res.writableEnded) {
+        res.end();
+      }
+    }
+  };
+}
+
+/**
+ * Parse a `Last-Event-ID` header into a sequence number
+ */
+function parseLastEventId(header: string | string[] | undefined): number | undefined {
+  const value = Array.isArray(header) ? header[0] : header;
+  if (value === undefined || !/^\d+$/.test(value.trim())) {
+    return undefined;
+  }
+  return parseInt(value, 10);
+}
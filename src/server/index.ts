@@ -12,12 +12,18 @@ import type { IncomingHttpHeaders } from 'http';
 import { A2AService } from './a2a-service.js';
 import { AuthenticationService } from './authentication-service.js';
 import { SessionManager } from './session-manager.js';
+import { sendJsonError } from './http/http-utils.js';
+import { UnauthorizedError, toA2AError } from '../shared/errors.js';
+import { setLoggerFactory } from '../shared/logger.js';
+import { pinoLoggerFactory } from '../shared/platform/pino-logger.js';
+
+setLoggerFactory(pinoLoggerFactory);
 
 const log = pino({ name: 'a2a-server' });
 
 const HOST: string = process.env.HOST || '0.0.0.0';
 const PORT: number = parseInt(process.env.PORT || '3000', 10);
-const SESSION_TIMEOUT: number = parseInt(process.env.SESSION_TIMEOUT || '3600000', 10); // 1 hour
+const SESSION_TIMEOUT: number = parseInt(process.env.SESSION_TIMEOUT || '3600', 10); // 1 hour, in seconds
 const AGENT_URL: string = process.env.AGENT_URL || `http://${HOST}:${PORT}`;
 
 const authService = new AuthenticationService({
@@ -77,35 +83,14 @@ const server = createServer(async (req: IncomingMessage, res: any) => {
       const authHeader = (req.headers.authorization as string) || '';
 
       if (!authHeader) {
-        res.writeHead(401, {
-          'Content-Type': 'application/json',
-          'WWW-Authenticate': 'Bearer realm="a2a"',
-          ...corsHeaders
-        });
-        res.end(
-          JSON.stringify({
-            error: 'UNAUTHORIZED',
-            message: 'Missing Authorization header'
-          })
-        );
-        return;
+        throw new UnauthorizedError('Missing Authorization header');
       }
 
       // Parse authorization header
       const [scheme, token] = authHeader.split(' ');
 
       if (scheme.toLowerCase() !== 'bearer') {
-        res.writeHead(401, {
-          'Content-Type': 'application/json',
-          ...corsHeaders
-        });
-        res.end(
-          JSON.stringify({
-            error: 'UNAUTHORIZED',
-            message: 'Only Bearer authentication supported'
-          })
-        );
-        return;
+        throw new UnauthorizedError('Only Bearer authentication supported');
       }
 
       // Authenticate
@@ -118,17 +103,7 @@ const server = createServer(async (req: IncomingMessage, res: any) => {
       );
 
       if (!authResult.authenticated) {
-        res.writeHead(401, {
-          'Content-Type': 'application/json',
-          ...corsHeaders
-        });
-        res.end(
-          JSON.stringify({
-            error: 'UNAUTHORIZED',
-            message: authResult.metadata?.error || 'Invalid or expired token'
-          })
-        );
-        return;
+        throw new UnauthorizedError(authResult.metadata?.error || 'Invalid or expired token');
       }
 
       // Create session
@@ -158,20 +133,7 @@ const server = createServer(async (req: IncomingMessage, res: any) => {
       const errorAny = error as any;
       log.error({ error: errorAny.message }, 'Auth error');
 
-      const isAuthError = errorAny.code === 'INVALID_TOKEN' || errorAny.code === 'EXPIRED_TOKEN';
-      const statusCode = isAuthError ? 401 : 500;
-      const headers = {
-        'Content-Type': 'application/json',
-        ...corsHeaders
-      };
-
-      res.writeHead(statusCode, headers);
-      res.end(
-        JSON.stringify({
-          error: isAuthError ? 'UNAUTHORIZED' : 'INTERNAL_ERROR',
-          message: isAuthError ? errorAny.message : 'Authentication failed'
-        })
-      );
+      sendJsonError(res, error, corsHeaders);
     }
     return;
   }
@@ -266,22 +228,23 @@ wss.on('connection', (ws: WebSocket, req: IncomingMessage) => {
         const sessionIdParam = request.params?.sessionId;
 
         if (!sessionIdParam) {
-          throw Object.assign(new Error('Missing sessionId parameter'), { code: 'UNAUTHORIZED' });
+          throw new UnauthorizedError('Missing sessionId parameter');
         }
 
         const session = await sessionManager.validateSession(sessionIdParam);
 
         if (!session) {
-          throw Object.assign(new Error('Invalid or expired session'), { code: 'UNAUTHORIZED' });
+          throw new UnauthorizedError('Invalid or expired session');
         }
 
-        // Extend session to keep it alive
-        await sessionManager.extendSession(sessionIdParam, SESSION_TIMEOUT);
+        // Restart the session timeout to keep it alive
+        await sessionManager.touchSession(sessionIdParam);
 
         // Create authenticated service for this session
         authenticatedService = a2aService.createAuthenticatedService(
           session.userId,
-          session.permissions
+          session.permissions,
+          session.capabilities
         );
         sessionId = sessionIdParam;
 
@@ -296,7 +259,7 @@ wss.on('connection', (ws: WebSocket, req: IncomingMessage) => {
 
       // All other methods require authentication
       if (!authenticatedService || !sessionId) {
-        throw Object.assign(new Error('Authentication required. Call authenticate method first.'), { code: 'UNAUTHORIZED' });
+        throw new UnauthorizedError('Authentication required. Call authenticate method first.');
       }
 
       // Validate session is still active
@@ -304,11 +267,11 @@ wss.on('connection', (ws: WebSocket, req: IncomingMessage) => {
       if (!session) {
         authenticatedService = null;
         sessionId = null;
-        throw Object.assign(new Error('Session expired. Please re-authenticate.'), { code: 'UNAUTHORIZED' });
+        throw new UnauthorizedError('Session expired. Please re-authenticate.');
       }
 
-      // Extend session to keep it alive with activity
-      await sessionManager.extendSession(sessionId, SESSION_TIMEOUT);
+      // Restart the session timeout to keep it alive with activity
+      await sessionManager.touchSession(sessionId);
 
       // Dispatch to authenticated service
       switch (request.method) {
@@ -349,10 +312,7 @@ wss.on('connection', (ws: WebSocket, req: IncomingMessage) => {
 
       ws.send(JSON.stringify({
         id: requestId,
-        error: {
-          code: errorAny.code || 'INTERNAL_ERROR',
-          message: errorAny.message
-        }
+        error: toA2AError(error).toJSON()
       }));
     }
   });
@@ -0,0 +1,329 @@
+/**
+ * JSON-RPC 2.0 binding of the A2A protocol
+ *
+ * Transport-agnostic dispatcher for the A2A JSON-RPC methods
+ * (`message/send`, `tasks/get`, `tasks/pushNotificationConfig/set`, ...).
+ * Handles single requests, batches and notifications and reports errors
+ * with the numeric codes defined by JSON-RPC and the A2A specification.
+ * The HTTP binding and the WebSocket server both feed parsed payloads in.
+ * Operators list and revoke API keys with `admin/apiKeys/list` and
+ * `admin/apiKeys/revoke`, which need the `admin` permission.
+ *
+ * Streaming methods (`message/stream`, `tasks/resubscribe`) answer with a
+ * sequence of responses sharing the request ID: the task first, then its
+ * status and artifact updates. The transport decides how they are framed
+ * (SSE events over HTTP, separate messages over WebSocket).
+ */
+
+import type { Logger } from '../../shared/logger.js';
+import type { A2AService, AuthenticatedA2AService } from '../a2a-service.js';
+import type { StreamingTask } from '../streaming-task.js';
+import { isTerminalState } from '../task-state-machine.js';
+import { parsePushConfigName, pushConfigName, taskName } from '../resource-names.js';
+import { JsonRpcErrorCode, UnsupportedOperationError, toA2AError } from '../../shared/errors.js';
+import type {
+  TaskArtifactUpdateEvent,
+  TaskPushNotificationConfig,
+  TaskStatusUpdateEvent
+} from '../../shared/a2a.types.js';
+
+export { JsonRpcErrorCode };
+
+export type JsonRpcId = string | number | null;
+
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  method: string;
+  params?: any;
+  id?: JsonRpcId;
+}
+
+export interface JsonRpcError {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+export type JsonRpcResponse =
+  | { jsonrpc: '2.0'; id: JsonRpcId; result: unknown }
+  | { jsonrpc: '2.0'; id: JsonRpcId; error: JsonRpcError };
+
+/**
+ * Receives the responses of one streaming request
+ */
+export interface JsonRpcStream {
+  send(response: JsonRpcResponse): void;
+  /** The stream reached a final state; no more responses follow */
+  close(): void;
+}
+
+export interface JsonRpcContext {
+  /** Service of the authenticated caller */
+  service: AuthenticatedA2AService;
+  /**
+   * Open a stream for a streaming request. Transports that can't stream
+   * leave this unset and streaming methods fail with UNSUPPORTED_OPERATION.
+   */
+  openStream?: (id: JsonRpcId, streamingTask: StreamingTask) => JsonRpcStream;
+}
+
+type MethodHandler = (
+  params: any,
+  context: JsonRpcContext,
+  id: JsonRpcId
+) => Promise<unknown>;
+
+/** Marker returned by streaming handlers: responses go through the stream */
+const STREAMED = Symbol('streamed');
+
+export const STREAMING_METHODS = new Set(['message/stream', 'tasks/resubscribe']);
+
+/**
+ * Error thrown for requests that are not valid JSON-RPC or A2A requests
+ */
+export class JsonRpcRequestError extends Error {
+  name = 'JsonRpcRequestError';
+
+  constructor(public readonly rpcCode: number, message: string) {
+    super(message);
+  }
+}
+
+export class JsonRpcDispatcher {
+  private readonly methods: Record<string, MethodHandler>;
+
+  constructor(
+    private readonly a2aService: A2AService,
+    private readonly logger: Logger
+  ) {
+    this.methods = {
+      'message/send': async (params, { service }) =>
+        service.sendMessage(requireParam(params, 'message'), params.configuration),
+
+      'message/stream': async (params, context, id) => {
+        const streamingTask = await context.service.sendMessageStreaming(
+          requireParam(params, 'message'),
+          params.configuration
+        );
+        return this.stream(streamingTask, context, id);
+      },
+
+      'tasks/get': async (params, { service }) =>
+        service.getTask(requireParam(params, 'id'), params.historyLength),
+
+      'tasks/list': async (params, { service }) => service.listTasks(params || {}),
+
+      'tasks/cancel': async (params, { service }) => service.cancelTask(requireParam(params, 'id')),
+
+      'tasks/resubscribe': async (params, context, id) => {
+        const streamingTask = await context.service.subscribeToTask({ name: taskName(requireParam(params, 'id')) });
+        return this.stream(streamingTask, context, id);
+      },
+
+      'tasks/pushNotificationConfig/set': async (params, { service }) => {
+        const taskId = requireParam(params, 'taskId');
+        const config = requireParam(params, 'pushNotificationConfig');
+        const stored = await service.setTaskPushNotificationConfig({
+          parent: taskName(taskId),
+          configId: config.id || '',
+          config: { name: '', pushNotificationConfig: config }
+        });
+        return toSpecConfig(stored);
+      },
+
+      'tasks/pushNotificationConfig/get': async (params, { service }) => {
+        const taskId = requireParam(params, 'id');
+        const configId = params.pushNotificationConfigId || (await this.onlyConfigId(service, taskId));
+        return toSpecConfig(await service.getTaskPushNotificationConfig({ name: pushConfigName(taskId, configId) }));
+      },
+
+      'tasks/pushNotificationConfig/list': async (params, { service }) => {
+        const { configs } = await service.listTaskPushNotificationConfig({
+          parent: taskName(requireParam(params, 'id')),
+          pageSize: 0,
+          pageToken: ''
+        });
+        return configs.map(toSpecConfig);
+      },
+
+      'tasks/pushNotificationConfig/delete': async (params, { service }) => {
+        const name = pushConfigName(requireParam(params, 'id'), requireParam(params, 'pushNotificationConfigId'));
+        await service.deleteTaskPushNotificationConfig({ name });
+        return null;
+      },
+
+      'agent/getAuthenticatedExtendedCard': async (_params, { service }) => service.getAgentCard(),
+
+      'admin/apiKeys/list': async (params, { service }) => ({ apiKeys: await service.listApiKeys(params?.userId) }),
+
+      'admin/apiKeys/revoke': async (params, { service }) => {
+        await service.revokeApiKey(requireParam(params, 'keyId'));
+        return { revoked: true };
+      }
+    };
+  }
+
+  /**
+   * Handle a parsed JSON-RPC payload (a request or a batch)
+   *
+   * @returns The response, the batch of responses, or undefined if nothing
+   *   should be sent (notifications and streaming requests)
+   */
+  async handle(
+    payload: unknown,
+    context: JsonRpcContext
+  ): Promise<JsonRpcResponse | JsonRpcResponse[] | undefined> {
+    if (!Array.isArray(payload)) {
+      return await this.handleRequest(payload, context);
+    }
+
+    if (payload.length === 0) {
+      return errorResponse(null, { code: JsonRpcErrorCode.INVALID_REQUEST, message: 'Empty batch' });
+    }
+
+    // Streams can't be interleaved with a batch response
+    const batchContext = { service: context.service };
+    const responses = await Promise.all(payload.map((entry) => this.handleRequest(entry, batchContext)));
+    const sent = responses.filter((response): response is JsonRpcResponse => response !== undefined);
+    return sent.length > 0 ? sent : undefined;
+  }
+
+  /**
+   * Whether a payload is a single request for a streaming method
+   */
+  isStreamingRequest(payload: unknown): boolean {
+    return !Array.isArray(payload) && STREAMING_METHODS.has((payload as any)?.method);
+  }
+
+  private async handleRequest(request: any, context: JsonRpcContext): Promise<JsonRpcResponse | undefined> {
+    const id: JsonRpcId = isValidId(request?.id) ? request.id : null;
+
+    if (!request || typeof request !== 'object' || request.jsonrpc !== '2.0' || typeof request.method !== 'string'
+      || ('id' in request && !isValidId(request.id))) {
+      return errorResponse(id, { code: JsonRpcErrorCode.INVALID_REQUEST, message: 'Invalid JSON-RPC request' });
+    }
+
+    const isNotification = !('id' in request);
+
+    try {
+      const handler = this.methods[request.method];
+      if (!handler) {
+        throw new JsonRpcRequestError(JsonRpcErrorCode.METHOD_NOT_FOUND, `Method not found: ${request.method}`);
+      }
+      if (request.params !== undefined && (typeof request.params !== 'object' || request.params === null)) {
+        throw new JsonRpcRequestError(JsonRpcErrorCode.INVALID_PARAMS, 'params must be an object');
+      }
+
+      const result = await handler(request.params || {}, context, id);
+      if (isNotification || result === STREAMED) {
+        return undefined;
+      }
+      return { jsonrpc: '2.0', id, result };
+    } catch (error: any) {
+      this.logger.error({ error: error.message, method: request.method }, 'JSON-RPC error');
+      return isNotification ? undefined : errorResponse(id, toJsonRpcError(error));
+    }
+  }
+
+  /**
+   * Stream the task and its updates as responses to request `id`
+   */
+  private async stream(streamingTask: StreamingTask, context: JsonRpcContext, id: JsonRpcId): Promise<typeof STREAMED> {
+    if (!context.openStream) {
+      streamingTask.dispose();
+      throw new UnsupportedOperationError('Streaming is not supported for this request');
+    }
+
+    const stream = context.openStream(id, streamingTask);
+    const send = (result: unknown) => stream.send({ jsonrpc: '2.0', id, result });
+
+    const { task, sequence } = await this.a2aService
+      .getTaskManager()
+      .getTaskSnapshot((await streamingTask.getTask()).id);
+    send(task);
+
+    // A finished task has no updates left to wait for
+    if (isTerminalState(task.status?.state)) {
+      stream.close();
+      return STREAMED;
+    }
+
+    await streamingTask.subscribe(
+      {
+        onStatusUpdate: async (statusUpdate: TaskStatusUpdateEvent) => {
+          send({ ...statusUpdate, kind: 'status-update' });
+          if (statusUpdate.final) {
+            stream.close();
+          }
+        },
+        onArtifactUpdate: async (artifactUpdate: TaskArtifactUpdateEvent) => {
+          send({ ...artifactUpdate, kind: 'artifact-update' });
+        }
+      },
+      sequence
+    );
+
+    return STREAMED;
+  }
+
+  /**
+   * Resolve the config ID when `tasks/pushNotificationConfig/get` omits it
+   * and the task has exactly one config
+   */
+  private async onlyConfigId(service: AuthenticatedA2AService, taskId: string): Promise<string> {
+    const { configs } = await service.listTaskPushNotificationConfig({ parent: taskName(taskId), pageSize: 0, pageToken: '' });
+    if (configs.length !== 1) {
+      throw new JsonRpcRequestError(JsonRpcErrorCode.INVALID_PARAMS, 'pushNotificationConfigId is required');
+    }
+    return parsePushConfigName(configs[0].name).configId;
+  }
+}
+
+/**
+ * Convert an error thrown while handling a request to a JSON-RPC error
+ */
+export function toJsonRpcError(error: any): JsonRpcError {
+  if (error instanceof JsonRpcRequestError) {
+    return { code: error.rpcCode, message: error.message };
+  }
+
+  const a2aError = toA2AError(error);
+  if (a2aError.code === 'INTERNAL_ERROR') {
+    return { code: JsonRpcErrorCode.INTERNAL_ERROR, message: a2aError.message };
+  }
+  return {
+    code: a2aError.jsonRpcCode,
+    message: a2aError.message,
+    data: { code: a2aError.code, ...a2aError.data }
+  };
+}
+
+/**
+ * Build an error response
+ */
+export function errorResponse(id: JsonRpcId, error: JsonRpcError): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, error };
+}
+
+/**
+ * Convert a stored config to the `TaskPushNotificationConfig` shape of the
+ * JSON-RPC binding, which identifies the task by ID rather than by name
+ */
+function toSpecConfig(config: TaskPushNotificationConfig) {
+  return {
+    taskId: parsePushConfigName(config.name).taskId,
+    pushNotificationConfig: config.pushNotificationConfig
+  };
+}
+
+function requireParam(params: any, name: string): any {
+  const value = params?.[name];
+  if (value === undefined || value === null || value === '') {
+    throw new JsonRpcRequestError(JsonRpcErrorCode.INVALID_PARAMS, `Missing required parameter: ${name}`);
+  }
+  return value;
+}
+
+function isValidId(id: unknown): id is JsonRpcId {
+  return id === null || typeof id === 'string' || (typeof id === 'number' && Number.isFinite(id));
+}
@@ -0,0 +1,137 @@
+/**
+ * JSON Web Key Sets for JWT signing and verification
+ *
+ * A JwksResolver serves keys from a static key set or from a local JWKS
+ * file. File key sets are cached and re-read when the cache expires, or
+ * early when a token names a `kid` the cached set does not have, so keys
+ * rotated into the file are picked up without a restart. The file is read
+ * with a dynamic import of `fs`, so static key sets also work on Workers.
+ */
+
+import type { JwtHeader, JwtKey, JwtPayload } from './jwt-worker.js';
+import { createLogger } from '../shared/logger.js';
+
+const log = createLogger('jwks');
+
+export type Jwk = JsonWebKey & { kid?: string };
+
+export interface JsonWebKeySet {
+  keys: Jwk[];
+}
+
+export interface JwksResolverOptions {
+  /** Static key set */
+  keys?: JsonWebKeySet | Jwk[];
+  /** Path of a JWKS file (`{ "keys": [...] }`) */
+  file?: string;
+  /** Seconds a loaded file is reused before it is read again (default 300) */
+  cacheTtl?: number;
+  /**
+   * Minimum seconds between reads triggered by an unknown `kid`
+   * (default 30), so tokens with made-up key IDs can't force a read per
+   * request
+   */
+  refreshInterval?: number;
+}
+
+/**
+ * Keys of one issuer (or of this server), looked up by `kid`
+ */
+export class JwksResolver {
+  private readonly options: JwksResolverOptions;
+  private keys: Jwk[] = [];
+  private loadedAt = 0;
+  private loading?: Promise<Jwk[]>;
+
+  constructor(options: JwksResolverOptions) {
+    if (!options.keys && !options.file) {
+      throw new Error('JwksResolver needs a key set or a JWKS file');
+    }
+    this.options = { cacheTtl: 300, refreshInterval: 30, ...options };
+    if (options.keys) {
+      this.keys = Array.isArray(options.keys) ? options.keys : options.keys.keys;
+    }
+  }
+
+  /**
+   * Find the key to verify a token with
+   *
+   * Tokens without a `kid` match only when the set holds a single key that
+   * can verify their algorithm.
+   */
+  async getKey(kid: string | undefined, alg?: string): Promise<Jwk | undefined> {
+    let keys = await this.load();
+    let key = this.findKey(keys, kid, alg);
+
+    if (!key && kid && this.options.file && this.sinceLoad() >= this.options.refreshInterval! * 1000) {
+      keys = await this.load(true);
+      key = this.findKey(keys, kid, alg);
+    }
+
+    return key;
+  }
+
+  /**
+   * Find the private key to sign with: the key with the given `kid`, or the
+   * first private key of the set (list the current key first when rotating)
+   */
+  async getSigningKey(kid?: string): Promise<Jwk | undefined> {
+    const keys = (await this.load()).filter((key) => key.kty === 'oct' || key.d !== undefined);
+    return kid ? keys.find((key) => key.kid === kid) : keys[0];
+  }
+
+  /**
+   * Key resolver for `jwt.verify`
+   */
+  resolver(): (header: JwtHeader, payload: JwtPayload) => Promise<JwtKey | undefined> {
+    return (header) => this.getKey(header.kid, header.alg);
+  }
+
+  private findKey(keys: Jwk[], kid: string | undefined, alg?: string): Jwk | undefined {
+    const candidates = keys.filter(
+      (key) => (!alg || !key.alg || key.alg === alg) && (key.use === undefined || key.use === 'sig')
+    );
+    if (kid) {
+      return candidates.find((key) => key.kid === kid);
+    }
+    return candidates.length === 1 ? candidates[0] : undefined;
+  }
+
+  private sinceLoad(): number {
+    return Date.now() - this.loadedAt;
+  }
+
+  private async load(force = false): Promise<Jwk[]> {
+    if (!this.options.file) {
+      return this.keys;
+    }
+    if (!force && this.loadedAt && this.sinceLoad() < this.options.cacheTtl! * 1000) {
+      return this.keys;
+    }
+
+    this.loading ??= this.readFile().finally(() => {
+      this.loading = undefined;
+    });
+    return this.loading;
+  }
+
+  private async readFile(): Promise<Jwk[]> {
+    const { readFile } = await import('fs/promises');
+    try {
+      const set = JSON.parse(await readFile(this.options.file!, 'utf-8')) as JsonWebKeySet;
+      if (!Array.isArray(set.keys)) {
+        throw new Error('JWKS file has no "keys" array');
+      }
+      this.keys = set.keys;
+      log.info({ file: this.options.file, kids: this.keys.map((key) => key.kid) }, 'Loaded JWKS');
+    } catch (error: any) {
+      // Keep serving the last good key set
+      log.error({ file: this.options.file, error: error.message }, 'Failed to load JWKS');
+      if (!this.loadedAt) {
+        throw error;
+      }
+    }
+    this.loadedAt = Date.now();
+    return this.keys;
+  }
+}
@@ -1,8 +1,33 @@
 /**
  * Cloudflare Workers-compatible JWT implementation
  * Uses Web Crypto API for signing/verification
+ *
+ * Supports HMAC (HS256/384/512) with a shared secret, and RS256, RS384,
+ * ES256 and EdDSA (Ed25519) with JSON Web Keys. Keys for verification can be
+ * resolved per token, e.g. by `kid` from a JwksResolver (see jwks.ts).
  */
 
+import { fromBase64Url, toBase64Url } from '../shared/platform/crypto.js';
+
+export type JwtAlgorithm = 'HS256' | 'HS384' | 'HS512' | 'RS256' | 'RS384' | 'ES256' | 'EdDSA';
+
+/**
+ * HMAC secret, or a JSON Web Key (with the `kid` JWKS entries carry)
+ */
+export type JwtKey = string | (JsonWebKey & { kid?: string });
+
+/**
+ * Picks the verification key of a token from its header and its
+ * (unverified) payload; undefined when no key matches
+ */
+export type JwtKeyResolver = (header: JwtHeader, payload: JwtPayload) => Promise<JwtKey | undefined>;
+
+export interface JwtHeader {
+  alg: string;
+  typ?: string;
+  kid?: string;
+}
+
 export interface JwtPayload {
   [key: string]: any;
   iss?: string;
@@ -15,7 +40,10 @@ export interface JwtPayload {
 }
 
 export interface JwtSignOptions {
-  algorithm?: string;
+  /** Defaults to the key's `alg`, or the usual algorithm for its type */
+  algorithm?: JwtAlgorithm;
+  /** `kid` header; defaults to the key's `kid` */
+  keyid?: string;
   expiresIn?: string | number;
   issuer?: string;
   audience?: string | string[];
@@ -24,7 +52,8 @@ export interface JwtSignOptions {
 }
 
 export interface JwtVerifyOptions {
-  algorithms?: string[];
+  /** Accepted algorithms; by default only the one the key is meant for */
+  algorithms?: JwtAlgorithm[];
   issuer?: string | string[];
   audience?: string | string[];
   clockTolerance?: number;
@@ -60,14 +89,7 @@ export function decode(token: string): JwtPayload | null {
       throw new JsonWebTokenError('Invalid token format');
     }
     
-    const payload = parts[1];
-    const decoded = JSON.parse(
-      new TextDecoder().decode(
-        Uint8Array.from(atob(payload), c => c.charCodeAt(0))
-      )
-    );
-    
-    return decoded;
+    return decodeSegment(parts[1]);
   } catch (error) {
     return null;
   }
@@ -108,55 +130,142 @@ function parseDuration(duration: string | number): number {
 }
 
 /**
- * Create HMAC-SHA256 signature
+ * Web Crypto parameters of each supported JWS algorithm
  */
-async function createHmacSignature(data: string, secret: string): Promise<string> {
-  const encoder = new TextEncoder();
-  const keyData = encoder.encode(secret);
-  const dataBytes = encoder.encode(data);
-  
-  const cryptoKey = await crypto.subtle.importKey(
-    'raw',
-    keyData,
-    { name: 'HMAC', hash: 'SHA-256' },
-    false,
-    ['sign']
-  );
-  
-  const signature = await crypto.subtle.sign('HMAC', cryptoKey, dataBytes);
-  
-  // Convert to base64url
-  const base64 = btoa(String.fromCharCode(...new Uint8Array(signature)));
-  return base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=/g, '');
+const ALGORITHMS: Record<JwtAlgorithm, { kty: string; importParams: any; signParams: any }> = {
+  HS256: { kty: 'oct', importParams: { name: 'HMAC', hash: 'SHA-256' }, signParams: { name: 'HMAC' } },
+  HS384: { kty: 'oct', importParams: { name: 'HMAC', hash: 'SHA-384' }, signParams: { name: 'HMAC' } },
+  HS512: { kty: 'oct', importParams: { name: 'HMAC', hash: 'SHA-512' }, signParams: { name: 'HMAC' } },
+  RS256: {
+    kty: 'RSA',
+    importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+    signParams: { name: 'RSASSA-PKCS1-v1_5' }
+  },
+  RS384: {
+    kty: 'RSA',
+    importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-384' },
+    signParams: { name: 'RSASSA-PKCS1-v1_5' }
+  },
+  ES256: {
+    kty: 'EC',
+    importParams: { name: 'ECDSA', namedCurve: 'P-256' },
+    signParams: { name: 'ECDSA', hash: 'SHA-256' }
+  },
+  EdDSA: { kty: 'OKP', importParams: { name: 'Ed25519' }, signParams: { name: 'Ed25519' } }
+};
+
+/** JWK members that only private keys have */
+const PRIVATE_MEMBERS = ['d', 'p', 'q', 'dp', 'dq', 'qi', 'oth'];
+
+/**
+ * Imported keys, per JWK object (or secret) and algorithm/usage
+ */
+const keyCache = new WeakMap<object, Map<string, Promise<CryptoKey>>>();
+const secretKeyCache = new Map<string, Promise<CryptoKey>>();
+
+function isAlgorithm(alg: unknown): alg is JwtAlgorithm {
+  return typeof alg === 'string' && Object.prototype.hasOwnProperty.call(ALGORITHMS, alg);
 }
 
 /**
- * Verify HMAC-SHA256 signature
+ * Import a secret or JWK for one algorithm, refusing keys of another type
+ * (e.g. an RSA public key used as an HMAC secret)
  */
-async function verifyHmacSignature(data: string, secret: string, signature: string): Promise<boolean> {
-  try {
-    const expectedSignature = await createHmacSignature(data, secret);
-    return signature === expectedSignature;
-  } catch {
-    return false;
+function importKey(key: JwtKey, alg: JwtAlgorithm, usage: 'sign' | 'verify'): Promise<CryptoKey> {
+  const { kty, importParams } = ALGORITHMS[alg];
+  const cacheKey = `${alg}:${usage}`;
+
+  if (typeof key === 'string') {
+    if (kty !== 'oct') {
+      throw new JsonWebTokenError(`A shared secret cannot be used with ${alg}`);
+    }
+    const secretKey = `${cacheKey}:${key}`;
+    let imported = secretKeyCache.get(secretKey);
+    if (!imported) {
+      imported = crypto.subtle.importKey('raw', new TextEncoder().encode(key), importParams, false, [usage]);
+      secretKeyCache.set(secretKey, imported);
+    }
+    return imported;
+  }
+
+  if (key.kty !== kty || (key.alg && key.alg !== alg)) {
+    throw new JsonWebTokenError(`${key.kid ? `Key ${key.kid}` : 'Key'} cannot be used with ${alg}`);
+  }
+
+  let cached = keyCache.get(key);
+  if (!cached) {
+    cached = new Map();
+    keyCache.set(key, cached);
+  }
+  let imported = cached.get(cacheKey);
+  if (!imported) {
+    // Verification only needs the public half; drop private members and key_ops
+    // so a private JWK can verify its own signatures
+    const { key_ops: _keyOps, ext: _ext, ...jwk } = key as JsonWebKey & { kid?: string };
+    if (usage === 'verify' && kty !== 'oct') {
+      for (const member of PRIVATE_MEMBERS) {
+        delete (jwk as Record<string, unknown>)[member];
+      }
+    }
+    imported = crypto.subtle.importKey('jwk', jwk, importParams, false, [usage]);
+    cached.set(cacheKey, imported);
+  }
+  return imported;
+}
+
+/**
+ * Algorithm a key signs with when none is given
+ */
+function defaultAlgorithm(key: JwtKey): JwtAlgorithm {
+  if (typeof key === 'string') {
+    return 'HS256';
+  }
+  if (isAlgorithm(key.alg)) {
+    return key.alg;
+  }
+  switch (key.kty) {
+    case 'RSA':
+      return 'RS256';
+    case 'EC':
+      return 'ES256';
+    case 'OKP':
+      return 'EdDSA';
+    default:
+      return 'HS256';
   }
 }
 
+function encodeSegment(value: unknown): string {
+  return toBase64Url(JSON.stringify(value));
+}
+
+function decodeSegment(segment: string): any {
+  return JSON.parse(new TextDecoder().decode(fromBase64Url(segment)));
+}
+
 /**
  * Sign JWT token
+ *
+ * @param key - HMAC secret, or a private JWK for RS*, ES256 and EdDSA.
+ *   The key's `kid` is written to the header unless `options.keyid` is set.
  */
 export async function sign(
   payload: JwtPayload,
-  secret: string,
+  key: JwtKey,
   options: JwtSignOptions = {}
 ): Promise<string> {
   const now = Math.floor(Date.now() / 1000);
+  const alg = options.algorithm || defaultAlgorithm(key);
+  if (!isAlgorithm(alg)) {
+    throw new JsonWebTokenError(`Unsupported algorithm: ${alg}`);
+  }
   
   // Build header
-  const header = {
-    alg: options.algorithm || 'HS256',
-    typ: 'JWT'
-  };
+  const header: JwtHeader = { alg, typ: 'JWT' };
+  const kid = options.keyid ?? (typeof key === 'string' ? undefined : key.kid);
+  if (kid) {
+    header.kid = kid;
+  }
   
   // Build payload
   const jwtPayload: JwtPayload = { ...payload };
@@ -180,33 +289,35 @@ export async function sign(
   }
   
   // Set expiration
-  if (options.expiresIn) {
+  if (options.expiresIn !== undefined) {
     const expiresInSeconds = parseDuration(options.expiresIn);
     jwtPayload.exp = now + expiresInSeconds;
   }
   
   // Set not before
-  if (options.notBefore) {
+  if (options.notBefore !== undefined) {
     const notBeforeSeconds = parseDuration(options.notBefore);
     jwtPayload.nbf = now + notBeforeSeconds;
   }
   
-  // Encode header and payload
-  const encoder = new TextEncoder();
-  const headerBase64 = btoa(JSON.stringify(header)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=/g, '');
-  const payloadBase64 = btoa(JSON.stringify(jwtPayload)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=/g, '');
-  
   // Create signature
-  const dataToSign = `${headerBase64}.${payloadBase64}`;
-  const signature = await createHmacSignature(dataToSign, secret);
+  const dataToSign = `${encodeSegment(header)}.${encodeSegment(jwtPayload)}`;
+  const signature = await crypto.subtle.sign(
+    ALGORITHMS[alg].signParams,
+    await importKey(key, alg, 'sign'),
+    new TextEncoder().encode(dataToSign)
+  );
   
-  return `${dataToSign}.${signature}`;
+  return `${dataToSign}.${toBase64Url(new Uint8Array(signature))}`;
 }
 
 /**
  * Verify JWT token
+ *
+ * @param key - HMAC secret, public JWK, or a resolver picking the key from
+ *   the token's header (`kid`) and unverified payload (`iss`)
  */
-export async function verify(token: string, secret: string, options: JwtVerifyOptions = {}): Promise<JwtPayload> {
+export async function verify(token: string, key: JwtKey | JwtKeyResolver, options: JwtVerifyOptions = {}): Promise<JwtPayload> {
   const parts = token.split('.');
   if (parts.length !== 3) {
     throw new JsonWebTokenError('Invalid token format');
@@ -214,24 +325,50 @@ export async function verify(token: string, secret: string, options: JwtVerifyOp
   
   const [headerBase64, payloadBase64, signature] = parts;
   
-  // Verify signature
-  const dataToVerify = `${headerBase64}.${payloadBase64}`;
-  const isValid = await verifyHmacSignature(dataToVerify, secret, signature);
+  // Decode header and payload
+  let header: JwtHeader;
+  let payload: JwtPayload;
+  try {
+    header = decodeSegment(headerBase64);
+    payload = decodeSegment(payloadBase64);
+  } catch {
+    throw new JsonWebTokenError('Invalid token payload');
+  }
   
-  if (!isValid) {
-    throw new JsonWebTokenError('Invalid token signature');
+  // Check the algorithm before trusting anything else in the token
+  if (!isAlgorithm(header.alg)) {
+    throw new JsonWebTokenError(`Unsupported algorithm: ${header.alg}`);
+  }
+  if (options.algorithms && !options.algorithms.includes(header.alg)) {
+    throw new JsonWebTokenError(`Algorithm not allowed: ${header.alg}`);
   }
   
-  // Decode payload
-  let payload: JwtPayload;
+  const verificationKey = typeof key === 'function' ? await key(header, payload) : key;
+  if (!verificationKey) {
+    throw new JsonWebTokenError(`No key found for token${header.kid ? ` (kid ${header.kid})` : ''}`);
+  }
+  if (!options.algorithms && header.alg !== defaultAlgorithm(verificationKey)) {
+    throw new JsonWebTokenError(`Algorithm not allowed: ${header.alg}`);
+  }
+  
+  // Verify signature
+  let isValid: boolean;
   try {
-    payload = JSON.parse(
-      new TextDecoder().decode(
-        Uint8Array.from(atob(payloadBase64), c => c.charCodeAt(0))
-      )
+    isValid = await crypto.subtle.verify(
+      ALGORITHMS[header.alg].signParams,
+      await importKey(verificationKey, header.alg, 'verify'),
+      fromBase64Url(signature),
+      new TextEncoder().encode(`${headerBase64}.${payloadBase64}`)
     );
-  } catch {
-    throw new JsonWebTokenError('Invalid token payload');
+  } catch (error) {
+    if (error instanceof JsonWebTokenError) {
+      throw error;
+    }
+    isValid = false;
+  }
+  
+  if (!isValid) {
+    throw new JsonWebTokenError('Invalid token signature');
   }
   
   // Verify issuer
@@ -256,7 +393,7 @@ export async function verify(token: string, secret: string, options: JwtVerifyOp
   if (!options.ignoreExpiration && payload.exp) {
     const now = Math.floor(Date.now() / 1000);
     const clockTolerance = options.clockTolerance || 0;
-    if (payload.exp + clockTolerance < now) {
+    if (now >= payload.exp + clockTolerance) {
       throw new TokenExpiredError('Token has expired', new Date(payload.exp * 1000));
     }
   }
@@ -0,0 +1,185 @@
+/**
+ * OAuth 2.0 Token Introspection (RFC 7662)
+ *
+ * Asks the authorization server whether an access token is active and
+ * which scopes it carries. Answers are cached by token hash so a busy
+ * client costs one introspection call per token and cache period; a token
+ * revoked at the authorization server is therefore accepted until its
+ * cached answer expires.
+ */
+
+import { sha256, toBase64, toHex } from '../shared/platform/crypto.js';
+import { createLogger } from '../shared/logger.js';
+
+const log = createLogger('oauth-introspection');
+
+/**
+ * Introspection response (RFC 7662 section 2.2)
+ */
+export interface IntrospectionResponse {
+  active: boolean;
+  scope?: string;
+  client_id?: string;
+  username?: string;
+  token_type?: string;
+  exp?: number;
+  iat?: number;
+  nbf?: number;
+  sub?: string;
+  aud?: string | string[];
+  iss?: string;
+  jti?: string;
+  [claim: string]: unknown;
+}
+
+export interface OAuthIntrospectorOptions {
+  /** Introspection endpoint of the authorization server */
+  introspectionUrl: string;
+  /** Credentials this server authenticates to the endpoint with (HTTP Basic) */
+  clientId?: string;
+  clientSecret?: string;
+  /** Seconds an answer is reused (default 60, never past the token's `exp`) */
+  cacheTtl?: number;
+  /** Request timeout in ms (default 5000) */
+  timeout?: number;
+  /**
+   * Permissions granted per scope; scopes without an entry (or every scope,
+   * without a map) grant nothing.
+   */
+  scopePermissions?: Record<string, string[]>;
+  /** Accepted `aud` values; tokens for other audiences are rejected */
+  audience?: string | string[];
+}
+
+/**
+ * Outcome of introspecting one token
+ */
+export interface IntrospectionResult {
+  active: boolean;
+  userId?: string;
+  clientId?: string;
+  scopes: string[];
+  permissions: string[];
+  expiresAt?: Date;
+  /** Why an active answer was still rejected */
+  reason?: string;
+}
+
+interface CacheEntry {
+  result: IntrospectionResult;
+  expiresAt: number;
+}
+
+/**
+ * Validates opaque access tokens against an authorization server
+ */
+export class OAuthIntrospector {
+  private readonly options: OAuthIntrospectorOptions;
+  private cache = new Map<string, CacheEntry>();
+
+  constructor(options: OAuthIntrospectorOptions) {
+    this.options = { cacheTtl: 60, timeout: 5000, ...options };
+  }
+
+  /**
+   * Introspect a token, answering from the cache when possible
+   *
+   * @throws Error when the endpoint can't be reached or answers with an error
+   */
+  async introspect(token: string): Promise<IntrospectionResult> {
+    const key = toHex(await sha256(token));
+    const now = Date.now();
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > now) {
+      return cached.result;
+    }
+
+    const result = this.toResult(await this.request(token));
+    const expiresAt = Math.min(now + this.options.cacheTtl! * 1000, result.expiresAt?.getTime() ?? Infinity);
+    this.purge(now);
+    this.cache.set(key, { result, expiresAt });
+    return result;
+  }
+
+  /**
+   * Forget the cached answer for a token, e.g. after revoking it
+   */
+  async evict(token: string): Promise<void> {
+    this.cache.delete(toHex(await sha256(token)));
+  }
+
+  /**
+   * Permissions granted by a set of scopes
+   */
+  permissionsFor(scopes: string[]): string[] {
+    const map = this.options.scopePermissions ?? {};
+    return Array.from(new Set(scopes.flatMap((scope) => map[scope] ?? [])));
+  }
+
+  private async request(token: string): Promise<IntrospectionResponse> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json'
+    };
+    if (this.options.clientId) {
+      const credentials = `${encodeURIComponent(this.options.clientId)}:${encodeURIComponent(this.options.clientSecret ?? '')}`;
+      headers['Authorization'] = `Basic ${toBase64(credentials)}`;
+    }
+
+    const response = await fetch(this.options.introspectionUrl, {
+      method: 'POST',
+      headers,
+      body: new URLSearchParams({ token, token_type_hint: 'access_token' }).toString(),
+      signal: AbortSignal.timeout(this.options.timeout!)
+    });
+    if (!response.ok) {
+      log.error({ status: response.status, url: this.options.introspectionUrl }, 'Token introspection failed');
+      throw new Error(`Token introspection failed: ${response.status}`);
+    }
+
+    return (await response.json()) as IntrospectionResponse;
+  }
+
+  private toResult(response: IntrospectionResponse): IntrospectionResult {
+    if (!response.active) {
+      return { active: false, scopes: [], permissions: [] };
+    }
+
+    const scopes = response.scope ? response.scope.split(' ').filter(Boolean) : [];
+    const result: IntrospectionResult = {
+      active: true,
+      userId: response.sub ?? response.username ?? response.client_id,
+      clientId: response.client_id,
+      scopes,
+      permissions: this.permissionsFor(scopes),
+      expiresAt: response.exp ? new Date(response.exp * 1000) : undefined
+    };
+
+    if (!result.userId) {
+      return { ...result, active: false, reason: 'Token has no subject' };
+    }
+    const nowSeconds = Math.floor(Date.now() / 1000);
+    if (response.exp && response.exp <= nowSeconds) {
+      return { ...result, active: false, reason: 'Token has expired' };
+    }
+    if (response.nbf && response.nbf > nowSeconds) {
+      return { ...result, active: false, reason: 'Token not active' };
+    }
+    if (this.options.audience) {
+      const expected = Array.isArray(this.options.audience) ? this.options.audience : [this.options.audience];
+      const audience = Array.isArray(response.aud) ? response.aud : response.aud ? [response.aud] : [];
+      if (!audience.some((aud) => expected.includes(aud))) {
+        return { ...result, active: false, reason: 'Invalid token audience' };
+      }
+    }
+    return result;
+  }
+
+  private purge(now: number): void {
+    for (const [key, entry] of this.cache) {
+      if (entry.expiresAt <= now) {
+        this.cache.delete(key);
+      }
+    }
+  }
+}
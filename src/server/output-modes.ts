@@ -0,0 +1,57 @@
+/**
+ * Output mode negotiation
+ *
+ * Clients list the media types they can handle in
+ * `SendMessageConfiguration.acceptedOutputModes`; the agent advertises what
+ * it produces in `AgentCard.defaultOutputModes`. A request is only accepted
+ * when the two overlap. Accepted modes may use wildcards such as `text/*`.
+ */
+
+import { ContentTypeNotSupportedError } from '../shared/errors.js';
+
+export { ContentTypeNotSupportedError };
+
+function normalize(mode: string): string {
+  // Drop parameters such as "; charset=utf-8"
+  return mode.split(';')[0].trim().toLowerCase();
+}
+
+/**
+ * Check whether an accepted mode (possibly a wildcard) covers an agent mode
+ */
+export function matchesOutputMode(accepted: string, produced: string): boolean {
+  const [acceptedType, acceptedSubtype] = normalize(accepted).split('/');
+  const [producedType, producedSubtype] = normalize(produced).split('/');
+
+  if (acceptedType === '*') {
+    return true;
+  }
+  if (acceptedType !== producedType) {
+    return false;
+  }
+  return acceptedSubtype === '*' || acceptedSubtype === producedSubtype;
+}
+
+/**
+ * Ensure the client accepts at least one of the agent's output modes
+ *
+ * An empty or missing list means the client accepts anything.
+ *
+ * @throws ContentTypeNotSupportedError if there is no overlap
+ */
+export function assertAcceptedOutputModes(
+  acceptedOutputModes: string[] | undefined,
+  agentOutputModes: string[]
+): void {
+  if (!acceptedOutputModes || acceptedOutputModes.length === 0) {
+    return;
+  }
+
+  const supported = acceptedOutputModes.some((accepted) =>
+    agentOutputModes.some((produced) => matchesOutputMode(accepted, produced))
+  );
+
+  if (!supported) {
+    throw new ContentTypeNotSupportedError(acceptedOutputModes, agentOutputModes);
+  }
+}
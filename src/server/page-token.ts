@@ -0,0 +1,108 @@
+/**
+ * Page tokens for cursor-based pagination
+ *
+ * A page token is an opaque, HMAC-signed cursor. It carries the sort key of
+ * the last item on the previous page plus a fingerprint of the filters it
+ * was issued for, so it can't be forged, tampered with, or replayed against
+ * a different query.
+ */
+
+import { fromBase64Url, hmacSha256, randomBytes, sha256, timingSafeEqual, toBase64Url } from '../shared/platform/crypto.js';
+import { InvalidParamsError } from '../shared/errors.js';
+
+/**
+ * Position of the last item returned on a page
+ */
+export interface PageCursor {
+  /** Sort key of the last item (creation time, ms since epoch) */
+  createdAt: number;
+  /** Tie-breaker for items created in the same millisecond */
+  id: string;
+}
+
+interface PageTokenPayload {
+  c: number;
+  i: string;
+  f: string;
+}
+
+/**
+ * Error thrown for malformed, tampered or mismatched page tokens
+ */
+export class InvalidPageTokenError extends InvalidParamsError {
+  name = 'InvalidPageTokenError';
+}
+
+/**
+ * Signs and verifies page tokens with a server-side secret
+ */
+export class PageTokenCodec {
+  private readonly secret: Uint8Array;
+
+  /**
+   * @param secret - HMAC secret. Defaults to a random per-process secret, which
+   * invalidates outstanding tokens on restart.
+   */
+  constructor(secret?: string) {
+    this.secret = secret ? new TextEncoder().encode(secret) : randomBytes(32);
+  }
+
+  /**
+   * Encode a cursor into an opaque token
+   *
+   * @param cursor - Position of the last item on the page
+   * @param filterKey - Fingerprint of the filters the page was produced with
+   */
+  async encode(cursor: PageCursor, filterKey: string): Promise<string> {
+    const payload: PageTokenPayload = { c: cursor.createdAt, i: cursor.id, f: filterKey };
+    const body = toBase64Url(JSON.stringify(payload));
+    return `${body}.${await this.sign(body)}`;
+  }
+
+  /**
+   * Decode and verify a token
+   *
+   * @param token - Token produced by encode()
+   * @param filterKey - Fingerprint of the current request's filters
+   * @throws InvalidPageTokenError if the token is malformed, has a bad
+   *   signature, or was issued for different filters
+   */
+  async decode(token: string, filterKey: string): Promise<PageCursor> {
+    const [body, signature, ...rest] = token.split('.');
+    if (!body || !signature || rest.length > 0) {
+      throw new InvalidPageTokenError('Malformed page token');
+    }
+
+    const encoder = new TextEncoder();
+    if (!timingSafeEqual(encoder.encode(await this.sign(body)), encoder.encode(signature))) {
+      throw new InvalidPageTokenError('Invalid page token signature');
+    }
+
+    let payload: PageTokenPayload;
+    try {
+      payload = JSON.parse(new TextDecoder().decode(fromBase64Url(body)));
+    } catch {
+      throw new InvalidPageTokenError('Malformed page token');
+    }
+
+    if (payload.f !== filterKey) {
+      throw new InvalidPageTokenError('Page token does not match request filters');
+    }
+
+    return { createdAt: payload.c, id: payload.i };
+  }
+
+  private async sign(body: string): Promise<string> {
+    return toBase64Url(await hmacSha256(this.secret, body));
+  }
+}
+
+/**
+ * Build a stable fingerprint for a set of filter values
+ */
+export async function filterFingerprint(filters: Record<string, unknown>): Promise<string> {
+  const normalized = Object.keys(filters)
+    .sort()
+    .map((key) => [key, filters[key] ?? null]);
+  return toBase64Url(await sha256(JSON.stringify(normalized))).slice(0, 16);
+}
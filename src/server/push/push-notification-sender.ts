@@ -0,0 +1,518 @@
+/**
+ * Webhook push notification delivery
+ *
+ * Subscribes to TaskManager `task:update` events and POSTs each update to
+ * every push notification config stored on the task. Deliveries for the
+ * same config are sent in order; failures are retried with exponential
+ * backoff and end up in a dead-letter list once retries are exhausted.
+ * Webhooks on loopback, link-local and private addresses are refused unless
+ * `allowPrivateNetworks` is set. Only the URL is checked: host names are
+ * not resolved, so a public name pointing at a private address gets through.
+ * Redirects are not followed, so a webhook can't bounce a delivery (and its
+ * credentials) onto another host.
+ */
+
+import { EventEmitter } from '../../shared/platform/events.js';
+import type { TimerHandle } from '../../shared/platform/timers.js';
+import { toBase64 } from '../../shared/platform/crypto.js';
+import type {
+  AuthenticationInfo,
+  PushNotificationConfig,
+  StreamResponse,
+  Task
+} from '../../shared/a2a.types.js';
+import { createLogger } from '../../shared/logger.js';
+import type { TaskManager, TaskUpdateEvent } from '../task-manager.js';
+import { isInterruptedState, isTerminalState } from '../task-state-machine.js';
+
+const log = createLogger('push-notification-sender');
+
+/** Header carrying the per-config token so receivers can validate the sender */
+export const NOTIFICATION_TOKEN_HEADER = 'X-A2A-Notification-Token';
+
+export interface PushNotificationSenderOptions {
+  /** Attempts per delivery, including the first (default 5) */
+  maxAttempts?: number;
+  /** Delay before the first retry in ms; doubles on every retry (default 500) */
+  initialBackoffMs?: number;
+  /** Upper bound for the retry delay in ms (default 30000) */
+  maxBackoffMs?: number;
+  /** Per-request timeout in ms (default 10000) */
+  requestTimeoutMs?: number;
+  /** Dead letters kept before the oldest are dropped (default 1000) */
+  maxDeadLetters?: number;
+  /** Delivery statuses kept before the oldest idle ones are dropped (default 10000) */
+  maxStatuses?: number;
+  /** Deliver to loopback, link-local and private addresses (default false) */
+  allowPrivateNetworks?: boolean;
+  /** fetch implementation (defaults to the global fetch) */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Delivery bookkeeping for one push notification config
+ */
+export interface PushDeliveryStatus {
+  taskId: string;
+  configId: string;
+  url: string;
+  /** Updates delivered successfully */
+  delivered: number;
+  /** Updates that were dead-lettered */
+  failed: number;
+  /** Updates queued or being retried */
+  pending: number;
+  lastAttemptAt?: string;
+  lastSuccessAt?: string;
+  lastStatusCode?: number;
+  lastError?: string;
+}
+
+/**
+ * A delivery that failed after all retries
+ */
+export interface DeadLetter {
+  taskId: string;
+  configId: string;
+  url: string;
+  payload: StreamResponse;
+  attempts: number;
+  error: string;
+  failedAt: string;
+}
+
+interface Delivery {
+  taskId: string;
+  configId: string;
+  config: PushNotificationConfig;
+  payload: StreamResponse;
+}
+
+/**
+ * Error for a delivery attempt; `retryable` is false for responses that
+ * won't succeed on retry (e.g. 400, 401, 404)
+ */
+class DeliveryError extends Error {
+  constructor(message: string, public readonly retryable: boolean, public readonly statusCode?: number) {
+    super(message);
+  }
+}
+
+/**
+ * Build the Authorization header for a config's AuthenticationInfo
+ *
+ * Supports the Bearer and Basic schemes. Basic credentials may be given
+ * either pre-encoded or as `user:password`.
+ */
+export function authorizationHeader(authentication: AuthenticationInfo | undefined): string | undefined {
+  if (!authentication?.credentials) {
+    return undefined;
+  }
+
+  for (const scheme of authentication.schemes || []) {
+    switch (scheme.toLowerCase()) {
+      case 'bearer':
+        return `Bearer ${authentication.credentials}`;
+      case 'basic': {
+        const credentials = authentication.credentials.includes(':')
+          ? toBase64(authentication.credentials)
+          : authentication.credentials;
+        return `Basic ${credentials}`;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Check whether a URL host name is a loopback, link-local, private or
+ * unspecified address (or `localhost`)
+ *
+ * @param hostname - Host name as found in `URL.hostname`; IPv6 in brackets
+ */
+export function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[(.*)\]$/, '$1');
+  if (host === 'localhost' || host.endsWith('.localhost')) {
+    return true;
+  }
+
+  const ipv4 = ipv4Octets(host.replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/, ''));
+  if (ipv4) {
+    const [a, b] = ipv4;
+    return a === 0 || a === 10 || a === 127 ||
+      (a === 100 && b >= 64 && b < 128) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b < 32) ||
+      (a === 192 && b === 168);
+  }
+
+  // URL parsing writes IPv4-mapped addresses in hex (::ffff:7f00:1)
+  const mapped = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/.exec(host);
+  if (mapped) {
+    const high = parseInt(mapped[1], 16);
+    const low = parseInt(mapped[2], 16);
+    return isPrivateHost(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+  }
+
+  if (host.includes(':')) {
+    return host === '::' || host === '::1' || /^f[cd]/.test(host) || /^fe[89ab]/.test(host);
+  }
+  return false;
+}
+
+function ipv4Octets(address: string): number[] | undefined {
+  const octets = address.split('.');
+  if (octets.length !== 4 || !octets.every((octet) => /^\d{1,3}$/.test(octet) && Number(octet) <= 255)) {
+    return undefined;
+  }
+  return octets.map(Number);
+}
+
+/**
+ * Webhook delivery worker
+ *
+ * Events:
+ * - `push:delivered` (status: PushDeliveryStatus)
+ * - `push:deadLetter` (deadLetter: DeadLetter)
+ */
+export class PushNotificationSender extends EventEmitter {
+  private readonly options: Required<Omit<PushNotificationSenderOptions, 'fetch'>>;
+  private readonly fetchFn: typeof fetch;
+  private readonly queues = new Map<string, Promise<void>>(); // taskId/configId -> tail of delivery chain
+  private readonly fanOuts = new Map<string, Promise<void>>(); // taskId -> tail of updates not yet enqueued
+  private readonly statuses = new Map<string, PushDeliveryStatus>(); // taskId/configId -> status
+  private readonly deadLetters: DeadLetter[] = [];
+  private readonly timers = new Map<TimerHandle, () => void>(); // backoff timer -> wake-up
+  private unsubscribe?: () => void;
+  private stopped = false;
+
+  constructor(private taskManager: TaskManager, options: PushNotificationSenderOptions = {}) {
+    super();
+    this.options = {
+      maxAttempts: options.maxAttempts ?? 5,
+      initialBackoffMs: options.initialBackoffMs ?? 500,
+      maxBackoffMs: options.maxBackoffMs ?? 30000,
+      requestTimeoutMs: options.requestTimeoutMs ?? 10000,
+      maxDeadLetters: options.maxDeadLetters ?? 1000,
+      maxStatuses: options.maxStatuses ?? 10000,
+      allowPrivateNetworks: options.allowPrivateNetworks ?? false
+    };
+    this.fetchFn = options.fetch || fetch;
+  }
+
+  /**
+   * Start listening for task updates
+   */
+  start(): void {
+    if (this.unsubscribe) {
+      return;
+    }
+
+    this.stopped = false;
+    const listener = (event: TaskUpdateEvent) => {
+      // Chain fan-outs per task so updates are enqueued in the order they were emitted
+      const previous = this.fanOuts.get(event.taskId) || Promise.resolve();
+      const fanOut = previous.then(() => this.handleUpdate(event)).catch((error) => {
+        log.error({ taskId: event.taskId, error: error.message }, 'Failed to enqueue push notifications');
+      });
+      this.fanOuts.set(event.taskId, fanOut);
+      fanOut.finally(() => {
+        if (this.fanOuts.get(event.taskId) === fanOut) {
+          this.fanOuts.delete(event.taskId);
+        }
+      });
+    };
+    this.taskManager.on('task:update', listener);
+    this.unsubscribe = () => this.taskManager.off('task:update', listener);
+
+    log.info('Push notification sender started');
+  }
+
+  /**
+   * Stop listening and abandon pending retries
+   *
+   * Deliveries still waiting to be retried are dead-lettered.
+   */
+  stop(): void {
+    this.stopped = true;
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+    for (const [timer, wake] of this.timers) {
+      clearTimeout(timer);
+      wake();
+    }
+    this.timers.clear();
+
+    log.info('Push notification sender stopped');
+  }
+
+  /**
+   * Wait until every queued delivery has either succeeded or been dead-lettered
+   */
+  async flush(): Promise<void> {
+    while (this.fanOuts.size > 0 || this.queues.size > 0) {
+      await Promise.all([...this.fanOuts.values(), ...this.queues.values()]);
+    }
+  }
+
+  /**
+   * Get delivery status for one config
+   */
+  getDeliveryStatus(taskId: string, configId: string): PushDeliveryStatus | undefined {
+    const status = this.statuses.get(this.key(taskId, configId));
+    return status ? { ...status } : undefined;
+  }
+
+  /**
+   * Get delivery status for every config of a task
+   */
+  listDeliveryStatus(taskId: string): PushDeliveryStatus[] {
+    return Array.from(this.statuses.values())
+      .filter((status) => status.taskId === taskId)
+      .map((status) => ({ ...status }));
+  }
+
+  /**
+   * Get failed deliveries, oldest first
+   *
+   * @param taskId - Optionally only return dead letters for this task
+   */
+  getDeadLetters(taskId?: string): DeadLetter[] {
+    return this.deadLetters.filter((letter) => !taskId || letter.taskId === taskId);
+  }
+
+  /**
+   * Fan a task update out to the task's push configs
+   */
+  private async handleUpdate(event: TaskUpdateEvent): Promise<void> {
+    const { configs } = await this.taskManager.listPushNotificationConfigs(event.taskId);
+    if (configs.length === 0) {
+      return;
+    }
+
+    const task = await this.taskManager.getTask(event.taskId, 0);
+    const payload = this.toPayload(task, event);
+    for (const config of configs) {
+      this.enqueue({
+        taskId: task.id,
+        configId: config.id,
+        config,
+        payload
+      });
+    }
+  }
+
+  private toPayload(task: Task, event: TaskUpdateEvent): StreamResponse {
+    if (event.artifact) {
+      return {
+        artifactUpdate: {
+          taskId: task.id,
+          contextId: task.contextId,
+          artifact: event.artifact,
+          append: event.append ?? false,
+          lastChunk: event.lastChunk ?? true,
+          metadata: { sequence: event.sequence }
+        }
+      };
+    }
+
+    return {
+      statusUpdate: {
+        taskId: task.id,
+        contextId: task.contextId,
+        status: event.status,
+        final: isTerminalState(event.status?.state) || isInterruptedState(event.status?.state),
+        metadata: { sequence: event.sequence }
+      }
+    };
+  }
+
+  /**
+   * Append a delivery to its config's queue so updates arrive in order
+   */
+  private enqueue(delivery: Delivery): void {
+    const key = this.key(delivery.taskId, delivery.configId);
+    const status = this.statusFor(delivery);
+    status.pending++;
+
+    const previous = this.queues.get(key) || Promise.resolve();
+    const next = previous.then(() => this.deliver(delivery, status));
+    this.queues.set(key, next);
+
+    next.finally(() => {
+      if (this.queues.get(key) === next) {
+        this.queues.delete(key);
+      }
+    });
+  }
+
+  private async deliver(delivery: Delivery, status: PushDeliveryStatus): Promise<void> {
+    let attempts = 0;
+    let lastError = 'Sender stopped';
+
+    while (attempts < this.options.maxAttempts && !this.stopped) {
+      attempts++;
+      status.lastAttemptAt = new Date().toISOString();
+
+      try {
+        status.lastStatusCode = await this.post(delivery);
+        status.delivered++;
+        status.pending--;
+        status.lastSuccessAt = status.lastAttemptAt;
+        status.lastError = undefined;
+        log.debug({ taskId: delivery.taskId, configId: delivery.configId, attempts }, 'Push notification delivered');
+        this.emit('push:delivered', { ...status });
+        return;
+      } catch (err: unknown) {
+        const error = err as DeliveryError;
+        lastError = error.message;
+        status.lastError = error.message;
+        status.lastStatusCode = error.statusCode;
+
+        log.warn({
+          taskId: delivery.taskId,
+          configId: delivery.configId,
+          attempts,
+          error: error.message
+        }, 'Push notification delivery failed');
+
+        if (!error.retryable) {
+          break;
+        }
+        if (attempts < this.options.maxAttempts) {
+          await this.sleep(this.backoff(attempts));
+        }
+      }
+    }
+
+    this.deadLetter(delivery, status, attempts, lastError);
+  }
+
+  /**
+   * POST a payload to the config's URL
+   *
+   * @returns HTTP status code of a successful response
+   * @throws DeliveryError on network errors, timeouts and non-2xx responses
+   */
+  private async post({ config, payload }: Delivery): Promise<number> {
+    let url: URL;
+    try {
+      url = new URL(config.url);
+    } catch {
+      throw new DeliveryError(`Invalid webhook URL: ${config.url}`, false);
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      throw new DeliveryError(`Unsupported webhook URL scheme: ${url.protocol}`, false);
+    }
+    if (!this.options.allowPrivateNetworks && isPrivateHost(url.hostname)) {
+      throw new DeliveryError(`Webhook URL points to a private address: ${url.hostname}`, false);
+    }
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.token) {
+      headers[NOTIFICATION_TOKEN_HEADER] = config.token;
+    }
+    const authorization = authorizationHeader(config.authentication);
+    if (authorization) {
+      headers.Authorization = authorization;
+    }
+
+    let response: Response;
+    try {
+      response = await this.fetchFn(url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(payload),
+        redirect: 'manual',
+        signal: AbortSignal.timeout(this.options.requestTimeoutMs)
+      });
+    } catch (err: unknown) {
+      const error = err as Error;
+      throw new DeliveryError(error.name === 'TimeoutError' ? 'Request timed out' : error.message, true);
+    }
+
+    if (response.type === 'opaqueredirect' || (response.status >= 300 && response.status < 400)) {
+      throw new DeliveryError(`Webhook redirected with HTTP ${response.status}`, false, response.status);
+    }
+    if (!response.ok) {
+      // Only server errors, throttling and timeouts are worth retrying
+      const retryable = response.status >= 500 || response.status === 429 || response.status === 408;
+      throw new DeliveryError(`Webhook responded with HTTP ${response.status}`, retryable, response.status);
+    }
+
+    return response.status;
+  }
+
+  private deadLetter(delivery: Delivery, status: PushDeliveryStatus, attempts: number, error: string): void {
+    status.failed++;
+    status.pending--;
+
+    const letter: DeadLetter = {
+      taskId: delivery.taskId,
+      configId: delivery.configId,
+      url: delivery.config.url,
+      payload: delivery.payload,
+      attempts,
+      error,
+      failedAt: new Date().toISOString()
+    };
+    this.deadLetters.push(letter);
+    if (this.deadLetters.length > this.options.maxDeadLetters) {
+      this.deadLetters.shift();
+    }
+
+    log.error({ taskId: delivery.taskId, configId: delivery.configId, attempts, error }, 'Push notification dead-lettered');
+    this.emit('push:deadLetter', letter);
+  }
+
+  private backoff(attempt: number): number {
+    return Math.min(this.options.initialBackoffMs * 2 ** (attempt - 1), this.options.maxBackoffMs);
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.timers.delete(timer);
+        resolve();
+      }, ms);
+      this.timers.set(timer, resolve);
+    });
+  }
+
+  private statusFor(delivery: Delivery): PushDeliveryStatus {
+    const key = this.key(delivery.taskId, delivery.configId);
+    let status = this.statuses.get(key);
+    if (!status) {
+      status = {
+        taskId: delivery.taskId,
+        configId: delivery.configId,
+        url: delivery.config.url,
+        delivered: 0,
+        failed: 0,
+        pending: 0
+      };
+      this.pruneStatuses();
+      this.statuses.set(key, status);
+    }
+    return status;
+  }
+
+  /**
+   * Make room for a new status by dropping the oldest ones without pending deliveries
+   */
+  private pruneStatuses(): void {
+    for (const [key, status] of this.statuses) {
+      if (this.statuses.size < this.options.maxStatuses) {
+        return;
+      }
+      if (status.pending === 0) {
+        this.statuses.delete(key);
+      }
+    }
+  }
+
+  private key(taskId: string, configId: string): string {
+    return `${taskId}/${configId}`;
+  }
+}
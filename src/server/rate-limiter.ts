@@ -5,6 +5,7 @@
  */
 
 import { createLogger } from '@a2a-webcap/shared';
+import { RateLimitedError } from '../shared/errors.js';
 
 const log = createLogger('rate-limiter');
 
@@ -47,7 +48,7 @@ export class RateLimiter {
     // Check if blocked
     if (entry.blockedUntil && entry.blockedUntil > now) {
       const retryAfter = Math.ceil((entry.blockedUntil.getTime() - now.getTime()) / 1000);
-      throw new RateLimitError(
+      throw new RateLimitedError(
         `Rate limit exceeded. Try again in ${retryAfter} seconds`,
         retryAfter
       );
@@ -68,7 +69,7 @@ export class RateLimiter {
       }
 
       const retryAfter = this.config.blockDuration || this.config.duration;
-      throw new RateLimitError(
+      throw new RateLimitedError(
         `Rate limit exceeded. Try again in ${retryAfter} seconds`,
         retryAfter
       );
@@ -162,16 +163,3 @@ export class RateLimiter {
     return this.entries.size;
   }
 }
-
-/**
- * Rate limit error
- */
-export class RateLimitError extends Error {
-  constructor(
-    message: string,
-    public retryAfter: number
-  ) {
-    super(message);
-    this.name = 'RateLimitError';
-  }
-}
@@ -0,0 +1,65 @@
+/**
+ * Resource names used by the A2A protocol
+ *
+ * Requests identify tasks as `tasks/{task_id}` and push notification configs
+ * as `tasks/{task_id}/pushNotificationConfigs/{config_id}`. Names carry
+ * the IDs as they are; the HTTP binding decodes path segments before a name
+ * gets here.
+ */
+
+import { InvalidParamsError } from '../shared/errors.js';
+
+const TASK_NAME = /^tasks\/([^/]+)$/;
+const PUSH_CONFIG_NAME = /^tasks\/([^/]+)\/pushNotificationConfigs\/([^/]+)$/;
+
+/**
+ * Error thrown for resource names that don't match the expected format
+ */
+export class InvalidResourceNameError extends InvalidParamsError {
+  name = 'InvalidResourceNameError';
+
+  constructor(public readonly resourceName: string, expected: string) {
+    super(`Invalid resource name "${resourceName}", expected ${expected}`, { resourceName });
+  }
+}
+
+/**
+ * Format a task resource name
+ */
+export function taskName(taskId: string): string {
+  return `tasks/${taskId}`;
+}
+
+/**
+ * Format a push notification config resource name
+ */
+export function pushConfigName(taskId: string, configId: string): string {
+  return `tasks/${taskId}/pushNotificationConfigs/${configId}`;
+}
+
+/**
+ * Extract the task ID from `tasks/{task_id}`
+ *
+ * @throws InvalidResourceNameError if the name is malformed
+ */
+export function parseTaskName(name: string): string {
+  const match = TASK_NAME.exec(name || '');
+  if (!match) {
+    throw new InvalidResourceNameError(name, 'tasks/{task_id}');
+  }
+  return match[1];
+}
+
+/**
+ * Extract the task and config IDs from
+ * `tasks/{task_id}/pushNotificationConfigs/{config_id}`
+ *
+ * @throws InvalidResourceNameError if the name is malformed
+ */
+export function parsePushConfigName(name: string): { taskId: string; configId: string } {
+  const match = PUSH_CONFIG_NAME.exec(name || '');
+  if (!match) {
+    throw new InvalidResourceNameError(name, 'tasks/{task_id}/pushNotificationConfigs/{config_id}');
+  }
+  return { taskId: match[1], configId: match[2] };
+}
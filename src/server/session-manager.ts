@@ -6,66 +6,85 @@
  * 2. Server returns short-lived session token
  * 3. Client connects WebSocket with session token
  * 4. Server returns capability-secured stub
+ *
+ * Sessions live in a SessionStore (in-memory by default). With a shared
+ * store (KV, files on a shared volume) any replica can validate a session
+ * another replica created. Sessions expire by TTL; there is no cleanup timer.
+ *
+ * Revoking a session (logout, admin revocation) emits `session:revoked`, so
+ * connections authenticated with it can be closed. The event is local:
+ * other replicas only notice when they next validate the session.
  */
 
-import crypto from 'crypto';
-import { AuthenticationService } from './authentication-service.js';
-import type { CapabilitySet } from '../shared/a2a.types.ts';
+import { createLogger } from '../shared/logger.js';
+import { randomBytes, sha256, toHex } from '../shared/platform/crypto.js';
+import { EventEmitter } from '../shared/platform/events.js';
+import type { CapabilitySet } from './authorization-policy.js';
+import { InMemorySessionStore } from './store/in-memory-session-store.js';
+import type { Session, SessionStore } from './store/session-store.js';
 
-const log = console; // TODO: Replace with proper logger
+export type { Session } from './store/session-store.js';
 
-export interface Session {
-  id: string;
-  userId: string;
-  permissions: string[];
-  capabilities?: CapabilitySet;
-  createdAt: Date;
-  expiresAt: Date;
-  metadata?: Record<string, any>;
+const log = createLogger('session-manager');
+
+/**
+ * The client presenting a session, as seen by the server
+ */
+export interface ClientInfo {
+  ipAddress?: string;
+  userAgent?: string;
 }
 
 export interface SessionManagerConfig {
-  sessionTimeout: number; // Session timeout in milliseconds
-  cleanupInterval?: number; // Cleanup interval in milliseconds
+  /** Session lifetime in seconds */
+  sessionTimeout: number;
+  /** Session persistence backend (defaults to in-memory) */
+  store?: SessionStore;
+  /**
+   * Reject sessions presented by a client whose IP address or user agent
+   * differs from the one that created the session
+   */
+  bindToClient?: boolean;
+  /** @deprecated Expired sessions are dropped by the store; ignored */
+  cleanupInterval?: number;
 }
 
 /**
  * SessionManager handles temporary authentication sessions
  */
-export class SessionManager {
-  private authService: AuthenticationService;
-  private sessions = new Map<string, Session>();
-  private cleanupTimer?: NodeJS.Timeout;
-  private config: SessionManagerConfig;
+export class SessionManager extends EventEmitter {
+  private readonly store: SessionStore;
+  private readonly sessionTimeout: number;
+  private readonly bindToClient: boolean;
 
   constructor(config: SessionManagerConfig) {
-    this.config = {
-      cleanupInterval: 300000, // 5 minutes default
-      ...config
-    };
-    this.authService = new AuthenticationService({ jwtSecret: 'dummy' });
+    super();
+    this.store = config.store ?? new InMemorySessionStore();
+    this.sessionTimeout = config.sessionTimeout;
+    this.bindToClient = config.bindToClient ?? false;
 
-    // Start cleanup timer
-    this.cleanupTimer = setInterval(
-      () => this.cleanupExpiredSessions(),
-      this.config.cleanupInterval
+    log.info(
+      { sessionTimeout: this.sessionTimeout, store: this.store.constructor.name, bindToClient: this.bindToClient },
+      'SessionManager initialized'
     );
-
-    log.info({ config: this.config }, 'SessionManager initialized');
   }
 
   /**
    * Create a new session
+   *
+   * The client's IP address and user agent are recorded in the session
+   * metadata, with a fingerprint used when sessions are bound to clients.
    */
   async createSession(params: {
     userId: string;
     permissions: string[];
     capabilities?: CapabilitySet;
     metadata?: Record<string, any>;
+    client?: ClientInfo;
   }): Promise<Session> {
-    const sessionId = crypto.randomUUID();
+    const sessionId = `sess_${toHex(randomBytes(32))}`;
     const now = new Date();
-    const expiresAt = new Date(now.getTime() + this.config.sessionTimeout);
+    const expiresAt = new Date(now.getTime() + this.sessionTimeout * 1000);
 
     const session: Session = {
       id: sessionId,
@@ -74,10 +93,11 @@ export class SessionManager {
       capabilities: params.capabilities,
       createdAt: now,
       expiresAt,
-      metadata: params.metadata
+      metadata: params.client ? { ...params.metadata, ...params.client } : params.metadata,
+      fingerprint: params.client ? await clientFingerprint(params.client) : undefined
     };
 
-    this.sessions.set(sessionId, session);
+    await this.store.put(session);
     log.info({ sessionId, userId: params.userId, expiresAt }, 'Session created');
 
     return session;
@@ -85,17 +105,19 @@ export class SessionManager {
 
   /**
    * Validate a session and return it if valid
+   *
+   * @param client - Client presenting the session; checked when sessions
+   *   are bound to clients
    */
-  async validateSession(sessionId: string): Promise<Session | null> {
-    const session = this.sessions.get(sessionId);
+  async validateSession(sessionId: string, client?: ClientInfo): Promise<Session | null> {
+    const session = await this.store.get(sessionId);
 
     if (!session) {
       return null;
     }
 
-    if (session.expiresAt < new Date()) {
-      this.sessions.delete(sessionId);
-      log.info({ sessionId }, 'Session expired and removed');
+    if (this.bindToClient && session.fingerprint && (!client || (await clientFingerprint(client)) !== session.fingerprint)) {
+      log.warn({ sessionId, userId: session.userId, ipAddress: client?.ipAddress }, 'Session presented by another client');
       return null;
     }
 
@@ -103,71 +125,148 @@ export class SessionManager {
   }
 
   /**
-   * Extend session expiration
+   * Validate a session and delete it, so it can be used only once
+   */
+  async consumeSession(sessionId: string): Promise<Session | null> {
+    const session = await this.store.take(sessionId);
+
+    if (session) {
+      log.info({ sessionId, userId: session.userId }, 'Session consumed');
+    }
+
+    return session ?? null;
+  }
+
+  /**
+   * Add time to a session's expiration
+   *
+   * @param timeout - Seconds to add (defaults to the session timeout)
    */
   async extendSession(sessionId: string, timeout?: number): Promise<boolean> {
-    const session = this.sessions.get(sessionId);
+    const session = await this.store.get(sessionId);
 
     if (!session) {
       return false;
     }
 
-    const extension = timeout || this.config.sessionTimeout;
-    session.expiresAt = new Date(Date.now() + extension);
+    const extension = (timeout ?? this.sessionTimeout) * 1000;
+    return this.setExpiry(sessionId, new Date(session.expiresAt.getTime() + extension));
+  }
 
-    log.info({ sessionId, expiresAt: session.expiresAt }, 'Session extended');
-    return true;
+  /**
+   * Restart a session's timeout on activity, so idle sessions expire
+   * `sessionTimeout` seconds after their last use
+   */
+  async touchSession(sessionId: string): Promise<boolean> {
+    return this.setExpiry(sessionId, new Date(Date.now() + this.sessionTimeout * 1000));
   }
 
   /**
-   * Delete a session
+   * Restart the timeout of a session the client still holds
+   *
+   * @returns The refreshed session, or null if it is invalid, expired or
+   *   presented by another client
    */
-  async deleteSession(sessionId: string): Promise<boolean> {
-    const deleted = this.sessions.delete(sessionId);
+  async refreshSession(sessionId: string, client?: ClientInfo): Promise<Session | null> {
+    if (!(await this.validateSession(sessionId, client))) {
+      return null;
+    }
+
+    const expiresAt = new Date(Date.now() + this.sessionTimeout * 1000);
+    const session = await this.store.extend(sessionId, expiresAt);
 
-    if (deleted) {
-      log.info({ sessionId }, 'Session deleted');
+    if (session) {
+      log.info({ sessionId, expiresAt }, 'Session refreshed');
     }
 
-    return deleted;
+    return session ?? null;
   }
 
   /**
-   * Get session count
+   * Delete a session
    */
-  getSessionCount(): number {
-    return this.sessions.size;
+  async deleteSession(sessionId: string): Promise<boolean> {
+    return this.revokeSession(sessionId);
   }
 
   /**
-   * Clean up expired sessions
+   * Delete a session before it expires and notify its connections
    */
-  private cleanupExpiredSessions(): void {
-    const now = new Date();
-    let cleanedCount = 0;
+  async revokeSession(sessionId: string): Promise<boolean> {
+    const session = await this.store.take(sessionId);
 
-    for (const [sessionId, session] of this.sessions.entries()) {
-      if (session.expiresAt < now) {
-        this.sessions.delete(sessionId);
-        cleanedCount++;
-      }
+    if (!session) {
+      return false;
     }
 
-    if (cleanedCount > 0) {
-      log.info({ cleanedCount, totalSessions: this.sessions.size }, 'Cleaned up expired sessions');
+    log.info({ sessionId, userId: session.userId }, 'Session revoked');
+    this.emit('session:revoked', session);
+    return true;
+  }
+
+  /**
+   * Revoke every session of a user
+   *
+   * @returns Number of sessions revoked
+   */
+  async revokeUserSessions(userId: string): Promise<number> {
+    let revoked = 0;
+
+    for (const session of await this.store.listByUser(userId)) {
+      if (await this.revokeSession(session.id)) {
+        revoked++;
+      }
     }
+
+    log.info({ userId, revoked }, 'User sessions revoked');
+    return revoked;
+  }
+
+  /**
+   * Get the live sessions of a user
+   */
+  async getUserSessions(userId: string): Promise<Session[]> {
+    return this.store.listByUser(userId);
+  }
+
+  /**
+   * Get session count, or undefined when the store cannot count sessions
+   * cheaply
+   */
+  getSessionCount(): number | undefined {
+    return this.store.size();
+  }
+
+  /**
+   * Delete every session
+   */
+  async clearAllSessions(): Promise<void> {
+    await this.store.clear();
+    log.info('All sessions cleared');
   }
 
   /**
-   * Destroy the session manager and clean up resources
+   * Release the session manager. Sessions stay in the store, so a shared
+   * store keeps serving them to other replicas.
    */
   destroy(): void {
-    if (this.cleanupTimer) {
-      clearInterval(this.cleanupTimer);
-      this.cleanupTimer = undefined;
+    log.info('SessionManager destroyed');
+  }
+
+  private async setExpiry(sessionId: string, expiresAt: Date): Promise<boolean> {
+    const session = await this.store.extend(sessionId, expiresAt);
+
+    if (session) {
+      log.info({ sessionId, expiresAt }, 'Session extended');
     }
 
-    this.sessions.clear();
-    log.info('SessionManager destroyed');
+    return session !== undefined;
   }
 }
+
+/**
+ * Opaque identifier of the client a session was issued to
+ */
+async function clientFingerprint(client: ClientInfo): Promise<string> {
+  return toHex(await sha256(`${client.ipAddress ?? ''}\n${client.userAgent ?? ''}`));
+}
@@ -2,9 +2,37 @@ import { createServer, type IncomingMessage, type ServerResponse } from 'http';
 import { pathToFileURL } from 'url';
 import { WebSocketServer } from 'ws';
 import pino, { type Logger } from 'pino';
-import { A2AService } from './a2a-service';
-import { AuthenticationService } from './authentication-service';
-import { SessionManager } from './session-manager';
+import { A2AService, type A2AServiceConfig, type AuthenticatedA2AService } from './a2a-service';
+import { AuthenticationService, type TrustedIssuer } from './authentication-service';
+import { JwksResolver } from './jwks.js';
+import { OAuthIntrospector } from './oauth-introspection.js';
+import { SessionManager, type ClientInfo, type Session } from './session-manager';
+import { createTaskStore, type TaskStoreKind } from './store/task-store.js';
+import { createSessionStore, type SessionStoreKind } from './store/session-store.js';
+import { createApiKeyStore, type ApiKeyStoreKind } from './store/api-key-store.js';
+import type { StreamingTask } from './streaming-task.js';
+import { handleSseRequest, matchSseRoute } from './http/sse-binding.js';
+import { handleRestRequest } from './http/rest-binding.js';
+import { handleJsonRpcRequest } from './http/jsonrpc-binding.js';
+import { authenticateBearer, readJsonBody, sendJsonError } from './http/http-utils.js';
+import { JsonRpcDispatcher, errorResponse, toJsonRpcError } from './jsonrpc/jsonrpc-dispatcher.js';
+import { PublicA2AService, startCapnwebSession } from './capnweb-session.js';
+import { matchHttpRoute } from '../shared/http-routes.js';
+import {
+  ForbiddenError,
+  InvalidParamsError,
+  UnauthorizedError,
+  UnsupportedOperationError,
+  toA2AError
+} from '../shared/errors.js';
+import type { TaskArtifactUpdateEvent, TaskStatusUpdateEvent } from '../shared/a2a.types.js';
+import { setLoggerFactory } from '../shared/logger.js';
+import { pinoLoggerFactory } from '../shared/platform/pino-logger.js';
+
+setLoggerFactory(pinoLoggerFactory);
+
+/** WebSocket path of the Cap'n Web RPC endpoint */
+export const CAPNWEB_PATH = '/capnweb';
 
 export interface StandaloneServerConfig {
   host?: string;
@@ -13,7 +41,30 @@ export interface StandaloneServerConfig {
   jwtSecret?: string;
   jwtIssuer?: string;
   jwtAudience?: string;
+  /** JWKS file with this server's signing keys (tokens are then signed with its first private key) */
+  jwtKeysFile?: string;
+  /** Identity providers whose tokens are accepted */
+  trustedIssuers?: TrustedIssuer[];
+  /** RFC 7662 endpoint opaque OAuth access tokens are introspected at */
+  oauthIntrospectionUrl?: string;
+  /** Credentials for the introspection endpoint */
+  oauthClientId?: string;
+  oauthClientSecret?: string;
+  /** Token URL advertised in the agent card's client credentials flow */
+  oauthTokenUrl?: string;
+  /** Permissions granted per OAuth scope; unmapped scopes grant nothing */
+  oauthScopePermissions?: Record<string, string[]>;
+  /** Where API keys live; 'file' keeps them across restarts */
+  apiKeyStore?: ApiKeyStoreKind;
+  apiKeyStorePath?: string;
   sessionTimeout?: number;
+  /** Where sessions live; replicas behind a load balancer need a shared 'file' directory */
+  sessionStore?: SessionStoreKind;
+  sessionStorePath?: string;
+  /** Reject sessions presented from another IP address or user agent */
+  sessionBindToClient?: boolean;
+  taskStore?: TaskStoreKind;
+  taskStorePath?: string;
   logger?: Logger;
 }
 
@@ -29,6 +80,7 @@ export interface StandaloneServerRuntime {
 function resolveConfig(config: StandaloneServerConfig): Required<Omit<StandaloneServerConfig, 'logger'>> & { logger: Logger } {
   const host = config.host ?? process.env.HOST ?? '0.0.0.0';
   const port = config.port ?? parseInt(process.env.PORT || '8080', 10);
+  const taskStore = config.taskStore ?? (process.env.TASK_STORE as TaskStoreKind | undefined) ?? 'memory';
 
   const resolved: Required<Omit<StandaloneServerConfig, 'logger'>> & { logger: Logger } = {
     host,
@@ -37,7 +89,23 @@ function resolveConfig(config: StandaloneServerConfig): Required<Omit<Standalone
     jwtSecret: config.jwtSecret ?? process.env.JWT_SECRET ?? 'dev-secret-change-in-production',
     jwtIssuer: config.jwtIssuer ?? process.env.JWT_ISSUER ?? 'a2a-webcap',
     jwtAudience: config.jwtAudience ?? process.env.JWT_AUDIENCE ?? 'a2a-api',
+    jwtKeysFile: config.jwtKeysFile ?? process.env.JWT_JWKS_FILE ?? '',
+    trustedIssuers: config.trustedIssuers ?? trustedIssuersFromEnv(process.env.JWT_TRUSTED_ISSUERS),
+    oauthIntrospectionUrl: config.oauthIntrospectionUrl ?? process.env.OAUTH_INTROSPECTION_URL ?? '',
+    oauthClientId: config.oauthClientId ?? process.env.OAUTH_CLIENT_ID ?? '',
+    oauthClientSecret: config.oauthClientSecret ?? process.env.OAUTH_CLIENT_SECRET ?? '',
+    oauthTokenUrl: config.oauthTokenUrl ?? process.env.OAUTH_TOKEN_URL ?? '',
+    oauthScopePermissions:
+      config.oauthScopePermissions ?? JSON.parse(process.env.OAUTH_SCOPE_PERMISSIONS || '{}'),
+    apiKeyStore: config.apiKeyStore ?? (process.env.API_KEY_STORE as ApiKeyStoreKind | undefined) ?? 'memory',
+    apiKeyStorePath: config.apiKeyStorePath ?? process.env.API_KEY_STORE_PATH ?? './data/api-keys.json',
     sessionTimeout: config.sessionTimeout ?? parseInt(process.env.SESSION_TIMEOUT || '3600', 10),
+    sessionStore: config.sessionStore ?? (process.env.SESSION_STORE as SessionStoreKind | undefined) ?? 'memory',
+    sessionStorePath: config.sessionStorePath ?? process.env.SESSION_STORE_PATH ?? './data/sessions',
+    sessionBindToClient: config.sessionBindToClient ?? process.env.SESSION_BIND_TO_CLIENT === 'true',
+    taskStore,
+    taskStorePath:
+      config.taskStorePath ?? process.env.TASK_STORE_PATH ?? (taskStore === 'sqlite' ? './data/tasks.db' : './data/tasks.jsonl'),
     logger: config.logger ?? pino({ name: 'a2a-server' })
   };
 
@@ -51,17 +119,66 @@ function resolveConfig(config: StandaloneServerConfig): Required<Omit<Standalone
   return resolved;
 }
 
+/**
+ * Trusted issuers from `JWT_TRUSTED_ISSUERS`, a JSON array of
+ * `{ issuer, jwksFile, audience? }`
+ */
+function trustedIssuersFromEnv(value: string | undefined): TrustedIssuer[] {
+  if (!value) {
+    return [];
+  }
+  return (JSON.parse(value) as Array<{ issuer: string; jwksFile: string; audience?: string | string[] }>).map(
+    ({ issuer, jwksFile, audience }) => ({ issuer, audience, jwks: new JwksResolver({ file: jwksFile }) })
+  );
+}
+
+/**
+ * Agent card entries advertising the OAuth 2.0 client credentials flow
+ */
+function clientCredentialsScheme(
+  resolved: Required<Omit<StandaloneServerConfig, 'logger'>>
+): Pick<A2AServiceConfig, 'securitySchemes' | 'security'> {
+  const scopes = Object.fromEntries(
+    Object.entries(resolved.oauthScopePermissions).map(([scope, permissions]) => [scope, `Grants ${permissions.join(', ')}`])
+  );
+  return {
+    securitySchemes: {
+      oauth2: {
+        oauth2SecurityScheme: {
+          description: 'OAuth 2.0 client credentials',
+          flows: { clientCredentials: { tokenUrl: resolved.oauthTokenUrl, refreshUrl: '', scopes } },
+          oauth2MetadataUrl: ''
+        }
+      }
+    },
+    security: [{ schemes: { oauth2: { list: Object.keys(scopes) } } }]
+  };
+}
+
 export function createStandaloneServer(config: StandaloneServerConfig = {}): StandaloneServerRuntime {
   const resolved = resolveConfig(config);
 
   const authService = new AuthenticationService({
     jwtSecret: resolved.jwtSecret,
     jwtIssuer: resolved.jwtIssuer,
-    jwtAudience: resolved.jwtAudience
+    jwtAudience: resolved.jwtAudience,
+    jwtKeys: resolved.jwtKeysFile ? new JwksResolver({ file: resolved.jwtKeysFile }) : undefined,
+    trustedIssuers: resolved.trustedIssuers,
+    oauthIntrospection: resolved.oauthIntrospectionUrl
+      ? new OAuthIntrospector({
+          introspectionUrl: resolved.oauthIntrospectionUrl,
+          clientId: resolved.oauthClientId || undefined,
+          clientSecret: resolved.oauthClientSecret || undefined,
+          scopePermissions: resolved.oauthScopePermissions
+        })
+      : undefined,
+    apiKeyStore: createApiKeyStore(resolved.apiKeyStore, resolved.apiKeyStorePath)
   });
 
   const sessionManager = new SessionManager({
-    sessionTimeout: resolved.sessionTimeout
+    sessionTimeout: resolved.sessionTimeout,
+    store: createSessionStore(resolved.sessionStore, resolved.sessionStorePath),
+    bindToClient: resolved.sessionBindToClient
   });
 
   const a2aService = new A2AService(
@@ -69,27 +186,36 @@ export function createStandaloneServer(config: StandaloneServerConfig = {}): Sta
       agentName: process.env.AGENT_NAME || 'A2A CapnWeb Server',
       agentDescription: process.env.AGENT_DESCRIPTION || 'A2A protocol server using capnweb transport',
       agentUrl: resolved.agentUrl,
-      protocolVersion: '0.4.0'
+      protocolVersion: '0.4.0',
+      taskStore: createTaskStore(resolved.taskStore, resolved.taskStorePath),
+      additionalInterfaces: [
+        { url: resolved.agentUrl, protocolBinding: 'JSONRPC' },
+        { url: `${resolved.agentUrl}/v1`, protocolBinding: 'HTTP+JSON' }
+      ],
+      ...(resolved.oauthTokenUrl ? clientCredentialsScheme(resolved) : {})
     },
     authService
   );
 
+  const dispatcher = new JsonRpcDispatcher(a2aService, resolved.logger);
+
   const server = createServer(async (req, res) =>
-    httpHandler({ req, res, a2aService, sessionManager, authService, resolved })
+    httpHandler({ req, res, a2aService, sessionManager, authService, dispatcher, resolved })
   );
 
   const wss = new WebSocketServer({ server });
-  wireWebSocketServer({ wss, sessionManager, a2aService, resolved });
+  wireWebSocketServer({ wss, sessionManager, a2aService, authService, dispatcher, resolved });
 
   return { server, wss, a2aService, sessionManager, authService, config: resolved };
 }
 
-function httpHandler({
+async function httpHandler({
   req,
   res,
   a2aService,
   sessionManager,
   authService,
+  dispatcher,
   resolved
 }: {
   req: IncomingMessage;
@@ -97,6 +223,7 @@ function httpHandler({
   a2aService: A2AService;
   sessionManager: SessionManager;
   authService: AuthenticationService;
+  dispatcher: JsonRpcDispatcher;
   resolved: Required<Omit<StandaloneServerConfig, 'logger'>> & { logger: Logger };
 }) {
   const { logger } = resolved;
@@ -104,8 +231,8 @@ function httpHandler({
 
   const corsHeaders = {
     'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-    'Access-Control-Allow-Headers': 'Authorization, Content-Type'
+    'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type, Last-Event-ID'
   };
 
   if (req.method === 'OPTIONS') {
@@ -125,11 +252,44 @@ function httpHandler({
     return;
   }
 
+  // A malformed request must never escape as an unhandled rejection
+  try {
+    const restRoute = matchHttpRoute(req.method, new URL(req.url || '/', 'http://localhost').pathname);
+    if (restRoute) {
+      await handleRestRequest({ req, res, match: restRoute, a2aService, authService, logger, corsHeaders });
+      return;
+    }
+
+    const sseRoute = matchSseRoute(req.method, req.url);
+    if (sseRoute) {
+      await handleSseRequest({ req, res, route: sseRoute, a2aService, authService, logger, corsHeaders });
+      return;
+    }
+  } catch (error: any) {
+    logger.error({ error: error.message, url: req.url }, 'HTTP request error');
+    if (!res.headersSent) {
+      sendJsonError(res, error, corsHeaders);
+    } else {
+      res.end();
+    }
+    return;
+  }
+
   if (req.url === '/a2a/auth' && req.method === 'POST') {
     handleAuthRequest({ req, res, authService, sessionManager, resolved, corsHeaders });
     return;
   }
 
+  if (req.url?.startsWith('/a2a/auth/') && req.method === 'POST') {
+    handleSessionRequest({ req, res, authService, sessionManager, resolved, corsHeaders });
+    return;
+  }
+
+  if (req.url === '/' && req.method === 'POST') {
+    handleJsonRpcRequest({ req, res, dispatcher, a2aService, authService, logger, corsHeaders });
+    return;
+  }
+
   if (req.url === '/') {
     const info = {
       name: 'A2A CapnWeb Server',
@@ -139,6 +299,10 @@ function httpHandler({
       agentCard: `${resolved.agentUrl}/.well-known/agent.json`,
       authEndpoint: `${resolved.agentUrl}/a2a/auth`,
       websocket: `ws://${resolved.host}:${resolved.port}`,
+      capnweb: `ws://${resolved.host}:${resolved.port}${CAPNWEB_PATH}`,
+      jsonrpc: resolved.agentUrl,
+      rest: `${resolved.agentUrl}/v1`,
+      sse: `${resolved.agentUrl}/message:stream`,
       status: 'running'
     };
 
@@ -167,7 +331,7 @@ function httpHandler({
   }
 
   res.writeHead(404, { 'Content-Type': 'text/plain' });
-  res.end('Not Found\n\nEndpoints:\n- / (server info)\n- /.well-known/agent.json (AgentCard)\n- POST /a2a/auth (authentication)\n- /health (health check)\n- ws:// (WebSocket for RPC)\n');
+  res.end('Not Found\n\nEndpoints:\n- / (server info)\n- /.well-known/agent.json (AgentCard)\n- POST /a2a/auth (authentication)\n- POST /a2a/auth/refresh, /a2a/auth/logout, /a2a/auth/revoke (sessions)\n- POST / (JSON-RPC 2.0)\n- /v1/... (HTTP+JSON binding, e.g. POST /v1/message:send)\n- POST /message:stream (SSE)\n- GET /tasks/{id}:subscribe (SSE)\n- /health (health check)\n- ws:// (WebSocket for RPC)\n- ws://.../capnweb (Cap\'n Web RPC session)\n');
 }
 
 function handleAuthRequest({
@@ -191,34 +355,13 @@ function handleAuthRequest({
       const authHeader = req.headers.authorization;
 
       if (!authHeader) {
-        res.writeHead(401, {
-          'Content-Type': 'application/json',
-          'WWW-Authenticate': 'Bearer realm="a2a"',
-          ...corsHeaders
-        });
-        res.end(
-          JSON.stringify({
-            error: 'UNAUTHORIZED',
-            message: 'Missing Authorization header'
-          })
-        );
-        return;
+        throw new UnauthorizedError('Missing Authorization header');
       }
 
       const [scheme, token] = authHeader.split(' ');
 
       if (scheme.toLowerCase() !== 'bearer') {
-        res.writeHead(401, {
-          'Content-Type': 'application/json',
-          ...corsHeaders
-        });
-        res.end(
-          JSON.stringify({
-            error: 'UNAUTHORIZED',
-            message: 'Only Bearer authentication supported'
-          })
-        );
-        return;
+        throw new UnauthorizedError('Only Bearer authentication supported');
       }
 
       const authResult = await authService.authenticate(
@@ -230,26 +373,13 @@ function handleAuthRequest({
       );
 
       if (!authResult.authenticated) {
-        res.writeHead(401, {
-          'Content-Type': 'application/json',
-          ...corsHeaders
-        });
-        res.end(
-          JSON.stringify({
-            error: 'UNAUTHORIZED',
-            message: authResult.metadata?.error || 'Invalid or expired token'
-          })
-        );
-        return;
+        throw new UnauthorizedError(authResult.metadata?.error || 'Invalid or expired token');
       }
 
       const session = await sessionManager.createSession({
         userId: authResult.userId!,
         permissions: authResult.permissions || [],
-        metadata: {
-          ipAddress: req.socket.remoteAddress,
-          userAgent: req.headers['user-agent']
-        }
+        client: clientInfo(req)
       });
 
       res.writeHead(200, {
@@ -266,54 +396,219 @@ function handleAuthRequest({
       );
     } catch (error: any) {
       logger.error({ error: error.message }, 'Authentication endpoint error');
+      sendJsonError(res, error, corsHeaders);
+    }
+  })();
+}
 
-      const isAuthError =
-        error.message?.includes('UNAUTHORIZED') ||
-        error.message?.includes('Invalid') ||
-        error.message?.includes('expired') ||
-        error.code === 'UNAUTHORIZED';
+/**
+ * Session lifecycle endpoints:
+ * - `POST /a2a/auth/refresh` `{ sessionId }` restarts the session timeout
+ * - `POST /a2a/auth/logout` `{ sessionId }` revokes the session
+ * - `POST /a2a/auth/revoke` `{ userId }` revokes every session of a user;
+ *   needs a Bearer token with the `admin` permission
+ *
+ * Revoking a session closes the WebSockets authenticated with it.
+ */
+function handleSessionRequest({
+  req,
+  res,
+  authService,
+  sessionManager,
+  resolved,
+  corsHeaders
+}: {
+  req: IncomingMessage;
+  res: ServerResponse;
+  authService: AuthenticationService;
+  sessionManager: SessionManager;
+  resolved: Required<Omit<StandaloneServerConfig, 'logger'>> & { logger: Logger };
+  corsHeaders: Record<string, string>;
+}) {
+  const { logger } = resolved;
+  const sendJson = (body: unknown) => {
+    res.writeHead(200, { 'Content-Type': 'application/json', ...corsHeaders });
+    res.end(JSON.stringify(body));
+  };
 
-      const statusCode = isAuthError ? 401 : 500;
-      const headers: any = {
-        'Content-Type': 'application/json',
-        ...corsHeaders
-      };
+  (async () => {
+    try {
+      const body = await readJsonBody(req);
 
-      if (isAuthError) {
-        headers['WWW-Authenticate'] = 'Bearer realm="a2a", error="invalid_token"';
-      }
+      switch (req.url) {
+        case '/a2a/auth/refresh': {
+          const session = await sessionManager.refreshSession(requireString(body, 'sessionId'), clientInfo(req));
+          if (!session) {
+            throw new UnauthorizedError('Invalid or expired session');
+          }
+          sendJson({ sessionId: session.id, expiresIn: resolved.sessionTimeout, expiresAt: session.expiresAt });
+          return;
+        }
 
-      res.writeHead(statusCode, headers);
-      res.end(
-        JSON.stringify({
-          error: isAuthError ? 'UNAUTHORIZED' : 'INTERNAL_ERROR',
-          message: isAuthError ? error.message : 'Authentication failed'
-        })
-      );
+        case '/a2a/auth/logout': {
+          const sessionId = requireString(body, 'sessionId');
+          if (!(await sessionManager.validateSession(sessionId, clientInfo(req)))) {
+            throw new UnauthorizedError('Invalid or expired session');
+          }
+          await sessionManager.revokeSession(sessionId);
+          sendJson({ revoked: true });
+          return;
+        }
+
+        case '/a2a/auth/revoke': {
+          const { userId, permissions } = await authenticateBearer(req.headers.authorization, authService, clientInfo(req));
+          if (!permissions.includes('admin')) {
+            throw new ForbiddenError('Revoking sessions requires the admin permission');
+          }
+          const target = requireString(body, 'userId');
+          const revoked = await sessionManager.revokeUserSessions(target);
+          logger.info({ adminId: userId, userId: target, revoked }, 'Sessions revoked by admin');
+          sendJson({ userId: target, revoked });
+          return;
+        }
+
+        default:
+          res.writeHead(404, { 'Content-Type': 'text/plain', ...corsHeaders });
+          res.end('Not Found');
+      }
+    } catch (error: any) {
+      logger.error({ error: error.message, url: req.url }, 'Session endpoint error');
+      sendJsonError(res, error, corsHeaders);
     }
   })();
 }
 
+function clientInfo(req: IncomingMessage): ClientInfo {
+  return { ipAddress: req.socket.remoteAddress, userAgent: req.headers['user-agent'] };
+}
+
+function requireString(body: any, field: string): string {
+  if (typeof body?.[field] !== 'string' || !body[field]) {
+    throw new InvalidParamsError(`Missing ${field}`);
+  }
+  return body[field];
+}
+
 function wireWebSocketServer({
   wss,
   sessionManager,
   a2aService,
+  authService,
+  dispatcher,
   resolved
 }: {
   wss: WebSocketServer;
   sessionManager: SessionManager;
   a2aService: A2AService;
+  authService: AuthenticationService;
+  dispatcher: JsonRpcDispatcher;
   resolved: Required<Omit<StandaloneServerConfig, 'logger'>> & { logger: Logger };
 }) {
   const { logger } = resolved;
 
   wss.on('connection', (ws, req) => {
-    logger.info({ remoteAddress: req.socket.remoteAddress }, 'WebSocket connection');
+    logger.info({ remoteAddress: req.socket.remoteAddress, url: req.url }, 'WebSocket connection');
+
+    // Cap'n Web clients get a real RPC session; other paths keep the
+    // JSON message protocols below
+    if (new URL(req.url || '/', 'http://localhost').pathname === CAPNWEB_PATH) {
+      startCapnwebSession(
+        ws,
+        new PublicA2AService(a2aService, sessionManager, {
+          client: clientInfo(req),
+          onSessionRevoked: () => ws.close(1008, 'Session revoked')
+        })
+      );
+      return;
+    }
 
     let authenticatedService: any = null;
     let sessionId: string | null = null;
 
+    // Close the socket when the session it authenticated with is revoked
+    const onSessionRevoked = (session: Session) => {
+      if (session.id !== sessionId) {
+        return;
+      }
+      authenticatedService?.[Symbol.dispose]();
+      authenticatedService = null;
+      sessionId = null;
+      logger.info({ userId: session.userId }, 'Closing WebSocket of revoked session');
+      ws.close(1008, 'Session revoked');
+    };
+    sessionManager.on('session:revoked', onSessionRevoked);
+    const subscriptions = new Set<StreamingTask>();
+    let jsonRpcService: AuthenticatedA2AService | undefined;
+
+    // The session is validated on every message so the socket stops working
+    // once it expires, not only when it is revoked
+    const checkSession = async (): Promise<AuthenticatedA2AService> => {
+      const session = sessionId ? await sessionManager.validateSession(sessionId, clientInfo(req)) : undefined;
+      if (!session) {
+        authenticatedService?.[Symbol.dispose]();
+        authenticatedService = null;
+        sessionId = null;
+        throw new UnauthorizedError('Session expired. Please re-authenticate.');
+      }
+      await sessionManager.touchSession(session.id);
+      return authenticatedService;
+    };
+
+    // JSON-RPC 2.0 messages; the caller is either authenticated through the
+    // `authenticate` method or by the Bearer token of the upgrade request
+    const handleJsonRpcMessage = async (payload: any) => {
+      let service: AuthenticatedA2AService;
+      try {
+        if (authenticatedService) {
+          service = await checkSession();
+        } else {
+          // The token is checked on every message so the socket stops
+          // working once it expires or is revoked; the service is kept so
+          // the capabilities it gains (e.g. for tasks it created) last
+          const { userId, permissions } = await authenticateBearer(req.headers.authorization, authService, clientInfo(req));
+          service = jsonRpcService ??= a2aService.createAuthenticatedService(userId, permissions);
+        }
+      } catch (error: any) {
+        jsonRpcService?.[Symbol.dispose]();
+        jsonRpcService = undefined;
+        const id = Array.isArray(payload) ? null : payload.id ?? null;
+        ws.send(JSON.stringify(errorResponse(id, toJsonRpcError(error))));
+        return;
+      }
+
+      const response = await dispatcher.handle(payload, {
+        service,
+        openStream: (_id, streamingTask) => {
+          subscriptions.add(streamingTask);
+          return {
+            send: (rpcResponse) => ws.send(JSON.stringify(rpcResponse)),
+            close: () => {
+              subscriptions.delete(streamingTask);
+              streamingTask.dispose();
+            }
+          };
+        }
+      });
+
+      if (response) {
+        ws.send(JSON.stringify(response));
+      }
+    };
+
     ws.on('message', async (data) => {
+      const payload = (() => {
+        try {
+          return JSON.parse(data.toString());
+        } catch {
+          return undefined;
+        }
+      })();
+
+      if (Array.isArray(payload) || payload?.jsonrpc === '2.0') {
+        await handleJsonRpcMessage(payload);
+        return;
+      }
+
       const requestId = (() => {
         try {
           return JSON.parse(data.toString()).id;
@@ -343,18 +638,19 @@ function wireWebSocketServer({
           const sessionIdParam = request.params?.sessionId;
 
           if (!sessionIdParam) {
-            throw Object.assign(new Error('Missing sessionId parameter'), { code: 'UNAUTHORIZED' });
+            throw new UnauthorizedError('Missing sessionId parameter');
           }
 
-          const session = await sessionManager.validateSession(sessionIdParam);
+          const session = await sessionManager.validateSession(sessionIdParam, clientInfo(req));
 
           if (!session) {
-            throw Object.assign(new Error('Invalid or expired session'), { code: 'UNAUTHORIZED' });
+            throw new UnauthorizedError('Invalid or expired session');
           }
 
-          await sessionManager.extendSession(sessionIdParam, resolved.sessionTimeout);
+          await sessionManager.touchSession(sessionIdParam);
 
-          authenticatedService = a2aService.createAuthenticatedService(session.userId, session.permissions);
+          authenticatedService?.[Symbol.dispose]();
+          authenticatedService = a2aService.createAuthenticatedService(session.userId, session.permissions, session.capabilities);
           sessionId = sessionIdParam;
 
           logger.info({ sessionId, userId: session.userId }, 'WebSocket authenticated');
@@ -369,19 +665,10 @@ function wireWebSocketServer({
         }
 
         if (!authenticatedService || !sessionId) {
-          throw Object.assign(new Error('Authentication required. Call authenticate method first.'), {
-            code: 'UNAUTHORIZED'
-          });
-        }
-
-        const session = await sessionManager.validateSession(sessionId);
-        if (!session) {
-          authenticatedService = null;
-          sessionId = null;
-          throw Object.assign(new Error('Session expired. Please re-authenticate.'), { code: 'UNAUTHORIZED' });
+          throw new UnauthorizedError('Authentication required. Call authenticate method first.');
         }
 
-        await sessionManager.extendSession(sessionId, resolved.sessionTimeout);
+        await checkSession();
 
         switch (request.method) {
           case 'sendMessage':
@@ -396,8 +683,39 @@ function wireWebSocketServer({
           case 'cancelTask':
             response = await authenticatedService.cancelTask(request.params.taskId);
             break;
+          case 'getTaskStateTransitions':
+            response = await authenticatedService.getTaskStateTransitions(request.params.taskId);
+            break;
+          case 'subscribeToTask': {
+            // Updates are pushed as { type: 'taskUpdate', subscriptionId, ...StreamResponse }
+            const subscriptionId = request.id;
+            const streamingTask: StreamingTask = await authenticatedService.subscribeToTask({ name: request.params.name }, {
+              onStatusUpdate: async (statusUpdate: TaskStatusUpdateEvent) => {
+                ws.send(JSON.stringify({ type: 'taskUpdate', subscriptionId, statusUpdate }));
+              },
+              onArtifactUpdate: async (artifactUpdate: TaskArtifactUpdateEvent) => {
+                ws.send(JSON.stringify({ type: 'taskUpdate', subscriptionId, artifactUpdate }));
+              }
+            }, request.params.afterSequence);
+            subscriptions.add(streamingTask);
+            response = { subscribed: true, subscriptionId };
+            break;
+          }
+          case 'setTaskPushNotificationConfig':
+            response = await authenticatedService.setTaskPushNotificationConfig(request.params);
+            break;
+          case 'getTaskPushNotificationConfig':
+            response = await authenticatedService.getTaskPushNotificationConfig(request.params);
+            break;
+          case 'listTaskPushNotificationConfig':
+            response = await authenticatedService.listTaskPushNotificationConfig(request.params);
+            break;
+          case 'deleteTaskPushNotificationConfig':
+            await authenticatedService.deleteTaskPushNotificationConfig(request.params);
+            response = { deleted: true };
+            break;
           default:
-            throw new Error(`Unknown method: ${request.method}`);
+            throw new UnsupportedOperationError(`Unknown method: ${request.method}`);
         }
 
         ws.send(
@@ -412,10 +730,7 @@ function wireWebSocketServer({
         ws.send(
           JSON.stringify({
             id: requestId,
-            error: {
-              code: error.code || 'INTERNAL_ERROR',
-              message: error.message
-            }
+            error: toA2AError(error).toJSON()
           })
         );
       }
@@ -423,6 +738,15 @@ function wireWebSocketServer({
 
     ws.on('close', (code, reason) => {
       logger.info({ code, reason: reason.toString() }, 'WebSocket connection closed');
+      sessionManager.off('session:revoked', onSessionRevoked);
+      for (const streamingTask of subscriptions) {
+        streamingTask.dispose();
+      }
+      subscriptions.clear();
+      authenticatedService?.[Symbol.dispose]();
+      authenticatedService = null;
+      jsonRpcService?.[Symbol.dispose]();
+      jsonRpcService = undefined;
     });
 
     ws.on('error', (error) => {
@@ -456,6 +780,7 @@ export function startStandaloneServer(config: StandaloneServerConfig = {}): Prom
       console.log(`Server:      http://${runtime.config.host}:${runtime.config.port}`);
       console.log(`AgentCard:   ${runtime.config.agentUrl}/.well-known/agent.json`);
       console.log(`WebSocket:   ws://${runtime.config.host}:${runtime.config.port}`);
+      console.log(`Cap'n Web:   ws://${runtime.config.host}:${runtime.config.port}${CAPNWEB_PATH}`);
       console.log(`Health:      http://${runtime.config.host}:${runtime.config.port}/health`);
       console.log('========================================\n');
 
@@ -0,0 +1,75 @@
+/**
+ * Core ApiKeyStore interface used by AuthenticationService.
+ *
+ * AuthenticationService owns the key rules (format, hashing, rotation,
+ * expiry, IP allowlists); an ApiKeyStore only owns persistence. Keys are
+ * looked up by the SHA-256 hash of the secret on every request, so every
+ * implementation indexes them by hash. The secret itself is never stored.
+ */
+
+import { FileApiKeyStore } from './file-api-key-store.js';
+import { InMemoryApiKeyStore } from './in-memory-api-key-store.js';
+
+export interface ApiKey {
+  id: string;
+  /** Start of the secret (e.g. `ak_live_1a2b3c4d`), to tell keys apart in listings */
+  prefix: string;
+  hashedKey: string;
+  userId: string;
+  permissions: string[];
+  /** Action patterns the key is limited to (e.g. `task:read`); unlimited when unset */
+  scopes?: string[];
+  /** IP addresses or IPv4 CIDR ranges the key may be used from; any when unset */
+  allowedIps?: string[];
+  expiresAt?: Date;
+  lastUsedAt?: Date;
+  createdAt: Date;
+  /** ID of the key that replaced this one; set when it is rotated */
+  rotatedTo?: string;
+}
+
+export interface ApiKeyStore {
+  /** Look up a key by the hash of its secret. Resolves to undefined when there is none. */
+  findByHash(hashedKey: string): Promise<ApiKey | undefined>;
+  /** Load a key by ID. Resolves to undefined when there is none. */
+  get(id: string): Promise<ApiKey | undefined>;
+  /** Insert a key. Rejects when its ID or hash is already taken. */
+  create(apiKey: ApiKey): Promise<void>;
+  /** Change fields of a key. Resolves to the updated key, or undefined when there is none. */
+  update(id: string, updates: Partial<Omit<ApiKey, 'id' | 'hashedKey'>>): Promise<ApiKey | undefined>;
+  /** Remove a key. Resolves to true when a key was removed. */
+  delete(id: string): Promise<boolean>;
+  /** Return every key, or the keys of one user, in no particular order. */
+  list(userId?: string): Promise<ApiKey[]>;
+}
+
+export type ApiKeyStoreKind = 'memory' | 'file';
+
+/**
+ * Build one of the bundled ApiKeyStore implementations
+ *
+ * @param kind - Which store to create
+ * @param path - JSON file for the file store (ignored for 'memory')
+ */
+export function createApiKeyStore(kind: ApiKeyStoreKind, path?: string): ApiKeyStore {
+  switch (kind) {
+    case 'memory':
+      return new InMemoryApiKeyStore();
+    case 'file':
+      return new FileApiKeyStore({ filename: path || './data/api-keys.json' });
+    default:
+      throw new Error(`Unknown API key store: ${kind}`);
+  }
+}
+
+/**
+ * Restore the dates of an API key read back from JSON
+ */
+export function deserializeApiKey(stored: any): ApiKey {
+  return {
+    ...stored,
+    createdAt: new Date(stored.createdAt),
+    expiresAt: stored.expiresAt ? new Date(stored.expiresAt) : undefined,
+    lastUsedAt: stored.lastUsedAt ? new Date(stored.lastUsedAt) : undefined
+  };
+}
@@ -0,0 +1,70 @@
+import type { Task } from '../../shared/a2a.types.ts';
+import type { TaskStore } from './task-store.js';
+
+const KEY_PREFIX = 'task:';
+
+/**
+ * TaskStore backed by Durable Object storage.
+ *
+ * Each task is stored under `task:{id}`. `load()` reads every task into an
+ * in-memory index when the Durable Object starts (or wakes from
+ * hibernation), which keeps `size()` synchronous and lets reads skip
+ * storage. Writes go to storage before the index, so a write that fails
+ * leaves the index unchanged.
+ */
+export class DurableObjectTaskStore implements TaskStore {
+  private tasks = new Map<string, Task>();
+
+  private constructor(private readonly storage: DurableObjectStorage) {}
+
+  /**
+   * Open the store and read the stored tasks into memory
+   *
+   * Call inside `state.blockConcurrencyWhile()` so no request sees a
+   * partially loaded store.
+   */
+  static async load(storage: DurableObjectStorage): Promise<DurableObjectTaskStore> {
+    const store = new DurableObjectTaskStore(storage);
+    const stored = await storage.list<Task>({ prefix: KEY_PREFIX });
+    for (const task of stored.values()) {
+      store.tasks.set(task.id, task);
+    }
+    return store;
+  }
+
+  async get(taskId: string): Promise<Task | undefined> {
+    const task = this.tasks.get(taskId);
+    return task ? structuredClone(task) : undefined;
+  }
+
+  async put(task: Task): Promise<void> {
+    const snapshot = structuredClone(task);
+    await this.storage.put(KEY_PREFIX + task.id, snapshot);
+    this.tasks.set(task.id, snapshot);
+  }
+
+  async delete(taskId: string): Promise<boolean> {
+    if (!this.tasks.has(taskId)) {
+      return false;
+    }
+    await this.storage.delete(KEY_PREFIX + taskId);
+    return this.tasks.delete(taskId);
+  }
+
+  async list(): Promise<Task[]> {
+    return Array.from(this.tasks.values(), (task) => structuredClone(task));
+  }
+
+  size(): number {
+    return this.tasks.size;
+  }
+
+  clear(): void {
+    const keys = Array.from(this.tasks.keys(), (id) => KEY_PREFIX + id);
+    this.tasks.clear();
+    // Storage deletes are batched in groups of 128 keys
+    for (let i = 0; i < keys.length; i += 128) {
+      void this.storage.delete(keys.slice(i, i + 128));
+    }
+  }
+}
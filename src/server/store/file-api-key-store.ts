@@ -0,0 +1,134 @@
+import { mkdirSync, readFileSync, renameSync, statSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { createLogger } from '../../shared/logger.js';
+import { randomBytes, toHex } from '../../shared/platform/crypto.js';
+import { deserializeApiKey, type ApiKey, type ApiKeyStore } from './api-key-store.js';
+
+const log = createLogger('file-api-key-store');
+
+export interface FileApiKeyStoreOptions {
+  /** JSON file holding every key. Created on the first write. */
+  filename: string;
+}
+
+/**
+ * ApiKeyStore keeping every key in one JSON file.
+ *
+ * The keys are held in memory, indexed by ID and by hash, and the file is
+ * rewritten (to a temporary file, then renamed into place) on every
+ * change. Before each call the file's modification time is checked and the
+ * file reloaded when another process changed it, so replicas sharing the
+ * file see each other's keys. Writes are not coordinated between
+ * processes: let one of them (or an operator) manage the keys.
+ */
+export class FileApiKeyStore implements ApiKeyStore {
+  private readonly filename: string;
+  private keys = new Map<string, ApiKey>();
+  /** Hash of the secret -> key ID */
+  private byHash = new Map<string, string>();
+  /** Modification time of the file when it was last read or written */
+  private loadedAt = 0;
+
+  constructor(options: FileApiKeyStoreOptions) {
+    this.filename = options.filename;
+    mkdirSync(dirname(this.filename), { recursive: true });
+    this.reload();
+  }
+
+  async findByHash(hashedKey: string): Promise<ApiKey | undefined> {
+    this.reload();
+    const id = this.byHash.get(hashedKey);
+    return id ? this.keys.get(id) : undefined;
+  }
+
+  async get(id: string): Promise<ApiKey | undefined> {
+    this.reload();
+    return this.keys.get(id);
+  }
+
+  async create(apiKey: ApiKey): Promise<void> {
+    this.reload();
+    if (this.keys.has(apiKey.id) || this.byHash.has(apiKey.hashedKey)) {
+      throw new Error(`API key already exists: ${apiKey.id}`);
+    }
+    this.index(apiKey);
+    this.write();
+  }
+
+  async update(id: string, updates: Partial<Omit<ApiKey, 'id' | 'hashedKey'>>): Promise<ApiKey | undefined> {
+    this.reload();
+    const key = this.keys.get(id);
+    if (key) {
+      Object.assign(key, updates);
+      this.write();
+    }
+    return key;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    this.reload();
+    const key = this.keys.get(id);
+    if (!key) {
+      return false;
+    }
+    this.byHash.delete(key.hashedKey);
+    this.keys.delete(id);
+    this.write();
+    return true;
+  }
+
+  async list(userId?: string): Promise<ApiKey[]> {
+    this.reload();
+    const keys = Array.from(this.keys.values());
+    return userId === undefined ? keys : keys.filter((key) => key.userId === userId);
+  }
+
+  private index(apiKey: ApiKey): void {
+    this.keys.set(apiKey.id, apiKey);
+    this.byHash.set(apiKey.hashedKey, apiKey.id);
+  }
+
+  /**
+   * Read the file again if it changed since it was last read or written
+   */
+  private reload(): void {
+    let mtime: number;
+    try {
+      mtime = statSync(this.filename).mtimeMs;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      return;
+    }
+    if (mtime === this.loadedAt) {
+      return;
+    }
+
+    let stored: { keys?: unknown[] };
+    try {
+      stored = JSON.parse(readFileSync(this.filename, 'utf-8'));
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        // Keep the keys we have rather than locking everyone out
+        log.warn({ filename: this.filename }, 'Ignoring unreadable API key file');
+        return;
+      }
+      throw error;
+    }
+
+    this.keys.clear();
+    this.byHash.clear();
+    for (const key of stored.keys ?? []) {
+      this.index(deserializeApiKey(key));
+    }
+    this.loadedAt = mtime;
+  }
+
+  private write(): void {
+    const temporary = `${this.filename}.${toHex(randomBytes(8))}.tmp`;
+    writeFileSync(temporary, JSON.stringify({ keys: Array.from(this.keys.values()) }, null, 2), { mode: 0o600 });
+    renameSync(temporary, this.filename);
+    this.loadedAt = statSync(this.filename).mtimeMs;
+  }
+}
@@ -0,0 +1,198 @@
+import { mkdirSync, readdirSync, statSync } from 'fs';
+import { readFile, readdir, rename, stat, unlink, utimes, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { createLogger } from '../../shared/logger.js';
+import { randomBytes, toHex } from '../../shared/platform/crypto.js';
+import { deserializeSession, serializeSession, type Session, type SessionStore } from './session-store.js';
+
+const log = createLogger('file-session-store');
+
+/** Session IDs that are safe to use as file names */
+const SESSION_ID = /^[A-Za-z0-9_-]+$/;
+
+export interface FileSessionStoreOptions {
+  /** Directory holding one file per session. Created if missing. */
+  directory: string;
+}
+
+/**
+ * SessionStore keeping one JSON file per session in a directory.
+ *
+ * Replicas that mount the same directory share their sessions. The file's
+ * modification time is the session's expiry, so every change comes down to
+ * one atomic file system call:
+ * - put writes a temporary file and renames it into place
+ * - extend sets the modification time, which fails once the file is gone,
+ *   so a deleted session is never brought back
+ * - take renames the file away before reading it; one caller wins
+ *
+ * Expired files are removed when they are next read or listed. size() is
+ * synchronous so it can back health checks; it only counts.
+ */
+export class FileSessionStore implements SessionStore {
+  private readonly directory: string;
+
+  constructor(options: FileSessionStoreOptions) {
+    this.directory = options.directory;
+    mkdirSync(this.directory, { recursive: true });
+  }
+
+  async get(sessionId: string): Promise<Session | undefined> {
+    return this.read(this.path(sessionId));
+  }
+
+  async put(session: Session): Promise<void> {
+    const path = this.path(session.id);
+    if (!path) {
+      throw new Error(`Invalid session ID: ${session.id}`);
+    }
+
+    const temporary = `${path}.${toHex(randomBytes(8))}.tmp`;
+    await writeFile(temporary, serializeSession(session));
+    await utimes(temporary, new Date(), session.expiresAt);
+    await rename(temporary, path);
+  }
+
+  async extend(sessionId: string, expiresAt: Date): Promise<Session | undefined> {
+    const path = this.path(sessionId);
+    if (!path || !(await this.isLive(path))) {
+      return undefined;
+    }
+
+    try {
+      await utimes(path, new Date(), expiresAt);
+    } catch (error) {
+      return ignoreMissing(error);
+    }
+    return this.read(path);
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    const path = this.path(sessionId);
+    if (!path) {
+      return false;
+    }
+
+    const live = await this.isLive(path);
+    try {
+      await unlink(path);
+    } catch (error) {
+      ignoreMissing(error);
+      return false;
+    }
+    return live;
+  }
+
+  async take(sessionId: string): Promise<Session | undefined> {
+    const path = this.path(sessionId);
+    if (!path) {
+      return undefined;
+    }
+
+    const taken = `${path}.${toHex(randomBytes(8))}.taken`;
+    try {
+      await rename(path, taken);
+    } catch (error) {
+      return ignoreMissing(error);
+    }
+
+    const session = await this.read(taken);
+    await this.remove(taken);
+    return session;
+  }
+
+  async listByUser(userId: string): Promise<Session[]> {
+    const sessions: Session[] = [];
+    for (const path of await this.sessionFiles()) {
+      const session = await this.read(path);
+      if (session?.userId === userId) {
+        sessions.push(session);
+      }
+    }
+    return sessions;
+  }
+
+  size(): number {
+    const now = Date.now();
+    return readdirSync(this.directory)
+      .filter((name) => name.endsWith('.json'))
+      .filter((name) => {
+        try {
+          return statSync(join(this.directory, name)).mtimeMs > now;
+        } catch (error) {
+          return ignoreMissing(error) ?? false;
+        }
+      }).length;
+  }
+
+  async clear(): Promise<void> {
+    for (const path of await this.sessionFiles()) {
+      await this.remove(path);
+    }
+  }
+
+  private path(sessionId: string): string | undefined {
+    return SESSION_ID.test(sessionId) ? join(this.directory, `${sessionId}.json`) : undefined;
+  }
+
+  private async sessionFiles(): Promise<string[]> {
+    return (await readdir(this.directory))
+      .filter((name) => name.endsWith('.json'))
+      .map((name) => join(this.directory, name));
+  }
+
+  /**
+   * Whether a session file exists and has not expired; expired files are
+   * removed
+   */
+  private async isLive(path: string): Promise<boolean> {
+    try {
+      if ((await stat(path)).mtimeMs > Date.now()) {
+        return true;
+      }
+    } catch (error) {
+      return ignoreMissing(error) ?? false;
+    }
+    await this.remove(path);
+    return false;
+  }
+
+  private async remove(path: string): Promise<void> {
+    try {
+      await unlink(path);
+    } catch (error) {
+      ignoreMissing(error);
+    }
+  }
+
+  private async read(path: string | undefined): Promise<Session | undefined> {
+    if (!path) {
+      return undefined;
+    }
+
+    try {
+      const { mtime } = await stat(path);
+      if (mtime.getTime() <= Date.now()) {
+        await this.remove(path);
+        return undefined;
+      }
+      return { ...deserializeSession(await readFile(path, 'utf-8')), expiresAt: mtime };
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        log.warn({ path }, 'Skipping unreadable session file');
+        return undefined;
+      }
+      return ignoreMissing(error);
+    }
+  }
+}
+
+/**
+ * Treat a file removed by another caller as absent
+ */
+function ignoreMissing(error: unknown): undefined {
+  if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+    throw error;
+  }
+  return undefined;
+}
@@ -0,0 +1,51 @@
+import type { ApiKey, ApiKeyStore } from './api-key-store.js';
+
+/**
+ * Default ApiKeyStore backed by Maps indexed by ID and by hash.
+ *
+ * Nothing is shared between processes or survives a restart.
+ */
+export class InMemoryApiKeyStore implements ApiKeyStore {
+  private keys = new Map<string, ApiKey>();
+  /** Hash of the secret -> key ID */
+  private byHash = new Map<string, string>();
+
+  async findByHash(hashedKey: string): Promise<ApiKey | undefined> {
+    const id = this.byHash.get(hashedKey);
+    return id ? this.keys.get(id) : undefined;
+  }
+
+  async get(id: string): Promise<ApiKey | undefined> {
+    return this.keys.get(id);
+  }
+
+  async create(apiKey: ApiKey): Promise<void> {
+    if (this.keys.has(apiKey.id) || this.byHash.has(apiKey.hashedKey)) {
+      throw new Error(`API key already exists: ${apiKey.id}`);
+    }
+    this.keys.set(apiKey.id, apiKey);
+    this.byHash.set(apiKey.hashedKey, apiKey.id);
+  }
+
+  async update(id: string, updates: Partial<Omit<ApiKey, 'id' | 'hashedKey'>>): Promise<ApiKey | undefined> {
+    const key = this.keys.get(id);
+    if (key) {
+      Object.assign(key, updates);
+    }
+    return key;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const key = this.keys.get(id);
+    if (!key) {
+      return false;
+    }
+    this.byHash.delete(key.hashedKey);
+    return this.keys.delete(id);
+  }
+
+  async list(userId?: string): Promise<ApiKey[]> {
+    const keys = Array.from(this.keys.values());
+    return userId === undefined ? keys : keys.filter((key) => key.userId === userId);
+  }
+}
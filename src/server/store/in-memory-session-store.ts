@@ -0,0 +1,69 @@
+import { isExpired, type Session, type SessionStore } from './session-store.js';
+
+/**
+ * Default SessionStore backed by a Map.
+ *
+ * Expired sessions are dropped when they are next read or counted. Nothing
+ * is shared between processes or survives a restart.
+ */
+export class InMemorySessionStore implements SessionStore {
+  private sessions = new Map<string, Session>();
+
+  async get(sessionId: string): Promise<Session | undefined> {
+    return this.live(sessionId);
+  }
+
+  async put(session: Session): Promise<void> {
+    this.sessions.set(session.id, session);
+  }
+
+  async extend(sessionId: string, expiresAt: Date): Promise<Session | undefined> {
+    const session = this.live(sessionId);
+    if (session) {
+      session.expiresAt = expiresAt;
+    }
+    return session;
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    return this.live(sessionId) !== undefined && this.sessions.delete(sessionId);
+  }
+
+  async take(sessionId: string): Promise<Session | undefined> {
+    const session = this.live(sessionId);
+    this.sessions.delete(sessionId);
+    return session;
+  }
+
+  async listByUser(userId: string): Promise<Session[]> {
+    this.purgeExpired();
+    return Array.from(this.sessions.values()).filter((session) => session.userId === userId);
+  }
+
+  size(): number {
+    this.purgeExpired();
+    return this.sessions.size;
+  }
+
+  async clear(): Promise<void> {
+    this.sessions.clear();
+  }
+
+  private live(sessionId: string): Session | undefined {
+    const session = this.sessions.get(sessionId);
+    if (session && isExpired(session)) {
+      this.sessions.delete(sessionId);
+      return undefined;
+    }
+    return session;
+  }
+
+  private purgeExpired(): void {
+    const now = Date.now();
+    for (const [sessionId, session] of this.sessions) {
+      if (isExpired(session, now)) {
+        this.sessions.delete(sessionId);
+      }
+    }
+  }
+}
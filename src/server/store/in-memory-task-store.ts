@@ -0,0 +1,36 @@
+import type { Task } from '../../shared/a2a.types.ts';
+import type { TaskStore } from './task-store.js';
+
+/**
+ * Default TaskStore backed by a Map.
+ *
+ * Tasks are kept by reference, matching the behaviour TaskManager had before
+ * persistence became pluggable. Nothing survives a restart.
+ */
+export class InMemoryTaskStore implements TaskStore {
+  private tasks = new Map<string, Task>();
+
+  async get(taskId: string): Promise<Task | undefined> {
+    return this.tasks.get(taskId);
+  }
+
+  async put(task: Task): Promise<void> {
+    this.tasks.set(task.id, task);
+  }
+
+  async delete(taskId: string): Promise<boolean> {
+    return this.tasks.delete(taskId);
+  }
+
+  async list(): Promise<Task[]> {
+    return Array.from(this.tasks.values());
+  }
+
+  size(): number {
+    return this.tasks.size;
+  }
+
+  clear(): void {
+    this.tasks.clear();
+  }
+}
@@ -0,0 +1,131 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import type { Task } from '../../shared/a2a.types.ts';
+import { createLogger } from '../../shared/logger.js';
+import type { TaskStore } from './task-store.js';
+
+const log = createLogger('jsonl-task-store');
+
+/**
+ * One line of the append-only log.
+ */
+type JsonlRecord =
+  | { op: 'put'; at: string; task: Task }
+  | { op: 'delete'; at: string; taskId: string }
+  | { op: 'clear'; at: string };
+
+export interface JsonlTaskStoreOptions {
+  /** Path of the .jsonl log file. Created (with parent dirs) if missing. */
+  filename: string;
+}
+
+/**
+ * Append-only JSON-lines TaskStore.
+ *
+ * Every write appends one record to the log, so the file doubles as an audit
+ * trail that can be inspected offline with standard tools (`jq`, `grep`).
+ * The log is replayed into an in-memory index on construction; `compact()`
+ * rewrites it to a single `put` per live task.
+ *
+ * Writes use synchronous fs calls so records land in the order TaskManager
+ * issued them.
+ */
+export class JsonlTaskStore implements TaskStore {
+  private readonly filename: string;
+  private tasks = new Map<string, Task>();
+
+  constructor(options: JsonlTaskStoreOptions) {
+    this.filename = options.filename;
+    mkdirSync(dirname(this.filename), { recursive: true });
+    this.replay();
+  }
+
+  async get(taskId: string): Promise<Task | undefined> {
+    const task = this.tasks.get(taskId);
+    return task ? structuredClone(task) : undefined;
+  }
+
+  async put(task: Task): Promise<void> {
+    const snapshot = structuredClone(task);
+    this.append({ op: 'put', at: new Date().toISOString(), task: snapshot });
+    this.tasks.set(task.id, snapshot);
+  }
+
+  async delete(taskId: string): Promise<boolean> {
+    if (!this.tasks.has(taskId)) {
+      return false;
+    }
+    this.append({ op: 'delete', at: new Date().toISOString(), taskId });
+    return this.tasks.delete(taskId);
+  }
+
+  async list(): Promise<Task[]> {
+    return Array.from(this.tasks.values(), (task) => structuredClone(task));
+  }
+
+  size(): number {
+    return this.tasks.size;
+  }
+
+  clear(): void {
+    this.append({ op: 'clear', at: new Date().toISOString() });
+    this.tasks.clear();
+  }
+
+  /**
+   * Rewrite the log so it holds exactly one `put` record per live task.
+   * The new log is written next to the old one and renamed into place.
+   */
+  compact(): void {
+    const at = new Date().toISOString();
+    const lines = Array.from(this.tasks.values(), (task) =>
+      JSON.stringify({ op: 'put', at, task } satisfies JsonlRecord)
+    );
+    const tmp = `${this.filename}.compact`;
+    writeFileSync(tmp, lines.length > 0 ? `${lines.join('\n')}\n` : '');
+    renameSync(tmp, this.filename);
+    log.info({ filename: this.filename, tasks: this.tasks.size }, 'Task log compacted');
+  }
+
+  private append(record: JsonlRecord): void {
+    appendFileSync(this.filename, `${JSON.stringify(record)}\n`);
+  }
+
+  private replay(): void {
+    if (!existsSync(this.filename)) {
+      return;
+    }
+
+    const lines = readFileSync(this.filename, 'utf8').split('\n');
+    let skipped = 0;
+
+    for (const line of lines) {
+      if (!line.trim()) {
+        continue;
+      }
+
+      let record: JsonlRecord;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        // A torn final line from a crash mid-write is expected; skip it
+        skipped++;
+        continue;
+      }
+
+      switch (record.op) {
+        case 'put':
+          this.tasks.set(record.task.id, record.task);
+          break;
+        case 'delete':
+          this.tasks.delete(record.taskId);
+          break;
+        case 'clear':
+          this.tasks.clear();
+          break;
+      }
+    }
+
+    log.info({ filename: this.filename, tasks: this.tasks.size, skipped }, 'Task log replayed');
+  }
+}
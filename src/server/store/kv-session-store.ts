@@ -0,0 +1,109 @@
+import { deserializeSession, isExpired, serializeSession, type Session, type SessionStore } from './session-store.js';
+
+/** KV rejects expirations less than 60 seconds away */
+const MIN_KV_TTL_SECONDS = 60;
+
+/**
+ * SessionStore for Cloudflare Workers, backed by a KV namespace (the
+ * `A2A_SESSIONS` binding).
+ *
+ * Each session is one key with a KV expiration, so KV drops it without a
+ * timer; the session's own `expiresAt` is checked on read because KV
+ * expirations are at least a minute out. A second key per session indexes
+ * it by user for `listByUser`.
+ *
+ * KV has no transactions and replicates eventually: a change made in one
+ * location can take up to a minute to reach the others. extend only writes
+ * sessions it has just read as live, but a delete in another location
+ * racing it can be undone until the session's expiry.
+ */
+export class KvSessionStore implements SessionStore {
+  constructor(private readonly kv: KVNamespace) {}
+
+  async get(sessionId: string): Promise<Session | undefined> {
+    const stored = await this.kv.get(sessionKey(sessionId), 'text');
+    if (!stored) {
+      return undefined;
+    }
+    const session = deserializeSession(stored);
+    return isExpired(session) ? undefined : session;
+  }
+
+  async put(session: Session): Promise<void> {
+    const options = { expiration: kvExpiration(session.expiresAt) };
+    await Promise.all([
+      this.kv.put(sessionKey(session.id), serializeSession(session), options),
+      this.kv.put(userKey(session.userId, session.id), '', options)
+    ]);
+  }
+
+  async extend(sessionId: string, expiresAt: Date): Promise<Session | undefined> {
+    const session = await this.get(sessionId);
+    if (!session) {
+      return undefined;
+    }
+
+    const extended = { ...session, expiresAt };
+    await this.put(extended);
+    return extended;
+  }
+
+  async delete(sessionId: string): Promise<boolean> {
+    return (await this.take(sessionId)) !== undefined;
+  }
+
+  async take(sessionId: string): Promise<Session | undefined> {
+    const session = await this.get(sessionId);
+    if (!session) {
+      return undefined;
+    }
+
+    await Promise.all([this.kv.delete(sessionKey(sessionId)), this.kv.delete(userKey(session.userId, sessionId))]);
+    return session;
+  }
+
+  async listByUser(userId: string): Promise<Session[]> {
+    const sessionIds = (await this.listKeys(userKey(userId, ''))).map((name) => name.slice(userKey(userId, '').length));
+    const sessions = await Promise.all(sessionIds.map((sessionId) => this.get(sessionId)));
+    return sessions.filter((session): session is Session => session !== undefined);
+  }
+
+  /**
+   * KV can only count by listing every key
+   */
+  size(): undefined {
+    return undefined;
+  }
+
+  async clear(): Promise<void> {
+    const keys = [...(await this.listKeys('session:')), ...(await this.listKeys('user:'))];
+    await Promise.all(keys.map((key) => this.kv.delete(key)));
+  }
+
+  private async listKeys(prefix: string): Promise<string[]> {
+    const names: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.kv.list({ prefix, cursor });
+      names.push(...page.keys.map((key) => key.name));
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+    return names;
+  }
+}
+
+function sessionKey(sessionId: string): string {
+  return `session:${sessionId}`;
+}
+
+function userKey(userId: string, sessionId: string): string {
+  return `user:${encodeURIComponent(userId)}:${sessionId}`;
+}
+
+/**
+ * KV expiration (seconds since the epoch) no earlier than KV accepts
+ */
+function kvExpiration(expiresAt: Date): number {
+  const earliest = Math.ceil(Date.now() / 1000) + MIN_KV_TTL_SECONDS;
+  return Math.max(Math.ceil(expiresAt.getTime() / 1000), earliest);
+}
@@ -0,0 +1,89 @@
+/**
+ * Core SessionStore interface used by SessionManager.
+ *
+ * SessionManager owns the session rules (IDs, lifetimes, logging); a
+ * SessionStore only owns persistence. Sessions expire by TTL: every
+ * implementation treats a session past its `expiresAt` as gone, so no
+ * cleanup timer is needed. Shared stores (KV, files on a shared volume)
+ * let every replica of a deployment see the same sessions.
+ */
+
+import type { CapabilitySet } from '../authorization-policy.js';
+import { FileSessionStore } from './file-session-store.js';
+import { InMemorySessionStore } from './in-memory-session-store.js';
+
+export interface Session {
+  id: string;
+  userId: string;
+  permissions: string[];
+  capabilities?: CapabilitySet;
+  createdAt: Date;
+  expiresAt: Date;
+  metadata?: Record<string, any>;
+  /** Hash of the IP address and user agent of the client it was issued to */
+  fingerprint?: string;
+}
+
+export interface SessionStore {
+  /** Load a live session. Resolves to undefined when it does not exist or has expired. */
+  get(sessionId: string): Promise<Session | undefined>;
+  /** Insert or replace a session; it expires at `session.expiresAt`. */
+  put(session: Session): Promise<void>;
+  /**
+   * Move the expiry of a live session. Never brings back a session that was
+   * deleted or has expired; resolves to undefined in that case.
+   */
+  extend(sessionId: string, expiresAt: Date): Promise<Session | undefined>;
+  /** Remove a session. Resolves to true when a live session was removed. */
+  delete(sessionId: string): Promise<boolean>;
+  /**
+   * Remove a session and return it. When callers race, only one of them
+   * gets the session.
+   */
+  take(sessionId: string): Promise<Session | undefined>;
+  /** Return the live sessions of a user, in no particular order. */
+  listByUser(userId: string): Promise<Session[]>;
+  /**
+   * Number of live sessions, or undefined when the store cannot count
+   * without a round trip (KV). Synchronous so it can back health checks.
+   */
+  size(): number | undefined;
+  /** Remove every session (used by tests and resets). */
+  clear(): Promise<void>;
+}
+
+export type SessionStoreKind = 'memory' | 'file';
+
+/**
+ * Build one of the bundled SessionStore implementations that need no
+ * platform binding (see KvSessionStore for Workers).
+ *
+ * @param kind - Which store to create
+ * @param path - Directory for the file store (ignored for 'memory')
+ */
+export function createSessionStore(kind: SessionStoreKind, path?: string): SessionStore {
+  switch (kind) {
+    case 'memory':
+      return new InMemorySessionStore();
+    case 'file':
+      return new FileSessionStore({ directory: path || './data/sessions' });
+    default:
+      throw new Error(`Unknown session store: ${kind}`);
+  }
+}
+
+/**
+ * JSON form of a session, as written by the persistent stores
+ */
+export function serializeSession(session: Session): string {
+  return JSON.stringify(session);
+}
+
+export function deserializeSession(json: string): Session {
+  const stored = JSON.parse(json);
+  return { ...stored, createdAt: new Date(stored.createdAt), expiresAt: new Date(stored.expiresAt) };
+}
+
+export function isExpired(session: Pick<Session, 'expiresAt'>, now: number = Date.now()): boolean {
+  return session.expiresAt.getTime() <= now;
+}
@@ -0,0 +1,139 @@
+import { mkdirSync } from 'fs';
+import { createRequire } from 'module';
+import { dirname } from 'path';
+import type { Task } from '../../shared/a2a.types.ts';
+import { createLogger } from '../../shared/logger.js';
+import type { TaskStore } from './task-store.js';
+
+const log = createLogger('sqlite-task-store');
+
+/**
+ * Minimal synchronous SQLite surface we rely on.
+ *
+ * Both `node:sqlite`'s DatabaseSync and better-sqlite3 satisfy this shape,
+ * so callers can inject either one.
+ */
+export interface SqliteDatabase {
+  exec(sql: string): void;
+  prepare(sql: string): SqliteStatement;
+  close(): void;
+}
+
+export interface SqliteStatement {
+  run(...params: unknown[]): { changes: number | bigint };
+  get(...params: unknown[]): unknown;
+  all(...params: unknown[]): unknown[];
+}
+
+export interface SqliteTaskStoreOptions {
+  /** Database file path. Ignored when `database` is provided. */
+  filename?: string;
+  /** Pre-opened database handle (e.g. a better-sqlite3 instance). */
+  database?: SqliteDatabase;
+}
+
+/**
+ * Open a database file with the built-in `node:sqlite` module.
+ * Requires Node.js 22.5 or later.
+ */
+function openNodeSqlite(filename: string): SqliteDatabase {
+  const require = createRequire(import.meta.url);
+  let sqlite: { DatabaseSync: new (path: string) => SqliteDatabase };
+  try {
+    sqlite = require('node:sqlite');
+  } catch (error: any) {
+    throw new Error(
+      `SQLite task store requires node:sqlite (Node.js >= 22.5) or an injected database: ${error.message}`
+    );
+  }
+  if (filename !== ':memory:') {
+    mkdirSync(dirname(filename), { recursive: true });
+  }
+  return new sqlite.DatabaseSync(filename);
+}
+
+/**
+ * TaskStore backed by a single SQLite file.
+ *
+ * Each task is stored as a JSON document alongside a few indexed columns
+ * (context, state, last update) so tasks can be queried offline with the
+ * sqlite3 CLI.
+ */
+export class SqliteTaskStore implements TaskStore {
+  private readonly db: SqliteDatabase;
+
+  constructor(options: SqliteTaskStoreOptions) {
+    if (options.database) {
+      this.db = options.database;
+    } else if (options.filename) {
+      this.db = openNodeSqlite(options.filename);
+    } else {
+      throw new Error('SqliteTaskStore requires a filename or database');
+    }
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS tasks (
+        id TEXT PRIMARY KEY,
+        context_id TEXT NOT NULL,
+        state TEXT,
+        updated_at TEXT NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS tasks_context_id ON tasks (context_id);
+    `);
+
+    log.info({ filename: options.filename }, 'SQLite task store opened');
+  }
+
+  async get(taskId: string): Promise<Task | undefined> {
+    const row = this.db.prepare('SELECT data FROM tasks WHERE id = ?').get(taskId) as
+      | { data: string }
+      | undefined;
+    return row ? JSON.parse(row.data) : undefined;
+  }
+
+  async put(task: Task): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO tasks (id, context_id, state, updated_at, data) VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT(id) DO UPDATE SET
+           context_id = excluded.context_id,
+           state = excluded.state,
+           updated_at = excluded.updated_at,
+           data = excluded.data`
+      )
+      .run(
+        task.id,
+        task.contextId,
+        task.status ? String(task.status.state) : null,
+        new Date().toISOString(),
+        JSON.stringify(task)
+      );
+  }
+
+  async delete(taskId: string): Promise<boolean> {
+    const result = this.db.prepare('DELETE FROM tasks WHERE id = ?').run(taskId);
+    return Number(result.changes) > 0;
+  }
+
+  async list(): Promise<Task[]> {
+    const rows = this.db.prepare('SELECT data FROM tasks').all() as Array<{ data: string }>;
+    return rows.map((row) => JSON.parse(row.data));
+  }
+
+  size(): number {
+    const row = this.db.prepare('SELECT COUNT(*) AS count FROM tasks').get() as { count: number };
+    return Number(row.count);
+  }
+
+  clear(): void {
+    this.db.exec('DELETE FROM tasks');
+  }
+
+  /**
+   * Close the underlying database handle
+   */
+  close(): void {
+    this.db.close();
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Core TaskStore interface used by TaskManager.
+ *
+ * TaskManager owns the protocol rules (state transitions, events, errors);
+ * a TaskStore only owns persistence. Implementations range from the default
+ * in-memory map to file-backed stores that survive a server restart.
+ */
+
+import type { Task } from '../../shared/a2a.types.ts';
+import { InMemoryTaskStore } from './in-memory-task-store.js';
+import { JsonlTaskStore } from './jsonl-task-store.js';
+import { SqliteTaskStore } from './sqlite-task-store.js';
+
+export interface TaskStore {
+  /** Load a task by ID. Resolves to undefined when the task does not exist. */
+  get(taskId: string): Promise<Task | undefined>;
+  /** Insert or replace a task. The stored copy is the full task snapshot. */
+  put(task: Task): Promise<void>;
+  /** Remove a task. Resolves to true when a task was removed. */
+  delete(taskId: string): Promise<boolean>;
+  /** Return every stored task, in no particular order. */
+  list(): Promise<Task[]>;
+  /**
+   * Number of stored tasks. Synchronous so it can back health checks
+   * without awaiting storage.
+   */
+  size(): number;
+  /** Remove every stored task (used by tests and resets). */
+  clear(): void;
+}
+
+export type TaskStoreKind = 'memory' | 'sqlite' | 'jsonl';
+
+/**
+ * Build one of the bundled TaskStore implementations.
+ *
+ * @param kind - Which store to create
+ * @param path - File path for file-backed stores (ignored for 'memory')
+ */
+export function createTaskStore(kind: TaskStoreKind, path?: string): TaskStore {
+  switch (kind) {
+    case 'memory':
+      return new InMemoryTaskStore();
+    case 'sqlite':
+      return new SqliteTaskStore({ filename: path || './data/tasks.db' });
+    case 'jsonl':
+      return new JsonlTaskStore({ filename: path || './data/tasks.jsonl' });
+    default:
+      throw new Error(`Unknown task store: ${kind}`);
+  }
+}
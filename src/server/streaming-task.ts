@@ -6,36 +6,128 @@
  */
 
 
+import { RpcTarget } from 'capnweb';
 import { createLogger } from '../shared/logger.js';
+import type { TimerHandle } from '../shared/platform/timers.js';
 import type { TaskManager, TaskUpdateEvent } from './task-manager.js';
 import type { TaskUpdateCallback } from './task-update-callback.js';
-import { TaskState } from '../shared/a2a.types.js';
+import { isTerminalState } from './task-state-machine.js';
+import type { TaskState } from '../shared/a2a.types.js';
 import type { Task, TaskStatusUpdateEvent, TaskArtifactUpdateEvent } from '../shared/a2a.types.js';
 
 const log = createLogger('streaming-task');
 
+/**
+ * What to do when a subscriber's queue is full
+ *
+ * - `drop-oldest`: discard the oldest queued event
+ * - `coalesce-status`: discard the oldest queued status-only event (a newer
+ *   status supersedes it), falling back to drop-oldest if every queued
+ *   event carries an artifact
+ * - `disconnect`: unsubscribe the callback
+ */
+export type OverflowPolicy = 'drop-oldest' | 'coalesce-status' | 'disconnect';
+
+export interface StreamingTaskOptions {
+  /** Events queued per subscriber before the overflow policy applies (default 100) */
+  queueSize?: number;
+  /** Overflow policy (default coalesce-status) */
+  overflowPolicy?: OverflowPolicy;
+  /** Retries for a failing callback before it is dropped (default 3) */
+  maxRetries?: number;
+  /** Delay before the first retry in ms; doubles on every retry (default 100) */
+  retryDelayMs?: number;
+}
+
+/**
+ * Delivery metrics for one subscriber
+ */
+export interface SubscriberMetrics {
+  subscriberId: number;
+  /** Events delivered to the callback */
+  delivered: number;
+  /** Events discarded by drop-oldest */
+  dropped: number;
+  /** Status events superseded by coalesce-status */
+  coalesced: number;
+  /** Retried callback invocations */
+  retries: number;
+  /** Events currently queued */
+  queueDepth: number;
+  /** Highest queue depth seen */
+  maxQueueDepth: number;
+  lastDeliveredAt?: string;
+}
+
+/**
+ * Delivery metrics for a StreamingTask
+ */
+export interface StreamingTaskMetrics {
+  subscribers: SubscriberMetrics[];
+  /** Subscribers dropped for overflow or repeated callback failures */
+  disconnected: number;
+}
+
+interface QueuedEvent {
+  event: TaskUpdateEvent;
+  /** Current-status snapshot rather than a live event */
+  snapshot?: boolean;
+}
+
+/**
+ * Per-callback delivery state
+ */
+interface Subscriber {
+  callback: TaskUpdateCallback;
+  /** Releases a callback stub retained from an RPC call */
+  release?: () => void;
+  /** Sequence number of the last event delivered to this callback */
+  lastSequence: number;
+  queue: QueuedEvent[];
+  /** Set while the snapshot or replay is being prepared */
+  paused: boolean;
+  /** Running drain loop, if any */
+  draining?: Promise<void>;
+  closed: boolean;
+  metrics: SubscriberMetrics;
+}
+
 /**
  * StreamingTask represents a task with real-time update capabilities
  *
  * Key features:
  * - Multiple callbacks can subscribe to updates
  * - Automatically forwards TaskManager events to callbacks
- * - Handles callback errors gracefully
+ * - Every event carries its per-task sequence number in `metadata.sequence`,
+ *   and subscribers can replay missed events with `afterSequence`
+ * - Each subscriber has its own bounded queue, so a slow callback never
+ *   delays the others
+ * - Retries failing callbacks before dropping them
  * - Tracks whether task has reached final state
  */
-export class StreamingTask {
-  private callbacks = new Set<any>();
+export class StreamingTask extends RpcTarget {
+  private callbacks = new Map<any, Subscriber>();
   private unsubscribeHandler?: () => void;
   private isFinal = false;
   private monitoringStarted = false;
-  private timeoutHandle?: NodeJS.Timeout;
+  private timeoutHandle?: TimerHandle;
   private readonly MONITORING_TIMEOUT_MS = 60 * 60 * 1000; // 1 hour
+  private readonly options: Required<StreamingTaskOptions>;
+  private nextSubscriberId = 1;
+  private disconnectedCount = 0;
 
   constructor(
     private task: Task,
-    private taskManager: TaskManager
+    private taskManager: TaskManager,
+    options: StreamingTaskOptions = {}
   ) {
-    // super();
+    super();
+    this.options = {
+      queueSize: options.queueSize ?? 100,
+      overflowPolicy: options.overflowPolicy ?? 'coalesce-status',
+      maxRetries: options.maxRetries ?? 3,
+      retryDelayMs: options.retryDelayMs ?? 100
+    };
     log.info({ taskId: task.id }, 'StreamingTask created');
     // Don't start monitoring immediately to avoid race condition where
     // early task updates could be missed before callbacks subscribe
@@ -44,11 +136,40 @@ export class StreamingTask {
   /**
    * Subscribe a callback to receive updates
    *
+   * Without `afterSequence` the callback first receives a snapshot of the
+   * current status (marked `metadata.snapshot`). With `afterSequence` it
+   * instead receives every event after that sequence number, falling back to
+   * a snapshot if those events are no longer in the event log. Live updates
+   * that arrive in the meantime are queued behind them and delivered in
+   * order and without duplicates.
+   *
+   * Resolves once the snapshot or replay has been delivered.
+   *
    * @param callback - TaskUpdateCallback implementation
+   * @param afterSequence - Last sequence number the client has seen
    */
-  async subscribe(callback: any): Promise<void> {
-    log.info({ taskId: this.task.id }, 'Callback subscribed');
-    this.callbacks.add(callback);
+  async subscribe(callback: any, afterSequence?: number): Promise<void> {
+    log.info({ taskId: this.task.id, afterSequence }, 'Callback subscribed');
+
+    // capnweb disposes stubs passed as parameters when the call returns, so
+    // keep our own reference to a remote callback until it is unsubscribed
+    let release: (() => void) | undefined;
+    if (typeof callback?.dup === 'function') {
+      callback = callback.dup();
+      release = () => callback[Symbol.dispose]();
+    }
+
+    const subscriberId = this.nextSubscriberId++;
+    const subscriber: Subscriber = {
+      callback,
+      release,
+      lastSequence: afterSequence ?? 0,
+      queue: [],
+      paused: true,
+      closed: false,
+      metrics: { subscriberId, delivered: 0, dropped: 0, coalesced: 0, retries: 0, queueDepth: 0, maxQueueDepth: 0 }
+    };
+    this.callbacks.set(callback, subscriber);
 
     // Start monitoring on first subscription to avoid race condition
     if (!this.monitoringStarted) {
@@ -56,20 +177,34 @@ export class StreamingTask {
       this.monitoringStarted = true;
     }
 
-    // Fetch fresh task state from TaskManager to avoid sending stale cached state
-    const currentTask = await this.taskManager.getTask(this.task.id);
+    try {
+      const missed = afterSequence !== undefined
+        ? this.taskManager.getEventsAfter(this.task.id, afterSequence)
+        : undefined;
 
-    // Check if task is already in final state (for late subscribers)
-    const isFinal = currentTask.status ? this.isFinalTaskState(currentTask.status.state) : false;
+      let catchUp: QueuedEvent[];
+      if (missed) {
+        log.debug({ taskId: this.task.id, afterSequence, count: missed.length }, 'Replaying missed events');
+        catchUp = missed.map((event) => ({ event }));
+      } else {
+        // Fetch fresh task state from TaskManager to avoid sending stale cached state
+        const { task: currentTask, sequence } = await this.taskManager.getTaskSnapshot(this.task.id);
+        subscriber.lastSequence = sequence - 1;
+        catchUp = [{ event: { taskId: currentTask.id, sequence, status: currentTask.status! }, snapshot: true }];
+      }
+
+      // Live events that arrived meanwhile are already queued; go first
+      subscriber.queue.unshift(...catchUp);
+      this.enforceBound(subscriber);
+    } catch (error) {
+      log.error({ error, taskId: this.task.id }, 'Failed to prepare subscription');
+      this.removeSubscriber(subscriber);
+      throw error;
+    } finally {
+      subscriber.paused = false;
+    }
 
-    // Send current task state immediately with correct final flag
-    await this.sendStatusUpdate({
-      taskId: currentTask.id,
-      contextId: currentTask.contextId,
-      status: currentTask.status,
-      final: isFinal,
-      metadata: {}
-    });
+    await this.drain(subscriber);
   }
 
   /**
@@ -78,7 +213,10 @@ export class StreamingTask {
    * @param callback - Callback to remove
    */
   unsubscribeCallback(callback: any): void {
-    this.callbacks.delete(callback);
+    const subscriber = this.callbacks.get(callback);
+    if (subscriber) {
+      this.removeSubscriber(subscriber);
+    }
     log.info({ taskId: this.task.id, remainingCallbacks: this.callbacks.size }, 'Callback unsubscribed');
   }
 
@@ -96,6 +234,19 @@ export class StreamingTask {
     return this.isFinal;
   }
 
+  /**
+   * Get delivery metrics for the current subscribers
+   */
+  getMetrics(): StreamingTaskMetrics {
+    return {
+      subscribers: Array.from(this.callbacks.values()).map((subscriber) => ({
+        ...subscriber.metrics,
+        queueDepth: subscriber.queue.length
+      })),
+      disconnected: this.disconnectedCount
+    };
+  }
+
   /**
    * Check if a task state is a final state
    *
@@ -104,13 +255,7 @@ export class StreamingTask {
    * the task is waiting for input/auth and can continue after receiving it.
    */
   private isFinalTaskState(state: TaskState): boolean {
-    const finalStates = [
-      TaskState.TASK_STATE_COMPLETED,
-      TaskState.TASK_STATE_CANCELLED,
-      TaskState.TASK_STATE_FAILED,
-      TaskState.TASK_STATE_REJECTED
-    ];
-    return finalStates.includes(state);
+    return isTerminalState(state);
   }
 
   /**
@@ -122,38 +267,20 @@ export class StreamingTask {
       async (event: TaskUpdateEvent) => {
         log.debug({
           taskId: event.taskId,
+          sequence: event.sequence,
           state: event.status.state
         }, 'Task update');
 
         // Check if this is a final state
         const isFinal = this.isFinalTaskState(event.status.state);
 
-        // Send status update
-        await this.sendStatusUpdate({
-          taskId: event.taskId,
-          contextId: this.task.contextId,
-          status: event.status,
-          final: isFinal,
-          metadata: {}
-        });
-
-        // Send artifact update if present
-        if (event.artifact) {
-          await this.sendArtifactUpdate({
-            taskId: event.taskId,
-            contextId: this.task.contextId,
-            artifact: event.artifact,
-            append: false,
-            lastChunk: true,
-            metadata: {}
-          });
-        }
-
-        // Mark as final if needed
+        // Mark as final before delivering so late subscribers see it
         if (isFinal) {
           this.isFinal = true;
           this.stopMonitoring();
         }
+
+        this.broadcast(event);
       }
     );
 
@@ -182,45 +309,152 @@ export class StreamingTask {
   }
 
   /**
-   * Send status update to all callbacks
+   * Queue a live event for every subscriber
+   *
+   * Never waits on callbacks; each subscriber's queue drains independently.
    */
-  private async sendStatusUpdate(event: TaskStatusUpdateEvent): Promise<void> {
-    const failedCallbacks: TaskUpdateCallback[] = [];
+  private broadcast(event: TaskUpdateEvent): void {
+    for (const subscriber of this.callbacks.values()) {
+      subscriber.queue.push({ event });
+      this.enforceBound(subscriber);
 
-    for (const callback of this.callbacks) {
-      try {
-        await callback.onStatusUpdate(event);
-      } catch (error) {
-        log.error({ error, taskId: event.taskId }, 'Callback error in onStatusUpdate');
-        failedCallbacks.push(callback);
+      if (!subscriber.paused && !subscriber.closed) {
+        void this.drain(subscriber);
       }
     }
+  }
+
+  /**
+   * Apply the overflow policy until the subscriber's queue fits its bound
+   */
+  private enforceBound(subscriber: Subscriber): void {
+    const { queueSize, overflowPolicy } = this.options;
 
-    // Remove failed callbacks
-    for (const callback of failedCallbacks) {
-      this.callbacks.delete(callback);
+    while (subscriber.queue.length > queueSize && !subscriber.closed) {
+      if (overflowPolicy === 'disconnect') {
+        log.warn({ taskId: this.task.id, subscriberId: subscriber.metrics.subscriberId }, 'Subscriber queue overflow - disconnecting');
+        this.removeSubscriber(subscriber);
+        this.disconnectedCount++;
+        return;
+      }
+
+      // The last queued event is the newest status, so it never counts as superseded
+      const superseded = overflowPolicy === 'coalesce-status'
+        ? subscriber.queue.findIndex((queued, i) => !queued.event.artifact && i < subscriber.queue.length - 1)
+        : -1;
+
+      if (superseded >= 0) {
+        subscriber.queue.splice(superseded, 1);
+        subscriber.metrics.coalesced++;
+      } else {
+        subscriber.queue.shift();
+        subscriber.metrics.dropped++;
+      }
     }
+
+    subscriber.metrics.maxQueueDepth = Math.max(subscriber.metrics.maxQueueDepth, subscriber.queue.length);
   }
 
   /**
-   * Send artifact update to all callbacks
+   * Deliver a subscriber's queued events in order
+   *
+   * Only one drain loop runs per subscriber; concurrent calls share it.
+   */
+  private drain(subscriber: Subscriber): Promise<void> {
+    if (!subscriber.draining) {
+      subscriber.draining = (async () => {
+        while (subscriber.queue.length > 0 && !subscriber.closed) {
+          const next = subscriber.queue.shift()!;
+          const delivered = await this.deliverWithRetry(subscriber, next);
+          if (!delivered) {
+            log.error({ taskId: this.task.id, subscriberId: subscriber.metrics.subscriberId }, 'Callback kept failing - unsubscribing');
+            this.removeSubscriber(subscriber);
+            this.disconnectedCount++;
+          }
+        }
+      })().finally(() => {
+        subscriber.draining = undefined;
+      });
+    }
+    return subscriber.draining;
+  }
+
+  /**
+   * Deliver one event, retrying with exponential backoff
+   *
+   * Delivery is at-least-once: a retry resends the whole event.
+   *
+   * @returns false if the callback still failed after all retries
    */
-  private async sendArtifactUpdate(event: TaskArtifactUpdateEvent): Promise<void> {
-    const failedCallbacks: TaskUpdateCallback[] = [];
+  private async deliverWithRetry(subscriber: Subscriber, queued: QueuedEvent): Promise<boolean> {
+    for (let attempt = 0; attempt <= this.options.maxRetries && !subscriber.closed; attempt++) {
+      if (attempt > 0) {
+        subscriber.metrics.retries++;
+        await new Promise((resolve) => setTimeout(resolve, this.options.retryDelayMs * 2 ** (attempt - 1)));
+      }
 
-    for (const callback of this.callbacks) {
       try {
-        await callback.onArtifactUpdate(event);
+        await this.deliver(subscriber, queued);
+        return true;
       } catch (error) {
-        log.error({ error, taskId: event.taskId }, 'Callback error in onArtifactUpdate');
-        failedCallbacks.push(callback);
+        log.warn({
+          error,
+          taskId: this.task.id,
+          subscriberId: subscriber.metrics.subscriberId,
+          attempt
+        }, 'Callback error while delivering update');
       }
     }
 
-    // Remove failed callbacks
-    for (const callback of failedCallbacks) {
-      this.callbacks.delete(callback);
+    return subscriber.closed;
+  }
+
+  /**
+   * Send one event to one callback, skipping events it has already seen
+   */
+  private async deliver(subscriber: Subscriber, { event, snapshot }: QueuedEvent): Promise<void> {
+    if (event.sequence <= subscriber.lastSequence) {
+      return;
+    }
+
+    const metadata: Record<string, any> = snapshot
+      ? { sequence: event.sequence, snapshot: true }
+      : { sequence: event.sequence };
+    const statusUpdate: TaskStatusUpdateEvent = {
+      taskId: event.taskId,
+      contextId: this.task.contextId,
+      status: event.status,
+      final: this.isFinalTaskState(event.status.state),
+      metadata
+    };
+
+    await subscriber.callback.onStatusUpdate(statusUpdate);
+
+    if (event.artifact) {
+      const artifactUpdate: TaskArtifactUpdateEvent = {
+        taskId: event.taskId,
+        contextId: this.task.contextId,
+        artifact: event.artifact,
+        append: event.append ?? false,
+        lastChunk: event.lastChunk ?? true,
+        metadata
+      };
+      await subscriber.callback.onArtifactUpdate(artifactUpdate);
     }
+
+    subscriber.lastSequence = event.sequence;
+    subscriber.metrics.delivered++;
+    subscriber.metrics.lastDeliveredAt = new Date().toISOString();
+  }
+
+  /**
+   * Stop delivering to a subscriber and drop its queue
+   */
+  private removeSubscriber(subscriber: Subscriber): void {
+    subscriber.closed = true;
+    subscriber.queue.length = 0;
+    subscriber.release?.();
+    this.callbacks.delete(subscriber.callback);
   }
 
   /**
@@ -229,6 +463,18 @@ export class StreamingTask {
   dispose(): void {
     log.info({ taskId: this.task.id }, 'StreamingTask disposed');
     this.stopMonitoring();
+    for (const subscriber of this.callbacks.values()) {
+      subscriber.closed = true;
+      subscriber.queue.length = 0;
+      subscriber.release?.();
+    }
     this.callbacks.clear();
   }
+
+  /**
+   * Called by capnweb when the client disposes its stub or the session ends
+   */
+  [Symbol.dispose](): void {
+    this.dispose();
+  }
 }
@@ -1,4 +1,4 @@
-import { randomUUID } from 'crypto';
+import { randomUUID } from '../../shared/platform/crypto.js';
 import type { SturdyRefEndpoint, SturdyRefDescriptor, SturdyRefFactory } from './sturdy-ref';
 
 export type SturdyRefHandler = (request: Request) => Promise<Response> | Response;
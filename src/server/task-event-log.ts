@@ -0,0 +1,70 @@
+/**
+ * TaskEventLog - Bounded per-task log of task update events
+ *
+ * TaskManager stamps every status and artifact event with a monotonic
+ * per-task sequence number and records it here, so streaming subscribers
+ * that reconnect can replay what they missed instead of refetching the task.
+ * Only the most recently updated tasks are kept, so finished tasks do not
+ * pile up in memory; subscribers to older tasks fall back to a snapshot.
+ */
+
+import type { TaskUpdateEvent } from './task-manager.js';
+
+const DEFAULT_MAX_EVENTS_PER_TASK = 100;
+const DEFAULT_MAX_TASKS = 1000;
+
+export class TaskEventLog {
+  // taskId -> events, oldest first; tasks ordered from least to most recently updated
+  private events = new Map<string, TaskUpdateEvent[]>();
+
+  /**
+   * @param maxEventsPerTask - Events kept per task; older ones are evicted
+   * @param maxTasks - Tasks kept; the least recently updated ones are evicted
+   */
+  constructor(
+    private readonly maxEventsPerTask = DEFAULT_MAX_EVENTS_PER_TASK,
+    private readonly maxTasks = DEFAULT_MAX_TASKS
+  ) {}
+
+  /**
+   * Record an event. Events must be appended in sequence order.
+   */
+  append(event: TaskUpdateEvent): void {
+    const log = this.events.get(event.taskId) ?? [];
+    // Re-insert so the task moves to the most recently updated end
+    this.events.delete(event.taskId);
+    this.events.set(event.taskId, log);
+    if (this.events.size > this.maxTasks) {
+      this.events.delete(this.events.keys().next().value!);
+    }
+
+    log.push(event);
+    if (log.length > this.maxEventsPerTask) {
+      log.splice(0, log.length - this.maxEventsPerTask);
+    }
+  }
+
+  /**
+   * Get the events recorded after a sequence number
+   *
+   * @param taskId - Task ID
+   * @param afterSequence - Last sequence number the caller has seen
+   * @returns Events in sequence order, or undefined if some of the requested
+   *   events were already evicted (or never recorded by this process) and the
+   *   caller has to fall back to a snapshot
+   */
+  after(taskId: string, afterSequence: number): TaskUpdateEvent[] | undefined {
+    const log = this.events.get(taskId);
+    if (!log || log.length === 0 || log[0].sequence > afterSequence + 1) {
+      return undefined;
+    }
+    return log.filter((event) => event.sequence > afterSequence);
+  }
+
+  /**
+   * Drop all events
+   */
+  clear(): void {
+    this.events.clear();
+  }
+}
@@ -2,11 +2,11 @@
  * TaskManager - Core task state management
  *
  * Handles all task CRUD operations, state transitions, and update notifications.
- * Uses in-memory storage for MVP (can be replaced with database later).
+ * Persistence is delegated to a pluggable TaskStore (in-memory by default).
  */
 
-import { randomUUID } from 'crypto';
-import { EventEmitter } from 'events';
+import { randomUUID } from '../shared/platform/crypto.js';
+import { EventEmitter } from '../shared/platform/events.js';
 
 import type {
   Task,
@@ -15,26 +15,186 @@ import type {
   TaskState,
   Artifact,
   ToolCall,
-  AuthResult,
-  A2AError,
-  A2AErrorCode
+  ListTasksRequest,
+  ListTasksResponse,
+  Part,
+  PushNotificationConfig
 } from '../shared/a2a.types.ts';
-
+import {
+  InvalidParamsError,
+  InvalidRequestError,
+  NotFoundError,
+  TaskNotCancelableError,
+  TaskNotFoundError
+} from '../shared/errors.js';
+import type { TaskStore } from './store/task-store.js';
+import { InMemoryTaskStore } from './store/in-memory-task-store.js';
+import {
+  assertTransition,
+  canonicalState,
+  isTerminalState,
+  type TaskStateTransition
+} from './task-state-machine.js';
+import { filterFingerprint, PageTokenCodec, type PageCursor } from './page-token.js';
+import { TaskEventLog } from './task-event-log.js';
+import { ArtifactWriter } from './artifact-writer.js';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
 
 export interface TaskUpdateEvent {
   taskId: string;
+  /** Monotonic per-task sequence number, starting at 1 */
+  sequence: number;
   status: TaskStatus;
+  /** The artifact, or for streamed artifacts the chunk that was added */
   artifact?: Artifact;
+  /** The chunk should be appended to the artifact with the same ID */
+  append?: boolean;
+  /** This is the final chunk of the artifact */
+  lastChunk?: boolean;
+}
+
+/**
+ * Task as persisted by TaskManager, including bookkeeping fields
+ */
+type StoredTask = Task & {
+  /** Always 'task'; tells tasks apart from messages in results */
+  kind?: 'task';
+  /** ISO 8601 creation time, used as the pagination sort key */
+  createdAt?: string;
+  /** ISO 8601 time of the last write */
+  updatedAt?: string;
+  toolCalls?: ToolCall[];
+  stateTransitions?: TaskStateTransition[];
+  /** Webhooks notified of updates to this task */
+  pushNotificationConfigs?: PushNotificationConfig[];
+  /** Sequence number of the last update event emitted for this task */
+  eventSequence?: number;
+  /** IDs of streamed artifacts that have not been closed yet */
+  openArtifactIds?: string[];
+};
+
+/**
+ * A chunk appended to a streamed artifact
+ */
+export interface ArtifactChunk {
+  /** Text delta, merged into the artifact's trailing text part */
+  text?: string;
+  /** Parts appended as-is */
+  parts?: Part[];
+  /** Close the artifact after this chunk */
+  lastChunk?: boolean;
+}
+
+export interface TaskManagerOptions {
+  /**
+   * Secret used to sign listTasks page tokens. Set it when using a persistent
+   * store so tokens stay valid across restarts.
+   */
+  pageTokenSecret?: string;
+  /** Update events kept per task for replay (default 100) */
+  eventLogSize?: number;
+  /** Tasks whose update events are kept for replay (default 1000) */
+  eventLogTasks?: number;
+  /** Generates IDs for new tasks (default: random UUID) */
+  generateTaskId?: () => string;
+}
+
+/**
+ * Parse a lastUpdatedAfter value (ms since epoch, or an ISO 8601 string)
+ */
+function parseTimestamp(value: string | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const millis = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  return Number.isNaN(millis) ? undefined : millis;
+}
+
+/**
+ * Pagination sort key of a task: creation time, then ID
+ */
+function cursorOf(task: StoredTask): PageCursor {
+  const created = task.createdAt ?? task.stateTransitions?.[0]?.timestamp ?? task.status?.timestamp;
+  return { createdAt: created ? new Date(created).getTime() : 0, id: task.id };
+}
+
+function updatedAtOf(task: StoredTask): number {
+  const updated = task.updatedAt ?? task.status?.timestamp;
+  return updated ? new Date(updated).getTime() : 0;
+}
+
+/**
+ * Order cursors newest first; returns > 0 when `a` sorts after `b`
+ */
+function compareNewestFirst(a: PageCursor, b: PageCursor): number {
+  if (a.createdAt !== b.createdAt) {
+    return b.createdAt - a.createdAt;
+  }
+  return a.id < b.id ? 1 : a.id > b.id ? -1 : 0;
+}
+
+/**
+ * Copy the client-facing fields of a stored task, trimming history to the
+ * last `historyLength` messages (0 returns none)
+ *
+ * Bookkeeping fields stay server-side; push notification configs in
+ * particular carry webhook credentials and are only returned by the
+ * push-config methods.
+ */
+function toPublicTask(task: StoredTask, historyLength?: number): Task {
+  const copy: Task & Pick<StoredTask, 'kind' | 'toolCalls'> = {
+    id: task.id,
+    contextId: task.contextId,
+    status: task.status,
+    artifacts: task.artifacts,
+    history: task.history,
+    metadata: task.metadata,
+    kind: task.kind
+  };
+  if (historyLength !== undefined && task.history) {
+    copy.history = historyLength > 0 ? task.history.slice(-historyLength) : [];
+  }
+  if (task.toolCalls) {
+    copy.toolCalls = task.toolCalls;
+  }
+  return copy;
+}
+
+/**
+ * Copy a task for a list response, trimming history and dropping artifacts
+ */
+function shapeTask(task: StoredTask, historyLength: number | undefined, includeArtifacts: boolean): Task {
+  const copy = toPublicTask(task, historyLength);
+  if (!includeArtifacts) {
+    copy.artifacts = [];
+  }
+  return copy;
 }
 
 /**
  * TaskManager handles all task lifecycle operations
  */
 export class TaskManager extends EventEmitter {
-  private tasks = new Map<string, Task>();
+  private store: TaskStore;
+  private pageTokens: PageTokenCodec;
+  private eventLog: TaskEventLog;
+  private generateTaskId: () => string;
+  private lastCreatedAt = 0;
+  /** Task ID -> tail of its queue of updates */
+  private updateQueues = new Map<string, Promise<void>>();
 
-  constructor() {
+  /**
+   * @param store - Task persistence backend (defaults to in-memory)
+   * @param options - Additional TaskManager options
+   */
+  constructor(store?: TaskStore, options: TaskManagerOptions = {}) {
     super();
+    this.store = store || new InMemoryTaskStore();
+    this.pageTokens = new PageTokenCodec(options.pageTokenSecret);
+    this.eventLog = new TaskEventLog(options.eventLogSize, options.eventLogTasks);
+    this.generateTaskId = options.generateTaskId ?? randomUUID;
   }
 
   /**
@@ -44,38 +204,54 @@ export class TaskManager extends EventEmitter {
    * 1. Task starts in 'submitted' state
    * 2. Immediately transitions to 'working' state
    * 3. Emits status update events
+   * 4. Records every transition in the task's transition log
    */
   async createTask(message: Message, metadata?: Record<string, any>): Promise<Task> {
-    const taskId = randomUUID();
+    const taskId = this.generateTaskId();
     const contextId = message.contextId || randomUUID();
 
+    // A push config passed at creation becomes the task's first webhook
+    const { notificationConfig, ...taskMetadata } = metadata || {};
+    const pushNotificationConfigs: PushNotificationConfig[] = notificationConfig
+      ? [{ ...notificationConfig, id: notificationConfig.id || randomUUID() }]
+      : [];
+
     // Create task in 'submitted' state (Protocol Invariant 1)
-    const task: Task = {
+    // Creation times are kept strictly increasing so they order tasks
+    // unambiguously for pagination
+    this.lastCreatedAt = Math.max(Date.now(), this.lastCreatedAt + 1);
+    const timestamp = new Date(this.lastCreatedAt).toISOString();
+    const task: StoredTask = {
       id: taskId,
       contextId,
       status: {
         state: 'submitted',
-        timestamp: new Date().toISOString()
+        timestamp
       },
       history: [message],
       artifacts: [],
       toolCalls: [], // Initialize toolCalls
-      metadata: metadata || {},
-      kind: 'task'
+      metadata: taskMetadata,
+      kind: 'task',
+      createdAt: timestamp,
+      stateTransitions: [{ to: 'submitted', timestamp }],
+      pushNotificationConfigs,
+      eventSequence: 1
     };
 
-    this.tasks.set(taskId, task);
+    await this.save(task);
 
     // Emit initial status update
-    this.emit('task:update', {
+    this.publish({
       taskId: task.id,
-      status: task.status
-    } as TaskUpdateEvent);
+      sequence: task.eventSequence!,
+      status: task.status!
+    });
 
     // Immediately transition to 'working' (Protocol Invariant 2)
     await this.updateTaskStatus(taskId, 'working');
 
-    return task;
+    return this.getTask(taskId);
   }
 
   /**
@@ -86,34 +262,46 @@ export class TaskManager extends EventEmitter {
    * @throws A2AError if task not found
    */
   async getTask(taskId: string, historyLength?: number): Promise<Task> {
-    const task = this.tasks.get(taskId);
+    const task = await this.loadTask(taskId);
 
-    if (!task) {
-      throw this.createError(
-        `Task not found: ${taskId}`,
-        'TASK_NOT_FOUND' as A2AErrorCode
-      );
-    }
-
-    // Clone task to prevent external mutations
-    const taskCopy = { ...task };
-
-    // Limit history if requested
-    if (historyLength && task.history && task.history.length > historyLength) {
-      taskCopy.history = task.history.slice(-historyLength);
-    }
-
-    return taskCopy;
+    // Copy the task to prevent external mutations, limiting history if
+    // requested (0 returns no history)
+    return toPublicTask(task, historyLength);
   }
 
   /**
    * List tasks with optional filtering
    *
-   * @param params - Query parameters (contextId, limit, offset, filter)
+   * Implements tasks/list with keyset pagination: tasks are ordered newest
+   * first by creation time, and `nextPageToken` is a signed cursor pointing
+   * after the last task returned. Tasks created while a client is paging sort
+   * ahead of the cursor, so pages never shift or repeat.
+   *
+   * @param params - ListTasksRequest fields (all optional)
    * @param userId - Optional user ID for ownership filtering
+   * @throws A2AError if pageSize is out of range or pageToken is invalid
    */
-  async listTasks(params: ListTaskParams, userId?: string): Promise<AuthResult> {
-    let tasks = Array.from(this.tasks.values());
+  async listTasks(params: Partial<ListTasksRequest>, userId?: string): Promise<ListTasksResponse> {
+    const pageSize = params.pageSize ?? DEFAULT_PAGE_SIZE;
+    if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+      throw new InvalidParamsError(`pageSize must be between 1 and ${MAX_PAGE_SIZE}`);
+    }
+
+    const status = canonicalState(params.status);
+    const lastUpdatedAfter = parseTimestamp(params.lastUpdatedAfter);
+    const filterKey = await filterFingerprint({
+      userId,
+      contextId: params.contextId || undefined,
+      status,
+      lastUpdatedAfter
+    });
+
+    let cursor: PageCursor | undefined;
+    if (params.pageToken) {
+      cursor = await this.pageTokens.decode(params.pageToken, filterKey);
+    }
+
+    let tasks = (await this.store.list()) as StoredTask[];
 
     // Filter by userId if provided (ownership filtering)
     if (userId) {
@@ -125,46 +313,38 @@ export class TaskManager extends EventEmitter {
       tasks = tasks.filter(t => t.contextId === params.contextId);
     }
 
-    // Filter by state if provided
-    if (params.filter?.states && params.filter.states.length > 0) {
-      tasks = tasks.filter(t => params.filter!.states!.includes(t.status.state));
+    // Filter by state if provided (TASK_STATE_UNSPECIFIED means no filter)
+    if (status) {
+      tasks = tasks.filter(t => canonicalState(t.status?.state) === status);
     }
 
-    // Filter by creation time
-    if (params.filter?.createdAfter) {
-      const afterTime = new Date(params.filter.createdAfter).getTime();
-      tasks = tasks.filter(t => {
-        const taskTime = t.status.timestamp ? new Date(t.status.timestamp).getTime() : 0;
-        return taskTime >= afterTime;
-      });
+    // Filter by last update time
+    if (lastUpdatedAfter !== undefined) {
+      tasks = tasks.filter(t => updatedAtOf(t) >= lastUpdatedAfter);
     }
 
-    if (params.filter?.createdBefore) {
-      const beforeTime = new Date(params.filter.createdBefore).getTime();
-      tasks = tasks.filter(t => {
-        const taskTime = t.status.timestamp ? new Date(t.status.timestamp).getTime() : 0;
-        return taskTime <= beforeTime;
-      });
-    }
+    // Sort by creation time (newest first), ID as tie-breaker
+    tasks.sort((a, b) => compareNewestFirst(cursorOf(a), cursorOf(b)));
 
-    // Sort by creation time (newest first)
-    tasks.sort((a, b) => {
-      const aTime = a.status.timestamp ? new Date(a.status.timestamp).getTime() : 0;
-      const bTime = b.status.timestamp ? new Date(b.status.timestamp).getTime() : 0;
-      return bTime - aTime;
-    });
+    const totalSize = tasks.length;
 
-    const total = tasks.length;
+    // Skip everything up to and including the cursor position
+    if (cursor) {
+      const after = cursor;
+      tasks = tasks.filter(t => compareNewestFirst(cursorOf(t), after) > 0);
+    }
 
-    // Apply pagination
-    const offset = params.offset || 0;
-    const limit = params.limit || 50;
-    const paginatedTasks = tasks.slice(offset, offset + limit);
+    const page = tasks.slice(0, pageSize);
+    const last = page[page.length - 1];
+    const nextPageToken = tasks.length > pageSize && last
+      ? await this.pageTokens.encode(cursorOf(last), filterKey)
+      : '';
 
     return {
-      tasks: paginatedTasks,
-      total,
-      hasMore: offset + limit < total
+      tasks: page.map(task => shapeTask(task, params.historyLength, params.includeArtifacts ?? false)),
+      nextPageToken,
+      pageSize,
+      totalSize
     };
   }
 
@@ -175,25 +355,18 @@ export class TaskManager extends EventEmitter {
    * @throws A2AError if task not found or already in final state
    */
   async cancelTask(taskId: string): Promise<Task> {
-    const task = await this.getTask(taskId);
-
-    // Check if task is already in a final state
-    const finalStates: TaskState[] = [
-      'completed',
-      'canceled',
-      'failed',
-      'rejected'
-    ];
-    if (finalStates.includes(task.status.state)) {
-      throw this.createError(
-        `Cannot cancel task in ${task.status.state} state`,
-        'INVALID_REQUEST' as A2AErrorCode
-      );
-    }
+    await this.withTaskLock(taskId, async () => {
+      const task = await this.loadTask(taskId);
+
+      // Check if task is already in a final state
+      if (isTerminalState(task.status.state)) {
+        throw new TaskNotCancelableError(`Cannot cancel task in ${canonicalState(task.status.state)} state`);
+      }
 
-    await this.updateTaskStatus(taskId, 'canceled');
+      await this.applyStatus(task, 'canceled');
+    });
 
-    return this.tasks.get(taskId)!;
+    return this.getTask(taskId);
   }
 
   /**
@@ -202,32 +375,17 @@ export class TaskManager extends EventEmitter {
    * @param taskId - Task ID to update
    * @param state - New state
    * @param message - Optional status message
+   * @throws InvalidStateTransitionError if the transition is not allowed
    */
   async updateTaskStatus(
     taskId: string,
     state: TaskState,
     message?: Message
   ): Promise<void> {
-    const task = this.tasks.get(taskId);
-
-    if (!task) {
-      throw this.createError(
-        `Task not found: ${taskId}`,
-        'TASK_NOT_FOUND' as A2AErrorCode
-      );
-    }
-
-    task.status = {
-      state,
-      timestamp: new Date().toISOString(),
-      message
-    };
-
-    // Emit update event
-    this.emit('task:update', {
-      taskId: task.id,
-      status: task.status
-    } as TaskUpdateEvent);
+    return this.withTaskLock(taskId, async () => {
+      const task = await this.loadTask(taskId);
+      await this.applyStatus(task, state, message);
+    });
   }
 
   /**
@@ -237,27 +395,124 @@ export class TaskManager extends EventEmitter {
    * @param artifact - Artifact to add
    */
   async addArtifact(taskId: string, artifact: Artifact): Promise<void> {
-    const task = this.tasks.get(taskId);
+    return this.withTaskLock(taskId, async () => {
+      const task = await this.loadTask(taskId);
 
-    if (!task) {
-      throw this.createError(
-        `Task not found: ${taskId}`,
-        'TASK_NOT_FOUND' as A2AErrorCode
-      );
-    }
+      if (!task.artifacts) {
+        task.artifacts = [];
+      }
 
-    if (!task.artifacts) {
-      task.artifacts = [];
-    }
+      task.artifacts.push(artifact);
+      task.eventSequence = (task.eventSequence ?? 0) + 1;
+      await this.save(task);
 
-    task.artifacts.push(artifact);
+      // Emit artifact update event
+      this.publish({
+        taskId: task.id,
+        sequence: task.eventSequence,
+        status: task.status!,
+        artifact
+      });
+    });
+  }
 
-    // Emit artifact update event
-    this.emit('task:update', {
-      taskId: task.id,
-      status: task.status,
-      artifact
-    } as TaskUpdateEvent);
+  /**
+   * Open a streamed artifact on a task
+   *
+   * Emits the artifact (with any initial parts) as a first chunk with
+   * `append: false, lastChunk: false`. Use the returned writer to append
+   * chunks and close it.
+   *
+   * @param taskId - Task ID
+   * @param init - Artifact fields; artifactId defaults to a random UUID
+   * @throws A2AError if task not found or the artifact ID is already used
+   */
+  async openArtifact(taskId: string, init: Partial<Artifact> = {}): Promise<ArtifactWriter> {
+    return this.withTaskLock(taskId, async () => {
+      const task = await this.loadTask(taskId);
+      const artifact: Artifact = {
+        artifactId: init.artifactId || randomUUID(),
+        name: init.name || '',
+        description: init.description || '',
+        parts: (init.parts || []).map(part => ({ ...part })),
+        metadata: init.metadata,
+        extensions: init.extensions || []
+      };
+
+      if (task.artifacts?.some(a => a.artifactId === artifact.artifactId)) {
+        throw new InvalidRequestError(`Artifact already exists: ${artifact.artifactId}`);
+      }
+
+      task.artifacts = [...(task.artifacts || []), artifact];
+      task.openArtifactIds = [...(task.openArtifactIds || []), artifact.artifactId];
+      task.eventSequence = (task.eventSequence ?? 0) + 1;
+      await this.save(task);
+
+      this.publish({
+        taskId: task.id,
+        sequence: task.eventSequence,
+        status: task.status!,
+        artifact: { ...artifact, parts: [...artifact.parts] },
+        append: false,
+        lastChunk: false
+      });
+
+      return new ArtifactWriter(this, task.id, artifact.artifactId);
+    });
+  }
+
+  /**
+   * Append a chunk to an open streamed artifact
+   *
+   * The stored artifact holds the merged content; subscribers receive only
+   * the chunk, with `append: true`.
+   *
+   * @param taskId - Task ID
+   * @param artifactId - ID of an artifact opened with openArtifact
+   * @param chunk - Text delta and/or parts to append
+   * @throws A2AError if task not found or the artifact is not open
+   */
+  async appendArtifactChunk(taskId: string, artifactId: string, chunk: ArtifactChunk): Promise<void> {
+    return this.withTaskLock(taskId, async () => {
+      const task = await this.loadTask(taskId);
+      const artifact = task.artifacts?.find(a => a.artifactId === artifactId);
+
+      if (!artifact || !task.openArtifactIds?.includes(artifactId)) {
+        throw new InvalidRequestError(`Artifact is not open for streaming: ${artifactId}`);
+      }
+
+      const added: Part[] = [];
+      if (chunk.text !== undefined) {
+        const last = artifact.parts[artifact.parts.length - 1];
+        if (last && last.text !== undefined && !last.file && !last.data) {
+          // Replace the part rather than extend it: the caller's initial
+          // parts and earlier events may still hold the old object
+          artifact.parts[artifact.parts.length - 1] = { ...last, text: last.text + chunk.text };
+        } else {
+          artifact.parts.push({ text: chunk.text, metadata: undefined });
+        }
+        added.push({ text: chunk.text, metadata: undefined });
+      }
+      for (const part of chunk.parts || []) {
+        artifact.parts.push(part);
+        added.push(part);
+      }
+
+      if (chunk.lastChunk) {
+        task.openArtifactIds = task.openArtifactIds.filter(id => id !== artifactId);
+      }
+      task.eventSequence = (task.eventSequence ?? 0) + 1;
+      await this.save(task);
+
+      this.publish({
+        taskId: task.id,
+        sequence: task.eventSequence,
+        status: task.status!,
+        artifact: { ...artifact, parts: added },
+        append: true,
+        lastChunk: chunk.lastChunk ?? false
+      });
+    });
   }
 
   /**
@@ -267,20 +522,16 @@ export class TaskManager extends EventEmitter {
    * @param message - Message to add to history
    */
   async addMessageToHistory(taskId: string, message: Message): Promise<void> {
-    const task = this.tasks.get(taskId);
+    return this.withTaskLock(taskId, async () => {
+      const task = await this.loadTask(taskId);
 
-    if (!task) {
-      throw this.createError(
-        `Task not found: ${taskId}`,
-        'TASK_NOT_FOUND' as A2AErrorCode
-      );
-    }
-
-    if (!task.history) {
-      task.history = [];
-    }
+      if (!task.history) {
+        task.history = [];
+      }
 
-    task.history.push(message);
+      task.history.push(message);
+      await this.save(task);
+    });
   }
 
   /**
@@ -312,14 +563,15 @@ export class TaskManager extends EventEmitter {
    * Get task count
    */
   getTaskCount(): number {
-    return this.tasks.size;
+    return this.store.size();
   }
 
   /**
    * Clear all tasks (for testing)
    */
   clearAllTasks(): void {
-    this.tasks.clear();
+    this.store.clear();
+    this.eventLog.clear();
     this.removeAllListeners();
   }
 
@@ -330,20 +582,16 @@ export class TaskManager extends EventEmitter {
    * @param toolCall - Tool call to add
    */
   async addToolCall(taskId: string, toolCall: ToolCall): Promise<void> {
-    const task = this.tasks.get(taskId);
-
-    if (!task) {
-      throw this.createError(
-        `Task not found: ${taskId}`,
-        'TASK_NOT_FOUND' as A2AErrorCode
-      );
-    }
+    return this.withTaskLock(taskId, async () => {
+      const task = await this.loadTask(taskId);
 
-    if (!task.toolCalls) {
-      task.toolCalls = [];
-    }
+      if (!task.toolCalls) {
+        task.toolCalls = [];
+      }
 
-    task.toolCalls.push(toolCall);
+      task.toolCalls.push(toolCall);
+      await this.save(task);
+    });
   }
 
   /**
@@ -354,42 +602,266 @@ export class TaskManager extends EventEmitter {
    * @param updatedToolCall - Updated tool call
    */
   async updateToolCall(taskId: string, callId: string, updatedToolCall: ToolCall): Promise<void> {
-    const task = this.tasks.get(taskId);
+    return this.withTaskLock(taskId, async () => {
+      const task = await this.loadTask(taskId);
 
-    if (!task) {
-      throw this.createError(
-        `Task not found: ${taskId}`,
-        'TASK_NOT_FOUND' as A2AErrorCode
-      );
+      if (!task.toolCalls) {
+        return;
+      }
+
+      const index = task.toolCalls.findIndex((tc: ToolCall) => tc.callId === callId);
+      if (index >= 0) {
+        task.toolCalls[index] = updatedToolCall;
+        await this.save(task);
+      }
+    });
+  }
+
+  /**
+   * Get tool calls for a task
+   *
+   * @param taskId - Task ID
+   * @returns Array of tool calls for the task
+   */
+  async getToolCalls(taskId: string): Promise<ToolCall[]> {
+    const task = await this.store.get(taskId);
+    return task?.toolCalls || [];
+  }
+
+  /**
+   * Get the state transition log for a task
+   *
+   * @param taskId - Task ID
+   * @returns Transitions in the order they happened, starting with 'submitted'
+   */
+  async getStateTransitions(taskId: string): Promise<TaskStateTransition[]> {
+    const task = await this.loadTask(taskId);
+    return [...(task.stateTransitions || [])];
+  }
+
+  /**
+   * Create or replace a push notification config on a task
+   *
+   * @param taskId - Task ID
+   * @param config - Config to store; an existing config with the same ID is
+   *   replaced, which is how webhooks are rotated
+   * @returns The stored config
+   * @throws A2AError if task not found
+   */
+  async setPushNotificationConfig(taskId: string, config: PushNotificationConfig): Promise<PushNotificationConfig> {
+    return this.withTaskLock(taskId, async () => {
+      const task = await this.loadTask(taskId);
+      const stored = { ...config, id: config.id || randomUUID() };
+
+      const configs = task.pushNotificationConfigs || [];
+      const index = configs.findIndex((c) => c.id === stored.id);
+      if (index >= 0) {
+        configs[index] = stored;
+      } else {
+        configs.push(stored);
+      }
+      task.pushNotificationConfigs = configs;
+
+      await this.save(task);
+      return { ...stored };
+    });
+  }
+
+  /**
+   * Get one push notification config of a task
+   *
+   * @throws A2AError if the task or config is not found
+   */
+  async getPushNotificationConfig(taskId: string, configId: string): Promise<PushNotificationConfig> {
+    const task = await this.loadTask(taskId);
+    const config = task.pushNotificationConfigs?.find((c) => c.id === configId);
+
+    if (!config) {
+      throw new NotFoundError(`Push notification config not found: ${configId}`);
     }
 
-    if (!task.toolCalls) {
-      return;
+    return { ...config };
+  }
+
+  /**
+   * List push notification configs of a task, ordered by config ID
+   *
+   * @param taskId - Task ID
+   * @param pageSize - Maximum configs to return (0 returns all)
+   * @param pageToken - Token from a previous call's nextPageToken
+   * @throws A2AError if task not found or pageToken is invalid
+   */
+  async listPushNotificationConfigs(
+    taskId: string,
+    pageSize = 0,
+    pageToken?: string
+  ): Promise<{ configs: PushNotificationConfig[]; nextPageToken: string }> {
+    if (!Number.isInteger(pageSize) || pageSize < 0 || pageSize > MAX_PAGE_SIZE) {
+      throw new InvalidParamsError(`pageSize must be between 0 and ${MAX_PAGE_SIZE}`);
     }
 
-    const index = task.toolCalls.findIndex((tc: ToolCall) => tc.callId === callId);
-    if (index >= 0) {
-      task.toolCalls[index] = updatedToolCall;
+    const task = await this.loadTask(taskId);
+    // Hashing is async; skip it when the whole list is returned in one go
+    const filterKey = pageSize || pageToken ? await filterFingerprint({ taskId, resource: 'pushNotificationConfigs' }) : '';
+
+    // Keyset pagination on config ID, so adding or deleting configs between
+    // requests never shifts later pages
+    let configs = [...(task.pushNotificationConfigs || [])].sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+    if (pageToken) {
+      const cursor = await this.pageTokens.decode(pageToken, filterKey);
+      configs = configs.filter((c) => c.id > cursor.id);
     }
+
+    const page = pageSize ? configs.slice(0, pageSize) : configs;
+    const nextPageToken = page.length < configs.length
+      ? await this.pageTokens.encode({ createdAt: 0, id: page[page.length - 1].id }, filterKey)
+      : '';
+
+    return { configs: page.map((c) => ({ ...c })), nextPageToken };
   }
 
   /**
-   * Get tool calls for a task
+   * Remove a push notification config from a task
+   *
+   * @throws A2AError if the task or config is not found
+   */
+  async deletePushNotificationConfig(taskId: string, configId: string): Promise<void> {
+    return this.withTaskLock(taskId, async () => {
+      const task = await this.loadTask(taskId);
+      const configs = task.pushNotificationConfigs || [];
+      const index = configs.findIndex((c) => c.id === configId);
+
+      if (index < 0) {
+        throw new NotFoundError(`Push notification config not found: ${configId}`);
+      }
+
+      configs.splice(index, 1);
+      task.pushNotificationConfigs = configs;
+      await this.save(task);
+    });
+  }
+
+  /**
+   * Get a task together with the sequence number of its last update event
+   *
+   * Streaming subscribers use the sequence to line the snapshot up with the
+   * live events that follow it.
+   *
+   * @throws A2AError if task not found
+   */
+  async getTaskSnapshot(taskId: string): Promise<{ task: Task; sequence: number }> {
+    const task = await this.loadTask(taskId);
+    return { task: toPublicTask(task), sequence: task.eventSequence ?? 0 };
+  }
+
+  /**
+   * Get the update events emitted after a sequence number
    *
    * @param taskId - Task ID
-   * @returns Array of tool calls for the task
+   * @param afterSequence - Last sequence number the caller has seen
+   * @returns Missed events in order, or undefined if they are no longer in the
+   *   bounded event log
    */
-  getToolCalls(taskId: string): ToolCall[] {
-    const task = this.tasks.get(taskId);
-    return task?.toolCalls || [];
+  getEventsAfter(taskId: string, afterSequence: number): TaskUpdateEvent[] | undefined {
+    return this.eventLog.after(taskId, afterSequence);
+  }
+
+  /**
+   * Get the underlying task store
+   */
+  getStore(): TaskStore {
+    return this.store;
+  }
+
+  /**
+   * Record an update event in the event log and emit it
+   */
+  private publish(event: TaskUpdateEvent): void {
+    this.eventLog.append(event);
+    this.emit('task:update', event);
+  }
+
+  /**
+   * Move a loaded task to a new state, then save it and emit the update
+   *
+   * @throws InvalidStateTransitionError if the transition is not allowed
+   */
+  private async applyStatus(task: StoredTask, state: TaskState, message?: Message): Promise<void> {
+    const previousState = task.status?.state;
+
+    assertTransition(task.id, previousState, state);
+
+    const timestamp = new Date().toISOString();
+    task.status = {
+      state,
+      timestamp,
+      message
+    };
+
+    if (!task.stateTransitions) {
+      task.stateTransitions = [];
+    }
+    task.stateTransitions.push({
+      from: previousState,
+      to: state,
+      timestamp,
+      messageId: message?.messageId
+    });
+    task.eventSequence = (task.eventSequence ?? 0) + 1;
+
+    await this.save(task);
+
+    // Emit update event
+    this.publish({
+      taskId: task.id,
+      sequence: task.eventSequence,
+      status: task.status!
+    });
   }
 
   /**
-   * Helper to create A2AError
+   * Run a load-modify-save update of a task after its earlier updates
+   *
+   * Updates of one task are queued so concurrent writers (an agent streaming
+   * chunks while a client cancels, say) never save over each other's
+   * changes, and events go out in sequence order. This only orders updates
+   * made through this TaskManager.
    */
-  private createError(message: string, code: A2AErrorCode): Error {
-    const error = new Error(message) as any;
-    error.code = code;
-    return error;
+  private withTaskLock<T>(taskId: string, update: () => Promise<T>): Promise<T> {
+    const previous = this.updateQueues.get(taskId) || Promise.resolve();
+    const next = previous.then(update);
+    const tail = next.then(() => undefined, () => undefined);
+    this.updateQueues.set(taskId, tail);
+
+    tail.then(() => {
+      if (this.updateQueues.get(taskId) === tail) {
+        this.updateQueues.delete(taskId);
+      }
+    });
+
+    return next;
+  }
+
+  /**
+   * Write a task back to the store, stamping its last update time
+   */
+  private async save(task: StoredTask): Promise<void> {
+    task.updatedAt = new Date().toISOString();
+    await this.store.put(task);
+  }
+
+  /**
+   * Load a task from the store
+   *
+   * @throws A2AError if task not found
+   */
+  private async loadTask(taskId: string): Promise<StoredTask> {
+    const task = await this.store.get(taskId);
+
+    if (!task) {
+      throw new TaskNotFoundError(`Task not found: ${taskId}`);
+    }
+
+    return task;
   }
 }
@@ -0,0 +1,167 @@
+/**
+ * Task partition routing for the Workers deployment
+ *
+ * Tasks live in TaskPartition Durable Objects, one per context. A partition
+ * prefixes the IDs of the tasks it creates with its own Durable Object ID
+ * (`{partitionId}_{uuid}`), so a request naming a task is routed without a
+ * lookup, and a request that only names a context goes to the partition
+ * derived from the context ID. Messages that start a new context get a
+ * context ID from the worker before they are routed.
+ */
+
+import { InvalidRequestError, TaskNotFoundError, UnsupportedOperationError } from '../shared/errors.js';
+
+const PARTITION_TASK_ID = /^([0-9a-f]{64})_/;
+
+/** Header carrying the context a partition serves, set by the worker */
+export const PARTITION_CONTEXT_HEADER = 'X-A2A-Context-Id';
+
+/** Methods that may start a new context */
+const MESSAGE_METHODS = new Set(['message/send', 'message/stream']);
+
+/**
+ * Resolves a context ID to the hex ID of its partition
+ * (`namespace.idFromName(contextId).toString()` in the worker)
+ */
+export type PartitionIdForContext = (contextId: string) => string;
+
+export interface PartitionRoute {
+  /** Hex Durable Object ID of the partition */
+  partitionId: string;
+  /** Context the partition serves, when the route was derived from it */
+  contextId?: string;
+}
+
+/**
+ * Build the ID of a task created in a partition
+ */
+export function partitionTaskId(partitionId: string, uuid: string): string {
+  return `${partitionId}_${uuid}`;
+}
+
+/**
+ * Extract the partition ID from a task ID
+ *
+ * @returns undefined for task IDs that weren't minted by a partition
+ */
+export function partitionOfTaskId(taskId: string): string | undefined {
+  return PARTITION_TASK_ID.exec(taskId)?.[1];
+}
+
+/**
+ * Route a single task or context reference
+ *
+ * @throws TaskNotFoundError if the task ID doesn't belong to any partition
+ */
+export function routeTaskOrContext(
+  ref: { taskId?: string; contextId?: string },
+  partitionIdForContext: PartitionIdForContext
+): PartitionRoute | undefined {
+  if (ref.taskId) {
+    const partitionId = partitionOfTaskId(ref.taskId);
+    if (!partitionId) {
+      throw new TaskNotFoundError(`Task not found: ${ref.taskId}`);
+    }
+    return { partitionId };
+  }
+  if (ref.contextId) {
+    return { partitionId: partitionIdForContext(ref.contextId), contextId: ref.contextId };
+  }
+  return undefined;
+}
+
+/**
+ * The task and context a JSON-RPC request names
+ */
+function requestRef(request: any): { taskId?: string; contextId?: string } {
+  const params = request?.params ?? {};
+  const taskId = params.id ?? params.taskId ?? params.message?.taskId;
+  const contextId = params.contextId ?? params.message?.contextId;
+  return {
+    taskId: typeof taskId === 'string' ? taskId : undefined,
+    contextId: typeof contextId === 'string' ? contextId : undefined
+  };
+}
+
+/**
+ * Route one JSON-RPC request by the task or context it names
+ *
+ * A message without task or context ID starts a new context; its
+ * `contextId` is filled in here so the partition stores it.
+ */
+function routeRequest(request: any, partitionIdForContext: PartitionIdForContext): PartitionRoute {
+  const route = routeTaskOrContext(requestRef(request), partitionIdForContext);
+  if (route) {
+    return route;
+  }
+
+  const message = request?.params?.message;
+  if (MESSAGE_METHODS.has(request?.method) && message && typeof message === 'object') {
+    message.contextId = crypto.randomUUID();
+    return { partitionId: partitionIdForContext(message.contextId), contextId: message.contextId };
+  }
+  if (request?.method === 'tasks/list') {
+    throw new UnsupportedOperationError('tasks/list requires a contextId on this deployment');
+  }
+  throw new InvalidRequestError('Request names neither a task nor a context');
+}
+
+/**
+ * Route a JSON-RPC payload (single request or batch) to its partition
+ *
+ * May fill in `message.contextId` on requests that start a new context.
+ *
+ * @throws A2AError if a request can't be routed or a batch spans partitions
+ */
+export function routeJsonRpc(payload: unknown, partitionIdForContext: PartitionIdForContext): PartitionRoute {
+  const requests = Array.isArray(payload) ? payload : [payload];
+  if (requests.length === 0) {
+    throw new InvalidRequestError('Empty batch');
+  }
+
+  const routes = requests.map((request) => routeRequest(request, partitionIdForContext));
+  if (routes.some((route) => route.partitionId !== routes[0].partitionId)) {
+    throw new InvalidRequestError('All requests of a batch must target the same context');
+  }
+  return { partitionId: routes[0].partitionId, contextId: routes.find((route) => route.contextId)?.contextId };
+}
+
+/**
+ * Give messages that don't name a context the partition's context
+ *
+ * Keeps every task of a partition in the context the partition is derived
+ * from, so routing by context ID finds it.
+ */
+export function assignContextId(payload: unknown, contextId: string): void {
+  for (const request of Array.isArray(payload) ? payload : [payload]) {
+    const message = (request as any)?.params?.message;
+    if (MESSAGE_METHODS.has((request as any)?.method) && message && typeof message === 'object' && !message.contextId) {
+      message.contextId = contextId;
+    }
+  }
+}
+
+/**
+ * Check that a payload received by a partition stays in that partition
+ *
+ * Requests that name no task or context are served by the partition itself.
+ *
+ * @throws InvalidRequestError if a request names another partition's context
+ * @throws TaskNotFoundError if a request names another partition's task
+ */
+export function assertInPartition(
+  payload: unknown,
+  partitionId: string,
+  partitionIdForContext: PartitionIdForContext
+): void {
+  for (const request of Array.isArray(payload) ? payload : [payload]) {
+    const ref = requestRef(request);
+    const route = routeTaskOrContext(ref, partitionIdForContext);
+    if (route && route.partitionId !== partitionId) {
+      if (ref.taskId) {
+        throw new TaskNotFoundError(`Task not found: ${ref.taskId}`);
+      }
+      throw new InvalidRequestError(`Context ${ref.contextId} is served by another connection`);
+    }
+  }
+}
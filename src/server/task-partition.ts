@@ -0,0 +1,427 @@
+/**
+ * Task partition Durable Object
+ *
+ * Owns the tasks of one context and the WebSocket connections working on
+ * them. Tasks are kept in Durable Object storage, so they survive
+ * eviction, and sockets are accepted through the hibernation API: the
+ * object may leave memory between messages while its clients stay
+ * connected.
+ *
+ * The worker forwards JSON-RPC requests (`POST /`) and WebSocket upgrades
+ * here after routing them by task or context ID (see
+ * task-partition-routing.ts). Over HTTP the partition serves the
+ * non-streaming methods; streaming methods need a WebSocket. Each socket's
+ * user and open streams live in its attachment, so both are restored when
+ * the object wakes up. Sockets authenticate with a Bearer token or, for
+ * browsers that cannot set headers, a `sessionId` query parameter naming a
+ * session from `POST /a2a/auth` (kept in the A2A_SESSIONS KV namespace).
+ * The session is checked again before every message, so a socket stops
+ * working once its session expires or is revoked.
+ */
+
+import { A2AService, type AuthenticatedA2AService } from './a2a-service.js';
+import { AuthenticationService } from './authentication-service.js';
+import { SessionManager } from './session-manager.js';
+import { DurableObjectTaskStore } from './store/durable-object-task-store.js';
+import { KvSessionStore } from './store/kv-session-store.js';
+import {
+  JsonRpcDispatcher,
+  JsonRpcErrorCode,
+  errorResponse,
+  toJsonRpcError,
+  type JsonRpcContext,
+  type JsonRpcId,
+  type JsonRpcResponse,
+  type JsonRpcStream
+} from './jsonrpc/jsonrpc-dispatcher.js';
+import { authenticateBearer } from './http/http-utils.js';
+import {
+  PARTITION_CONTEXT_HEADER,
+  assertInPartition,
+  assignContextId,
+  partitionTaskId
+} from './task-partition-routing.js';
+import type { StreamingTask } from './streaming-task.js';
+import type { Capability } from './authorization-policy.js';
+import { UnauthorizedError, UnsupportedOperationError, toA2AError } from '../shared/errors.js';
+import { createLogger } from '../shared/logger.js';
+import { randomUUID } from '../shared/platform/crypto.js';
+import type { Env } from './worker.js';
+
+const log = createLogger('task-partition');
+
+/** Storage key of the context the partition serves */
+const CONTEXT_KEY = 'partition:contextId';
+
+/**
+ * State of a socket that must outlive hibernation
+ */
+interface SocketAttachment {
+  userId: string;
+  permissions: string[];
+  /** Capabilities the socket's service gained, e.g. for tasks it created */
+  capabilities: Capability[];
+  /** Session the socket authenticated with, checked again on every message */
+  sessionId?: string;
+  /** Streaming requests in progress, resubscribed on wake-up */
+  streams: Array<{ requestId: JsonRpcId; taskId: string }>;
+}
+
+export class TaskPartition implements DurableObject {
+  private a2aService!: A2AService;
+  private dispatcher!: JsonRpcDispatcher;
+  private readonly authService: AuthenticationService;
+  private readonly sessionManager?: SessionManager;
+  private readonly partitionId: string;
+  private contextId?: string;
+  /** Open streams per socket, disposed when the socket closes */
+  private readonly streams = new Map<WebSocket, Set<StreamingTask>>();
+
+  constructor(
+    private readonly state: DurableObjectState,
+    private readonly env: Env
+  ) {
+    this.partitionId = state.id.toString();
+    this.authService = createAuthService(env);
+    this.sessionManager = createSessionManager(env);
+
+    void state.blockConcurrencyWhile(async () => {
+      const taskStore = await DurableObjectTaskStore.load(state.storage);
+      this.contextId = await state.storage.get<string>(CONTEXT_KEY);
+
+      this.a2aService = new A2AService({
+        agentName: env.AGENT_NAME,
+        agentDescription: env.AGENT_DESCRIPTION,
+        agentUrl: env.AGENT_URL,
+        taskStore,
+        taskManager: {
+          generateTaskId: () => partitionTaskId(this.partitionId, randomUUID()),
+          pageTokenSecret: env.JWT_SECRET
+        }
+      }, this.authService);
+      this.dispatcher = new JsonRpcDispatcher(this.a2aService, log);
+
+      await this.resumeStreams();
+    });
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const contextId = request.headers.get(PARTITION_CONTEXT_HEADER);
+    if (contextId && !this.contextId) {
+      await this.state.storage.put(CONTEXT_KEY, contextId);
+      this.contextId = contextId;
+    }
+
+    if (request.headers.get('Upgrade') === 'websocket') {
+      return this.acceptWebSocket(request);
+    }
+    if (request.method === 'POST') {
+      return this.handleJsonRpc(request);
+    }
+    return new Response('Not Found', { status: 404 });
+  }
+
+  async webSocketMessage(ws: WebSocket, message: string | ArrayBuffer): Promise<void> {
+    let payload: unknown;
+    try {
+      payload = JSON.parse(typeof message === 'string' ? message : new TextDecoder().decode(message));
+    } catch {
+      ws.send(JSON.stringify(errorResponse(null, { code: JsonRpcErrorCode.PARSE_ERROR, message: 'Invalid JSON' })));
+      return;
+    }
+
+    if (!(await this.checkSession(ws))) {
+      ws.send(JSON.stringify(errorResponse(requestId(payload), toJsonRpcError(new UnauthorizedError('Session expired or revoked')))));
+      ws.close(1008, 'Session expired or revoked');
+      return;
+    }
+
+    const context = this.socketContext(ws);
+    const response = await this.dispatch(payload, context);
+    this.saveCapabilities(ws, context.service);
+    if (response) {
+      ws.send(JSON.stringify(response));
+    }
+  }
+
+  async webSocketClose(ws: WebSocket, code: number, reason: string): Promise<void> {
+    this.closeStreams(ws);
+    ws.close(code, reason);
+  }
+
+  async webSocketError(ws: WebSocket, error: unknown): Promise<void> {
+    log.warn({ partitionId: this.partitionId, error: String(error) }, 'WebSocket error');
+    this.closeStreams(ws);
+  }
+
+  /**
+   * Authenticate an upgrade request and accept its socket for hibernation
+   */
+  private async acceptWebSocket(request: Request): Promise<Response> {
+    const sessionId = new URL(request.url).searchParams.get('sessionId');
+    let identity: { userId: string; permissions: string[] };
+    try {
+      identity = sessionId
+        ? await this.authenticateSession(sessionId)
+        : await authenticateBearer(request.headers.get('Authorization'), this.authService, requestMetadata(request));
+    } catch (error) {
+      return a2aErrorResponse(error);
+    }
+
+    const { 0: client, 1: server } = new WebSocketPair();
+    this.state.acceptWebSocket(server);
+    server.serializeAttachment({
+      ...identity,
+      capabilities: [],
+      sessionId: sessionId ?? undefined,
+      streams: []
+    } satisfies SocketAttachment);
+
+    log.info({ partitionId: this.partitionId, userId: identity.userId }, 'WebSocket accepted');
+    return new Response(null, { status: 101, webSocket: client });
+  }
+
+  /**
+   * Resolve the user of a session and restart its timeout
+   *
+   * @throws UnauthorizedError if the session is invalid or expired
+   */
+  private async authenticateSession(sessionId: string): Promise<{ userId: string; permissions: string[] }> {
+    if (!this.sessionManager) {
+      throw new UnsupportedOperationError('Sessions need the A2A_SESSIONS KV binding');
+    }
+
+    const session = await this.sessionManager.validateSession(sessionId);
+    if (!session) {
+      throw new UnauthorizedError('Invalid or expired session');
+    }
+
+    await this.sessionManager.touchSession(sessionId);
+    return { userId: session.userId, permissions: session.permissions };
+  }
+
+  /**
+   * Check that the session a socket authenticated with is still valid, and
+   * restart its timeout. Sockets opened with a Bearer token always pass.
+   */
+  private async checkSession(ws: WebSocket): Promise<boolean> {
+    const { sessionId } = ws.deserializeAttachment() as SocketAttachment;
+    if (!sessionId) {
+      return true;
+    }
+    if (!(await this.sessionManager?.validateSession(sessionId))) {
+      log.info({ partitionId: this.partitionId }, 'Socket session expired or was revoked');
+      return false;
+    }
+    await this.sessionManager!.touchSession(sessionId);
+    return true;
+  }
+
+  /**
+   * Serve a JSON-RPC request sent over HTTP
+   */
+  private async handleJsonRpc(request: Request): Promise<Response> {
+    let payload: unknown;
+    try {
+      payload = await request.json();
+    } catch {
+      return jsonResponse(errorResponse(null, { code: JsonRpcErrorCode.PARSE_ERROR, message: 'Request body is not valid JSON' }));
+    }
+
+    let context: JsonRpcContext;
+    try {
+      const { userId, permissions } = await authenticateBearer(
+        request.headers.get('Authorization'),
+        this.authService,
+        requestMetadata(request)
+      );
+      context = { service: this.a2aService.createAuthenticatedService(userId, permissions) };
+    } catch (error) {
+      return jsonResponse(errorResponse(requestId(payload), toJsonRpcError(error)), 401, {
+        'WWW-Authenticate': 'Bearer realm="a2a"'
+      });
+    }
+
+    const response = await this.dispatch(payload, context);
+    return response === undefined ? new Response(null, { status: 204 }) : jsonResponse(response);
+  }
+
+  /**
+   * Dispatch a payload after keeping its messages in this partition
+   */
+  private async dispatch(
+    payload: unknown,
+    context: JsonRpcContext
+  ): Promise<JsonRpcResponse | JsonRpcResponse[] | undefined> {
+    try {
+      if (this.contextId) {
+        assignContextId(payload, this.contextId);
+      }
+      assertInPartition(payload, this.partitionId, (contextId) =>
+        this.env.A2A_TASKS.idFromName(contextId).toString()
+      );
+    } catch (error) {
+      return errorResponse(requestId(payload), toJsonRpcError(error));
+    }
+
+    return this.dispatcher.handle(payload, context);
+  }
+
+  /**
+   * JSON-RPC context of a socket, rebuilt from its attachment
+   */
+  private socketContext(ws: WebSocket): JsonRpcContext & { service: AuthenticatedA2AService } {
+    const { userId, permissions, capabilities } = ws.deserializeAttachment() as SocketAttachment;
+    return {
+      service: this.a2aService.createAuthenticatedService(userId, permissions, { capabilities }),
+      openStream: (id, streamingTask) => this.openStream(ws, id, streamingTask)
+    };
+  }
+
+  /**
+   * Keep the capabilities a socket's service gained (e.g. by creating a
+   * task) for the services rebuilt for its later messages
+   */
+  private saveCapabilities(ws: WebSocket, service: AuthenticatedA2AService): void {
+    const { capabilities } = service.getCapabilities();
+    this.updateAttachment(ws, (attachment) =>
+      capabilities.length === attachment.capabilities?.length ? attachment : { ...attachment, capabilities }
+    );
+  }
+
+  /**
+   * Stream responses over a socket and record the stream in its attachment
+   */
+  private openStream(ws: WebSocket, id: JsonRpcId, streamingTask: StreamingTask): JsonRpcStream {
+    const streams = this.streams.get(ws) ?? new Set<StreamingTask>();
+    this.streams.set(ws, streams);
+    streams.add(streamingTask);
+
+    const recorded = streamingTask.getTask().then(({ id: taskId }) => {
+      this.updateAttachment(ws, (attachment) => ({
+        ...attachment,
+        streams: [...attachment.streams, { requestId: id, taskId }]
+      }));
+      return taskId;
+    });
+
+    return {
+      send: (response) => ws.send(JSON.stringify(response)),
+      close: () => {
+        streams.delete(streamingTask);
+        streamingTask.dispose();
+        void recorded.then((taskId) =>
+          this.updateAttachment(ws, (attachment) => ({
+            ...attachment,
+            streams: attachment.streams.filter((stream) => stream.requestId !== id || stream.taskId !== taskId)
+          }))
+        );
+      }
+    };
+  }
+
+  private updateAttachment(ws: WebSocket, update: (attachment: SocketAttachment) => SocketAttachment): void {
+    ws.serializeAttachment(update(ws.deserializeAttachment() as SocketAttachment));
+  }
+
+  private closeStreams(ws: WebSocket): void {
+    for (const streamingTask of this.streams.get(ws) ?? []) {
+      streamingTask.dispose();
+    }
+    this.streams.delete(ws);
+  }
+
+  /**
+   * Resubscribe the streams of sockets that stayed connected while the
+   * object was out of memory
+   *
+   * Each stream restarts like `tasks/resubscribe` under its original request
+   * ID: the client receives the current task again, then live updates.
+   */
+  private async resumeStreams(): Promise<void> {
+    for (const ws of this.state.getWebSockets()) {
+      const { streams } = ws.deserializeAttachment() as SocketAttachment;
+      if (streams.length === 0) {
+        continue;
+      }
+      if (!(await this.checkSession(ws))) {
+        ws.close(1008, 'Session expired or revoked');
+        continue;
+      }
+
+      this.updateAttachment(ws, (attachment) => ({ ...attachment, streams: [] }));
+      for (const { requestId: id, taskId } of streams) {
+        const response = await this.dispatcher.handle(
+          { jsonrpc: '2.0', id, method: 'tasks/resubscribe', params: { id: taskId } },
+          this.socketContext(ws)
+        );
+        if (response) {
+          ws.send(JSON.stringify(response));
+        }
+      }
+      log.info({ partitionId: this.partitionId, streams: streams.length }, 'Resumed streams after wake-up');
+    }
+  }
+}
+
+/**
+ * Authentication for Bearer tokens signed with JWT_SECRET
+ *
+ * @throws Error if JWT_SECRET is not set; a default secret would let anyone
+ *   who knows it sign tokens
+ */
+export function createAuthService(env: Env): AuthenticationService {
+  if (!env.JWT_SECRET) {
+    throw new Error('JWT_SECRET is not set');
+  }
+  return new AuthenticationService({ jwtSecret: env.JWT_SECRET });
+}
+
+/**
+ * Sessions kept in the A2A_SESSIONS KV namespace, or undefined when the
+ * binding is missing
+ */
+export function createSessionManager(env: Env): SessionManager | undefined {
+  if (!env.A2A_SESSIONS) {
+    return undefined;
+  }
+  return new SessionManager({
+    sessionTimeout: parseInt(env.SESSION_TIMEOUT || '3600', 10),
+    store: new KvSessionStore(env.A2A_SESSIONS)
+  });
+}
+
+/**
+ * HTTP response for an A2A error, in the body format of the Node bindings
+ */
+export function a2aErrorResponse(error: unknown): Response {
+  const a2aError = toA2AError(error);
+  const { code, message, data } = a2aError.toJSON();
+
+  return jsonResponse(
+    data ? { error: code, message, data } : { error: code, message },
+    a2aError.httpStatus,
+    code === 'UNAUTHORIZED' ? { 'WWW-Authenticate': 'Bearer realm="a2a"' } : {}
+  );
+}
+
+function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers }
+  });
+}
+
+function requestId(payload: unknown): JsonRpcId {
+  return Array.isArray(payload) ? null : (payload as any)?.id ?? null;
+}
+
+/**
+ * Client details recorded with authentication attempts and sessions
+ */
+export function requestMetadata(request: Request): { ipAddress?: string; userAgent?: string } {
+  return {
+    ipAddress: request.headers.get('CF-Connecting-IP') ?? undefined,
+    userAgent: request.headers.get('User-Agent') ?? undefined
+  };
+}
@@ -0,0 +1,163 @@
+/**
+ * Task state machine
+ *
+ * Defines which TaskState transitions are legal and records the transitions
+ * a task has gone through. Tasks reach TaskManager with states in either the
+ * JSON form ('working') or the proto enum form (TaskState.TASK_STATE_WORKING),
+ * so every check runs on a canonical name.
+ */
+
+import type { TaskState } from '../shared/a2a.types.ts';
+import { A2AError } from '../shared/errors.js';
+
+export type CanonicalTaskState =
+  | 'submitted'
+  | 'working'
+  | 'input-required'
+  | 'auth-required'
+  | 'completed'
+  | 'failed'
+  | 'canceled'
+  | 'rejected';
+
+/**
+ * One entry of a task's state transition log
+ */
+export interface TaskStateTransition {
+  /** Previous state (undefined for the initial 'submitted' entry) */
+  from?: TaskState;
+  /** New state */
+  to: TaskState;
+  /** ISO 8601 timestamp of the transition */
+  timestamp: string;
+  /** ID of the status message attached to the transition, if any */
+  messageId?: string;
+}
+
+/**
+ * Proto enum values (see TaskState in a2a.types.ts) mapped to canonical names.
+ * Kept as literals so this module has no runtime dependency on the generated types.
+ */
+const ENUM_STATE_NAMES: Record<number, CanonicalTaskState> = {
+  1: 'submitted', // TASK_STATE_SUBMITTED
+  2: 'working', // TASK_STATE_WORKING
+  3: 'completed', // TASK_STATE_COMPLETED
+  4: 'failed', // TASK_STATE_FAILED
+  5: 'canceled', // TASK_STATE_CANCELLED
+  6: 'input-required', // TASK_STATE_INPUT_REQUIRED
+  7: 'rejected', // TASK_STATE_REJECTED
+  8: 'auth-required' // TASK_STATE_AUTH_REQUIRED
+};
+
+const STRING_STATE_NAMES: Record<string, CanonicalTaskState> = {
+  submitted: 'submitted',
+  working: 'working',
+  'input-required': 'input-required',
+  'auth-required': 'auth-required',
+  completed: 'completed',
+  failed: 'failed',
+  canceled: 'canceled',
+  cancelled: 'canceled',
+  rejected: 'rejected'
+};
+
+/**
+ * Legal transitions. Self-transitions on non-terminal states are allowed so
+ * agents can publish progress messages without changing state.
+ */
+const TRANSITIONS: Record<CanonicalTaskState, readonly CanonicalTaskState[]> = {
+  submitted: ['submitted', 'working', 'failed', 'canceled', 'rejected'],
+  working: ['working', 'input-required', 'auth-required', 'completed', 'failed', 'canceled', 'rejected'],
+  'input-required': ['input-required', 'working', 'failed', 'canceled', 'rejected'],
+  'auth-required': ['auth-required', 'working', 'failed', 'canceled', 'rejected'],
+  completed: [],
+  failed: [],
+  canceled: [],
+  rejected: []
+};
+
+const TERMINAL_STATES: readonly CanonicalTaskState[] = ['completed', 'failed', 'canceled', 'rejected'];
+
+const INTERRUPTED_STATES: readonly CanonicalTaskState[] = ['input-required', 'auth-required'];
+
+/**
+ * Error thrown when a task is asked to move to a state it cannot reach
+ */
+export class InvalidStateTransitionError extends A2AError {
+  name = 'InvalidStateTransitionError';
+
+  constructor(
+    public readonly taskId: string,
+    public readonly from: TaskState | undefined,
+    public readonly to: TaskState
+  ) {
+    super(
+      'INVALID_STATE_TRANSITION',
+      `Invalid state transition for task ${taskId}: ${canonicalState(from) ?? String(from)} -> ${canonicalState(to) ?? String(to)}`,
+      { taskId }
+    );
+  }
+}
+
+/**
+ * Resolve either state representation to its canonical name
+ *
+ * @returns Canonical name, or undefined for unspecified/unknown states
+ */
+export function canonicalState(state: TaskState | string | undefined): CanonicalTaskState | undefined {
+  if (state === undefined || state === null) {
+    return undefined;
+  }
+  if (typeof state === 'number') {
+    return ENUM_STATE_NAMES[state];
+  }
+  // Also accept the proto JSON names, e.g. 'TASK_STATE_INPUT_REQUIRED'
+  const name = String(state);
+  return STRING_STATE_NAMES[name] ?? STRING_STATE_NAMES[name.replace(/^TASK_STATE_/, '').toLowerCase().replace(/_/g, '-')];
+}
+
+/**
+ * Check whether a transition between two states is legal
+ */
+export function canTransition(from: TaskState | undefined, to: TaskState): boolean {
+  const target = canonicalState(to);
+  if (!target) {
+    return false;
+  }
+
+  const source = canonicalState(from);
+  if (!source) {
+    // A task with no recorded state may only enter the lifecycle as submitted
+    return target === 'submitted';
+  }
+
+  return TRANSITIONS[source].includes(target);
+}
+
+/**
+ * Throw if the transition is not legal
+ *
+ * @throws InvalidStateTransitionError
+ */
+export function assertTransition(taskId: string, from: TaskState | undefined, to: TaskState): void {
+  if (!canTransition(from, to)) {
+    throw new InvalidStateTransitionError(taskId, from, to);
+  }
+}
+
+/**
+ * Terminal states: completed, failed, canceled, rejected
+ */
+export function isTerminalState(state: TaskState | string | undefined): boolean {
+  const name = canonicalState(state);
+  return name !== undefined && TERMINAL_STATES.includes(name);
+}
+
+/**
+ * Interrupted states: input-required, auth-required. The task is waiting on
+ * the client and resumes in 'working'.
+ */
+export function isInterruptedState(state: TaskState | string | undefined): boolean {
+  const name = canonicalState(state);
+  return name !== undefined && INTERRUPTED_STATES.includes(name);
+}
@@ -3,12 +3,12 @@
  * Handles tool execution, approval workflows, and state management
  */
 
-import { EventEmitter } from 'events';
-import type { EventEmitter as EventEmitterType } from 'events';
-import { randomUUID } from 'crypto';
+import { EventEmitter } from '../shared/platform/events.js';
+import { randomUUID } from '../shared/platform/crypto.js';
 type ToolStatus = string;
 export interface ToolCall { callId: string; name: string; input: Record<string, any>; status: ToolStatus; result?: any; error?: string; timestamp: string; }
 import { ToolRegistry, type ToolDefinition } from './tool-registry.js';
+import { NotFoundError } from '../shared/errors.js';
 import { createLogger } from '../shared/logger.js'
 
 const log = createLogger('tool-executor');
@@ -49,7 +49,7 @@ export interface ToolApproval {
  * Tool Executor
  * Manages tool execution lifecycle with approval workflow
  */
-export class ToolExecutor extends EventEmitter implements EventEmitterType {
+export class ToolExecutor extends EventEmitter {
   private registry: ToolRegistry;
   private toolCalls = new Map<string, ToolCall>();
   private taskTools = new Map<string, Set<string>>(); // taskId -> Set<callId>
@@ -107,7 +107,7 @@ export class ToolExecutor extends EventEmitter implements EventEmitterType {
     const toolCall = this.pendingApprovals.get(approval.callId);
 
     if (!toolCall) {
-      throw new Error(`No pending approval for call ${approval.callId}`);
+      throw new NotFoundError(`No pending approval for call ${approval.callId}`);
     }
 
     log.info({
@@ -144,6 +144,18 @@ export class ToolExecutor extends EventEmitter implements EventEmitterType {
     return this.toolCalls.get(callId);
   }
 
+  /**
+   * Get the task a tool call belongs to
+   */
+  getToolCallTaskId(callId: string): string | undefined {
+    for (const [taskId, callIds] of this.taskTools) {
+      if (callIds.has(callId)) {
+        return taskId;
+      }
+    }
+    return undefined;
+  }
+
   /**
    * Get all tool calls for a task
    */
@@ -3,15 +3,34 @@
  * 
  * This is the main entry point for running the A2A server on Cloudflare Workers
  * It handles HTTP requests and WebSocket connections using Workers APIs
+ *
+ * Tasks live in TaskPartition Durable Objects. JSON-RPC requests
+ * (`POST /`) and WebSocket upgrades (`/?taskId=...` or `/?contextId=...`)
+ * are routed to the partition of the task or context they name.
  */
 
-import { A2AService } from './a2a-service-worker.js';
-import { createLogger} from '../../shared/dist/logger'
+import { A2AService } from './a2a-service.js';
+import { createLogger } from '../shared/logger.js';
+import { JsonRpcErrorCode, errorResponse, toJsonRpcError } from './jsonrpc/jsonrpc-dispatcher.js';
+import type { AuthenticationService } from './authentication-service.js';
+import { authenticateBearer } from './http/http-utils.js';
+import type { SessionManager } from './session-manager.js';
+import { a2aErrorResponse, createAuthService, createSessionManager, requestMetadata } from './task-partition.js';
+import {
+  PARTITION_CONTEXT_HEADER,
+  routeJsonRpc,
+  routeTaskOrContext,
+  type PartitionRoute
+} from './task-partition-routing.js';
+import { InvalidRequestError, UnsupportedOperationError } from '../shared/errors.js';
+
+export { TaskPartition } from './task-partition.js';
 
 const log = createLogger('a2a-worker');
 
 export interface Env {
   // Environment variables
+  /** Signs and verifies Bearer tokens; requests are refused without it */
   JWT_SECRET?: string;
   SESSION_TIMEOUT?: string;
   AGENT_URL?: string;
@@ -19,11 +38,12 @@ export interface Env {
   AGENT_DESCRIPTION?: string;
 
   // KV namespaces
+  /** Sessions issued by `POST /a2a/auth`; without it only Bearer tokens work */
   A2A_SESSIONS?: KVNamespace;
-  A2A_TASKS?: KVNamespace;
 
   // Durable Objects
-  A2A_SESSIONS_DO?: DurableObjectNamespace;
+  /** TaskPartition objects, one per context */
+  A2A_TASKS: DurableObjectNamespace;
 }
 
 /**
@@ -33,32 +53,32 @@ export default {
   async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
     const url = new URL(request.url);
 
-    log.info('Received request', { method: request.method, url: url.toString() });
-
-    // Initialize A2A Service
-    const a2aService = new A2AService({
-      agentName: env.AGENT_NAME,
-      agentDescription: env.AGENT_DESCRIPTION,
-      agentUrl: env.AGENT_URL || url.origin,
-      protocolVersion: '0.4.0'
-    });
+    log.info({ method: request.method, url: url.toString() }, 'Received request');
 
     try {
       // Handle WebSocket upgrade requests
       if (request.headers.get('Upgrade') === 'websocket') {
-        return handleWebSocket(request, env, ctx, a2aService);
+        return await handleWebSocket(request, env);
+      }
+
+      if (url.pathname === '/' && request.method === 'POST') {
+        return await handleJsonRpc(request, env);
+      }
+
+      if (url.pathname === '/a2a/auth' && request.method === 'POST') {
+        return await handleAuth(request, env);
       }
 
       // Handle HTTP requests
       switch (url.pathname) {
         case '/.well-known/agent.json':
-          return handleAgentCard(env, a2aService);
+          return await handleAgentCard(env, url);
 
         case '/health':
-          return handleHealth();
+          return await handleHealth();
 
         case '/':
-          return handleRoot();
+          return await handleRoot();
 
         default:
           return new Response('Not Found', { status: 404 });
@@ -66,26 +86,121 @@ export default {
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       const errorStack = error instanceof Error ? error.stack : undefined;
-      log.error('Request handling error', { error: errorMessage, stack: errorStack });
+      log.error({ error: errorMessage, stack: errorStack }, 'Request handling error');
       return new Response('Internal Server Error', { status: 500 });
     }
   }
 };
 
 /**
- * Handle WebSocket connections for A2A RPC
+ * Hand a WebSocket upgrade to the partition of the task or context in its
+ * query string
+ */
+async function handleWebSocket(request: Request, env: Env): Promise<Response> {
+  const url = new URL(request.url);
+
+  try {
+    const route = routeTaskOrContext(
+      {
+        taskId: url.searchParams.get('taskId') ?? undefined,
+        contextId: url.searchParams.get('contextId') ?? undefined
+      },
+      partitionIdForContext(env)
+    );
+    if (!route) {
+      throw new InvalidRequestError('WebSocket connections need a taskId or contextId query parameter');
+    }
+    return forwardToPartition(request, env, route);
+  } catch (error) {
+    return a2aErrorResponse(error);
+  }
+}
+
+/**
+ * Route a JSON-RPC request (or batch) to its partition
+ */
+async function handleJsonRpc(request: Request, env: Env): Promise<Response> {
+  let payload: unknown;
+  try {
+    payload = await request.json();
+  } catch {
+    return Response.json(errorResponse(null, { code: JsonRpcErrorCode.PARSE_ERROR, message: 'Request body is not valid JSON' }));
+  }
+
+  let route: PartitionRoute;
+  try {
+    // May assign a context ID to messages that start a new context
+    route = routeJsonRpc(payload, partitionIdForContext(env));
+  } catch (error) {
+    const id = Array.isArray(payload) ? null : (payload as any)?.id ?? null;
+    return Response.json(errorResponse(id, toJsonRpcError(error)));
+  }
+
+  const headers = new Headers(request.headers);
+  headers.delete('Content-Length');
+  return forwardToPartition(new Request(request, { headers, body: JSON.stringify(payload) }), env, route);
+}
+
+function forwardToPartition(request: Request, env: Env, route: PartitionRoute): Promise<Response> {
+  const partition = env.A2A_TASKS.get(env.A2A_TASKS.idFromString(route.partitionId));
+
+  if (!route.contextId) {
+    return partition.fetch(request);
+  }
+  // Tells a new partition which context it serves
+  const headers = new Headers(request.headers);
+  headers.set(PARTITION_CONTEXT_HEADER, route.contextId);
+  return partition.fetch(new Request(request, { headers }));
+}
+
+function partitionIdForContext(env: Env): (contextId: string) => string {
+  return (contextId) => env.A2A_TASKS.idFromName(contextId).toString();
+}
+
+let authService: AuthenticationService | undefined;
+let sessionManager: SessionManager | undefined;
+
+/**
+ * Exchange a Bearer token for a session ID, which browsers can pass to
+ * WebSocket upgrades as `?sessionId=` (they cannot set headers there)
  */
-async function handleWebSocket(request: Request, env: Env, ctx: ExecutionContext, a2aService: A2AService): Promise<Response> {
-  // This is a placeholder - actual WebSocket handling would require Durable Objects
-  // for stateful connections in Cloudflare Workers
-  return new Response('WebSocket support requires Durable Objects', { status: 501 });
+async function handleAuth(request: Request, env: Env): Promise<Response> {
+  try {
+    sessionManager ??= createSessionManager(env);
+    if (!sessionManager) {
+      throw new UnsupportedOperationError('Sessions need the A2A_SESSIONS KV binding');
+    }
+
+    authService ??= createAuthService(env);
+    const metadata = requestMetadata(request);
+    const { userId, permissions } = await authenticateBearer(request.headers.get('Authorization'), authService, metadata);
+    const session = await sessionManager.createSession({ userId, permissions, metadata });
+
+    return Response.json({
+      sessionId: session.id,
+      expiresIn: parseInt(env.SESSION_TIMEOUT || '3600', 10),
+      userId,
+      permissions
+    });
+  } catch (error) {
+    return a2aErrorResponse(error);
+  }
 }
 
+/** Serves the agent card; tasks are handled by the partitions */
+let cardService: A2AService | undefined;
+
 /**
  * Handle AgentCard request
  */
-async function handleAgentCard(env: Env, a2aService: A2AService): Promise<Response> {
-  const agentCard = a2aService.getAgentCard();
+async function handleAgentCard(env: Env, url: URL): Promise<Response> {
+  cardService ??= new A2AService({
+    agentName: env.AGENT_NAME,
+    agentDescription: env.AGENT_DESCRIPTION,
+    agentUrl: env.AGENT_URL || url.origin,
+    protocolVersion: '0.4.0'
+  });
+  const agentCard = cardService.getAgentCard();
 
   return new Response(JSON.stringify(agentCard, null, 2), {
     headers: {
@@ -0,0 +1,371 @@
+/**
+ * A2A error model
+ *
+ * Every error the server reports is an A2AError with a stable string code.
+ * The code decides the JSON-RPC error code, the HTTP status and the capnweb
+ * error payload, so each transport reports an error the same way, and the
+ * clients rebuild the typed error from whichever form they received.
+ */
+
+/**
+ * Error codes defined by JSON-RPC 2.0 and the A2A specification
+ */
+export const JsonRpcErrorCode = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+  /** Implementation-defined server error (authentication, authorization, rate limits) */
+  SERVER_ERROR: -32000,
+  TASK_NOT_FOUND: -32001,
+  TASK_NOT_CANCELABLE: -32002,
+  PUSH_NOTIFICATION_NOT_SUPPORTED: -32003,
+  UNSUPPORTED_OPERATION: -32004,
+  CONTENT_TYPE_NOT_SUPPORTED: -32005,
+  INVALID_AGENT_RESPONSE: -32006
+} as const;
+
+export type A2AErrorCode =
+  | 'INVALID_REQUEST'
+  | 'INVALID_PARAMS'
+  | 'NOT_FOUND'
+  | 'INTERNAL_ERROR'
+  | 'TASK_NOT_FOUND'
+  | 'TASK_NOT_CANCELABLE'
+  | 'PUSH_NOTIFICATION_NOT_SUPPORTED'
+  | 'UNSUPPORTED_OPERATION'
+  | 'CONTENT_TYPE_NOT_SUPPORTED'
+  | 'INVALID_AGENT_RESPONSE'
+  | 'INVALID_STATE_TRANSITION'
+  | 'PAYLOAD_TOO_LARGE'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'RATE_LIMITED';
+
+/**
+ * Serialized form of an A2AError, as sent in HTTP bodies, JSON-RPC error
+ * data and capnweb error payloads
+ */
+export interface A2AErrorPayload {
+  code: A2AErrorCode;
+  message: string;
+  data?: Record<string, unknown>;
+}
+
+const ERROR_MAPPINGS: Record<A2AErrorCode, { jsonRpc: number; http: number }> = {
+  INVALID_REQUEST: { jsonRpc: JsonRpcErrorCode.INVALID_REQUEST, http: 400 },
+  INVALID_PARAMS: { jsonRpc: JsonRpcErrorCode.INVALID_PARAMS, http: 400 },
+  NOT_FOUND: { jsonRpc: JsonRpcErrorCode.INVALID_PARAMS, http: 404 },
+  INTERNAL_ERROR: { jsonRpc: JsonRpcErrorCode.INTERNAL_ERROR, http: 500 },
+  TASK_NOT_FOUND: { jsonRpc: JsonRpcErrorCode.TASK_NOT_FOUND, http: 404 },
+  TASK_NOT_CANCELABLE: { jsonRpc: JsonRpcErrorCode.TASK_NOT_CANCELABLE, http: 409 },
+  PUSH_NOTIFICATION_NOT_SUPPORTED: { jsonRpc: JsonRpcErrorCode.PUSH_NOTIFICATION_NOT_SUPPORTED, http: 400 },
+  UNSUPPORTED_OPERATION: { jsonRpc: JsonRpcErrorCode.UNSUPPORTED_OPERATION, http: 400 },
+  CONTENT_TYPE_NOT_SUPPORTED: { jsonRpc: JsonRpcErrorCode.CONTENT_TYPE_NOT_SUPPORTED, http: 415 },
+  INVALID_AGENT_RESPONSE: { jsonRpc: JsonRpcErrorCode.INVALID_AGENT_RESPONSE, http: 502 },
+  INVALID_STATE_TRANSITION: { jsonRpc: JsonRpcErrorCode.TASK_NOT_CANCELABLE, http: 409 },
+  PAYLOAD_TOO_LARGE: { jsonRpc: JsonRpcErrorCode.INVALID_REQUEST, http: 413 },
+  UNAUTHORIZED: { jsonRpc: JsonRpcErrorCode.SERVER_ERROR, http: 401 },
+  FORBIDDEN: { jsonRpc: JsonRpcErrorCode.SERVER_ERROR, http: 403 },
+  RATE_LIMITED: { jsonRpc: JsonRpcErrorCode.SERVER_ERROR, http: 429 }
+};
+
+/**
+ * Base class of all errors reported to A2A clients
+ */
+export class A2AError extends Error {
+  name = 'A2AError';
+
+  constructor(
+    public readonly code: A2AErrorCode,
+    message: string,
+    public readonly data?: Record<string, unknown>
+  ) {
+    super(message);
+  }
+
+  /** JSON-RPC error code for this error */
+  get jsonRpcCode(): number {
+    return ERROR_MAPPINGS[this.code]?.jsonRpc ?? JsonRpcErrorCode.INTERNAL_ERROR;
+  }
+
+  /** HTTP status for this error */
+  get httpStatus(): number {
+    return ERROR_MAPPINGS[this.code]?.http ?? 500;
+  }
+
+  toJSON(): A2AErrorPayload {
+    return this.data
+      ? { code: this.code, message: this.message, data: this.data }
+      : { code: this.code, message: this.message };
+  }
+}
+
+export class InvalidRequestError extends A2AError {
+  name = 'InvalidRequestError';
+
+  constructor(message: string, data?: Record<string, unknown>) {
+    super('INVALID_REQUEST', message, data);
+  }
+}
+
+export class InvalidParamsError extends A2AError {
+  name = 'InvalidParamsError';
+
+  constructor(message: string, data?: Record<string, unknown>) {
+    super('INVALID_PARAMS', message, data);
+  }
+}
+
+/**
+ * A resource other than a task (e.g. a push notification config) doesn't exist
+ */
+export class NotFoundError extends A2AError {
+  name = 'NotFoundError';
+
+  constructor(message: string, data?: Record<string, unknown>) {
+    super('NOT_FOUND', message, data);
+  }
+}
+
+/**
+ * Unexpected server failure; the details stay in the server log
+ */
+export class InternalError extends A2AError {
+  name = 'InternalError';
+
+  constructor(message = 'Internal error', data?: Record<string, unknown>) {
+    super('INTERNAL_ERROR', message, data);
+  }
+}
+
+export class TaskNotFoundError extends A2AError {
+  name = 'TaskNotFoundError';
+
+  constructor(message: string, data?: Record<string, unknown>) {
+    super('TASK_NOT_FOUND', message, data);
+  }
+}
+
+export class TaskNotCancelableError extends A2AError {
+  name = 'TaskNotCancelableError';
+
+  constructor(message: string, data?: Record<string, unknown>) {
+    super('TASK_NOT_CANCELABLE', message, data);
+  }
+}
+
+export class PushNotificationNotSupportedError extends A2AError {
+  name = 'PushNotificationNotSupportedError';
+
+  constructor(message = 'Push notifications are not supported', data?: Record<string, unknown>) {
+    super('PUSH_NOTIFICATION_NOT_SUPPORTED', message, data);
+  }
+}
+
+export class UnsupportedOperationError extends A2AError {
+  name = 'UnsupportedOperationError';
+
+  constructor(message: string, data?: Record<string, unknown>) {
+    super('UNSUPPORTED_OPERATION', message, data);
+  }
+}
+
+/**
+ * None of the client's accepted output modes can be served
+ */
+export class ContentTypeNotSupportedError extends A2AError {
+  name = 'ContentTypeNotSupportedError';
+
+  constructor(
+    public readonly acceptedOutputModes: string[],
+    public readonly agentOutputModes: string[],
+    message = `None of the accepted output modes [${acceptedOutputModes.join(', ')}] is supported; ` +
+      `agent produces [${agentOutputModes.join(', ')}]`
+  ) {
+    super('CONTENT_TYPE_NOT_SUPPORTED', message, { acceptedOutputModes, agentOutputModes });
+  }
+}
+
+/**
+ * The agent produced a response that doesn't conform to the protocol
+ */
+export class InvalidAgentResponseError extends A2AError {
+  name = 'InvalidAgentResponseError';
+
+  constructor(message: string, data?: Record<string, unknown>) {
+    super('INVALID_AGENT_RESPONSE', message, data);
+  }
+}
+
+export class PayloadTooLargeError extends A2AError {
+  name = 'PayloadTooLargeError';
+
+  constructor(message: string, data?: Record<string, unknown>) {
+    super('PAYLOAD_TOO_LARGE', message, data);
+  }
+}
+
+/**
+ * Missing, invalid or expired credentials
+ */
+export class UnauthorizedError extends A2AError {
+  name = 'UnauthorizedError';
+
+  constructor(message: string, data?: Record<string, unknown>) {
+    super('UNAUTHORIZED', message, data);
+  }
+}
+
+/**
+ * Authenticated, but not allowed to access the resource
+ */
+export class ForbiddenError extends A2AError {
+  name = 'ForbiddenError';
+
+  constructor(message: string, data?: Record<string, unknown>) {
+    super('FORBIDDEN', message, data);
+  }
+}
+
+export class RateLimitedError extends A2AError {
+  name = 'RateLimitedError';
+
+  /**
+   * @param retryAfter - Seconds until the client may retry
+   */
+  constructor(message: string, public readonly retryAfter: number) {
+    super('RATE_LIMITED', message, { retryAfter });
+  }
+}
+
+const ERROR_FACTORIES: Partial<Record<A2AErrorCode, (message: string, data?: Record<string, any>) => A2AError>> = {
+  INVALID_REQUEST: (message, data) => new InvalidRequestError(message, data),
+  INVALID_PARAMS: (message, data) => new InvalidParamsError(message, data),
+  NOT_FOUND: (message, data) => new NotFoundError(message, data),
+  INTERNAL_ERROR: (message, data) => new InternalError(message, data),
+  TASK_NOT_FOUND: (message, data) => new TaskNotFoundError(message, data),
+  TASK_NOT_CANCELABLE: (message, data) => new TaskNotCancelableError(message, data),
+  PUSH_NOTIFICATION_NOT_SUPPORTED: (message, data) => new PushNotificationNotSupportedError(message, data),
+  UNSUPPORTED_OPERATION: (message, data) => new UnsupportedOperationError(message, data),
+  CONTENT_TYPE_NOT_SUPPORTED: (message, data) =>
+    new ContentTypeNotSupportedError(data?.acceptedOutputModes ?? [], data?.agentOutputModes ?? [], message),
+  INVALID_AGENT_RESPONSE: (message, data) => new InvalidAgentResponseError(message, data),
+  PAYLOAD_TOO_LARGE: (message, data) => new PayloadTooLargeError(message, data),
+  UNAUTHORIZED: (message, data) => new UnauthorizedError(message, data),
+  FORBIDDEN: (message, data) => new ForbiddenError(message, data),
+  RATE_LIMITED: (message, data) => new RateLimitedError(message, Number(data?.retryAfter ?? 0))
+};
+
+/** Codes to assume when a JSON-RPC error carries no `data.code` */
+const CODE_BY_JSON_RPC_CODE: Record<number, A2AErrorCode> = {
+  [JsonRpcErrorCode.PARSE_ERROR]: 'INVALID_REQUEST',
+  [JsonRpcErrorCode.INVALID_REQUEST]: 'INVALID_REQUEST',
+  [JsonRpcErrorCode.METHOD_NOT_FOUND]: 'UNSUPPORTED_OPERATION',
+  [JsonRpcErrorCode.INVALID_PARAMS]: 'INVALID_PARAMS',
+  [JsonRpcErrorCode.TASK_NOT_FOUND]: 'TASK_NOT_FOUND',
+  [JsonRpcErrorCode.TASK_NOT_CANCELABLE]: 'TASK_NOT_CANCELABLE',
+  [JsonRpcErrorCode.PUSH_NOTIFICATION_NOT_SUPPORTED]: 'PUSH_NOTIFICATION_NOT_SUPPORTED',
+  [JsonRpcErrorCode.UNSUPPORTED_OPERATION]: 'UNSUPPORTED_OPERATION',
+  [JsonRpcErrorCode.CONTENT_TYPE_NOT_SUPPORTED]: 'CONTENT_TYPE_NOT_SUPPORTED',
+  [JsonRpcErrorCode.INVALID_AGENT_RESPONSE]: 'INVALID_AGENT_RESPONSE'
+};
+
+/** Codes to assume when an HTTP error body carries no code */
+const CODE_BY_HTTP_STATUS: Record<number, A2AErrorCode> = {
+  400: 'INVALID_REQUEST',
+  401: 'UNAUTHORIZED',
+  403: 'FORBIDDEN',
+  404: 'NOT_FOUND',
+  409: 'TASK_NOT_CANCELABLE',
+  413: 'PAYLOAD_TOO_LARGE',
+  415: 'CONTENT_TYPE_NOT_SUPPORTED',
+  429: 'RATE_LIMITED'
+};
+
+/**
+ * Rebuild a typed error from its serialized form
+ *
+ * Unknown codes come back as a plain A2AError carrying that code.
+ */
+export function a2aErrorFromPayload(payload: A2AErrorPayload): A2AError {
+  const factory = ERROR_FACTORIES[payload.code];
+  return factory
+    ? factory(payload.message, payload.data)
+    : new A2AError(payload.code, payload.message, payload.data);
+}
+
+/**
+ * Convert anything thrown on the server to the error reported to clients
+ *
+ * Errors that aren't A2AErrors are unexpected failures; they become an
+ * InternalError so their details don't leak to the client.
+ */
+export function toA2AError(error: unknown): A2AError {
+  return error instanceof A2AError ? error : new InternalError();
+}
+
+/**
+ * Rebuild a typed error from a JSON-RPC error object
+ */
+export function a2aErrorFromJsonRpc(error: { code: number; message: string; data?: any }): A2AError {
+  const { code, ...data } = error.data ?? {};
+  if (typeof code === 'string') {
+    return a2aErrorFromPayload({
+      code: code as A2AErrorCode,
+      message: error.message,
+      data: Object.keys(data).length > 0 ? data : undefined
+    });
+  }
+  return a2aErrorFromPayload({
+    code: CODE_BY_JSON_RPC_CODE[error.code] ?? 'INTERNAL_ERROR',
+    message: error.message
+  });
+}
+
+/**
+ * Rebuild a typed error from an HTTP error response
+ *
+ * @param status - HTTP status code
+ * @param body - Parsed `{ error, message, data }` body, if any
+ */
+export function a2aErrorFromHttp(status: number, body?: { error?: string; message?: string; data?: any }): A2AError {
+  return a2aErrorFromPayload({
+    code: (body?.error as A2AErrorCode) ?? CODE_BY_HTTP_STATUS[status] ?? 'INTERNAL_ERROR',
+    message: body?.message ?? `HTTP ${status}`,
+    data: body?.data
+  });
+}
+
+/**
+ * Encode an error for a capnweb RPC response
+ *
+ * capnweb only transmits an error's message and, for errors returned from
+ * `onSendError`, its stack. The stack therefore carries the serialized
+ * payload.
+ */
+export function toCapnwebError(error: unknown): Error {
+  const a2aError = toA2AError(error);
+  const encoded = new Error(a2aError.message);
+  encoded.stack = JSON.stringify(a2aError.toJSON());
+  return encoded;
+}
+
+/**
+ * Rebuild a typed error from an error thrown by a capnweb stub
+ *
+ * Errors that weren't encoded by `toCapnwebError` (e.g. a dropped
+ * connection) are returned unchanged.
+ */
+export function a2aErrorFromCapnweb(error: unknown): unknown {
+  if (!(error instanceof Error) || error instanceof A2AError || !error.stack?.startsWith('{')) {
+    return error;
+  }
+  try {
+    const payload = JSON.parse(error.stack);
+    return typeof payload?.code === 'string' ? a2aErrorFromPayload(payload) : error;
+  } catch {
+    return error;
+  }
+}
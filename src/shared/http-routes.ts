@@ -0,0 +1,260 @@
+/**
+ * A2A HTTP+JSON route table
+ *
+ * The `google.api.http` annotations of the A2A service, as HttpRule
+ * objects, plus the path template matching and expansion both sides need.
+ * The REST binding of the server routes requests with this table and the
+ * HTTP client builds its URLs from it, so the two can't drift apart.
+ *
+ * Path templates follow the HttpRule syntax: `{field}` binds one path
+ * segment, `{field=tasks/*}` binds the segments matching the pattern, and
+ * a trailing `:verb` names a custom method. Request fields not bound by
+ * the path or the body are sent as query parameters.
+ */
+
+import type { HttpRule } from './google/api/http.js';
+import { InvalidRequestError } from './errors.js';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/** A2A service methods that have an HTTP binding */
+export type A2AMethod =
+  | 'SendMessage'
+  | 'SendStreamingMessage'
+  | 'GetTask'
+  | 'ListTasks'
+  | 'CancelTask'
+  | 'SubscribeToTask'
+  | 'SetTaskPushNotificationConfig'
+  | 'GetTaskPushNotificationConfig'
+  | 'ListTaskPushNotificationConfig'
+  | 'DeleteTaskPushNotificationConfig'
+  | 'GetExtendedAgentCard';
+
+function rule(selector: A2AMethod, method: HttpMethod, path: string, body = ''): HttpRule {
+  return {
+    selector,
+    [method.toLowerCase()]: path,
+    body,
+    responseBody: '',
+    additionalBindings: []
+  } as HttpRule;
+}
+
+export const A2A_HTTP_RULES: HttpRule[] = [
+  rule('SendMessage', 'POST', '/v1/message:send', '*'),
+  rule('SendStreamingMessage', 'POST', '/v1/message:stream', '*'),
+  rule('GetTask', 'GET', '/v1/{name=tasks/*}'),
+  rule('ListTasks', 'GET', '/v1/tasks'),
+  rule('CancelTask', 'POST', '/v1/{name=tasks/*}:cancel', '*'),
+  rule('SubscribeToTask', 'GET', '/v1/{name=tasks/*}:subscribe'),
+  rule('SetTaskPushNotificationConfig', 'POST', '/v1/{parent=tasks/*}/pushNotificationConfigs', 'config'),
+  rule('GetTaskPushNotificationConfig', 'GET', '/v1/{name=tasks/*/pushNotificationConfigs/*}'),
+  rule('ListTaskPushNotificationConfig', 'GET', '/v1/{parent=tasks/*}/pushNotificationConfigs'),
+  rule('DeleteTaskPushNotificationConfig', 'DELETE', '/v1/{name=tasks/*/pushNotificationConfigs/*}'),
+  rule('GetExtendedAgentCard', 'GET', '/v1/card')
+];
+
+/**
+ * Request fields that are numbers, so query parameters can be converted
+ */
+const NUMERIC_FIELDS = new Set(['historyLength', 'pageSize']);
+
+/**
+ * Request fields that are booleans, given as `true` or `false` in the query
+ */
+const BOOLEAN_FIELDS = new Set(['includeArtifacts']);
+
+const VARIABLE = /\{([^}=]+)(?:=([^}]+))?\}/g;
+
+interface CompiledRule {
+  rule: HttpRule;
+  method: HttpMethod;
+  template: string;
+  pattern: RegExp;
+  fields: string[];
+}
+
+export interface HttpRouteMatch {
+  method: A2AMethod;
+  rule: HttpRule;
+  /** Fields bound by the path, e.g. `{ name: 'tasks/123' }` */
+  pathParams: Record<string, string>;
+}
+
+export interface HttpRequestSpec {
+  method: HttpMethod;
+  /** Path including the query string */
+  path: string;
+  /** JSON body, if the rule has one */
+  body?: unknown;
+}
+
+/**
+ * Get the HTTP method and path template of a rule
+ */
+export function ruleBinding(httpRule: HttpRule): { method: HttpMethod; template: string } {
+  for (const method of ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'] as const) {
+    const template = (httpRule as any)[method.toLowerCase()];
+    if (template) {
+      return { method, template };
+    }
+  }
+  throw new Error(`HttpRule ${httpRule.selector} has no path`);
+}
+
+/**
+ * Compile a path template into a regular expression
+ *
+ * `*` matches one segment (without `:`, so it can't swallow a custom
+ * verb) and `**` matches any number of segments.
+ */
+function compileTemplate(template: string): { pattern: RegExp; fields: string[] } {
+  const fields: string[] = [];
+  let source = '';
+  let last = 0;
+
+  const segmentPattern = (segments: string) =>
+    segments
+      .split('/')
+      .map((segment) => (segment === '**' ? '.+' : segment === '*' ? '[^/:]+' : escapeRegExp(segment)))
+      .join('/');
+
+  for (const match of template.matchAll(VARIABLE)) {
+    source += escapeRegExp(template.slice(last, match.index));
+    fields.push(match[1]);
+    source += `(${segmentPattern(match[2] || '*')})`;
+    last = match.index! + match[0].length;
+  }
+  source += escapeRegExp(template.slice(last));
+
+  return { pattern: new RegExp(`^${source}$`), fields };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+const compiledRules: CompiledRule[] = A2A_HTTP_RULES.map((httpRule) => {
+  const { method, template } = ruleBinding(httpRule);
+  return { rule: httpRule, method, template, ...compileTemplate(template) };
+});
+
+/**
+ * Find the rule matching an HTTP request
+ *
+ * @param method - HTTP method
+ * @param pathname - Request path without the query string
+ * @returns The matched method and path parameters, or undefined
+ * @throws InvalidRequestError if a path parameter has a malformed escape
+ */
+export function matchHttpRoute(method: string | undefined, pathname: string): HttpRouteMatch | undefined {
+  for (const compiled of compiledRules) {
+    if (compiled.method !== method) {
+      continue;
+    }
+
+    const match = compiled.pattern.exec(pathname);
+    if (match) {
+      const pathParams: Record<string, string> = {};
+      compiled.fields.forEach((field, index) => {
+        pathParams[field] = match[index + 1].split('/').map(decodePathSegment).join('/');
+      });
+      return { method: compiled.rule.selector as A2AMethod, rule: compiled.rule, pathParams };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Decode one percent-encoded path segment
+ *
+ * @throws InvalidRequestError if the segment contains a malformed escape
+ */
+export function decodePathSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw new InvalidRequestError(`Malformed escape in path segment: ${segment}`);
+  }
+}
+
+/**
+ * Build the A2A request object for a matched route
+ *
+ * Combines the path parameters, query parameters and body as described
+ * by the rule's `body` field.
+ *
+ * @throws InvalidRequestError if a boolean query parameter is not `true` or `false`
+ */
+export function buildRequest(match: HttpRouteMatch, query: URLSearchParams, body: any): Record<string, any> {
+  const request: Record<string, any> = {};
+
+  for (const [key, value] of query) {
+    if (BOOLEAN_FIELDS.has(key)) {
+      if (value !== 'true' && value !== 'false') {
+        throw new InvalidRequestError(`Query parameter ${key} must be true or false`);
+      }
+      request[key] = value === 'true';
+    } else {
+      request[key] = NUMERIC_FIELDS.has(key) && /^\d+$/.test(value) ? parseInt(value, 10) : value;
+    }
+  }
+
+  if (match.rule.body === '*') {
+    Object.assign(request, body);
+  } else if (match.rule.body) {
+    request[match.rule.body] = body;
+  }
+
+  return Object.assign(request, match.pathParams);
+}
+
+/**
+ * Build the HTTP request for an A2A method call
+ *
+ * The inverse of matchHttpRoute + buildRequest, used by clients.
+ *
+ * @param method - A2A method
+ * @param request - Request fields; path-bound fields must be set
+ */
+export function buildHttpRequest(method: A2AMethod, request: Record<string, any> = {}): HttpRequestSpec {
+  const compiled = compiledRules.find((candidate) => candidate.rule.selector === method);
+  if (!compiled) {
+    throw new Error(`No HTTP binding for ${method}`);
+  }
+
+  const remaining = { ...request };
+  const path = compiled.template.replace(VARIABLE, (_match, field: string) => {
+    const value = remaining[field];
+    if (typeof value !== 'string' || !value) {
+      throw new Error(`Missing path parameter ${field} for ${method}`);
+    }
+    delete remaining[field];
+    return value.split('/').map(encodeURIComponent).join('/');
+  });
+
+  let body: unknown;
+  if (compiled.rule.body === '*') {
+    body = remaining;
+  } else if (compiled.rule.body) {
+    body = remaining[compiled.rule.body];
+    delete remaining[compiled.rule.body];
+  }
+
+  const query = new URLSearchParams();
+  if (compiled.rule.body !== '*') {
+    for (const [key, value] of Object.entries(remaining)) {
+      if (value !== undefined && value !== null && value !== '') {
+        query.set(key, String(value));
+      }
+    }
+  }
+
+  const queryString = query.toString();
+  return {
+    method: compiled.method,
+    path: queryString ? `${path}?${queryString}` : path,
+    body
+  };
+}
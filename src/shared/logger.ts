@@ -1,7 +1,101 @@
-import pino from 'pino';
+/**
+ * Logging for code that runs on Node and on Cloudflare Workers
+ *
+ * Modules create their logger once with `createLogger(name)`; the entry
+ * point picks the backend with `setLoggerFactory()`. The Node servers log
+ * through pino (see platform/pino-logger.ts), everything else writes JSON
+ * lines to the console. Loggers look up the backend when they are used, so
+ * module-level loggers follow a factory installed after they were created.
+ */
 
-export type Logger = pino.Logger;
+export interface LogFn {
+  (obj: object, msg?: string): void;
+  (msg: string): void;
+}
+
+/**
+ * The pino logging API the code base uses; pino loggers satisfy it
+ */
+export interface Logger {
+  trace: LogFn;
+  debug: LogFn;
+  info: LogFn;
+  warn: LogFn;
+  error: LogFn;
+  fatal: LogFn;
+  child(bindings: Record<string, unknown>): Logger;
+}
+
+export type LoggerFactory = (name: string) => Logger;
+
+const LEVELS = { trace: 10, debug: 20, info: 30, warn: 40, error: 50, fatal: 60 } as const;
+type Level = keyof typeof LEVELS;
+
+/**
+ * Logger writing pino-style JSON lines to the console
+ */
+export function createConsoleLogger(bindings: Record<string, unknown>, level: string = 'info'): Logger {
+  const threshold = LEVELS[level as Level] ?? LEVELS.info;
+
+  const write = (name: Level): LogFn =>
+    ((objOrMsg: object | string, msg?: string) => {
+      if (LEVELS[name] < threshold) {
+        return;
+      }
+      const fields = typeof objOrMsg === 'string' ? { msg: objOrMsg } : { ...objOrMsg, msg };
+      const line = JSON.stringify({ level: LEVELS[name], time: Date.now(), ...bindings, ...fields });
+      if (LEVELS[name] >= LEVELS.error) {
+        console.error(line);
+      } else if (name === 'warn') {
+        console.warn(line);
+      } else {
+        console.log(line);
+      }
+    }) as LogFn;
+
+  return {
+    trace: write('trace'),
+    debug: write('debug'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error'),
+    fatal: write('fatal'),
+    child: (childBindings) => createConsoleLogger({ ...bindings, ...childBindings }, level)
+  };
+}
+
+let factory: LoggerFactory = (name) =>
+  createConsoleLogger({ name }, (globalThis as any).process?.env?.LOG_LEVEL);
+let generation = 0;
+
+/**
+ * Choose the logging backend of every logger, including existing ones
+ */
+export function setLoggerFactory(next: LoggerFactory): void {
+  factory = next;
+  generation++;
+}
 
 export function createLogger(name: string): Logger {
-  return pino({ name, level: process.env.LOG_LEVEL || 'info' });
+  let backend: Logger | undefined;
+  let backendGeneration = -1;
+
+  const current = (): Logger => {
+    if (!backend || backendGeneration !== generation) {
+      backend = factory(name);
+      backendGeneration = generation;
+    }
+    return backend;
+  };
+  const delegate = (level: Level): LogFn => ((...args: [any, any?]) => current()[level](...args)) as LogFn;
+
+  return {
+    trace: delegate('trace'),
+    debug: delegate('debug'),
+    info: delegate('info'),
+    warn: delegate('warn'),
+    error: delegate('error'),
+    fatal: delegate('fatal'),
+    child: (bindings) => current().child(bindings)
+  };
 }
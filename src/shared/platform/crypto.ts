@@ -0,0 +1,84 @@
+/**
+ * Crypto primitives for code that runs on Node and on Cloudflare Workers
+ *
+ * Random values, digests and HMACs come from the Web Crypto API, which both
+ * runtimes provide as `globalThis.crypto`. Its digests are async only, so
+ * the hashing helpers here are too.
+ */
+
+/**
+ * Random RFC 4122 version 4 UUID
+ */
+export function randomUUID(): string {
+  return globalThis.crypto.randomUUID();
+}
+
+/**
+ * Cryptographically secure random bytes
+ */
+export function randomBytes(length: number): Uint8Array {
+  return globalThis.crypto.getRandomValues(new Uint8Array(length));
+}
+
+function toBytes(data: string | Uint8Array): Uint8Array<ArrayBuffer> {
+  return typeof data === 'string' ? new TextEncoder().encode(data) : new Uint8Array(data);
+}
+
+/**
+ * SHA-256 digest
+ */
+export async function sha256(data: string | Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await globalThis.crypto.subtle.digest('SHA-256', toBytes(data)));
+}
+
+/**
+ * HMAC-SHA256 (RFC 2104)
+ */
+export async function hmacSha256(key: string | Uint8Array, data: string | Uint8Array): Promise<Uint8Array> {
+  const hmacKey = await globalThis.crypto.subtle.importKey(
+    'raw',
+    toBytes(key),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return new Uint8Array(await globalThis.crypto.subtle.sign('HMAC', hmacKey, toBytes(data)));
+}
+
+/**
+ * Compare two byte arrays in time independent of where they differ
+ */
+export function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a[i] ^ b[i];
+  }
+  return difference === 0;
+}
+
+export function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function toBase64(data: string | Uint8Array): string {
+  let binary = '';
+  for (const byte of toBytes(data)) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+export function toBase64Url(data: string | Uint8Array): string {
+  return toBase64(data).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * @throws Error if the text is not base64url
+ */
+export function fromBase64Url(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
@@ -0,0 +1,67 @@
+/**
+ * Event emitter for code that runs on Node and on Cloudflare Workers
+ *
+ * Covers the part of Node's `events` API the server uses. Listeners run
+ * synchronously in the order they were added; a listener added or removed
+ * during `emit` takes effect from the next event.
+ */
+
+export type Listener = (...args: any[]) => void;
+
+export class EventEmitter {
+  private readonly listeners = new Map<string | symbol, Listener[]>();
+
+  on(event: string | symbol, listener: Listener): this {
+    this.listeners.set(event, [...(this.listeners.get(event) ?? []), listener]);
+    return this;
+  }
+
+  once(event: string | symbol, listener: Listener): this {
+    const wrapper: Listener = (...args) => {
+      this.off(event, wrapper);
+      listener(...args);
+    };
+    return this.on(event, wrapper);
+  }
+
+  off(event: string | symbol, listener: Listener): this {
+    const listeners = this.listeners.get(event);
+    const index = listeners?.indexOf(listener) ?? -1;
+    if (index >= 0) {
+      const remaining = listeners!.filter((_, i) => i !== index);
+      if (remaining.length > 0) {
+        this.listeners.set(event, remaining);
+      } else {
+        this.listeners.delete(event);
+      }
+    }
+    return this;
+  }
+
+  removeAllListeners(event?: string | symbol): this {
+    if (event === undefined) {
+      this.listeners.clear();
+    } else {
+      this.listeners.delete(event);
+    }
+    return this;
+  }
+
+  /**
+   * @returns Whether the event had listeners
+   */
+  emit(event: string | symbol, ...args: any[]): boolean {
+    const listeners = this.listeners.get(event);
+    if (!listeners) {
+      return false;
+    }
+    for (const listener of listeners) {
+      listener(...args);
+    }
+    return true;
+  }
+
+  listenerCount(event: string | symbol): number {
+    return this.listeners.get(event)?.length ?? 0;
+  }
+}
@@ -0,0 +1,12 @@
+/**
+ * pino logging backend for the Node servers
+ *
+ * Installed by the Node entry points with
+ * `setLoggerFactory(pinoLoggerFactory)`; Workers builds never import it.
+ */
+
+import pino from 'pino';
+import type { LoggerFactory } from '../logger.js';
+
+export const pinoLoggerFactory: LoggerFactory = (name) =>
+  pino({ name, level: process.env.LOG_LEVEL || 'info' });
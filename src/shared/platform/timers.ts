@@ -0,0 +1,8 @@
+/**
+ * Timer handles for code that runs on Node and on Cloudflare Workers
+ *
+ * `setTimeout` returns a `NodeJS.Timeout` on Node and a number on Workers.
+ */
+
+export type TimerHandle = ReturnType<typeof setTimeout>;
+export type IntervalHandle = ReturnType<typeof setInterval>;
@@ -0,0 +1,84 @@
+/**
+ * capnweb RpcTransport over a `ws` WebSocket
+ *
+ * capnweb's own WebSocket transport expects the WHATWG WebSocket global,
+ * which Node 20 doesn't have. This adapter runs an RpcSession over the
+ * sockets of the `ws` package instead, on both the server and the client.
+ */
+
+import type { RpcTransport } from 'capnweb';
+import { WebSocket } from 'ws';
+
+export class WsRpcTransport implements RpcTransport {
+  private receiveQueue: string[] = [];
+  private waiters: Array<{ resolve: (message: string) => void; reject: (error: Error) => void }> = [];
+  private error?: Error;
+  private opened: Promise<void>;
+
+  constructor(private socket: WebSocket) {
+    this.opened = socket.readyState === WebSocket.CONNECTING
+      ? new Promise((resolve, reject) => {
+          socket.once('open', () => resolve());
+          socket.once('error', reject);
+        })
+      : Promise.resolve();
+
+    socket.on('message', (data, isBinary) => {
+      if (this.error) {
+        return;
+      }
+      if (isBinary) {
+        this.fail(new TypeError('Received binary message on RPC WebSocket'));
+        return;
+      }
+      const message = data.toString();
+      const waiter = this.waiters.shift();
+      if (waiter) {
+        waiter.resolve(message);
+      } else {
+        this.receiveQueue.push(message);
+      }
+    });
+
+    socket.on('close', (code, reason) => {
+      this.fail(new Error(`Peer closed WebSocket: ${code} ${reason.toString()}`));
+    });
+
+    socket.on('error', (error) => {
+      this.fail(error);
+    });
+  }
+
+  async send(message: string): Promise<void> {
+    await this.opened;
+    this.socket.send(message);
+  }
+
+  async receive(): Promise<string> {
+    if (this.receiveQueue.length > 0) {
+      return this.receiveQueue.shift()!;
+    }
+    if (this.error) {
+      throw this.error;
+    }
+    return new Promise((resolve, reject) => {
+      this.waiters.push({ resolve, reject });
+    });
+  }
+
+  abort(reason: any): void {
+    const message = reason instanceof Error ? reason.message : String(reason);
+    this.socket.close(1011, message.slice(0, 120));
+    this.fail(reason instanceof Error ? reason : new Error(message));
+  }
+
+  private fail(error: Error): void {
+    if (this.error) {
+      return;
+    }
+    this.error = error;
+    for (const waiter of this.waiters.splice(0)) {
+      waiter.reject(error);
+    }
+  }
+}
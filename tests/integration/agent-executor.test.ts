@@ -0,0 +1,97 @@
+/**
+ * Agent Executor Integration Tests
+ *
+ * Tests plugging custom AgentExecutors into A2AService, the event bus they
+ * publish through, and cancellation via AbortSignal
+ */
+
+import { describe, it, expect } from 'vitest';
+import { A2AService } from '../../src/server/a2a-service';
+import { TaskManager } from '../../src/server/task-manager';
+import { ToolExecutor } from '../../src/server/tool-executor';
+import { AgentEventBus, type AgentExecutionContext, type AgentExecutor } from '../../src/server/executors/agent-executor';
+import { FunctionAgentExecutor } from '../../src/server/executors/function-agent-executor';
+import { createTestMessage, waitFor } from '../utils';
+
+describe('AgentEventBus', () => {
+  it('should publish status, messages, artifacts and tool calls to the task', async () => {
+    const taskManager = new TaskManager();
+    const task = await taskManager.createTask(createTestMessage('Hello'));
+    const bus = new AgentEventBus(task.id, task.contextId, taskManager, new ToolExecutor());
+
+    await bus.publishMessage(createTestMessage('Thinking...'));
+    await bus.publishArtifact({ artifactId: 'a1', parts: [{ kind: 'text', text: 'Result' }] } as any);
+    const toolCall = await bus.executeTool('echo', { message: 'hi' });
+    await bus.publishStatus('completed' as any, createTestMessage('Done'));
+
+    const updated = (await taskManager.getTask(task.id)) as any;
+    expect(updated.status.state).toBe('completed');
+    expect(updated.history).toHaveLength(3);
+    expect(updated.artifacts).toHaveLength(1);
+    expect(updated.toolCalls[0].callId).toBe(toolCall.callId);
+  });
+});
+
+describe('A2AService with a custom AgentExecutor', () => {
+  it('should hand the task, message and event bus to the executor', async () => {
+    const contexts: AgentExecutionContext[] = [];
+    const executor: AgentExecutor = {
+      async execute(context) {
+        contexts.push(context);
+        await context.eventBus.publishStatus('completed' as any);
+      }
+    };
+    const service = new A2AService({ executor });
+    const message = createTestMessage('Run my agent');
+
+    const task = (await service.sendMessage('conn-1', message, undefined)) as any;
+
+    await waitFor(() => contexts.length === 1, { timeout: 1000 });
+    expect(contexts[0].task.id).toBe(task.id);
+    expect(contexts[0].message.messageId).toBe(message.messageId);
+    expect(contexts[0].eventBus.taskId).toBe(task.id);
+    expect(contexts[0].signal.aborted).toBe(false);
+  });
+
+  it('should complete the task with a FunctionAgentExecutor reply', async () => {
+    const service = new A2AService({
+      executor: new FunctionAgentExecutor(async (text) => `You said: ${text}`)
+    });
+
+    const task = (await service.sendMessage('conn-1', createTestMessage('ping'), undefined)) as any;
+
+    await waitFor(async () => (await service.getTask(task.id)).status.state === 3, { timeout: 1000 });
+    const completed = await service.getTask(task.id);
+    expect(completed.status.message?.parts[0].text).toBe('You said: ping');
+  });
+
+  it('should mark the task failed when the executor throws', async () => {
+    const service = new A2AService({
+      executor: { execute: async () => { throw new Error('agent crashed'); } }
+    });
+
+    const task = (await service.sendMessage('conn-1', createTestMessage('boom'), undefined)) as any;
+
+    await waitFor(async () => (await service.getTask(task.id)).status.state === 4, { timeout: 1000 });
+  });
+
+  it('should abort the executor signal when the task is canceled', async () => {
+    let signal: AbortSignal | undefined;
+    const service = new A2AService({
+      executor: {
+        execute: (context) => {
+          signal = context.signal;
+          return new Promise((resolve) => context.signal.addEventListener('abort', () => resolve()));
+        }
+      }
+    });
+
+    const task = (await service.sendMessage('conn-1', createTestMessage('long job'), undefined)) as any;
+    await waitFor(() => signal !== undefined, { timeout: 1000 });
+
+    const canceled = await service.cancelTask(task.id);
+
+    expect(signal!.aborted).toBe(true);
+    expect(canceled.status.state).toBe('canceled');
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Authorization Tests
+ *
+ * Tests that AuthenticatedA2AService checks every call against the
+ * authorization policy: read-only credentials can't change tasks, tools
+ * need their own permission, permissions only reach the caller's own tasks,
+ * task creators keep access to their tasks, and only admins manage API keys
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { A2AService } from '../../src/server/a2a-service';
+import { AuthenticationService } from '../../src/server/authentication-service';
+import { ForbiddenError, NotFoundError, UnauthorizedError } from '../../src/shared/errors';
+import { createTestMessage } from '../utils';
+
+describe('Authorization', () => {
+  let authService: AuthenticationService;
+  let service: A2AService;
+
+  beforeEach(() => {
+    authService = new AuthenticationService({
+      jwtSecret: 'test-secret-key-do-not-use-in-production',
+      jwtIssuer: 'a2a-test',
+      jwtAudience: 'a2a-api'
+    });
+    service = new A2AService({}, authService);
+  });
+
+  it('should not let a read-only API key change tasks', async () => {
+    const task = await service.getTaskManager().createTask(createTestMessage('Hello'), { userId: 'user-1' });
+    const { apiKey } = await authService.generateApiKey('user-1', ['read']);
+    const readOnly = await service.authenticate({ type: 'apikey', token: apiKey });
+
+    expect((await readOnly.getTask(task.id)).id).toBe(task.id);
+    await expect(readOnly.cancelTask(task.id)).rejects.toBeInstanceOf(ForbiddenError);
+    await expect(readOnly.sendMessage(createTestMessage('New task'))).rejects.toBeInstanceOf(ForbiddenError);
+    await expect(readOnly.sendMessage(createTestMessage('More', { taskId: task.id }))).rejects.toBeInstanceOf(
+      ForbiddenError
+    );
+    await expect(
+      readOnly.setTaskPushNotificationConfig({
+        parent: `tasks/${task.id}`,
+        configId: 'c1',
+        config: { name: '', pushNotificationConfig: { id: 'c1', url: 'https://example.com/hook' } as any }
+      } as any)
+    ).rejects.toBeInstanceOf(ForbiddenError);
+  });
+
+  it('should require a permission per tool', async () => {
+    const task = await service.getTaskManager().createTask(createTestMessage('Hello'), { userId: 'user-1' });
+    const calculatorOnly = service.createAuthenticatedService('user-1', ['task:read', 'tool:execute:calculator']);
+
+    const toolCall = await calculatorOnly.executeTool(task.id, 'calculator', { expression: '1 + 1' });
+
+    expect(toolCall.name).toBe('calculator');
+    await expect(calculatorOnly.executeTool(task.id, 'http_request', { url: 'https://example.com' })).rejects.toBeInstanceOf(
+      ForbiddenError
+    );
+  });
+
+  it('should grant task creators access to the tasks they create', async () => {
+    const creator = service.createAuthenticatedService('user-1', ['task:create']);
+    const other = service.createAuthenticatedService('user-2', ['task:create']);
+
+    const task = (await creator.sendMessage(createTestMessage('Mine'))) as any;
+
+    expect((await creator.getTask(task.id)).id).toBe(task.id);
+    expect((await creator.cancelTask(task.id)).id).toBe(task.id);
+    await expect(other.getTask(task.id)).rejects.toBeInstanceOf(ForbiddenError);
+    await expect(creator.listTasks({} as any)).rejects.toBeInstanceOf(ForbiddenError);
+  });
+
+  it('should keep users with the same permissions out of each other\'s tasks', async () => {
+    const alice = service.createAuthenticatedService('alice', ['read', 'write']);
+    const bob = service.createAuthenticatedService('bob', ['read', 'write']);
+    const admin = service.createAuthenticatedService('operator', ['admin']);
+
+    const task = (await alice.sendMessage(createTestMessage('Mine'))) as any;
+    const ownerless = await service.getTaskManager().createTask(createTestMessage('Nobody\'s'));
+
+    await expect(bob.getTask(task.id)).rejects.toBeInstanceOf(ForbiddenError);
+    await expect(bob.cancelTask(task.id)).rejects.toBeInstanceOf(ForbiddenError);
+    await expect(bob.sendMessage(createTestMessage('More', { taskId: task.id }))).rejects.toBeInstanceOf(ForbiddenError);
+    await expect(bob.delegate(task.id, ['task:read'], 60)).rejects.toBeInstanceOf(ForbiddenError);
+    expect((await bob.listTasks({} as any)).tasks).toEqual([]);
+    await expect(alice.getTask(ownerless.id)).rejects.toBeInstanceOf(ForbiddenError);
+
+    expect((await admin.getTask(task.id)).id).toBe(task.id);
+    expect((await admin.listTasks({} as any)).tasks.map((t) => t.id)).toContain(task.id);
+    expect((await alice.cancelTask(task.id)).id).toBe(task.id);
+  });
+
+  it('should honor capabilities carried by a session', async () => {
+    const task = await service.getTaskManager().createTask(createTestMessage('Shared'), { userId: 'user-1' });
+    const delegate = service.createAuthenticatedService('user-2', [], {
+      capabilities: [{ actions: ['task:read'], taskId: task.id }]
+    });
+
+    expect((await delegate.getTask(task.id)).id).toBe(task.id);
+    await expect(delegate.cancelTask(task.id)).rejects.toBeInstanceOf(ForbiddenError);
+  });
+
+  it('should let only admins list and revoke API keys', async () => {
+    const { apiKey, keyId } = await authService.generateApiKey('user-1', ['read']);
+    await authService.generateApiKey('user-2', ['read']);
+    const admin = service.createAuthenticatedService('operator', ['admin']);
+    const user = await service.authenticate({ type: 'apikey', token: apiKey });
+
+    expect((await admin.listApiKeys()).map((key) => key.userId).sort()).toEqual(['user-1', 'user-2']);
+    expect((await admin.listApiKeys('user-1'))[0]).not.toHaveProperty('hashedKey');
+    await expect(user.listApiKeys()).rejects.toBeInstanceOf(ForbiddenError);
+    await expect(user.revokeApiKey(keyId)).rejects.toBeInstanceOf(ForbiddenError);
+
+    await admin.revokeApiKey(keyId);
+
+    await expect(service.authenticate({ type: 'apikey', token: apiKey })).rejects.toBeInstanceOf(UnauthorizedError);
+    await expect(admin.revokeApiKey(keyId)).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it('should limit scoped API keys to their scopes', async () => {
+    const task = await service.getTaskManager().createTask(createTestMessage('Hello'), { userId: 'user-1' });
+    const { apiKey } = await authService.generateApiKey('user-1', ['write'], { scopes: ['task:read'] });
+    const scoped = await service.authenticate({ type: 'apikey', token: apiKey });
+
+    expect((await scoped.getTask(task.id)).id).toBe(task.id);
+    await expect(scoped.cancelTask(task.id)).rejects.toBeInstanceOf(ForbiddenError);
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Capability Delegation Tests
+ *
+ * Tests handing another agent a narrow right on a task: minting capability
+ * tokens with AuthenticatedA2AService.delegate, attenuating them without
+ * the server, redeeming them (directly and over capnweb) and cascading
+ * revocation to every delegated token
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { AddressInfo } from 'net';
+import pino from 'pino';
+import { A2AService, type AuthenticatedA2AService } from '../../src/server/a2a-service';
+import { CapabilityTokenIssuer, attenuateCapabilityToken } from '../../src/server/capability-token';
+import { createStandaloneServer, CAPNWEB_PATH, type StandaloneServerRuntime } from '../../src/server/standalone-server';
+import { connectCapnweb, withA2AErrors } from '../../src/client/capnweb-client';
+import { ForbiddenError, UnauthorizedError } from '../../src/shared/errors';
+import { createTestMessage, wait } from '../utils';
+
+describe('Capability delegation', () => {
+  let service: A2AService;
+  let owner: AuthenticatedA2AService;
+  let taskId: string;
+
+  beforeEach(async () => {
+    service = new A2AService({ capabilityTokens: new CapabilityTokenIssuer('test-capability-secret') });
+    owner = service.createAuthenticatedService('alice', ['read', 'write']);
+    taskId = (await service.getTaskManager().createTask(createTestMessage('Shared'), { userId: 'alice' })).id;
+  });
+
+  it('should restrict a redeemed service to the delegated actions on the task', async () => {
+    const { token } = await owner.delegate(taskId, ['task:read', 'tool:approve'], 600);
+    const delegate = await service.redeemCapability(token);
+    const otherTask = await service.getTaskManager().createTask(createTestMessage('Private'), { userId: 'alice' });
+
+    expect((await delegate.getTask(taskId)).id).toBe(taskId);
+    await expect(delegate.cancelTask(taskId)).rejects.toBeInstanceOf(ForbiddenError);
+    await expect(delegate.getTask(otherTask.id)).rejects.toBeInstanceOf(ForbiddenError);
+    await expect(delegate.sendMessage(createTestMessage('New task'))).rejects.toBeInstanceOf(ForbiddenError);
+  });
+
+  it('should not delegate more than the delegator holds', async () => {
+    const reader = service.createAuthenticatedService('alice', ['read']);
+    const { token } = await owner.delegate(taskId, ['task:read'], 600);
+    const delegate = await service.redeemCapability(token);
+
+    await expect(reader.delegate(taskId, ['task:cancel'], 600)).rejects.toBeInstanceOf(ForbiddenError);
+    await expect(delegate.delegate(taskId, ['task:update'], 600)).rejects.toBeInstanceOf(ForbiddenError);
+    await expect(service.createAuthenticatedService('mallory', ['read']).delegate(taskId, ['task:read'], 600)).rejects.toBeInstanceOf(
+      ForbiddenError
+    );
+  });
+
+  it('should let holders attenuate tokens but not widen them', async () => {
+    const { token } = await owner.delegate(taskId, ['task:read', 'task:cancel'], 600);
+
+    const readOnly = await service.redeemCapability(await attenuateCapabilityToken(token, { actions: ['task:read', 'task:update'] }));
+    expect((await readOnly.getTask(taskId)).id).toBe(taskId);
+    await expect(readOnly.cancelTask(taskId)).rejects.toBeInstanceOf(ForbiddenError);
+    await expect(readOnly.sendMessage(createTestMessage('More', { taskId }))).rejects.toBeInstanceOf(ForbiddenError);
+
+    const shortLived = await service.redeemCapability(await attenuateCapabilityToken(token, { expiresAt: Date.now() + 50 }));
+    await wait(100);
+    await expect(shortLived.getTask(taskId)).rejects.toBeInstanceOf(UnauthorizedError);
+
+    const [root, , signature] = (await attenuateCapabilityToken(token, { actions: ['task:read'] })).split('.');
+    await expect(service.redeemCapability(`${root}.${signature}`)).rejects.toThrow(UnauthorizedError);
+  });
+
+  it('should cascade revocation to every delegated token', async () => {
+    const { token: first } = await owner.delegate(taskId, ['task:read', 'tool:approve'], 600);
+    const firstHolder = await service.redeemCapability(first);
+    const { token: second } = await firstHolder.delegate(taskId, ['task:read'], 600);
+    const secondHolder = await service.redeemCapability(second);
+    const attenuated = await attenuateCapabilityToken(second, { actions: ['task:read'] });
+
+    await expect(secondHolder.revokeCapability(first)).rejects.toBeInstanceOf(ForbiddenError);
+    await owner.revokeCapability(first);
+
+    await expect(firstHolder.getTask(taskId)).rejects.toBeInstanceOf(UnauthorizedError);
+    await expect(secondHolder.getTask(taskId)).rejects.toBeInstanceOf(UnauthorizedError);
+    await expect(service.redeemCapability(attenuated)).rejects.toThrow('Capability token has been revoked');
+  });
+
+  it('should let a delegate revoke only what it delegated', async () => {
+    const { token: first } = await owner.delegate(taskId, ['task:read'], 600);
+    const firstHolder = await service.redeemCapability(first);
+    const { token: second } = await firstHolder.delegate(taskId, ['task:read'], 600);
+
+    await firstHolder.revokeCapability(second);
+
+    await expect(service.redeemCapability(second)).rejects.toThrow(UnauthorizedError);
+    expect((await firstHolder.getTask(taskId)).id).toBe(taskId);
+  });
+
+  describe('over capnweb', () => {
+    let runtime: StandaloneServerRuntime;
+    let url: string;
+
+    beforeEach(async () => {
+      runtime = createStandaloneServer({ host: '127.0.0.1', port: 0, logger: pino({ level: 'silent' }) });
+      await new Promise<void>((resolve) => runtime.server.listen(0, '127.0.0.1', resolve));
+      url = `ws://127.0.0.1:${(runtime.server.address() as AddressInfo).port}${CAPNWEB_PATH}`;
+    });
+
+    afterEach(async () => {
+      runtime.wss.close();
+      await new Promise((resolve) => runtime.server.close(resolve));
+    });
+
+    it('should hand a task to another agent', async () => {
+      const alice = connectCapnweb(url);
+      const bob = connectCapnweb(url);
+      const token = await runtime.authService.generateJWT('alice', ['read', 'write']);
+      const aliceService = alice.api.authenticate({ type: 'bearer', token });
+      const task = (await aliceService.sendMessage(createTestMessage('Hand me off'))) as any;
+
+      const delegation = await aliceService.delegate(task.id, ['task:read'], 60);
+      const bobService = bob.api.redeemCapability(delegation.token);
+
+      expect((await bobService.getTask(task.id)).id).toBe(task.id);
+      await expect(withA2AErrors(bobService.cancelTask(task.id))).rejects.toBeInstanceOf(ForbiddenError);
+
+      await aliceService.revokeCapability(delegation.token);
+      await expect(withA2AErrors(bobService.getTask(task.id))).rejects.toBeInstanceOf(UnauthorizedError);
+
+      alice.close();
+      bob.close();
+    });
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Cap'n Web Session Tests
+ *
+ * Tests the capnweb RPC endpoint of the standalone server: pipelined
+ * authentication, streaming callbacks over the same socket, and disposal
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { AddressInfo } from 'net';
+import pino from 'pino';
+import { RpcTarget } from 'capnweb';
+import { createStandaloneServer, CAPNWEB_PATH, type StandaloneServerRuntime } from '../../src/server/standalone-server';
+import { connectCapnweb, withA2AErrors, type CapnwebConnection } from '../../src/client/capnweb-client';
+import { UnauthorizedError } from '../../src/shared/errors';
+import type { TaskStatusUpdateEvent, TaskArtifactUpdateEvent } from '../../src/shared/a2a.types';
+import { createTestMessage, waitFor } from '../utils';
+
+class RecordingCallback extends RpcTarget {
+  statusUpdates: TaskStatusUpdateEvent[] = [];
+  artifactUpdates: TaskArtifactUpdateEvent[] = [];
+
+  async onStatusUpdate(event: TaskStatusUpdateEvent): Promise<void> {
+    this.statusUpdates.push(event);
+  }
+
+  async onArtifactUpdate(event: TaskArtifactUpdateEvent): Promise<void> {
+    this.artifactUpdates.push(event);
+  }
+}
+
+describe('Cap\'n Web session', () => {
+  let runtime: StandaloneServerRuntime;
+  let connection: CapnwebConnection;
+  let token: string;
+
+  beforeEach(async () => {
+    runtime = createStandaloneServer({ host: '127.0.0.1', port: 0, logger: pino({ level: 'silent' }) });
+    await new Promise<void>((resolve) => runtime.server.listen(0, '127.0.0.1', resolve));
+    const { port } = runtime.server.address() as AddressInfo;
+    connection = connectCapnweb(`ws://127.0.0.1:${port}${CAPNWEB_PATH}`);
+    token = await runtime.authService.generateJWT('user-1', ['read', 'write']);
+  });
+
+  afterEach(async () => {
+    connection.close();
+    runtime.wss.close();
+    await new Promise((resolve) => runtime.server.close(resolve));
+  });
+
+  it('should serve the public agent card', async () => {
+    const card = await connection.api.getAgentCard();
+
+    expect(card.name).toBeDefined();
+  });
+
+  it('should pipeline calls on the authenticated capability', async () => {
+    const service = connection.api.authenticate({ type: 'bearer', token });
+    const card = await service.getAgentCard();
+
+    expect(card.name).toBeDefined();
+  });
+
+  it('should reject invalid credentials', async () => {
+    await expect(
+      withA2AErrors(connection.api.authenticate({ type: 'bearer', token: 'invalid' }))
+    ).rejects.toBeInstanceOf(UnauthorizedError);
+  });
+
+  it('should call back client-supplied callbacks over the socket', async () => {
+    const callback = new RecordingCallback();
+    const service = connection.api.authenticate({ type: 'bearer', token });
+    const stream = service.sendMessageStreaming(createTestMessage('Hello'), {}, callback);
+    const task = await stream.getTask();
+
+    await waitFor(() => callback.statusUpdates.length > 0);
+    expect(callback.statusUpdates[0].taskId).toBe(task.id);
+
+    await runtime.a2aService.getTaskManager().updateTaskStatus(task.id, 'completed');
+    await waitFor(() => callback.statusUpdates.some((event) => event.final));
+  });
+
+  it('should release the streaming task when its stub is disposed', async () => {
+    const callback = new RecordingCallback();
+    const service = connection.api.authenticate({ type: 'bearer', token });
+    const stream = service.sendMessageStreaming(createTestMessage('Hello'), {}, callback);
+    const task = await stream.getTask();
+    await waitFor(() => callback.statusUpdates.length > 0);
+
+    stream[Symbol.dispose]();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    await runtime.a2aService.getTaskManager().updateTaskStatus(task.id, 'completed');
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(callback.statusUpdates.some((event) => event.final)).toBe(false);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * JSON-RPC Binding Tests
+ *
+ * Tests the JSON-RPC 2.0 endpoint of the standalone server over HTTP POST
+ * and WebSocket
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { AddressInfo } from 'net';
+import pino from 'pino';
+import { WebSocket } from 'ws';
+import { createStandaloneServer, type StandaloneServerRuntime } from '../../src/server/standalone-server';
+import { createTestMessage, waitFor } from '../utils';
+
+describe('JSON-RPC binding', () => {
+  let runtime: StandaloneServerRuntime;
+  let baseUrl: string;
+  let token: string;
+
+  beforeEach(async () => {
+    runtime = createStandaloneServer({ host: '127.0.0.1', port: 0, logger: pino({ level: 'silent' }) });
+    await new Promise<void>((resolve) => runtime.server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(runtime.server.address() as AddressInfo).port}`;
+    token = await runtime.authService.generateJWT('user-1', ['read', 'write']);
+  });
+
+  afterEach(async () => {
+    runtime.wss.close();
+    await new Promise((resolve) => runtime.server.close(resolve));
+  });
+
+  const post = (body: unknown) =>
+    fetch(`${baseUrl}/`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+
+  it('should handle message/send and tasks/get over HTTP', async () => {
+    const sent = await (await post({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'message/send',
+      params: { message: createTestMessage('Hello') }
+    })).json();
+
+    expect(sent.id).toBe(1);
+    const fetched = await (await post({ jsonrpc: '2.0', id: 2, method: 'tasks/get', params: { id: sent.result.id } })).json();
+    expect(fetched.result.id).toBe(sent.result.id);
+  });
+
+  it('should return numeric error codes', async () => {
+    const response = await (await post({ jsonrpc: '2.0', id: 1, method: 'tasks/get', params: { id: 'missing' } })).json();
+
+    expect(response.error.code).toBe(-32001);
+  });
+
+  it('should respond 204 to notifications', async () => {
+    const response = await post({ jsonrpc: '2.0', method: 'message/send', params: { message: createTestMessage('Hi') } });
+
+    expect(response.status).toBe(204);
+  });
+
+  it('should stream message/stream over SSE', async () => {
+    const response = await post({ jsonrpc: '2.0', id: 'stream-1', method: 'message/stream', params: { message: createTestMessage('Hi') } });
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+
+    const events = (await response.text())
+      .split('\n\n')
+      .filter((block) => block.startsWith('data: '))
+      .map((block) => JSON.parse(block.slice(6)));
+
+    expect(events.every((event) => event.id === 'stream-1')).toBe(true);
+    expect(events[0].result.id).toBeDefined();
+    expect(events.at(-1).result.final).toBe(true);
+  });
+
+  it('should accept JSON-RPC over WebSocket with a bearer token', async () => {
+    const ws = new WebSocket(baseUrl.replace('http', 'ws'), { headers: { Authorization: `Bearer ${token}` } });
+    const messages: any[] = [];
+    ws.on('message', (data) => messages.push(JSON.parse(data.toString())));
+    await new Promise((resolve) => ws.on('open', resolve));
+
+    ws.send(JSON.stringify([
+      { jsonrpc: '2.0', id: 1, method: 'message/send', params: { message: createTestMessage('Hi') } },
+      { jsonrpc: '2.0', id: 2, method: 'tasks/unknown' }
+    ]));
+    await waitFor(() => messages.some(Array.isArray), { timeout: 2000 });
+
+    const batch = messages.find(Array.isArray);
+    expect(batch[0].result.id).toBeDefined();
+    expect(batch[1].error.code).toBe(-32601);
+    ws.close();
+  });
+
+  it('should stop serving a WebSocket once its bearer token is revoked', async () => {
+    token = await runtime.authService.generateJWT('user-1', ['read', 'write'], { tokenId: 'token-1' });
+    const ws = new WebSocket(baseUrl.replace('http', 'ws'), { headers: { Authorization: `Bearer ${token}` } });
+    const messages: any[] = [];
+    ws.on('message', (data) => messages.push(JSON.parse(data.toString())));
+    await new Promise((resolve) => ws.on('open', resolve));
+
+    ws.send(JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tasks/list', params: {} }));
+    await waitFor(() => messages.some((message) => message.id === 1), { timeout: 2000 });
+    runtime.authService.revokeToken('token-1');
+    ws.send(JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tasks/list', params: {} }));
+    await waitFor(() => messages.some((message) => message.id === 2), { timeout: 2000 });
+
+    expect(messages.find((message) => message.id === 1).result).toBeDefined();
+    expect(messages.find((message) => message.id === 2).error).toBeDefined();
+    ws.close();
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * OAuth 2.0 Tests
+ *
+ * Tests an agent calling another agent with client credentials: the token
+ * URL comes from the standalone server's agent card, and the server checks
+ * the opaque access token at the authorization server's introspection
+ * endpoint, mapping its scopes to permissions
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import pino from 'pino';
+import { createStandaloneServer, type StandaloneServerRuntime } from '../../src/server/standalone-server';
+import { OAuthIntrospector } from '../../src/server/oauth-introspection';
+import { A2AClient } from '../../src/client/a2a-client-http';
+import { ClientCredentialsTokenSource } from '../../src/client/oauth-client-credentials';
+import { UnauthorizedError } from '../../src/shared/errors';
+import { createTestMessage } from '../utils';
+
+/**
+ * Authorization server with one client, issuing opaque tokens
+ */
+function createAuthorizationServer() {
+  const tokens = new Map<string, { active: boolean; scope: string; anonymous?: boolean }>();
+  const calls = { token: 0, introspect: 0 };
+  const basic = `Basic ${Buffer.from('agent-b:secret-b').toString('base64')}`;
+
+  const server = createServer(async (req, res) => {
+    let body = '';
+    for await (const chunk of req) {
+      body += chunk;
+    }
+    const params = new URLSearchParams(body);
+    const send = (status: number, payload: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(payload));
+    };
+
+    if (req.url === '/token') {
+      calls.token++;
+      if (req.headers.authorization !== basic) {
+        return send(401, { error: 'invalid_client', error_description: 'Unknown client' });
+      }
+      const token = `opaque-${tokens.size + 1}`;
+      const scope = params.get('scope') ?? 'agent:read';
+      tokens.set(token, { active: true, scope });
+      return send(200, { access_token: token, token_type: 'Bearer', expires_in: 3600, scope });
+    }
+
+    if (req.url === '/introspect') {
+      calls.introspect++;
+      const token = tokens.get(params.get('token') ?? '');
+      if (!token?.active) {
+        return send(200, { active: false });
+      }
+      return send(200, {
+        active: true,
+        scope: token.scope,
+        ...(token.anonymous ? {} : { client_id: 'agent-b', sub: 'agent-b' }),
+        exp: Math.floor(Date.now() / 1000) + 3600
+      });
+    }
+
+    send(404, { error: 'not_found' });
+  });
+
+  return { server, tokens, calls };
+}
+
+describe('OAuth 2.0', () => {
+  let authorizationServer: ReturnType<typeof createAuthorizationServer>;
+  let runtime: StandaloneServerRuntime;
+  let baseUrl: string;
+  let issuerUrl: string;
+
+  beforeEach(async () => {
+    authorizationServer = createAuthorizationServer();
+    await new Promise<void>((resolve) => authorizationServer.server.listen(0, '127.0.0.1', resolve));
+    issuerUrl = `http://127.0.0.1:${(authorizationServer.server.address() as AddressInfo).port}`;
+
+    runtime = createStandaloneServer({
+      host: '127.0.0.1',
+      port: 0,
+      oauthIntrospectionUrl: `${issuerUrl}/introspect`,
+      oauthTokenUrl: `${issuerUrl}/token`,
+      oauthScopePermissions: { 'agent:read': ['read'], 'agent:write': ['read', 'write'] },
+      logger: pino({ level: 'silent' })
+    });
+    await new Promise<void>((resolve) => runtime.server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(runtime.server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    runtime.wss.close();
+    await new Promise((resolve) => runtime.server.close(resolve));
+    await new Promise((resolve) => authorizationServer.server.close(resolve));
+  });
+
+  it('should advertise the client credentials flow in the agent card', async () => {
+    const card = await new A2AClient({ url: baseUrl }).getAgentCard();
+
+    expect(card.securitySchemes.oauth2.oauth2SecurityScheme?.flows?.clientCredentials).toMatchObject({
+      tokenUrl: `${issuerUrl}/token`,
+      scopes: { 'agent:read': 'Grants read', 'agent:write': 'Grants read, write' }
+    });
+  });
+
+  it('should call an agent with a client credentials token', async () => {
+    const client = await A2AClient.withClientCredentials(
+      { url: baseUrl },
+      { clientId: 'agent-b', clientSecret: 'secret-b', scopes: ['agent:write'] }
+    );
+
+    const task = (await client.sendMessage(createTestMessage('Hello'))) as any;
+    const fetched = await client.getTask(task.id);
+
+    expect(fetched.id).toBe(task.id);
+    // One token for both calls, introspected once
+    expect(authorizationServer.calls).toEqual({ token: 1, introspect: 1 });
+  });
+
+  it('should grant only the permissions mapped from the token scopes', async () => {
+    const tokens = new ClientCredentialsTokenSource(`${issuerUrl}/token`, {
+      clientId: 'agent-b',
+      clientSecret: 'secret-b',
+      scopes: ['agent:read']
+    });
+
+    const result = await runtime.authService.authenticate({ type: 'bearer', token: await tokens.getToken() });
+
+    expect(result).toMatchObject({ authenticated: true, userId: 'agent-b', permissions: ['read'] });
+  });
+
+  it('should reject inactive tokens', async () => {
+    const token = await new ClientCredentialsTokenSource(`${issuerUrl}/token`, {
+      clientId: 'agent-b',
+      clientSecret: 'secret-b'
+    }).getToken();
+    authorizationServer.tokens.get(token)!.active = false;
+
+    const result = await runtime.authService.authenticate({ type: 'oauth2', token });
+
+    expect(result.authenticated).toBe(false);
+    expect((await runtime.authService.authenticate({ type: 'bearer', token: 'unknown' })).authenticated).toBe(false);
+  });
+
+  it('should grant nothing without a scope map', async () => {
+    const token = await new ClientCredentialsTokenSource(`${issuerUrl}/token`, {
+      clientId: 'agent-b',
+      clientSecret: 'secret-b'
+    }).getToken();
+    const introspector = new OAuthIntrospector({ introspectionUrl: `${issuerUrl}/introspect` });
+
+    expect(await introspector.introspect(token)).toMatchObject({
+      active: true,
+      scopes: ['agent:read'],
+      permissions: []
+    });
+  });
+
+  it('should reject active tokens without a subject', async () => {
+    const token = await new ClientCredentialsTokenSource(`${issuerUrl}/token`, {
+      clientId: 'agent-b',
+      clientSecret: 'secret-b'
+    }).getToken();
+    authorizationServer.tokens.get(token)!.anonymous = true;
+
+    const result = await runtime.authService.authenticate({ type: 'oauth2', token });
+
+    expect(result.authenticated).toBe(false);
+  });
+
+  it('should fail when the token endpoint rejects the client', async () => {
+    const tokens = new ClientCredentialsTokenSource(`${issuerUrl}/token`, {
+      clientId: 'agent-b',
+      clientSecret: 'wrong'
+    });
+
+    await expect(tokens.getToken()).rejects.toThrow(UnauthorizedError);
+    await expect(tokens.getToken()).rejects.toThrow('Unknown client');
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Push Notification Config Tests
+ *
+ * Tests the tasks/pushNotificationConfig set/get/list/delete methods on
+ * A2AService and their ownership checks on AuthenticatedA2AService
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { A2AService } from '../../src/server/a2a-service';
+import { ForbiddenError } from '../../src/shared/errors';
+import { createTestMessage } from '../utils';
+
+describe('push notification config methods', () => {
+  let service: A2AService;
+  let taskId: string;
+
+  beforeEach(async () => {
+    service = new A2AService();
+    const task = await service.getTaskManager().createTask(createTestMessage('Hello'), { userId: 'alice' });
+    taskId = task.id;
+  });
+
+  const setRequest = (configId: string, url = `https://hooks.example.com/${configId}`) => ({
+    parent: `tasks/${taskId}`,
+    configId,
+    config: {
+      name: '',
+      pushNotificationConfig: { id: '', url, token: 'secret', authentication: undefined }
+    }
+  });
+
+  it('should set and get a config by resource name', async () => {
+    const created = await service.setTaskPushNotificationConfig(setRequest('hook-1'));
+
+    expect(created.name).toBe(`tasks/${taskId}/pushNotificationConfigs/hook-1`);
+    expect(created.pushNotificationConfig?.id).toBe('hook-1');
+
+    const fetched = await service.getTaskPushNotificationConfig({ name: created.name });
+    expect(fetched).toEqual(created);
+  });
+
+  it('should rotate a webhook by setting the same config ID', async () => {
+    await service.setTaskPushNotificationConfig(setRequest('hook-1'));
+    await service.setTaskPushNotificationConfig(setRequest('hook-1', 'https://new.example.com/hook'));
+
+    const list = await service.listTaskPushNotificationConfig({
+      parent: `tasks/${taskId}`,
+      pageSize: 0,
+      pageToken: ''
+    });
+
+    expect(list.configs).toHaveLength(1);
+    expect(list.configs[0].pushNotificationConfig?.url).toBe('https://new.example.com/hook');
+    expect(list.nextPageToken).toBe('');
+  });
+
+  it('should delete a config', async () => {
+    const created = await service.setTaskPushNotificationConfig(setRequest('hook-1'));
+
+    await service.deleteTaskPushNotificationConfig({ name: created.name });
+
+    await expect(service.getTaskPushNotificationConfig({ name: created.name }))
+      .rejects.toMatchObject({ code: 'NOT_FOUND' });
+  });
+
+  it('should keep configs out of the task itself', async () => {
+    await service.setTaskPushNotificationConfig(setRequest('hook-1'));
+    const taskManager = service.getTaskManager();
+
+    const task = await taskManager.getTask(taskId);
+    const { tasks } = await taskManager.listTasks({});
+    const { task: snapshot } = await taskManager.getTaskSnapshot(taskId);
+
+    for (const copy of [task, tasks[0], snapshot]) {
+      expect(copy).not.toHaveProperty('pushNotificationConfigs');
+      expect(copy).not.toHaveProperty('eventSequence');
+      expect(JSON.stringify(copy)).not.toContain('secret');
+    }
+  });
+
+  it('should reject malformed names and webhook URLs', async () => {
+    await expect(service.getTaskPushNotificationConfig({ name: `tasks/${taskId}` }))
+      .rejects.toMatchObject({ code: 'INVALID_PARAMS' });
+    await expect(service.setTaskPushNotificationConfig(setRequest('hook-1', 'file:///etc/passwd')))
+      .rejects.toMatchObject({ code: 'INVALID_PARAMS' });
+  });
+
+  it('should enforce task ownership for authenticated users', async () => {
+    const alice = service.createAuthenticatedService('alice', ['read', 'write']);
+    const mallory = service.createAuthenticatedService('mallory', ['read', 'write']);
+
+    const created = await alice.setTaskPushNotificationConfig(setRequest('hook-1'));
+
+    await expect(mallory.getTaskPushNotificationConfig({ name: created.name })).rejects.toBeInstanceOf(ForbiddenError);
+    await expect(mallory.setTaskPushNotificationConfig(setRequest('hook-2'))).rejects.toBeInstanceOf(ForbiddenError);
+    await expect(mallory.deleteTaskPushNotificationConfig({ name: created.name })).rejects.toBeInstanceOf(ForbiddenError);
+    await expect(
+      mallory.listTaskPushNotificationConfig({ parent: `tasks/${taskId}`, pageSize: 0, pageToken: '' })
+    ).rejects.toBeInstanceOf(ForbiddenError);
+  });
+});
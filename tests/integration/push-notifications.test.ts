@@ -0,0 +1,272 @@
+/**
+ * Push Notification Delivery Tests
+ *
+ * Tests webhook delivery against a local HTTP receiver: payloads, auth
+ * headers, ordering, retries with backoff, dead-lettering and the refusal of
+ * private addresses
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, type IncomingHttpHeaders, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { TaskManager } from '../../src/server/task-manager';
+import {
+  PushNotificationSender,
+  authorizationHeader,
+  isPrivateHost
+} from '../../src/server/push/push-notification-sender';
+import { createTestMessage } from '../utils';
+
+interface ReceivedRequest {
+  headers: IncomingHttpHeaders;
+  body: any;
+}
+
+describe('PushNotificationSender', () => {
+  let server: Server;
+  let baseUrl: string;
+  let received: ReceivedRequest[];
+  let responses: number[];
+  let taskManager: TaskManager;
+  let sender: PushNotificationSender;
+
+  beforeEach(async () => {
+    received = [];
+    responses = [];
+
+    server = createServer((req, res) => {
+      let data = '';
+      req.on('data', (chunk) => (data += chunk));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body: JSON.parse(data) });
+        res.writeHead(responses.shift() ?? 200);
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    taskManager = new TaskManager();
+    sender = new PushNotificationSender(taskManager, {
+      initialBackoffMs: 5,
+      maxAttempts: 3,
+      allowPrivateNetworks: true
+    });
+    sender.start();
+  });
+
+  afterEach(async () => {
+    sender.stop();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  const pushConfig = (overrides: Record<string, any> = {}) => ({
+    id: 'config-1',
+    url: `${baseUrl}/webhook`,
+    token: 'task-token',
+    authentication: undefined,
+    ...overrides
+  });
+
+  it('should POST status updates in order to the configured URL', async () => {
+    const task = await taskManager.createTask(createTestMessage('Hello'), {
+      notificationConfig: pushConfig()
+    });
+    await taskManager.updateTaskStatus(task.id, 'completed');
+    await sender.flush();
+
+    const states = received.map((r) => r.body.statusUpdate.status.state);
+    expect(states).toEqual(['submitted', 'working', 'completed']);
+    expect(received.at(-1)!.body.statusUpdate).toMatchObject({
+      taskId: task.id,
+      contextId: task.contextId,
+      final: true
+    });
+    expect(received.at(-1)!.headers['x-a2a-notification-token']).toBe('task-token');
+
+    const status = sender.getDeliveryStatus(task.id, 'config-1')!;
+    expect(status.delivered).toBe(received.length);
+    expect(status.failed).toBe(0);
+    expect(status.pending).toBe(0);
+    expect(status.lastStatusCode).toBe(200);
+  });
+
+  it('should send artifact updates', async () => {
+    const task = await taskManager.createTask(createTestMessage('Hello'), {
+      notificationConfig: pushConfig()
+    });
+    await taskManager.addArtifact(task.id, { artifactId: 'a1', parts: [] } as any);
+    await sender.flush();
+
+    expect(received.at(-1)!.body.artifactUpdate.artifact.artifactId).toBe('a1');
+  });
+
+  it('should send credentials from AuthenticationInfo', async () => {
+    const task = await taskManager.createTask(createTestMessage('Hello'), {
+      notificationConfig: pushConfig({ authentication: { schemes: ['Bearer'], credentials: 'secret' } })
+    });
+    await sender.flush();
+
+    expect(received.length).toBeGreaterThan(0);
+    expect(received[0].headers.authorization).toBe('Bearer secret');
+    expect(sender.listDeliveryStatus(task.id)).toHaveLength(1);
+  });
+
+  it('should retry server errors with backoff', async () => {
+    const task = await taskManager.createTask(createTestMessage('Hello'), {
+      notificationConfig: pushConfig()
+    });
+    await sender.flush();
+    received = [];
+    responses = [503, 500];
+
+    await taskManager.updateTaskStatus(task.id, 'completed');
+    await sender.flush();
+
+    expect(received).toHaveLength(3);
+    expect(sender.getDeadLetters()).toHaveLength(0);
+    expect(sender.getDeliveryStatus(task.id, 'config-1')!.lastError).toBeUndefined();
+  });
+
+  it('should dead-letter deliveries once retries are exhausted', async () => {
+    const task = await taskManager.createTask(createTestMessage('Hello'), {
+      notificationConfig: pushConfig()
+    });
+    await sender.flush();
+    responses = [500, 500, 500];
+
+    const deadLetters: any[] = [];
+    sender.on('push:deadLetter', (letter) => deadLetters.push(letter));
+
+    await taskManager.updateTaskStatus(task.id, 'failed');
+    await sender.flush();
+
+    expect(deadLetters).toHaveLength(1);
+    expect(sender.getDeadLetters(task.id)).toEqual(deadLetters);
+    expect(deadLetters[0]).toMatchObject({ taskId: task.id, configId: 'config-1', attempts: 3 });
+    expect(deadLetters[0].payload.statusUpdate.status.state).toBe('failed');
+
+    const status = sender.getDeliveryStatus(task.id, 'config-1')!;
+    expect(status.failed).toBe(1);
+    expect(status.lastStatusCode).toBe(500);
+  });
+
+  it('should not retry client errors', async () => {
+    responses = [404, 404, 404, 404];
+    const task = await taskManager.createTask(createTestMessage('Hello'), {
+      notificationConfig: pushConfig()
+    });
+    await sender.flush();
+
+    const letters = sender.getDeadLetters(task.id);
+    expect(letters.length).toBeGreaterThan(0);
+    expect(letters.every((letter) => letter.attempts === 1)).toBe(true);
+  });
+
+  it('should deliver to webhooks added after the task was created', async () => {
+    const task = await taskManager.createTask(createTestMessage('Hello'));
+    await taskManager.setPushNotificationConfig(task.id, pushConfig({ id: 'late' }));
+
+    await taskManager.updateTaskStatus(task.id, 'completed');
+    await sender.flush();
+
+    expect(received).toHaveLength(1);
+    expect(sender.getDeliveryStatus(task.id, 'late')!.delivered).toBe(1);
+  });
+
+  it('should refuse webhooks on private addresses', async () => {
+    sender.stop();
+    sender = new PushNotificationSender(taskManager, { initialBackoffMs: 5, maxAttempts: 3 });
+    sender.start();
+
+    const task = await taskManager.createTask(createTestMessage('Hello'), {
+      notificationConfig: pushConfig()
+    });
+    await sender.flush();
+
+    expect(received).toHaveLength(0);
+    const letters = sender.getDeadLetters(task.id);
+    expect(letters.length).toBeGreaterThan(0);
+    expect(letters[0].attempts).toBe(1);
+    expect(letters[0].error).toContain('private address');
+  });
+
+  it('should not follow redirects', async () => {
+    const requests: RequestInit[] = [];
+    const redirectingFetch = (async (_url: URL, init: RequestInit) => {
+      requests.push(init);
+      return new Response(null, { status: 302, headers: { Location: 'http://169.254.169.254/latest' } });
+    }) as unknown as typeof fetch;
+    sender.stop();
+    sender = new PushNotificationSender(taskManager, { initialBackoffMs: 5, maxAttempts: 3, fetch: redirectingFetch });
+    sender.start();
+
+    const task = await taskManager.createTask(createTestMessage('Hello'), {
+      notificationConfig: pushConfig({ url: 'https://example.com/webhook' })
+    });
+    await sender.flush();
+
+    expect(requests.every((init) => init.redirect === 'manual')).toBe(true);
+    const letters = sender.getDeadLetters(task.id);
+    expect(letters.length).toBeGreaterThan(0);
+    expect(letters.every((letter) => letter.attempts === 1)).toBe(true);
+    expect(letters[0].error).toContain('redirected');
+  });
+
+  it('should drop the oldest idle delivery statuses', async () => {
+    sender.stop();
+    sender = new PushNotificationSender(taskManager, { maxStatuses: 2, allowPrivateNetworks: true });
+    sender.start();
+
+    const tasks = [];
+    for (let i = 0; i < 3; i++) {
+      tasks.push(await taskManager.createTask(createTestMessage('Hello'), { notificationConfig: pushConfig() }));
+      await sender.flush();
+    }
+
+    expect(sender.getDeliveryStatus(tasks[0].id, 'config-1')).toBeUndefined();
+    expect(sender.getDeliveryStatus(tasks[1].id, 'config-1')!.delivered).toBeGreaterThan(0);
+    expect(sender.getDeliveryStatus(tasks[2].id, 'config-1')!.delivered).toBeGreaterThan(0);
+  });
+
+  it('should ignore tasks without push configs', async () => {
+    await taskManager.createTask(createTestMessage('Hello'));
+    await sender.flush();
+
+    expect(received).toHaveLength(0);
+  });
+});
+
+describe('push notification helpers', () => {
+  it('should build Authorization headers', () => {
+    expect(authorizationHeader(undefined)).toBeUndefined();
+    expect(authorizationHeader({ schemes: ['Bearer'], credentials: 'tok' })).toBe('Bearer tok');
+    expect(authorizationHeader({ schemes: ['Basic'], credentials: 'user:pass' })).toBe(
+      `Basic ${Buffer.from('user:pass').toString('base64')}`
+    );
+    expect(authorizationHeader({ schemes: ['Digest'], credentials: 'x' })).toBeUndefined();
+  });
+
+  it('should recognize private hosts', () => {
+    const hostname = (url: string) => new URL(url).hostname;
+
+    for (const url of [
+      'http://localhost/',
+      'http://127.0.0.1/',
+      'http://0x7f.1/',
+      'http://10.1.2.3/',
+      'http://172.16.0.1/',
+      'http://192.168.1.1/',
+      'http://169.254.169.254/',
+      'http://[::1]/',
+      'http://[::ffff:127.0.0.1]/',
+      'http://[fd00::1]/',
+      'http://[fe80::1]/'
+    ]) {
+      expect(isPrivateHost(hostname(url)), url).toBe(true);
+    }
+    for (const url of ['https://example.com/', 'http://8.8.8.8/', 'http://172.32.0.1/', 'http://[2001:db8::1]/']) {
+      expect(isPrivateHost(hostname(url)), url).toBe(false);
+    }
+  });
+});
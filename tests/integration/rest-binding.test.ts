@@ -0,0 +1,125 @@
+/**
+ * REST Binding Tests
+ *
+ * Tests the HTTP+JSON binding of the standalone server through the HTTP
+ * client, which builds its requests from the same route table
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { AddressInfo } from 'net';
+import pino from 'pino';
+import { createStandaloneServer, type StandaloneServerRuntime } from '../../src/server/standalone-server';
+import { A2AClient } from '../../src/client/a2a-client-http';
+import { TaskNotFoundError } from '../../src/shared/errors';
+import { createTestMessage } from '../utils';
+
+describe('REST binding', () => {
+  let runtime: StandaloneServerRuntime;
+  let baseUrl: string;
+  let client: A2AClient;
+
+  beforeEach(async () => {
+    runtime = createStandaloneServer({ host: '127.0.0.1', port: 0, logger: pino({ level: 'silent' }) });
+    await new Promise<void>((resolve) => runtime.server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(runtime.server.address() as AddressInfo).port}`;
+    const authToken = await runtime.authService.generateJWT('user-1', ['read', 'write']);
+    client = new A2AClient({ url: baseUrl, authToken });
+  });
+
+  afterEach(async () => {
+    runtime.wss.close();
+    await new Promise((resolve) => runtime.server.close(resolve));
+  });
+
+  it('should send a message and get the task', async () => {
+    const task = (await client.sendMessage(createTestMessage('Hello'))) as any;
+    expect(task.id).toBeDefined();
+
+    const fetched = await client.getTask(task.id, 1);
+    expect(fetched.id).toBe(task.id);
+    expect(fetched.history).toHaveLength(1);
+  });
+
+  it('should list and cancel tasks', async () => {
+    const taskManager = runtime.a2aService.getTaskManager();
+    const task = await taskManager.createTask(createTestMessage('Hello'), { userId: 'user-1' });
+    await taskManager.updateTaskStatus(task.id, 'input-required');
+
+    const list = await client.listTasks();
+    expect(list.tasks.map((t) => t.id)).toContain(task.id);
+
+    const cancelled = (await client.cancelTask(task.id)) as any;
+    expect(cancelled.status.state).toBe('canceled');
+  });
+
+  it('should manage push notification configs', async () => {
+    const task = await runtime.a2aService.getTaskManager().createTask(createTestMessage('Hello'), { userId: 'user-1' });
+    const headers = {
+      Authorization: `Bearer ${await runtime.authService.generateJWT('user-1', ['write'])}`,
+      'Content-Type': 'application/json'
+    };
+
+    const created = await fetch(`${baseUrl}/v1/tasks/${task.id}/pushNotificationConfigs?configId=c1`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ pushNotificationConfig: { id: 'c1', url: 'https://example.com/hook' } })
+    });
+    expect(created.status).toBe(200);
+
+    const fetched = await fetch(`${baseUrl}/v1/tasks/${task.id}/pushNotificationConfigs/c1`, { headers });
+    expect((await fetched.json()).pushNotificationConfig.url).toBe('https://example.com/hook');
+
+    const deleted = await fetch(`${baseUrl}/v1/tasks/${task.id}/pushNotificationConfigs/c1`, {
+      method: 'DELETE',
+      headers
+    });
+    expect(deleted.status).toBe(200);
+
+    const missing = await fetch(`${baseUrl}/v1/tasks/${task.id}/pushNotificationConfigs/c1`, { headers });
+    expect(missing.status).toBe(404);
+  });
+
+  it('should honour boolean query parameters', async () => {
+    const taskManager = runtime.a2aService.getTaskManager();
+    const task = await taskManager.createTask(createTestMessage('Hello'), { userId: 'user-1' });
+    await taskManager.addArtifact(task.id, { artifactId: 'a1', parts: [] } as any);
+    const headers = { Authorization: `Bearer ${await runtime.authService.generateJWT('user-1', ['read'])}` };
+
+    const withArtifacts = await (await fetch(`${baseUrl}/v1/tasks?includeArtifacts=true`, { headers })).json();
+    const withoutArtifacts = await (await fetch(`${baseUrl}/v1/tasks?includeArtifacts=false`, { headers })).json();
+    const invalid = await fetch(`${baseUrl}/v1/tasks?includeArtifacts=no`, { headers });
+
+    expect(withArtifacts.tasks[0].artifacts).toHaveLength(1);
+    expect(withoutArtifacts.tasks[0].artifacts ?? []).toEqual([]);
+    expect(invalid.status).toBe(400);
+  });
+
+  it('should decode path segments once', async () => {
+    const task = await runtime.a2aService.getTaskManager().createTask(createTestMessage('Hello'), { userId: 'user-1' });
+    const headers = {
+      Authorization: `Bearer ${await runtime.authService.generateJWT('user-1', ['read', 'write'])}`,
+      'Content-Type': 'application/json'
+    };
+
+    await fetch(`${baseUrl}/v1/tasks/${task.id}/pushNotificationConfigs?configId=c%2541`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ pushNotificationConfig: { id: 'c%41', url: 'https://example.com/hook' } })
+    });
+    const fetched = await fetch(`${baseUrl}/v1/tasks/${task.id}/pushNotificationConfigs/c%2541`, { headers });
+    expect((await fetched.json()).pushNotificationConfig.id).toBe('c%41');
+
+    const missing = await fetch(`${baseUrl}/v1/tasks/%25ZZ`, { headers });
+    expect(missing.status).toBe(404);
+  });
+
+  it('should map errors to HTTP status codes', async () => {
+    await expect(client.getTask('missing')).rejects.toBeInstanceOf(TaskNotFoundError);
+
+    const unauthenticated = await fetch(`${baseUrl}/v1/tasks`);
+    expect(unauthenticated.status).toBe(401);
+
+    const malformed = await fetch(`${baseUrl}/v1/tasks/%E0%A4%A`);
+    expect(malformed.status).toBe(400);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * sendMessage Configuration Tests
+ *
+ * Tests SendMessageConfiguration handling: blocking, historyLength and
+ * acceptedOutputModes, and the owner recorded on new tasks
+ */
+
+import { describe, it, expect } from 'vitest';
+import { A2AService } from '../../src/server/a2a-service';
+import { EchoAgentExecutor } from '../../src/server/executors/echo-agent-executor';
+import { createTestMessage } from '../utils';
+
+const config = (overrides: Record<string, any> = {}) => ({
+  acceptedOutputModes: [],
+  pushNotificationConfig: undefined,
+  blocking: false,
+  ...overrides
+});
+
+describe('sendMessage configuration', () => {
+  it('should return immediately when not blocking', async () => {
+    const service = new A2AService({ executor: new EchoAgentExecutor({ delayMs: 50 }) });
+
+    const task = (await service.sendMessage('conn-1', createTestMessage('Hi'), config())) as any;
+
+    expect(task.status.state).toBe('working');
+  });
+
+  it('should wait for a terminal state when blocking', async () => {
+    const service = new A2AService({ executor: new EchoAgentExecutor({ delayMs: 50 }) });
+
+    const task = (await service.sendMessage('conn-1', createTestMessage('Hi'), config({ blocking: true }))) as any;
+
+    expect(task.status.state).toBe(3); // TASK_STATE_COMPLETED
+    expect(task.status.message.parts[0].text).toBe('Echo: Hi');
+  });
+
+  it('should return on an interrupted state when blocking', async () => {
+    const service = new A2AService({
+      executor: {
+        execute: async ({ eventBus, signal }) => {
+          await eventBus.publishStatus(6 as any); // TASK_STATE_INPUT_REQUIRED
+          await new Promise((resolve) => signal.addEventListener('abort', resolve));
+        }
+      }
+    });
+
+    const task = (await service.sendMessage('conn-1', createTestMessage('Hi'), config({ blocking: true }))) as any;
+
+    expect(task.status.state).toBe(6);
+  });
+
+  it('should return the current task when the blocking deadline passes', async () => {
+    const service = new A2AService({
+      executor: new EchoAgentExecutor({ delayMs: 1000 }),
+      blockingTimeoutMs: 50
+    });
+
+    const start = Date.now();
+    const task = (await service.sendMessage('conn-1', createTestMessage('Hi'), config({ blocking: true }))) as any;
+
+    expect(Date.now() - start).toBeLessThan(500);
+    expect(task.status.state).toBe('working');
+  });
+
+  it('should trim the returned history to historyLength', async () => {
+    const service = new A2AService({ executor: new EchoAgentExecutor({ delayMs: 10 }) });
+
+    const task = (await service.sendMessage(
+      'conn-1',
+      createTestMessage('Hi'),
+      config({ blocking: true, historyLength: 1 })
+    )) as any;
+
+    expect(task.history).toHaveLength(1);
+    expect(task.history[0].parts[0].text).toBe('Echo: Hi');
+
+    const empty = (await service.sendMessage(
+      'conn-1',
+      createTestMessage('Again'),
+      config({ historyLength: 0 })
+    )) as any;
+    expect(empty.history).toEqual([]);
+  });
+
+  it('should reject when no accepted output mode is supported', async () => {
+    const service = new A2AService({ outputModes: ['text/plain'] });
+
+    await expect(
+      service.sendMessage('conn-1', createTestMessage('Hi'), config({ acceptedOutputModes: ['image/png'] }))
+    ).rejects.toMatchObject({ code: 'CONTENT_TYPE_NOT_SUPPORTED' });
+
+    expect(service.getTaskManager().getTaskCount()).toBe(0);
+  });
+
+  it('should advertise the configured output modes in the agent card', () => {
+    const service = new A2AService({ outputModes: ['text/plain', 'application/json'] });
+
+    expect(service.getAgentCard().defaultOutputModes).toEqual(['text/plain', 'application/json']);
+  });
+
+  it('should not restart a task that is already working', async () => {
+    const service = new A2AService({
+      executor: {
+        execute: async ({ signal }) => {
+          await new Promise((resolve) => signal.addEventListener('abort', resolve));
+        }
+      }
+    });
+    const task = (await service.sendMessage('conn-1', createTestMessage('Hi'), config())) as any;
+    const before = await service.getTaskManager().getStateTransitions(task.id);
+
+    await service.sendMessage('conn-1', { ...createTestMessage('More'), taskId: task.id }, config());
+
+    expect(await service.getTaskManager().getStateTransitions(task.id)).toEqual(before);
+  });
+
+  it('should record the sender as the owner of new tasks', async () => {
+    const service = new A2AService();
+    const alice = service.createAuthenticatedService('alice', ['read', 'write']);
+    const bob = service.createAuthenticatedService('bob', ['read', 'write']);
+
+    const task = (await alice.sendMessage(createTestMessage('Hi'))) as any;
+    const streamed = await (await alice.sendMessageStreaming(createTestMessage('Hi'))).getTask();
+
+    expect(task.metadata.userId).toBe('alice');
+    expect((await alice.listTasks({} as any)).tasks.map((t) => t.id).sort()).toEqual([task.id, streamed.id].sort());
+    expect((await bob.listTasks({} as any)).tasks).toEqual([]);
+  });
+});
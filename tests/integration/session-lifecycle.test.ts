@@ -0,0 +1,165 @@
+/**
+ * Session Lifecycle Tests
+ *
+ * Tests refresh, logout and admin revocation of `/a2a/auth` sessions on the
+ * standalone server, binding sessions to the client that created them, and
+ * closing the WebSockets of revoked sessions
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { AddressInfo } from 'net';
+import pino from 'pino';
+import { WebSocket } from 'ws';
+import { createStandaloneServer, CAPNWEB_PATH, type StandaloneServerRuntime } from '../../src/server/standalone-server';
+import { PublicA2AService } from '../../src/server/capnweb-session';
+import { connectCapnweb, withA2AErrors } from '../../src/client/capnweb-client';
+import { createTestMessage, wait, waitFor } from '../utils';
+
+describe('Session lifecycle', () => {
+  let runtime: StandaloneServerRuntime;
+  let baseUrl: string;
+  let token: string;
+
+  const start = async (sessionBindToClient = false, sessionTimeout?: number) => {
+    runtime = createStandaloneServer({
+      host: '127.0.0.1',
+      port: 0,
+      sessionBindToClient,
+      sessionTimeout,
+      logger: pino({ level: 'silent' })
+    });
+    await new Promise<void>((resolve) => runtime.server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(runtime.server.address() as AddressInfo).port}`;
+    token = await runtime.authService.generateJWT('user-1', ['read', 'write']);
+  };
+
+  beforeEach(async () => {
+    await start();
+  });
+
+  afterEach(async () => {
+    runtime.wss.close();
+    await new Promise((resolve) => runtime.server.close(resolve));
+  });
+
+  const post = async (path: string, body: unknown, headers: Record<string, string> = {}) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body)
+    });
+    return { status: response.status, body: await response.json() };
+  };
+
+  const createSession = async (headers: Record<string, string> = {}) =>
+    (await post('/a2a/auth', {}, { Authorization: `Bearer ${token}`, ...headers })).body.sessionId as string;
+
+  /** Legacy WebSocket protocol, authenticated with a session */
+  const connect = async (sessionId: string) => {
+    const ws = new WebSocket(baseUrl.replace('http', 'ws'));
+    const messages: any[] = [];
+    ws.on('message', (data) => messages.push(JSON.parse(data.toString())));
+    await new Promise((resolve) => ws.on('open', resolve));
+
+    ws.send(JSON.stringify({ id: 'auth', method: 'authenticate', params: { sessionId } }));
+    await waitFor(() => messages.some((message) => message.id === 'auth'), { timeout: 2000 });
+    return { ws, messages };
+  };
+
+  it('should refresh a session', async () => {
+    const sessionId = await createSession();
+
+    const refreshed = await post('/a2a/auth/refresh', { sessionId });
+
+    expect(refreshed.status).toBe(200);
+    expect(refreshed.body).toMatchObject({ sessionId, expiresIn: 3600 });
+    expect((await post('/a2a/auth/refresh', { sessionId: 'sess_unknown' })).status).toBe(401);
+  });
+
+  it('should close the WebSockets of a session on logout', async () => {
+    const sessionId = await createSession();
+    const { ws, messages } = await connect(sessionId);
+    expect(messages.find((message) => message.id === 'auth').result.authenticated).toBe(true);
+    const closed = new Promise<number>((resolve) => ws.on('close', resolve));
+
+    expect((await post('/a2a/auth/logout', { sessionId })).body).toEqual({ revoked: true });
+
+    expect(await closed).toBe(1008);
+    expect(await runtime.sessionManager.validateSession(sessionId)).toBeNull();
+  });
+
+  it('should stop serving JSON-RPC on a WebSocket once its session expires', async () => {
+    runtime.wss.close();
+    await new Promise((resolve) => runtime.server.close(resolve));
+    await start(false, 0.3);
+
+    const { ws, messages } = await connect(await createSession());
+    const call = async (id: string) => {
+      ws.send(JSON.stringify({ jsonrpc: '2.0', id, method: 'message/send', params: { message: createTestMessage('Hi') } }));
+      await waitFor(() => messages.some((message) => message.id === id), { timeout: 2000 });
+      return messages.find((message) => message.id === id);
+    };
+
+    expect((await call('before')).result).toBeDefined();
+
+    await wait(400);
+
+    expect((await call('after')).error).toBeDefined();
+    ws.close();
+  });
+
+  it('should dispose capnweb capabilities of a revoked session', async () => {
+    const sessionId = await createSession();
+    const connection = connectCapnweb(`${baseUrl.replace('http', 'ws')}${CAPNWEB_PATH}`);
+    const service = connection.api.authenticateSession(sessionId);
+    expect((await service.getAgentCard()).name).toBeDefined();
+
+    await runtime.sessionManager.revokeSession(sessionId);
+
+    // The socket is closed as well, so the call fails either way
+    await expect(withA2AErrors(service.getAgentCard())).rejects.toThrow();
+    connection.close();
+  });
+
+  it('should not pile up revocation listeners on a long-lived capnweb connection', async () => {
+    let revocations = 0;
+    const service = new PublicA2AService(runtime.a2aService, runtime.sessionManager, {
+      onSessionRevoked: () => revocations++
+    });
+    const listeners = runtime.sessionManager.listenerCount('session:revoked');
+
+    for (let i = 1; i <= 3; i++) {
+      const sessionId = await createSession();
+      await service.authenticateSession(sessionId);
+      await runtime.sessionManager.revokeSession(sessionId);
+      expect(revocations).toBe(i);
+    }
+
+    expect(runtime.sessionManager.listenerCount('session:revoked')).toBe(listeners);
+  });
+
+  it('should let admins revoke every session of a user', async () => {
+    await createSession();
+    await createSession();
+    const adminToken = await runtime.authService.generateJWT('admin-1', ['admin']);
+
+    const forbidden = await post('/a2a/auth/revoke', { userId: 'user-1' }, { Authorization: `Bearer ${token}` });
+    const revoked = await post('/a2a/auth/revoke', { userId: 'user-1' }, { Authorization: `Bearer ${adminToken}` });
+
+    expect(forbidden.status).toBe(403);
+    expect(revoked.body).toEqual({ userId: 'user-1', revoked: 2 });
+    expect(await runtime.sessionManager.getUserSessions('user-1')).toEqual([]);
+  });
+
+  it('should reject a bound session presented by another client', async () => {
+    runtime.wss.close();
+    await new Promise((resolve) => runtime.server.close(resolve));
+    await start(true);
+
+    const sessionId = await createSession({ 'User-Agent': 'browser-a' });
+
+    expect((await post('/a2a/auth/refresh', { sessionId }, { 'User-Agent': 'browser-a' })).status).toBe(200);
+    expect((await post('/a2a/auth/refresh', { sessionId }, { 'User-Agent': 'browser-b' })).status).toBe(401);
+    expect(await runtime.sessionManager.validateSession(sessionId, { ipAddress: '10.0.0.1', userAgent: 'browser-a' })).toBeNull();
+  });
+});
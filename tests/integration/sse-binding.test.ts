@@ -0,0 +1,137 @@
+/**
+ * SSE Binding Tests
+ *
+ * Tests the Server-Sent Events endpoints of the standalone server:
+ * StreamResponse framing, authentication and Last-Event-ID resumption
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { AddressInfo } from 'net';
+import pino from 'pino';
+import { createStandaloneServer, type StandaloneServerRuntime } from '../../src/server/standalone-server';
+import { createTestMessage } from '../utils';
+
+interface SseFrame {
+  id?: string;
+  data: any;
+}
+
+/**
+ * Read an SSE response to the end and parse its frames
+ */
+async function readFrames(response: Response): Promise<SseFrame[]> {
+  const text = await response.text();
+  return text
+    .split('\n\n')
+    .filter((block) => block.includes('data: '))
+    .map((block) => {
+      const lines = block.split('\n');
+      const id = lines.find((line) => line.startsWith('id: '))?.slice(4);
+      const data = lines.find((line) => line.startsWith('data: '))!.slice(6);
+      return { id, data: JSON.parse(data) };
+    });
+}
+
+describe('SSE binding', () => {
+  let runtime: StandaloneServerRuntime;
+  let baseUrl: string;
+  let token: string;
+
+  beforeEach(async () => {
+    runtime = createStandaloneServer({ host: '127.0.0.1', port: 0, logger: pino({ level: 'silent' }) });
+    await new Promise<void>((resolve) => runtime.server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(runtime.server.address() as AddressInfo).port}`;
+    token = await runtime.authService.generateJWT('user-1', ['read', 'write']);
+  });
+
+  afterEach(async () => {
+    runtime.wss.close();
+    await new Promise((resolve) => runtime.server.close(resolve));
+  });
+
+  const headers = (extra: Record<string, string> = {}) => ({
+    Authorization: `Bearer ${token}`,
+    'Content-Type': 'application/json',
+    ...extra
+  });
+
+  it('should stream the task and its updates for message:stream', async () => {
+    const response = await fetch(`${baseUrl}/message:stream`, {
+      method: 'POST',
+      headers: headers(),
+      body: JSON.stringify({ request: createTestMessage('Hello') })
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+
+    const frames = await readFrames(response);
+    expect(frames[0].data.task).toBeDefined();
+    expect(Number(frames[0].id)).toBeGreaterThan(0);
+
+    const last = frames.at(-1)!;
+    expect(last.data.statusUpdate.final).toBe(true);
+
+    const ids = frames.map((frame) => Number(frame.id));
+    expect(ids).toEqual([...ids].sort((a, b) => a - b));
+  });
+
+  it('should reject requests without a bearer token', async () => {
+    const response = await fetch(`${baseUrl}/message:stream`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ request: createTestMessage('Hello') })
+    });
+
+    expect(response.status).toBe(401);
+    expect((await response.json()).error).toBe('UNAUTHORIZED');
+  });
+
+  it('should resume a subscription after Last-Event-ID', async () => {
+    const taskManager = runtime.a2aService.getTaskManager();
+    const task = await taskManager.createTask(createTestMessage('Hello'), { userId: 'user-1' }); // events 1-2
+    await taskManager.updateTaskStatus(task.id, 'input-required'); // event 3
+
+    const response = await fetch(`${baseUrl}/tasks/${task.id}:subscribe`, {
+      headers: headers({ 'Last-Event-ID': '2' })
+    });
+    expect(response.status).toBe(200);
+
+    await taskManager.updateTaskStatus(task.id, 'working');
+    await taskManager.updateTaskStatus(task.id, 'completed');
+    const frames = await readFrames(response);
+
+    expect(frames.some((frame) => frame.data.task)).toBe(false);
+    expect(frames.map((frame) => frame.id)).toEqual(['3', '4', '5']);
+    expect(frames.at(-1)!.data.statusUpdate.final).toBe(true);
+  });
+
+  it('should end the stream of a task that finished while subscribing', async () => {
+    const taskManager = runtime.a2aService.getTaskManager();
+    const task = await taskManager.createTask(createTestMessage('Hello'), { userId: 'user-1' });
+    const subscribeToTask = runtime.a2aService.subscribeToTask.bind(runtime.a2aService);
+    runtime.a2aService.subscribeToTask = async (...args) => {
+      const streamingTask = await subscribeToTask(...args);
+      await taskManager.updateTaskStatus(task.id, 'completed');
+      return streamingTask;
+    };
+
+    const frames = await readFrames(await fetch(`${baseUrl}/tasks/${task.id}:subscribe`, { headers: headers() }));
+
+    expect(frames).toHaveLength(1);
+    expect(frames[0].data.task.status.state).toBe('completed');
+  });
+
+  it('should reject malformed escapes in the task ID', async () => {
+    const response = await fetch(`${baseUrl}/tasks/%E0%A4%A:subscribe`);
+    expect(response.status).toBe(400);
+
+    // The server is still serving requests
+    expect((await fetch(`${baseUrl}/tasks/missing:subscribe`, { headers: headers() })).status).toBe(404);
+  });
+
+  it('should return 404 for unknown tasks', async () => {
+    const response = await fetch(`${baseUrl}/tasks/missing:subscribe`, { headers: headers() });
+    expect(response.status).toBe(404);
+  });
+});
@@ -5,8 +5,12 @@
  */
 
 import { describe, it, expect, beforeEach } from 'vitest';
-import { A2AService } from '../../src/server/index';
+import { A2AService } from '../../src/server/a2a-service';
 import { TaskUpdateCallback } from '../../src/server/task-update-callback';
+import { TaskManager } from '../../src/server/task-manager';
+import { StreamingTask } from '../../src/server/streaming-task';
+import { canonicalState } from '../../src/server/task-state-machine';
+import { ForbiddenError } from '../../src/shared/errors';
 import { createTestMessage, wait } from '../utils';
 import type { StatusUpdateEvent, ArtifactUpdateEvent } from '@a2a-webcap/shared';
 
@@ -86,7 +90,7 @@ describe('Streaming Integration', () => {
       // Verify final event
       const finalEvents = callback.statusUpdates.filter(e => e.final === true);
       expect(finalEvents.length).toBe(1);
-      expect(finalEvents[0].status.state).toBe('completed');
+      expect(canonicalState(finalEvents[0].status.state)).toBe('completed');
     });
 
     it('should send updates to multiple callbacks', async () => {
@@ -124,7 +128,7 @@ describe('Streaming Integration', () => {
       // Should be able to get task state
       const task = await streamingTask.getTask();
       expect(task).toBeDefined();
-      expect(task.status.state).toBe('completed');
+      expect(canonicalState(task.status.state)).toBe('completed');
     });
 
     it('should handle task state transitions correctly', async () => {
@@ -144,7 +148,7 @@ describe('Streaming Integration', () => {
       // Final state should be last
       const finalEvent = callback.statusUpdates[callback.statusUpdates.length - 1];
       expect(finalEvent.final).toBe(true);
-      expect(['completed', 'failed', 'canceled']).toContain(finalEvent.status.state);
+      expect(['completed', 'failed', 'canceled']).toContain(canonicalState(finalEvent.status.state));
     });
 
     it('should propagate context and task IDs correctly', async () => {
@@ -188,7 +192,7 @@ describe('Streaming Integration', () => {
 
       // Get task again
       const task2 = await streamingTask.getTask();
-      expect(task2.status.state).toBe('completed');
+      expect(canonicalState(task2.status.state)).toBe('completed');
     });
 
     it('should handle callback errors gracefully', async () => {
@@ -216,7 +220,7 @@ describe('Streaming Integration', () => {
 
       // Task should still complete
       const task = await streamingTask.getTask();
-      expect(task.status.state).toBe('completed');
+      expect(canonicalState(task.status.state)).toBe('completed');
     });
 
     it('should support unsubscribing callbacks', async () => {
@@ -287,7 +291,7 @@ describe('Streaming Integration', () => {
       expect(states[0]).toBe('working');
 
       const lastState = states[states.length - 1];
-      expect(['completed', 'failed', 'canceled', 'rejected']).toContain(lastState);
+      expect(['completed', 'failed', 'canceled', 'rejected']).toContain(canonicalState(lastState));
     });
 
     it('should enforce Invariant 3: Exactly one final event', async () => {
@@ -327,4 +331,106 @@ describe('Streaming Integration', () => {
       expect(contextIds.size).toBe(1);
     });
   });
+
+  describe('subscribeToTask', () => {
+    it('should replay the current status before live updates', async () => {
+      const task = await service.getTaskManager().createTask(createTestMessage('Long running'));
+
+      const streamingTask = await service.subscribeToTask({ name: `tasks/${task.id}` }, callback);
+
+      expect(callback.statusUpdates[0].status.state).toBe('working');
+      expect(callback.statusUpdates[0].final).toBe(false);
+
+      await service.getTaskManager().updateTaskStatus(task.id, 'completed');
+
+      expect(canonicalState(callback.statusUpdates.at(-1)!.status.state)).toBe('completed');
+      expect(callback.statusUpdates.at(-1)!.final).toBe(true);
+      expect(streamingTask.isFinalState()).toBe(true);
+    });
+
+    it('should let a reconnecting client pick up a task waiting for input', async () => {
+      const task = await service.getTaskManager().createTask(createTestMessage('Needs approval'));
+      await service.getTaskManager().updateTaskStatus(task.id, 'input-required');
+
+      // First connection subscribes, then drops
+      const first = await service.subscribeToTask({ name: `tasks/${task.id}` }, new TestCallback());
+      first.dispose();
+
+      await service.subscribeToTask({ name: `tasks/${task.id}` }, callback);
+      await service.getTaskManager().updateTaskStatus(task.id, 'working');
+
+      const states = callback.statusUpdates.map(e => e.status.state);
+      expect(states).toEqual(['input-required', 'working']);
+    });
+
+    it('should reject subscriptions to terminal tasks', async () => {
+      const task = await service.getTaskManager().createTask(createTestMessage('Done'));
+      await service.getTaskManager().updateTaskStatus(task.id, 'completed');
+
+      await expect(service.subscribeToTask({ name: `tasks/${task.id}` }, callback))
+        .rejects.toMatchObject({ code: 'UNSUPPORTED_OPERATION' });
+    });
+
+    it('should reject unknown tasks and malformed names', async () => {
+      await expect(service.subscribeToTask({ name: 'tasks/missing' }, callback))
+        .rejects.toMatchObject({ code: 'TASK_NOT_FOUND' });
+      await expect(service.subscribeToTask({ name: 'missing' }, callback))
+        .rejects.toMatchObject({ code: 'INVALID_PARAMS' });
+    });
+
+    it('should only allow the task owner to subscribe', async () => {
+      const task = await service.getTaskManager().createTask(createTestMessage('Private'), { userId: 'alice' });
+      const mallory = service.createAuthenticatedService('mallory', ['read']);
+
+      await expect(mallory.subscribeToTask({ name: `tasks/${task.id}` }, callback)).rejects.toBeInstanceOf(ForbiddenError);
+    });
+  });
+
+  describe('event replay', () => {
+    it('should number every event with its sequence', async () => {
+      await service.sendMessageStreaming(createTestMessage('Sequenced'), undefined, callback);
+      await callback.waitForFinal();
+
+      const sequences = callback.statusUpdates.map(e => e.metadata.sequence);
+      expect(sequences).toEqual([...sequences].sort((a, b) => a - b));
+      expect(new Set(sequences).size).toBe(sequences.length);
+    });
+
+    it('should replay events missed while disconnected', async () => {
+      const taskManager = service.getTaskManager();
+      const task = await taskManager.createTask(createTestMessage('Replay me'));
+
+      const first = await service.subscribeToTask({ name: `tasks/${task.id}` }, callback);
+      const lastSeen = callback.statusUpdates.at(-1)!.metadata.sequence;
+      first.dispose();
+
+      // Progress made while the client was away
+      await taskManager.addArtifact(task.id, { artifactId: 'partial', parts: [] } as any);
+      await taskManager.updateTaskStatus(task.id, 'input-required');
+
+      const reconnected = new TestCallback();
+      await service.subscribeToTask({ name: `tasks/${task.id}` }, reconnected, lastSeen);
+      await taskManager.updateTaskStatus(task.id, 'working');
+
+      expect(reconnected.statusUpdates.map(e => e.metadata.sequence)).toEqual([lastSeen + 1, lastSeen + 2, lastSeen + 3]);
+      expect(reconnected.statusUpdates.map(e => e.status.state)).toEqual(['working', 'input-required', 'working']);
+      expect(reconnected.artifactUpdates.map(e => e.artifact.artifactId)).toEqual(['partial']);
+      expect(reconnected.statusUpdates.some(e => e.metadata.snapshot)).toBe(false);
+    });
+
+    it('should fall back to a snapshot when missed events were evicted', async () => {
+      const taskManager = new TaskManager(undefined, { eventLogSize: 2 });
+      const task = await taskManager.createTask(createTestMessage('Evicted'));
+      for (let i = 0; i < 3; i++) {
+        await taskManager.updateTaskStatus(task.id, 'input-required');
+        await taskManager.updateTaskStatus(task.id, 'working');
+      }
+
+      const streamingTask = new StreamingTask(task, taskManager);
+      await streamingTask.subscribe(callback, 1);
+
+      expect(callback.statusUpdates).toHaveLength(1);
+      expect(callback.statusUpdates[0].metadata).toEqual({ sequence: 8, snapshot: true });
+    });
+  });
 });
@@ -0,0 +1,252 @@
+/**
+ * Task Partition Durable Object Tests
+ *
+ * Tests the Workers deployment end to end against the Durable Object mocks:
+ * routing by task and context ID, task persistence in Durable Object
+ * storage, WebSocket streams that survive hibernation, and sessions kept
+ * in KV
+ */
+
+import { describe, it, expect, beforeAll, beforeEach } from 'vitest';
+import worker, { type Env } from '../../src/server/worker';
+import { TaskPartition, createSessionManager } from '../../src/server/task-partition';
+import { AuthenticationService } from '../../src/server/authentication-service';
+import { partitionOfTaskId } from '../../src/server/task-partition-routing';
+import {
+  MockDurableObjectNamespace,
+  MockKVNamespace,
+  MockWebSocket,
+  setupDurableObjectGlobals
+} from '../utils/durable-object-mocks';
+import { createTestMessage, waitFor } from '../utils';
+
+const JWT_SECRET = 'test-secret';
+// The worker keeps its session manager across requests, so every test
+// shares one KV namespace
+const sessions = new MockKVNamespace();
+
+describe('TaskPartition', () => {
+  let namespace: MockDurableObjectNamespace<TaskPartition>;
+  let env: Env;
+  let token: string;
+
+  beforeAll(() => {
+    setupDurableObjectGlobals();
+  });
+
+  beforeEach(async () => {
+    namespace = new MockDurableObjectNamespace((state) => new TaskPartition(state as any, env));
+    env = { JWT_SECRET, A2A_TASKS: namespace as any };
+    token = await new AuthenticationService({ jwtSecret: JWT_SECRET }).generateJWT('user-1', ['read', 'write']);
+  });
+
+  const post = async (body: unknown) => {
+    const response = await worker.fetch(
+      new Request('https://agent.example/', {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      }),
+      env,
+      {} as any
+    );
+    return response.json();
+  };
+
+  const connect = async (query: string) => {
+    const response = await worker.fetch(
+      new Request(`https://agent.example/?${query}`, {
+        headers: { Upgrade: 'websocket', Authorization: `Bearer ${token}` }
+      }),
+      env,
+      {} as any
+    );
+    return response as Response & { webSocket?: MockWebSocket };
+  };
+
+  it('should start a new context for messages without one', async () => {
+    const sent = await post({ jsonrpc: '2.0', id: 1, method: 'message/send', params: { message: createTestMessage('Hello') } });
+
+    const task = sent.result;
+    expect(task.contextId).toBeTruthy();
+    expect(partitionOfTaskId(task.id)).toBe(namespace.idFromName(task.contextId).toString());
+  });
+
+  it('should route tasks/get by task ID and tasks/list by context ID', async () => {
+    const { result: task } = await post({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'message/send',
+      params: { message: createTestMessage('Hello', { contextId: 'ctx-1' }) }
+    });
+
+    const fetched = await post({ jsonrpc: '2.0', id: 2, method: 'tasks/get', params: { id: task.id } });
+    const listed = await post({ jsonrpc: '2.0', id: 3, method: 'tasks/list', params: { contextId: 'ctx-1' } });
+
+    expect(fetched.result.id).toBe(task.id);
+    expect(listed.result.tasks).toBeInstanceOf(Array);
+  });
+
+  it('should keep tasks in Durable Object storage across evictions', async () => {
+    const { result: task } = await post({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'message/send',
+      params: { message: createTestMessage('Hello', { contextId: 'ctx-1' }) }
+    });
+    const id = namespace.idFromName('ctx-1');
+
+    expect(namespace.state(id)!.storage.data.has(`task:${task.id}`)).toBe(true);
+
+    namespace.evict(id);
+    const fetched = await post({ jsonrpc: '2.0', id: 2, method: 'tasks/get', params: { id: task.id } });
+    expect(fetched.result.id).toBe(task.id);
+  });
+
+  it('should report tasks that belong to no partition as not found', async () => {
+    const response = await post({ jsonrpc: '2.0', id: 1, method: 'tasks/get', params: { id: 'not-a-partition-task' } });
+
+    expect(response.error.data.code).toBe('TASK_NOT_FOUND');
+  });
+
+  it('should require a task or context ID to open a WebSocket', async () => {
+    const response = await connect('');
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe('INVALID_REQUEST');
+  });
+
+  it('should reject WebSocket upgrades without a valid token', async () => {
+    token = 'invalid';
+    const response = await connect('contextId=ctx-1');
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should open a WebSocket with a session from KV', async () => {
+    env.A2A_SESSIONS = sessions as any;
+    const auth = await worker.fetch(
+      new Request('https://agent.example/a2a/auth', { method: 'POST', headers: { Authorization: `Bearer ${token}` } }),
+      env,
+      {} as any
+    );
+    const { sessionId } = await auth.json();
+
+    token = 'invalid';
+    expect((await connect(`contextId=ctx-1&sessionId=${sessionId}`)).status).toBe(101);
+    expect((await connect('contextId=ctx-1&sessionId=sess_unknown')).status).toBe(401);
+
+    const [server] = namespace.state(namespace.idFromName('ctx-1'))!.getWebSockets();
+    expect(server.deserializeAttachment()).toMatchObject({ userId: 'user-1', permissions: ['read', 'write'] });
+  });
+
+  it('should cut off a session socket once its session is revoked', async () => {
+    env.A2A_SESSIONS = sessions as any;
+    const auth = await worker.fetch(
+      new Request('https://agent.example/a2a/auth', { method: 'POST', headers: { Authorization: `Bearer ${token}` } }),
+      env,
+      {} as any
+    );
+    const { sessionId } = await auth.json();
+    const response = await connect(`contextId=ctx-1&sessionId=${sessionId}`);
+    const id = namespace.idFromName('ctx-1');
+    const partition = await namespace.instance(id);
+    const [server] = namespace.state(id)!.getWebSockets();
+    const send = (body: unknown) => partition.webSocketMessage(server as any, JSON.stringify(body));
+
+    await send({ jsonrpc: '2.0', id: 1, method: 'tasks/list', params: {} });
+    await createSessionManager(env)!.revokeSession(sessionId);
+    await send({ jsonrpc: '2.0', id: 2, method: 'tasks/list', params: {} });
+
+    const [listed, refused] = response.webSocket!.messages();
+    expect(listed.result).toBeDefined();
+    expect(refused).toMatchObject({ id: 2, error: { data: { code: 'UNAUTHORIZED' } } });
+    expect(server.closed).toBe(true);
+  });
+
+  it('should stream over a hibernatable WebSocket', async () => {
+    const response = await connect('contextId=ctx-1');
+    expect(response.status).toBe(101);
+
+    const id = namespace.idFromName('ctx-1');
+    const partition = await namespace.instance(id);
+    const [server] = namespace.state(id)!.getWebSockets();
+
+    // The message is kept in the context the socket was opened for
+    await partition.webSocketMessage(
+      server as any,
+      JSON.stringify({ jsonrpc: '2.0', id: 's1', method: 'message/stream', params: { message: createTestMessage('Hi') } })
+    );
+
+    const client = response.webSocket!;
+    await waitFor(() => client.messages().some((message) => message.result?.final === true));
+    expect(client.messages()[0].result.contextId).toBe('ctx-1');
+  });
+
+  it('should restore a socket user after the partition is evicted', async () => {
+    const response = await connect('contextId=ctx-1');
+    const { result: task } = await post({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'message/send',
+      params: { message: createTestMessage('Hello', { contextId: 'ctx-1' }) }
+    });
+    const id = namespace.idFromName('ctx-1');
+    const [server] = namespace.state(id)!.getWebSockets();
+
+    namespace.evict(id);
+    const woken = await namespace.instance(id);
+    await woken.webSocketMessage(server as any, JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tasks/get', params: { id: task.id } }));
+
+    expect(response.webSocket!.messages()).toEqual([expect.objectContaining({ id: 2, result: expect.objectContaining({ id: task.id }) })]);
+  });
+
+  it('should keep the capabilities a socket gained across messages', async () => {
+    token = await new AuthenticationService({ jwtSecret: JWT_SECRET }).generateJWT('user-1', ['task:create']);
+    const response = await connect('contextId=ctx-1');
+    const id = namespace.idFromName('ctx-1');
+    const partition = await namespace.instance(id);
+    const [server] = namespace.state(id)!.getWebSockets();
+    const send = (body: unknown) => partition.webSocketMessage(server as any, JSON.stringify(body));
+
+    await send({ jsonrpc: '2.0', id: 1, method: 'message/send', params: { message: createTestMessage('Hi') } });
+    const task = response.webSocket!.messages()[0].result;
+    await send({ jsonrpc: '2.0', id: 2, method: 'tasks/get', params: { id: task.id } });
+
+    expect(response.webSocket!.messages()[1]).toMatchObject({ id: 2, result: { id: task.id } });
+  });
+
+  it('should refuse every request when JWT_SECRET is unset', async () => {
+    env = { A2A_TASKS: namespace as any };
+    const response = await worker.fetch(
+      new Request('https://agent.example/', {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'message/send', params: { message: createTestMessage('Hello') } })
+      }),
+      env,
+      {} as any
+    );
+
+    expect(response.status).toBe(500);
+  });
+
+  it('should refuse messages for another context on a partition socket', async () => {
+    const response = await connect('contextId=ctx-1');
+    const id = namespace.idFromName('ctx-1');
+    const partition = await namespace.instance(id);
+    const [server] = namespace.state(id)!.getWebSockets();
+
+    await partition.webSocketMessage(
+      server as any,
+      JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'message/send',
+        params: { message: createTestMessage('Hi', { contextId: 'ctx-2' }) }
+      })
+    );
+
+    expect(response.webSocket!.messages()[0].error.data.code).toBe('INVALID_REQUEST');
+  });
+});
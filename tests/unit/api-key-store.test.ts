@@ -0,0 +1,165 @@
+/**
+ * ApiKeyStore Unit Tests
+ *
+ * Tests the bundled ApiKeyStore implementations, keys persisted across
+ * restarts and shared between AuthenticationServices on one file store,
+ * and rotation, scopes, IP allowlists and last-used tracking on top of it
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AuthenticationService } from '../../src/server/authentication-service';
+import { AuthorizationPolicy } from '../../src/server/authorization-policy';
+import { FileApiKeyStore } from '../../src/server/store/file-api-key-store';
+import { InMemoryApiKeyStore } from '../../src/server/store/in-memory-api-key-store';
+import type { ApiKey, ApiKeyStore } from '../../src/server/store/api-key-store';
+import { InvalidParamsError, NotFoundError } from '../../src/shared/errors';
+import { wait } from '../utils';
+
+const createKey = (id: string, userId: string): ApiKey => ({
+  id,
+  prefix: `ak_test_${id}`,
+  hashedKey: `hash-${id}`,
+  userId,
+  permissions: ['read'],
+  createdAt: new Date()
+});
+
+const createAuthService = (apiKeyStore?: ApiKeyStore) =>
+  new AuthenticationService({ jwtSecret: 'test-secret-key-do-not-use-in-production', apiKeyStore });
+
+describe('ApiKeyStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'a2a-api-key-store-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const implementations: Array<[string, () => ApiKeyStore]> = [
+    ['InMemoryApiKeyStore', () => new InMemoryApiKeyStore()],
+    ['FileApiKeyStore', () => new FileApiKeyStore({ filename: join(dir, 'api-keys.json') })]
+  ];
+
+  for (const [name, create] of implementations) {
+    describe(name, () => {
+      it('should find keys by hash and list them by user', async () => {
+        const store = create();
+        await store.create(createKey('k1', 'user-1'));
+        await store.create(createKey('k2', 'user-2'));
+
+        expect((await store.findByHash('hash-k2'))?.id).toBe('k2');
+        expect(await store.findByHash('hash-unknown')).toBeUndefined();
+        expect((await store.list('user-1')).map((key) => key.id)).toEqual(['k1']);
+        expect(await store.list()).toHaveLength(2);
+        await expect(store.create({ ...createKey('k3', 'user-1'), hashedKey: 'hash-k1' })).rejects.toThrow();
+      });
+
+      it('should update and delete keys', async () => {
+        const store = create();
+        await store.create(createKey('k1', 'user-1'));
+
+        const lastUsedAt = new Date();
+        expect((await store.update('k1', { lastUsedAt }))?.lastUsedAt).toEqual(lastUsedAt);
+        expect(await store.update('unknown', { lastUsedAt })).toBeUndefined();
+        expect(await store.delete('k1')).toBe(true);
+        expect(await store.delete('k1')).toBe(false);
+        expect(await store.findByHash('hash-k1')).toBeUndefined();
+      });
+    });
+  }
+
+  describe('FileApiKeyStore', () => {
+    it('should keep keys and their last use across restarts', async () => {
+      const filename = join(dir, 'api-keys.json');
+      const { apiKey, keyId } = await createAuthService(new FileApiKeyStore({ filename })).generateApiKey('user-1', ['read']);
+
+      expect(readFileSync(filename, 'utf-8')).not.toContain(apiKey);
+
+      const restarted = createAuthService(new FileApiKeyStore({ filename }));
+      expect((await restarted.authenticate({ type: 'apikey', apiKey })).userId).toBe('user-1');
+
+      const [stored] = await new FileApiKeyStore({ filename }).list();
+      expect(stored.id).toBe(keyId);
+      expect(stored.lastUsedAt).toBeInstanceOf(Date);
+    });
+
+    it('should see keys revoked by another process', async () => {
+      const filename = join(dir, 'api-keys.json');
+      const first = createAuthService(new FileApiKeyStore({ filename }));
+      const second = createAuthService(new FileApiKeyStore({ filename }));
+      const { apiKey, keyId } = await first.generateApiKey('user-1', ['read']);
+
+      expect((await second.authenticate({ type: 'apikey', apiKey })).authenticated).toBe(true);
+
+      // Modification times may be coarse; make sure the rewrite is visible
+      await wait(20);
+      await first.revokeApiKey(keyId);
+
+      expect((await second.authenticate({ type: 'apikey', apiKey })).authenticated).toBe(false);
+    });
+  });
+
+  describe('AuthenticationService', () => {
+    it('should identify keys by prefix', async () => {
+      const authService = createAuthService();
+      const { apiKey, prefix } = await authService.generateApiKey('user-1', ['read'], { environment: 'live' });
+
+      expect(prefix).toMatch(/^ak_live_[a-f0-9]{8}$/);
+      expect(apiKey.startsWith(prefix)).toBe(true);
+      expect((await authService.listApiKeys('user-1'))[0].prefix).toBe(prefix);
+    });
+
+    it('should keep a rotated key valid for the grace period', async () => {
+      const authService = createAuthService();
+      const old = await authService.generateApiKey('user-1', ['read'], { scopes: ['task:read'] });
+
+      const replacement = await authService.rotateApiKey(old.keyId, { gracePeriod: 0.1 });
+
+      const result = await authService.authenticate({ type: 'apikey', apiKey: replacement.apiKey });
+      expect(result.authenticated).toBe(true);
+      expect(result.scopes).toEqual(['task:read']);
+      expect((await authService.authenticate({ type: 'apikey', apiKey: old.apiKey })).authenticated).toBe(true);
+      await expect(authService.rotateApiKey(old.keyId)).rejects.toBeInstanceOf(InvalidParamsError);
+      await expect(authService.rotateApiKey('unknown')).rejects.toBeInstanceOf(NotFoundError);
+
+      await wait(150);
+
+      const expired = await authService.authenticate({ type: 'apikey', apiKey: old.apiKey });
+      expect(expired.authenticated).toBe(false);
+      expect(expired.metadata?.error).toContain('rotated');
+      expect((await authService.authenticate({ type: 'apikey', apiKey: replacement.apiKey })).authenticated).toBe(true);
+    });
+
+    it('should only accept keys from allowed addresses', async () => {
+      const authService = createAuthService();
+      const { apiKey } = await authService.generateApiKey('user-1', ['read'], {
+        allowedIps: ['10.0.0.0/8', '2001:db8::1']
+      });
+      const from = (ipAddress?: string) => authService.authenticate({ type: 'apikey', apiKey }, { ipAddress });
+
+      expect((await from('10.1.2.3')).authenticated).toBe(true);
+      expect((await from('::ffff:10.1.2.3')).authenticated).toBe(true);
+      expect((await from('2001:db8::1')).authenticated).toBe(true);
+      expect((await from('192.168.0.1')).authenticated).toBe(false);
+      expect((await from(undefined)).authenticated).toBe(false);
+    });
+
+    it('should limit scoped keys to their scopes', async () => {
+      const authService = createAuthService();
+      const { apiKey } = await authService.generateApiKey('user-1', ['admin'], { scopes: ['task:*'] });
+      const { userId, permissions, scopes } = await authService.authenticate({ type: 'apikey', apiKey });
+      const principal = { userId: userId!, permissions: permissions!, scopes };
+      const policy = new AuthorizationPolicy();
+
+      expect(policy.isAllowed(principal, 'task:cancel')).toBe(true);
+      expect(policy.isAllowed(principal, 'tool:approve')).toBe(false);
+      expect(policy.isAllowed(principal, 'apikey:revoke')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * ArtifactWriter Unit Tests
+ *
+ * Tests chunked artifact streaming: merging chunks into the stored artifact
+ * and emitting append/lastChunk events to subscribers
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TaskManager, type TaskUpdateEvent } from '../../src/server/task-manager';
+import { StreamingTask } from '../../src/server/streaming-task';
+import { createTestMessage } from '../utils';
+
+describe('ArtifactWriter', () => {
+  let taskManager: TaskManager;
+  let task: any;
+  let events: TaskUpdateEvent[];
+
+  beforeEach(async () => {
+    taskManager = new TaskManager();
+    task = await taskManager.createTask(createTestMessage('Hello'));
+    events = [];
+    taskManager.on('task:update', (event: TaskUpdateEvent) => events.push(event));
+  });
+
+  it('should merge text deltas into a single stored part', async () => {
+    const writer = await taskManager.openArtifact(task.id, { artifactId: 'answer', name: 'Answer' });
+    await writer.appendText('Hel');
+    await writer.appendText('lo');
+    await writer.close();
+
+    const stored = await taskManager.getTask(task.id);
+    expect(stored.artifacts).toHaveLength(1);
+    expect(stored.artifacts![0].name).toBe('Answer');
+    expect(stored.artifacts![0].parts).toEqual([{ text: 'Hello', metadata: undefined }]);
+  });
+
+  it('should emit each chunk with append and lastChunk flags', async () => {
+    const writer = await taskManager.openArtifact(task.id, { artifactId: 'answer' });
+    await writer.appendText('Hel');
+    await writer.appendText('lo');
+    await writer.close([{ data: { data: { done: true } }, metadata: undefined } as any]);
+
+    const chunks = events.filter((e) => e.artifact);
+    expect(chunks.map((e) => [e.append, e.lastChunk])).toEqual([
+      [false, false],
+      [true, false],
+      [true, false],
+      [true, true]
+    ]);
+    expect(chunks[1].artifact!.parts).toEqual([{ text: 'Hel', metadata: undefined }]);
+    expect(chunks[2].artifact!.parts).toEqual([{ text: 'lo', metadata: undefined }]);
+    expect(chunks[3].artifact!.parts).toHaveLength(1);
+  });
+
+  it('should leave the initial parts and emitted events unchanged', async () => {
+    const initial = { text: 'Hel', metadata: undefined };
+    const writer = await taskManager.openArtifact(task.id, { artifactId: 'answer', parts: [initial] });
+    await writer.appendText('lo');
+    await writer.close();
+
+    expect(initial.text).toBe('Hel');
+    expect(events.find((e) => e.artifact)!.artifact!.parts).toEqual([{ text: 'Hel', metadata: undefined }]);
+    expect((await taskManager.getTask(task.id)).artifacts[0].parts[0].text).toBe('Hello');
+  });
+
+  it('should keep non-text parts separate from text deltas', async () => {
+    const writer = await taskManager.openArtifact(task.id);
+    await writer.appendText('a');
+    await writer.appendParts([{ file: { fileWithUri: 'https://example.com/f' }, metadata: undefined } as any]);
+    await writer.appendText('b');
+    await writer.close();
+
+    const stored = await taskManager.getTask(task.id);
+    const parts = stored.artifacts![0].parts;
+    expect(parts).toHaveLength(3);
+    expect(parts[0].text).toBe('a');
+    expect(parts[2].text).toBe('b');
+  });
+
+  it('should reject appends after the artifact is closed', async () => {
+    const writer = await taskManager.openArtifact(task.id, { artifactId: 'answer' });
+    await writer.close();
+
+    await expect(writer.appendText('late')).rejects.toThrow('already closed');
+    await expect(
+      taskManager.appendArtifactChunk(task.id, 'answer', { text: 'late' })
+    ).rejects.toMatchObject({ code: 'INVALID_REQUEST' });
+  });
+
+  it('should reject duplicate artifact IDs', async () => {
+    await taskManager.openArtifact(task.id, { artifactId: 'answer' });
+    await expect(
+      taskManager.openArtifact(task.id, { artifactId: 'answer' })
+    ).rejects.toMatchObject({ code: 'INVALID_REQUEST' });
+  });
+
+  it('should stream chunks to StreamingTask subscribers', async () => {
+    const streamingTask = new StreamingTask(task, taskManager);
+    const artifactUpdates: any[] = [];
+    await streamingTask.subscribe({
+      onStatusUpdate: async () => {},
+      onArtifactUpdate: async (event: any) => {
+        artifactUpdates.push(event);
+      }
+    });
+
+    const writer = await taskManager.openArtifact(task.id, { artifactId: 'answer' });
+    await writer.appendText('Hi');
+    await writer.close();
+
+    expect(artifactUpdates.map((e) => [e.append, e.lastChunk])).toEqual([
+      [false, false],
+      [true, false],
+      [true, true]
+    ]);
+    expect(artifactUpdates[1].artifact.parts[0].text).toBe('Hi');
+  });
+});
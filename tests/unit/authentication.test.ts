@@ -96,7 +96,7 @@ describe('AuthenticationService', () => {
 
   describe('API Key Authentication', () => {
     it('should accept valid API key', async () => {
-      const { apiKey } = authService.generateApiKey('user456', ['read', 'write']);
+      const { apiKey } = await authService.generateApiKey('user456', ['read', 'write']);
 
       const result = await authService.authenticate({ type: 'apikey', apiKey });
 
@@ -126,7 +126,7 @@ describe('AuthenticationService', () => {
     });
 
     it('should reject expired API key', async () => {
-      const { apiKey } = authService.generateApiKey('user456', ['read'], {
+      const { apiKey } = await authService.generateApiKey('user456', ['read'], {
         expiresIn: 1 // 1 second
       });
 
@@ -139,8 +139,8 @@ describe('AuthenticationService', () => {
       expect(result.metadata?.error).toContain('expired');
     });
 
-    it('should generate API key with correct format', () => {
-      const { apiKey, keyId } = authService.generateApiKey('user456', ['read'], {
+    it('should generate API key with correct format', async () => {
+      const { apiKey, keyId } = await authService.generateApiKey('user456', ['read'], {
         environment: 'live'
       });
 
@@ -149,9 +149,9 @@ describe('AuthenticationService', () => {
     });
 
     it('should list API keys for user', async () => {
-      authService.generateApiKey('user1', ['read']);
-      authService.generateApiKey('user1', ['write']);
-      authService.generateApiKey('user2', ['read']);
+      await authService.generateApiKey('user1', ['read']);
+      await authService.generateApiKey('user1', ['write']);
+      await authService.generateApiKey('user2', ['read']);
 
       const user1Keys = await authService.listApiKeys('user1');
       const user2Keys = await authService.listApiKeys('user2');
@@ -162,7 +162,7 @@ describe('AuthenticationService', () => {
     });
 
     it('should revoke API key', async () => {
-      const { apiKey, keyId } = authService.generateApiKey('user456', ['read']);
+      const { apiKey, keyId } = await authService.generateApiKey('user456', ['read']);
 
       // Key should work initially
       let result = await authService.authenticate({ type: 'apikey', apiKey });
@@ -177,7 +177,7 @@ describe('AuthenticationService', () => {
     });
 
     it('should store API keys securely (hashed)', async () => {
-      const { apiKey, keyId } = authService.generateApiKey('user456', ['read']);
+      const { apiKey, keyId } = await authService.generateApiKey('user456', ['read']);
 
       const store = authService.getApiKeyStore();
       const keys = await store.list();
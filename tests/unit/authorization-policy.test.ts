@@ -0,0 +1,80 @@
+/**
+ * AuthorizationPolicy Unit Tests
+ *
+ * Tests which actions coarse permissions, action permissions and
+ * task-scoped capabilities grant, and on whose tasks
+ */
+
+import { describe, it, expect } from 'vitest';
+import { AuthorizationPolicy, matchesAction } from '../../src/server/authorization-policy';
+import { ForbiddenError } from '../../src/shared/errors';
+
+describe('AuthorizationPolicy', () => {
+  const policy = new AuthorizationPolicy();
+
+  it('should match action patterns', () => {
+    expect(matchesAction('task:read', 'task:read')).toBe(true);
+    expect(matchesAction('task:*', 'task:cancel')).toBe(true);
+    expect(matchesAction('tool:execute:*', 'tool:execute:calculator')).toBe(true);
+    expect(matchesAction('tool:*', 'task:read')).toBe(false);
+    expect(matchesAction('task:read', 'task:readonly')).toBe(false);
+  });
+
+  it('should grant actions through coarse permissions', () => {
+    const reader = { userId: 'user-1', permissions: ['read'] };
+    const writer = { userId: 'user-2', permissions: ['write'] };
+
+    expect(policy.isAllowed(reader, 'task:read')).toBe(true);
+    expect(policy.isAllowed(reader, 'task:cancel')).toBe(false);
+    expect(policy.isAllowed(reader, 'tool:execute:calculator')).toBe(false);
+    expect(policy.isAllowed(writer, 'task:cancel')).toBe(true);
+    expect(policy.isAllowed(writer, 'tool:execute:calculator')).toBe(true);
+    expect(policy.isAllowed({ userId: 'admin', permissions: ['admin'] }, 'tool:approve')).toBe(true);
+  });
+
+  it('should limit permissions to the principal\'s own tasks', () => {
+    const writer = { userId: 'user-1', permissions: ['write'] };
+
+    expect(policy.isAllowed(writer, 'task:cancel', 'task-1', 'user-1')).toBe(true);
+    expect(policy.isAllowed(writer, 'task:cancel', 'task-1', 'user-2')).toBe(false);
+    expect(policy.isAllowed(writer, 'task:read', 'task-1')).toBe(false);
+    expect(policy.isAllowed({ userId: 'admin', permissions: ['admin'] }, 'task:cancel', 'task-1', 'user-2')).toBe(true);
+  });
+
+  it('should grant actions named by permissions', () => {
+    const toolUser = { userId: 'user-1', permissions: ['task:read', 'tool:execute:calculator'] };
+
+    expect(policy.isAllowed(toolUser, 'tool:execute:calculator')).toBe(true);
+    expect(policy.isAllowed(toolUser, 'tool:execute:http_request')).toBe(false);
+    expect(policy.isAllowed(toolUser, 'task:create')).toBe(false);
+  });
+
+  it('should limit capabilities to their task and lifetime', () => {
+    const principal = {
+      userId: 'user-1',
+      permissions: [],
+      capabilities: {
+        capabilities: [
+          { actions: ['task:read', 'task:cancel'], taskId: 'task-1' },
+          { actions: ['task:*'], taskId: 'task-2', expiresAt: new Date(Date.now() - 1000).toISOString() }
+        ]
+      }
+    };
+
+    expect(policy.isAllowed(principal, 'task:cancel', 'task-1')).toBe(true);
+    expect(policy.isAllowed(principal, 'task:update', 'task-1')).toBe(false);
+    expect(policy.isAllowed(principal, 'task:cancel', 'task-3')).toBe(false);
+    expect(policy.isAllowed(principal, 'task:read')).toBe(false);
+    expect(policy.isAllowed(principal, 'task:read', 'task-2')).toBe(false);
+  });
+
+  it('should use custom rules', () => {
+    const strict = new AuthorizationPolicy({ 'task:*': ['operator'] });
+
+    expect(strict.isAllowed({ userId: 'user-1', permissions: ['operator'] }, 'task:cancel')).toBe(true);
+    expect(strict.isAllowed({ userId: 'user-1', permissions: ['write'] }, 'task:cancel')).toBe(false);
+    expect(() => strict.authorize({ userId: 'user-1', permissions: ['write'] }, 'task:cancel', 'task-1')).toThrow(
+      ForbiddenError
+    );
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * A2A Error Model Unit Tests
+ *
+ * Tests that every error maps to fixed JSON-RPC codes and HTTP statuses,
+ * and that clients rebuild the typed error from each transport's encoding
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  A2AError,
+  ContentTypeNotSupportedError,
+  ForbiddenError,
+  InternalError,
+  InvalidParamsError,
+  JsonRpcErrorCode,
+  RateLimitedError,
+  TaskNotCancelableError,
+  TaskNotFoundError,
+  UnauthorizedError,
+  a2aErrorFromCapnweb,
+  a2aErrorFromHttp,
+  a2aErrorFromJsonRpc,
+  a2aErrorFromPayload,
+  toA2AError,
+  toCapnwebError
+} from '../../src/shared/errors';
+import { toJsonRpcError } from '../../src/server/jsonrpc/jsonrpc-dispatcher';
+import { InvalidPageTokenError } from '../../src/server/page-token';
+
+describe('A2AError', () => {
+  it('should map codes to JSON-RPC codes and HTTP statuses', () => {
+    const cases: Array<[A2AError, number, number]> = [
+      [new TaskNotFoundError('missing'), JsonRpcErrorCode.TASK_NOT_FOUND, 404],
+      [new TaskNotCancelableError('done'), JsonRpcErrorCode.TASK_NOT_CANCELABLE, 409],
+      [new ContentTypeNotSupportedError(['image/png'], ['text/plain']), JsonRpcErrorCode.CONTENT_TYPE_NOT_SUPPORTED, 415],
+      [new InvalidParamsError('bad'), JsonRpcErrorCode.INVALID_PARAMS, 400],
+      [new UnauthorizedError('no token'), JsonRpcErrorCode.SERVER_ERROR, 401],
+      [new ForbiddenError('not yours'), JsonRpcErrorCode.SERVER_ERROR, 403],
+      [new RateLimitedError('slow down', 30), JsonRpcErrorCode.SERVER_ERROR, 429]
+    ];
+
+    for (const [error, jsonRpcCode, httpStatus] of cases) {
+      expect(error.jsonRpcCode).toBe(jsonRpcCode);
+      expect(error.httpStatus).toBe(httpStatus);
+    }
+  });
+
+  it('should keep server-specific subclasses in their family', () => {
+    const error = new InvalidPageTokenError('Malformed page token');
+
+    expect(error).toBeInstanceOf(InvalidParamsError);
+    expect(error.code).toBe('INVALID_PARAMS');
+  });
+
+  it('should hide unexpected errors behind InternalError', () => {
+    const error = toA2AError(new Error('database exploded'));
+
+    expect(error).toBeInstanceOf(InternalError);
+    expect(error.message).toBe('Internal error');
+  });
+
+  it('should rebuild typed errors from their payload', () => {
+    const error = a2aErrorFromPayload(new RateLimitedError('slow down', 30).toJSON());
+
+    expect(error).toBeInstanceOf(RateLimitedError);
+    expect((error as RateLimitedError).retryAfter).toBe(30);
+  });
+
+  it('should keep unknown codes as plain A2AErrors', () => {
+    const error = a2aErrorFromPayload({ code: 'SOMETHING_NEW' as any, message: 'new' });
+
+    expect(error).toBeInstanceOf(A2AError);
+    expect(error.code).toBe('SOMETHING_NEW');
+  });
+});
+
+describe('transport round trips', () => {
+  it('should round-trip through JSON-RPC errors', () => {
+    const rpcError = toJsonRpcError(new ForbiddenError('not yours'));
+    const error = a2aErrorFromJsonRpc(rpcError as any);
+
+    expect(rpcError.code).toBe(JsonRpcErrorCode.SERVER_ERROR);
+    expect(error).toBeInstanceOf(ForbiddenError);
+    expect(error.message).toBe('not yours');
+  });
+
+  it('should fall back to the numeric JSON-RPC code without data', () => {
+    const error = a2aErrorFromJsonRpc({ code: JsonRpcErrorCode.TASK_NOT_FOUND, message: 'Task not found' });
+
+    expect(error).toBeInstanceOf(TaskNotFoundError);
+  });
+
+  it('should rebuild errors from HTTP responses', () => {
+    const original = new ContentTypeNotSupportedError(['image/png'], ['text/plain']);
+    const { code, message, data } = original.toJSON();
+    const error = a2aErrorFromHttp(original.httpStatus, { error: code, message, data });
+
+    expect(error).toBeInstanceOf(ContentTypeNotSupportedError);
+    expect((error as ContentTypeNotSupportedError).acceptedOutputModes).toEqual(['image/png']);
+    expect(a2aErrorFromHttp(401)).toBeInstanceOf(UnauthorizedError);
+  });
+
+  it('should round-trip through capnweb error payloads', () => {
+    const encoded = toCapnwebError(new TaskNotFoundError('Task not found: t1'));
+    // capnweb transmits only the message and stack
+    const received = new Error(encoded.message);
+    received.stack = encoded.stack;
+
+    const error = a2aErrorFromCapnweb(received);
+
+    expect(error).toBeInstanceOf(TaskNotFoundError);
+    expect((error as Error).message).toBe('Task not found: t1');
+  });
+
+  it('should leave errors that capnweb raised itself unchanged', () => {
+    const error = new Error('RPC session was shut down');
+
+    expect(a2aErrorFromCapnweb(error)).toBe(error);
+  });
+});
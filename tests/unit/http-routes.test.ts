@@ -0,0 +1,118 @@
+/**
+ * HTTP Route Table Unit Tests
+ *
+ * Tests HttpRule path template matching on the server side and request
+ * building on the client side
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  A2A_HTTP_RULES,
+  buildHttpRequest,
+  buildRequest,
+  matchHttpRoute,
+  ruleBinding
+} from '../../src/shared/http-routes';
+import { InvalidRequestError } from '../../src/shared/errors';
+
+describe('HTTP route table', () => {
+  describe('matchHttpRoute', () => {
+    it('should match literal paths', () => {
+      expect(matchHttpRoute('POST', '/v1/message:send')?.method).toBe('SendMessage');
+      expect(matchHttpRoute('GET', '/v1/tasks')?.method).toBe('ListTasks');
+    });
+
+    it('should bind path variables with their pattern', () => {
+      const match = matchHttpRoute('GET', '/v1/tasks/abc-123');
+
+      expect(match?.method).toBe('GetTask');
+      expect(match?.pathParams).toEqual({ name: 'tasks/abc-123' });
+    });
+
+    it('should distinguish custom verbs', () => {
+      expect(matchHttpRoute('POST', '/v1/tasks/abc:cancel')?.method).toBe('CancelTask');
+      expect(matchHttpRoute('GET', '/v1/tasks/abc:subscribe')?.method).toBe('SubscribeToTask');
+      expect(matchHttpRoute('GET', '/v1/tasks/abc:subscribe')?.pathParams).toEqual({ name: 'tasks/abc' });
+    });
+
+    it('should match multi-segment variables', () => {
+      const match = matchHttpRoute('DELETE', '/v1/tasks/abc/pushNotificationConfigs/cfg-1');
+
+      expect(match?.method).toBe('DeleteTaskPushNotificationConfig');
+      expect(match?.pathParams).toEqual({ name: 'tasks/abc/pushNotificationConfigs/cfg-1' });
+    });
+
+    it('should reject malformed escapes in path variables', () => {
+      expect(matchHttpRoute('GET', '/v1/tasks/a%20b')?.pathParams).toEqual({ name: 'tasks/a b' });
+      expect(() => matchHttpRoute('GET', '/v1/tasks/%E0%A4%A')).toThrow(InvalidRequestError);
+    });
+
+    it('should not match the wrong HTTP method or unknown paths', () => {
+      expect(matchHttpRoute('DELETE', '/v1/tasks/abc')).toBeUndefined();
+      expect(matchHttpRoute('GET', '/v1/unknown')).toBeUndefined();
+      expect(matchHttpRoute('GET', '/tasks/abc')).toBeUndefined();
+    });
+  });
+
+  describe('buildRequest', () => {
+    it('should merge path, query and body fields', () => {
+      const match = matchHttpRoute('GET', '/v1/tasks/abc')!;
+      const request = buildRequest(match, new URLSearchParams('historyLength=5'), undefined);
+
+      expect(request).toEqual({ name: 'tasks/abc', historyLength: 5 });
+    });
+
+    it('should put the body into the field named by the rule', () => {
+      const match = matchHttpRoute('POST', '/v1/tasks/abc/pushNotificationConfigs')!;
+      const config = { pushNotificationConfig: { url: 'https://example.com/hook' } };
+      const request = buildRequest(match, new URLSearchParams('configId=c1'), config);
+
+      expect(request).toEqual({ parent: 'tasks/abc', configId: 'c1', config });
+    });
+
+    it('should parse boolean query parameters', () => {
+      const match = matchHttpRoute('GET', '/v1/tasks')!;
+
+      expect(buildRequest(match, new URLSearchParams('includeArtifacts=false'), undefined)).toEqual({
+        includeArtifacts: false
+      });
+      expect(buildRequest(match, new URLSearchParams('includeArtifacts=true'), undefined)).toEqual({
+        includeArtifacts: true
+      });
+      expect(() => buildRequest(match, new URLSearchParams('includeArtifacts=no'), undefined)).toThrow(InvalidRequestError);
+    });
+  });
+
+  describe('buildHttpRequest', () => {
+    it('should expand path variables and move the rest into the query', () => {
+      const spec = buildHttpRequest('GetTask', { name: 'tasks/abc', historyLength: 2 });
+
+      expect(spec).toEqual({ method: 'GET', path: '/v1/tasks/abc?historyLength=2', body: undefined });
+    });
+
+    it('should send remaining fields as the body for body "*"', () => {
+      const spec = buildHttpRequest('SendMessage', { request: { messageId: 'm1' } });
+
+      expect(spec.method).toBe('POST');
+      expect(spec.path).toBe('/v1/message:send');
+      expect(spec.body).toEqual({ request: { messageId: 'm1' } });
+    });
+
+    it('should require path-bound fields', () => {
+      expect(() => buildHttpRequest('CancelTask', {})).toThrow('Missing path parameter name');
+    });
+
+    it('should round-trip every rule through matchHttpRoute', () => {
+      for (const httpRule of A2A_HTTP_RULES) {
+        const { method } = ruleBinding(httpRule);
+        const spec = buildHttpRequest(httpRule.selector as any, {
+          name: httpRule.selector.includes('PushNotificationConfig') ? 'tasks/t1/pushNotificationConfigs/c1' : 'tasks/t1',
+          parent: 'tasks/t1'
+        });
+        const match = matchHttpRoute(method, spec.path.split('?')[0]);
+
+        expect(match?.method).toBe(httpRule.selector);
+      }
+    });
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * JSON-RPC Dispatcher Unit Tests
+ *
+ * Tests the JSON-RPC 2.0 envelope handling (batches, notifications, error
+ * codes) and the A2A method mapping against a TaskManager-backed service
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import pino from 'pino';
+import { TaskManager } from '../../src/server/task-manager';
+import { StreamingTask } from '../../src/server/streaming-task';
+import { parseTaskName, parsePushConfigName, pushConfigName } from '../../src/server/resource-names';
+import {
+  JsonRpcDispatcher,
+  JsonRpcErrorCode,
+  type JsonRpcContext,
+  type JsonRpcResponse
+} from '../../src/server/jsonrpc/jsonrpc-dispatcher';
+import { createTestMessage } from '../utils';
+
+/**
+ * Minimal stand-in for AuthenticatedA2AService
+ */
+function createService(taskManager: TaskManager): any {
+  return {
+    sendMessage: async (message: any) => taskManager.createTask(message),
+    sendMessageStreaming: async (message: any) =>
+      new StreamingTask(await taskManager.createTask(message), taskManager),
+    getTask: (taskId: string, historyLength?: number) => taskManager.getTask(taskId, historyLength),
+    listTasks: (params: any) => taskManager.listTasks(params),
+    cancelTask: async (taskId: string) => {
+      await taskManager.updateTaskStatus(taskId, 'cancelled');
+      return taskManager.getTask(taskId);
+    },
+    subscribeToTask: async ({ name }: any) =>
+      new StreamingTask(await taskManager.getTask(parseTaskName(name)), taskManager),
+    setTaskPushNotificationConfig: async ({ parent, configId, config }: any) => {
+      const taskId = parseTaskName(parent);
+      const stored = await taskManager.setPushNotificationConfig(taskId, { ...config.pushNotificationConfig, id: configId });
+      return { name: pushConfigName(taskId, stored.id), pushNotificationConfig: stored };
+    },
+    getTaskPushNotificationConfig: async ({ name }: any) => {
+      const { taskId, configId } = parsePushConfigName(name);
+      return { name, pushNotificationConfig: await taskManager.getPushNotificationConfig(taskId, configId) };
+    },
+    listTaskPushNotificationConfig: async ({ parent }: any) => {
+      const taskId = parseTaskName(parent);
+      const { configs } = await taskManager.listPushNotificationConfigs(taskId);
+      return { configs: configs.map((c) => ({ name: pushConfigName(taskId, c.id), pushNotificationConfig: c })) };
+    },
+    deleteTaskPushNotificationConfig: async ({ name }: any) => {
+      const { taskId, configId } = parsePushConfigName(name);
+      await taskManager.deletePushNotificationConfig(taskId, configId);
+    },
+    getAgentCard: () => ({ name: 'test' }),
+    listApiKeys: async (userId?: string) => [{ id: 'k1', userId: userId ?? 'user-1' }],
+    revokeApiKey: async () => undefined
+  };
+}
+
+describe('JsonRpcDispatcher', () => {
+  let taskManager: TaskManager;
+  let dispatcher: JsonRpcDispatcher;
+  let context: JsonRpcContext;
+
+  beforeEach(() => {
+    taskManager = new TaskManager();
+    dispatcher = new JsonRpcDispatcher({ getTaskManager: () => taskManager } as any, pino({ level: 'silent' }));
+    context = { service: createService(taskManager) };
+  });
+
+  const call = async (method: string, params?: any, id: any = 1) =>
+    (await dispatcher.handle({ jsonrpc: '2.0', id, method, params }, context)) as any;
+
+  describe('envelope', () => {
+    it('should answer a request with its id', async () => {
+      const response = await call('message/send', { message: createTestMessage('Hi') }, 'req-1');
+
+      expect(response.jsonrpc).toBe('2.0');
+      expect(response.id).toBe('req-1');
+      expect(response.result.id).toBeDefined();
+    });
+
+    it('should reject invalid requests', async () => {
+      const response = (await dispatcher.handle({ id: 1, method: 'tasks/get' }, context)) as any;
+
+      expect(response.error.code).toBe(JsonRpcErrorCode.INVALID_REQUEST);
+    });
+
+    it('should report unknown methods', async () => {
+      const response = await call('tasks/unknown');
+
+      expect(response.error.code).toBe(JsonRpcErrorCode.METHOD_NOT_FOUND);
+    });
+
+    it('should report missing params as invalid params', async () => {
+      const response = await call('tasks/get', {});
+
+      expect(response.error.code).toBe(JsonRpcErrorCode.INVALID_PARAMS);
+    });
+
+    it('should not answer notifications', async () => {
+      const response = await dispatcher.handle(
+        { jsonrpc: '2.0', method: 'message/send', params: { message: createTestMessage('Hi') } },
+        context
+      );
+
+      expect(response).toBeUndefined();
+      expect(taskManager.getTaskCount()).toBe(1);
+    });
+
+    it('should answer batches, skipping notifications', async () => {
+      const task = await taskManager.createTask(createTestMessage('Hi'));
+      const responses = (await dispatcher.handle(
+        [
+          { jsonrpc: '2.0', id: 1, method: 'tasks/get', params: { id: task.id } },
+          { jsonrpc: '2.0', method: 'tasks/get', params: { id: task.id } },
+          { jsonrpc: '2.0', id: 2, method: 'tasks/get', params: { id: 'missing' } },
+          'not a request'
+        ],
+        context
+      )) as JsonRpcResponse[];
+
+      expect(responses).toHaveLength(3);
+      expect(responses.map((r) => r.id)).toEqual([1, 2, null]);
+      expect((responses[1] as any).error.code).toBe(JsonRpcErrorCode.TASK_NOT_FOUND);
+      expect((responses[2] as any).error.code).toBe(JsonRpcErrorCode.INVALID_REQUEST);
+    });
+
+    it('should reject empty batches', async () => {
+      const response = (await dispatcher.handle([], context)) as any;
+
+      expect(response.error.code).toBe(JsonRpcErrorCode.INVALID_REQUEST);
+    });
+
+    it('should hide internal error details', async () => {
+      context.service.getTask = async () => {
+        throw new Error('database exploded');
+      };
+      const response = await call('tasks/get', { id: 'x' });
+
+      expect(response.error).toEqual({ code: JsonRpcErrorCode.INTERNAL_ERROR, message: 'Internal error' });
+    });
+  });
+
+  describe('methods', () => {
+    it('should map task errors to A2A error codes', async () => {
+      const task = await taskManager.createTask(createTestMessage('Hi'));
+      await taskManager.updateTaskStatus(task.id, 'completed');
+
+      const response = await call('tasks/cancel', { id: task.id });
+
+      expect(response.error.code).toBe(JsonRpcErrorCode.TASK_NOT_CANCELABLE);
+    });
+
+    it('should map the admin API key methods', async () => {
+      const list = await call('admin/apiKeys/list', { userId: 'user-2' });
+      expect(list.result.apiKeys).toEqual([{ id: 'k1', userId: 'user-2' }]);
+
+      expect((await call('admin/apiKeys/revoke', { keyId: 'k1' })).result).toEqual({ revoked: true });
+      expect((await call('admin/apiKeys/revoke', {})).error.code).toBe(JsonRpcErrorCode.INVALID_PARAMS);
+    });
+
+    it('should manage push notification configs by task ID', async () => {
+      const task = await taskManager.createTask(createTestMessage('Hi'));
+      const pushNotificationConfig = { id: 'c1', url: 'https://example.com/hook' };
+
+      const set = await call('tasks/pushNotificationConfig/set', { taskId: task.id, pushNotificationConfig });
+      expect(set.result.taskId).toBe(task.id);
+
+      const get = await call('tasks/pushNotificationConfig/get', { id: task.id });
+      expect(get.result.pushNotificationConfig.url).toBe('https://example.com/hook');
+
+      const list = await call('tasks/pushNotificationConfig/list', { id: task.id });
+      expect(list.result).toHaveLength(1);
+
+      const deleted = await call('tasks/pushNotificationConfig/delete', { id: task.id, pushNotificationConfigId: 'c1' });
+      expect(deleted.result).toBeNull();
+    });
+
+    it('should stream the task and its updates', async () => {
+      const task = await taskManager.createTask(createTestMessage('Hi'));
+      const sent: any[] = [];
+      let closed = false;
+      context.openStream = () => ({
+        send: (response) => sent.push(response),
+        close: () => (closed = true)
+      });
+
+      const response = await call('tasks/resubscribe', { id: task.id }, 7);
+      await taskManager.updateTaskStatus(task.id, 'completed');
+
+      expect(response).toBeUndefined();
+      expect(sent.every((r) => r.id === 7)).toBe(true);
+      expect(sent[0].result.id).toBe(task.id);
+      expect(sent.at(-1).result.kind).toBe('status-update');
+      expect(sent.at(-1).result.final).toBe(true);
+      expect(closed).toBe(true);
+    });
+
+    it('should close the stream at once for a finished task', async () => {
+      const task = await taskManager.createTask(createTestMessage('Hi'));
+      await taskManager.updateTaskStatus(task.id, 'completed');
+      const sent: any[] = [];
+      let closed = false;
+      context.openStream = () => ({
+        send: (response) => sent.push(response),
+        close: () => (closed = true)
+      });
+
+      await call('tasks/resubscribe', { id: task.id });
+
+      expect(sent).toHaveLength(1);
+      expect(sent[0].result.id).toBe(task.id);
+      expect(closed).toBe(true);
+    });
+
+    it('should reject streaming methods when the transport cannot stream', async () => {
+      const response = await call('message/stream', { message: createTestMessage('Hi') });
+
+      expect(response.error.code).toBe(JsonRpcErrorCode.UNSUPPORTED_OPERATION);
+    });
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Asymmetric JWT and JWKS Tests
+ *
+ * Tests RS256, ES256 and EdDSA signing and verification, key lookup by
+ * `kid`, picking up keys rotated into a JWKS file, and AuthenticationService
+ * accepting tokens of trusted issuers
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import * as jwt from '../../src/server/jwt-worker';
+import { JwksResolver, type Jwk } from '../../src/server/jwks';
+import { AuthenticationService } from '../../src/server/authentication-service';
+
+const KEY_PARAMS = {
+  RS256: { name: 'RSASSA-PKCS1-v1_5', modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]), hash: 'SHA-256' },
+  ES256: { name: 'ECDSA', namedCurve: 'P-256' },
+  EdDSA: { name: 'Ed25519' }
+} as const;
+
+/**
+ * Generate a key pair as JWKs
+ */
+async function generateKeyPair(alg: keyof typeof KEY_PARAMS, kid: string): Promise<{ privateKey: Jwk; publicKey: Jwk }> {
+  const pair = (await crypto.subtle.generateKey(KEY_PARAMS[alg], true, ['sign', 'verify'])) as CryptoKeyPair;
+  const [privateKey, publicKey] = await Promise.all([
+    crypto.subtle.exportKey('jwk', pair.privateKey),
+    crypto.subtle.exportKey('jwk', pair.publicKey)
+  ]);
+  return { privateKey: { ...privateKey, kid, alg }, publicKey: { ...publicKey, kid, alg } };
+}
+
+describe('Asymmetric JWTs', () => {
+  for (const alg of ['RS256', 'ES256', 'EdDSA'] as const) {
+    it(`should sign and verify ${alg} tokens`, async () => {
+      const { privateKey, publicKey } = await generateKeyPair(alg, `${alg}-1`);
+
+      const token = await jwt.sign({ sub: 'user-1' }, privateKey, { expiresIn: '1h' });
+      const payload = await jwt.verify(token, publicKey);
+
+      expect(payload.sub).toBe('user-1');
+      expect(JSON.parse(Buffer.from(token.split('.')[0], 'base64url').toString())).toMatchObject({ alg, kid: `${alg}-1` });
+    });
+  }
+
+  it('should reject tokens signed with another key', async () => {
+    const { privateKey } = await generateKeyPair('ES256', 'a');
+    const { publicKey } = await generateKeyPair('ES256', 'a');
+
+    const token = await jwt.sign({ sub: 'user-1' }, privateKey);
+
+    await expect(jwt.verify(token, publicKey)).rejects.toThrow('Invalid token signature');
+  });
+
+  it('should reject an HMAC token verified with a public key', async () => {
+    const { publicKey } = await generateKeyPair('RS256', 'rsa');
+    // The classic confusion attack: the public key used as HMAC secret
+    const token = await jwt.sign({ sub: 'attacker' }, JSON.stringify(publicKey), { algorithm: 'HS256' });
+
+    await expect(jwt.verify(token, publicKey)).rejects.toThrow('Algorithm not allowed');
+    await expect(jwt.verify(token, publicKey, { algorithms: ['HS256'] })).rejects.toThrow();
+  });
+});
+
+describe('JwksResolver', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'a2a-jwks-'));
+    file = join(dir, 'jwks.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should look up keys by kid', async () => {
+    const first = await generateKeyPair('ES256', 'key-1');
+    const second = await generateKeyPair('ES256', 'key-2');
+    const jwks = new JwksResolver({ keys: [first.publicKey, second.publicKey] });
+
+    const token = await jwt.sign({ sub: 'user-1' }, second.privateKey);
+
+    expect((await jwt.verify(token, jwks.resolver(), { algorithms: ['ES256'] })).sub).toBe('user-1');
+    expect(await jwks.getKey('key-3', 'ES256')).toBeUndefined();
+    // Without a kid the set is ambiguous
+    expect(await jwks.getKey(undefined, 'ES256')).toBeUndefined();
+  });
+
+  it('should pick up keys rotated into the JWKS file', async () => {
+    const old = await generateKeyPair('EdDSA', 'old');
+    const current = await generateKeyPair('EdDSA', 'current');
+    writeFileSync(file, JSON.stringify({ keys: [old.publicKey] }));
+    const jwks = new JwksResolver({ file, refreshInterval: 0 });
+
+    expect(await jwks.getKey('current', 'EdDSA')).toBeUndefined();
+    writeFileSync(file, JSON.stringify({ keys: [current.publicKey, old.publicKey] }));
+
+    const token = await jwt.sign({ sub: 'user-1' }, current.privateKey);
+    expect((await jwt.verify(token, jwks.resolver(), { algorithms: ['EdDSA'] })).sub).toBe('user-1');
+  });
+
+  it('should keep the last good key set when the file breaks', async () => {
+    const { publicKey } = await generateKeyPair('ES256', 'key-1');
+    writeFileSync(file, JSON.stringify({ keys: [publicKey] }));
+    const jwks = new JwksResolver({ file, refreshInterval: 0 });
+    expect(await jwks.getKey('key-1', 'ES256')).toBeDefined();
+
+    writeFileSync(file, '{ not json');
+
+    expect(await jwks.getKey('key-2', 'ES256')).toBeUndefined();
+    expect(await jwks.getKey('key-1', 'ES256')).toBeDefined();
+  });
+});
+
+describe('AuthenticationService with asymmetric keys', () => {
+  it('should issue and accept tokens signed with its own key set', async () => {
+    const { privateKey, publicKey } = await generateKeyPair('RS256', 'server-1');
+    const authService = new AuthenticationService({
+      jwtSecret: 'test-secret-key-do-not-use-in-production',
+      jwtIssuer: 'a2a-test',
+      jwtAudience: 'a2a-api',
+      jwtKeys: new JwksResolver({ keys: [privateKey] })
+    });
+
+    const token = await authService.generateJWT('user-1', ['read']);
+    const result = await authService.authenticate({ type: 'bearer', token });
+
+    expect(result.authenticated).toBe(true);
+    expect(await jwt.verify(token, publicKey, { algorithms: ['RS256'] })).toMatchObject({ sub: 'user-1' });
+  });
+
+  it('should accept tokens of trusted issuers only with their keys', async () => {
+    const idp = await generateKeyPair('ES256', 'idp-1');
+    const other = await generateKeyPair('ES256', 'idp-1');
+    const authService = new AuthenticationService({
+      jwtSecret: 'test-secret-key-do-not-use-in-production',
+      jwtIssuer: 'a2a-test',
+      jwtAudience: 'a2a-api',
+      trustedIssuers: [{ issuer: 'https://idp.example.com', jwks: new JwksResolver({ keys: [idp.publicKey] }) }]
+    });
+    const claims = { sub: 'user-1', permissions: ['read'] };
+    const options = { issuer: 'https://idp.example.com', audience: 'a2a-api', expiresIn: '1h' };
+
+    const trusted = await jwt.sign(claims, idp.privateKey, options);
+    const forged = await jwt.sign(claims, other.privateKey, options);
+    const unknownIssuer = await jwt.sign(claims, idp.privateKey, { ...options, issuer: 'https://evil.example.com' });
+
+    expect(await authService.authenticate({ type: 'bearer', token: trusted })).toMatchObject({ authenticated: true, userId: 'user-1' });
+    expect((await authService.authenticate({ type: 'bearer', token: forged })).authenticated).toBe(false);
+    expect((await authService.authenticate({ type: 'bearer', token: unknownIssuer })).authenticated).toBe(false);
+  });
+});
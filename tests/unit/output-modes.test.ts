@@ -0,0 +1,54 @@
+/**
+ * Output Mode Negotiation Tests
+ *
+ * Tests matching acceptedOutputModes against the agent's output modes
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  ContentTypeNotSupportedError,
+  assertAcceptedOutputModes,
+  matchesOutputMode
+} from '../../src/server/output-modes';
+
+describe('matchesOutputMode', () => {
+  it('should match identical media types', () => {
+    expect(matchesOutputMode('text/plain', 'text/plain')).toBe(true);
+    expect(matchesOutputMode('application/json', 'text/plain')).toBe(false);
+  });
+
+  it('should ignore case and parameters', () => {
+    expect(matchesOutputMode('Text/Plain; charset=utf-8', 'text/plain')).toBe(true);
+  });
+
+  it('should support wildcards', () => {
+    expect(matchesOutputMode('text/*', 'text/markdown')).toBe(true);
+    expect(matchesOutputMode('*/*', 'image/png')).toBe(true);
+    expect(matchesOutputMode('image/*', 'text/plain')).toBe(false);
+  });
+});
+
+describe('assertAcceptedOutputModes', () => {
+  it('should accept anything when no modes are given', () => {
+    expect(() => assertAcceptedOutputModes(undefined, ['text/plain'])).not.toThrow();
+    expect(() => assertAcceptedOutputModes([], ['text/plain'])).not.toThrow();
+  });
+
+  it('should accept when at least one mode overlaps', () => {
+    expect(() =>
+      assertAcceptedOutputModes(['application/json', 'text/plain'], ['text/plain'])
+    ).not.toThrow();
+  });
+
+  it('should throw ContentTypeNotSupportedError when nothing overlaps', () => {
+    try {
+      assertAcceptedOutputModes(['image/png'], ['text/plain']);
+      expect.fail('should have thrown');
+    } catch (error: any) {
+      expect(error).toBeInstanceOf(ContentTypeNotSupportedError);
+      expect(error.code).toBe('CONTENT_TYPE_NOT_SUPPORTED');
+      expect(error.acceptedOutputModes).toEqual(['image/png']);
+      expect(error.agentOutputModes).toEqual(['text/plain']);
+    }
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Platform Adapter Unit Tests
+ *
+ * Tests the runtime-agnostic crypto, events and logging adapters against
+ * the Node implementations they replace
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createHash, createHmac, randomBytes } from 'crypto';
+import {
+  fromBase64Url,
+  hmacSha256,
+  sha256,
+  timingSafeEqual,
+  toBase64Url,
+  toHex
+} from '../../src/shared/platform/crypto';
+import { EventEmitter } from '../../src/shared/platform/events';
+import { createConsoleLogger, createLogger, setLoggerFactory, type Logger } from '../../src/shared/logger';
+
+describe('crypto adapter', () => {
+  it('should match Node for SHA-256 and HMAC-SHA256', async () => {
+    // Lengths around the 55/56 and 64 byte padding boundaries
+    for (const length of [0, 1, 55, 56, 63, 64, 65, 1000]) {
+      const data = randomBytes(length);
+      expect(toHex(await sha256(data))).toBe(createHash('sha256').update(data).digest('hex'));
+
+      for (const key of [randomBytes(16), randomBytes(100)]) {
+        expect(toHex(await hmacSha256(key, data))).toBe(createHmac('sha256', key).update(data).digest('hex'));
+      }
+    }
+  });
+
+  it('should round-trip base64url like Node', () => {
+    const data = randomBytes(33);
+
+    expect(toBase64Url(data)).toBe(data.toString('base64url'));
+    expect(Buffer.from(fromBase64Url(toBase64Url(data))).equals(data)).toBe(true);
+  });
+
+  it('should compare byte arrays', () => {
+    expect(timingSafeEqual(new Uint8Array([1, 2]), new Uint8Array([1, 2]))).toBe(true);
+    expect(timingSafeEqual(new Uint8Array([1, 2]), new Uint8Array([1, 3]))).toBe(false);
+    expect(timingSafeEqual(new Uint8Array([1]), new Uint8Array([1, 2]))).toBe(false);
+  });
+});
+
+describe('EventEmitter adapter', () => {
+  it('should call listeners in order and remove them', () => {
+    const emitter = new EventEmitter();
+    const calls: string[] = [];
+    const first = (value: string) => calls.push(`first:${value}`);
+    emitter.on('update', first);
+    emitter.once('update', (value: string) => calls.push(`once:${value}`));
+
+    expect(emitter.emit('update', 'a')).toBe(true);
+    emitter.off('update', first);
+    expect(emitter.emit('update', 'b')).toBe(false);
+
+    expect(calls).toEqual(['first:a', 'once:a']);
+  });
+});
+
+describe('logger', () => {
+  afterEach(() => {
+    setLoggerFactory((name) => createConsoleLogger({ name }, process.env.LOG_LEVEL));
+  });
+
+  it('should send existing loggers to a newly installed backend', () => {
+    const log = createLogger('test');
+    const info = vi.fn();
+    setLoggerFactory(() => ({ info } as unknown as Logger));
+
+    log.info({ taskId: 't1' }, 'Task created');
+
+    expect(info).toHaveBeenCalledWith({ taskId: 't1' }, 'Task created');
+  });
+});
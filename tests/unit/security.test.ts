@@ -3,7 +3,8 @@
  */
 
 import { describe, it, expect, beforeEach } from 'vitest';
-import { RateLimiter, RateLimitError } from '../../src/server/rate-limiter';
+import { RateLimiter } from '../../src/server/rate-limiter';
+import { RateLimitedError } from '../../src/shared/errors';
 import { InputSanitizer } from '../../src/server/input-sanitizer';
 import { createTestMessage, wait } from '../utils';
 
@@ -36,7 +37,7 @@ describe('RateLimiter', () => {
       await rateLimiter.consume('user1');
 
       // Next request should fail
-      await expect(rateLimiter.consume('user1')).rejects.toThrow(RateLimitError);
+      await expect(rateLimiter.consume('user1')).rejects.toThrow(RateLimitedError);
     });
 
     it('should track different users separately', async () => {
@@ -75,7 +76,7 @@ describe('RateLimiter', () => {
         await rateLimiter.consume('user1');
       }
 
-      await expect(rateLimiter.consume('user1')).rejects.toThrow(RateLimitError);
+      await expect(rateLimiter.consume('user1')).rejects.toThrow(RateLimitedError);
 
       expect(rateLimiter.isBlocked('user1')).toBe(true);
     });
@@ -136,7 +137,7 @@ describe('RateLimiter', () => {
         await rateLimiter.consume('user1');
         expect.fail('Should have thrown');
       } catch (error: any) {
-        expect(error).toBeInstanceOf(RateLimitError);
+        expect(error).toBeInstanceOf(RateLimitedError);
         expect(error.retryAfter).toBeGreaterThan(0);
       }
     });
@@ -0,0 +1,100 @@
+/**
+ * SessionStore Unit Tests
+ *
+ * Tests the bundled SessionStore implementations: TTL expiry without
+ * timers, extend and take semantics, and sessions shared between
+ * SessionManagers on one file store
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SessionManager } from '../../src/server/session-manager';
+import { FileSessionStore } from '../../src/server/store/file-session-store';
+import { InMemorySessionStore } from '../../src/server/store/in-memory-session-store';
+import type { Session, SessionStore } from '../../src/server/store/session-store';
+
+const createSession = (id: string, userId: string, ttlMs: number): Session => ({
+  id,
+  userId,
+  permissions: ['read'],
+  createdAt: new Date(),
+  expiresAt: new Date(Date.now() + ttlMs)
+});
+
+describe('SessionStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'a2a-session-store-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const implementations: Array<[string, () => SessionStore]> = [
+    ['InMemorySessionStore', () => new InMemorySessionStore()],
+    ['FileSessionStore', () => new FileSessionStore({ directory: join(dir, 'sessions') })]
+  ];
+
+  for (const [name, createStore] of implementations) {
+    describe(name, () => {
+      it('should treat sessions past their expiry as gone', async () => {
+        const store = createStore();
+        await store.put(createSession('sess_short', 'user-1', 50));
+        await store.put(createSession('sess_long', 'user-1', 60_000));
+
+        expect((await store.get('sess_short'))?.userId).toBe('user-1');
+        await new Promise((resolve) => setTimeout(resolve, 100));
+
+        expect(await store.get('sess_short')).toBeUndefined();
+        expect(await store.extend('sess_short', new Date(Date.now() + 60_000))).toBeUndefined();
+        expect((await store.listByUser('user-1')).map((session) => session.id)).toEqual(['sess_long']);
+        expect(store.size()).toBe(1);
+      });
+
+      it('should extend, take and delete sessions once', async () => {
+        const store = createStore();
+        const expiresAt = new Date(Date.now() + 120_000);
+        await store.put(createSession('sess_a', 'user-1', 60_000));
+        await store.put(createSession('sess_b', 'user-1', 60_000));
+
+        expect((await store.extend('sess_a', expiresAt))?.expiresAt.getTime()).toBe(expiresAt.getTime());
+        expect((await store.get('sess_a'))?.expiresAt.getTime()).toBe(expiresAt.getTime());
+
+        expect((await store.take('sess_a'))?.id).toBe('sess_a');
+        expect(await store.take('sess_a')).toBeUndefined();
+        expect(await store.extend('sess_a', expiresAt)).toBeUndefined();
+
+        expect(await store.delete('sess_b')).toBe(true);
+        expect(await store.delete('sess_b')).toBe(false);
+        expect(store.size()).toBe(0);
+      });
+    });
+  }
+
+  describe('FileSessionStore', () => {
+    it('should share sessions between managers on the same directory', async () => {
+      const directory = join(dir, 'sessions');
+      const first = new SessionManager({ sessionTimeout: 60, store: new FileSessionStore({ directory }) });
+      const second = new SessionManager({ sessionTimeout: 60, store: new FileSessionStore({ directory }) });
+
+      const session = await first.createSession({ userId: 'user-1', permissions: ['read'], metadata: { ipAddress: '10.0.0.1' } });
+      const validated = await second.validateSession(session.id);
+
+      expect(validated).toEqual(session);
+      expect(await second.consumeSession(session.id)).not.toBeNull();
+      expect(await first.validateSession(session.id)).toBeNull();
+      expect(readdirSync(directory)).toEqual([]);
+    });
+
+    it('should reject session IDs that are not file names', async () => {
+      const store = new FileSessionStore({ directory: join(dir, 'sessions') });
+
+      expect(await store.get('../outside')).toBeUndefined();
+      expect(await store.delete('../outside')).toBe(false);
+    });
+  });
+});
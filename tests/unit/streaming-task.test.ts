@@ -0,0 +1,171 @@
+/**
+ * StreamingTask Unit Tests
+ *
+ * Tests per-subscriber queues: isolation of slow callbacks, overflow
+ * policies, retries and delivery metrics
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TaskManager } from '../../src/server/task-manager';
+import { StreamingTask, type StreamingTaskOptions } from '../../src/server/streaming-task';
+import { createTestMessage, waitFor } from '../utils';
+
+/**
+ * Callback that records events and can be paused or made to fail
+ */
+class ControlledCallback {
+  public statusUpdates: any[] = [];
+  public artifactUpdates: any[] = [];
+  public failuresLeft = 0;
+  private gate?: Promise<void>;
+  private openGate?: () => void;
+
+  pause(): void {
+    this.gate = new Promise((resolve) => (this.openGate = resolve));
+  }
+
+  resume(): void {
+    this.openGate?.();
+    this.gate = undefined;
+  }
+
+  async onStatusUpdate(event: any): Promise<void> {
+    await this.gate;
+    if (this.failuresLeft > 0) {
+      this.failuresLeft--;
+      throw new Error('transient failure');
+    }
+    this.statusUpdates.push(event);
+  }
+
+  async onArtifactUpdate(event: any): Promise<void> {
+    this.artifactUpdates.push(event);
+  }
+
+  states(): string[] {
+    return this.statusUpdates.map((e) => e.status.state);
+  }
+}
+
+describe('StreamingTask', () => {
+  let taskManager: TaskManager;
+  let task: any;
+
+  beforeEach(async () => {
+    taskManager = new TaskManager();
+    task = await taskManager.createTask(createTestMessage('Hello'));
+  });
+
+  const stream = (options: StreamingTaskOptions = {}) =>
+    new StreamingTask(task, taskManager, { retryDelayMs: 1, ...options });
+
+  /** Alternate between working and input-required `count` times */
+  const churn = async (count: number) => {
+    for (let i = 0; i < count; i++) {
+      await taskManager.updateTaskStatus(task.id, i % 2 === 0 ? 'input-required' : 'working');
+    }
+  };
+
+  it('should not let a slow subscriber delay the others', async () => {
+    const streamingTask = stream();
+    const slow = new ControlledCallback();
+    const fast = new ControlledCallback();
+    await streamingTask.subscribe(slow);
+    await streamingTask.subscribe(fast);
+
+    slow.pause();
+    await churn(3);
+
+    expect(fast.states()).toEqual(['working', 'input-required', 'working', 'input-required']);
+    expect(slow.states()).toEqual(['working']);
+
+    slow.resume();
+    await waitFor(() => slow.statusUpdates.length === 4, { timeout: 1000 });
+    expect(slow.states()).toEqual(fast.states());
+  });
+
+  it('should drop the oldest events on overflow with drop-oldest', async () => {
+    const streamingTask = stream({ queueSize: 2, overflowPolicy: 'drop-oldest' });
+    const callback = new ControlledCallback();
+    await streamingTask.subscribe(callback);
+
+    callback.pause();
+    await churn(5); // one event in flight, four queued
+    callback.resume();
+    await waitFor(() => streamingTask.getMetrics().subscribers[0].queueDepth === 0, { timeout: 1000 });
+
+    const sequences = callback.statusUpdates.map((e) => e.metadata.sequence);
+    expect(sequences).toEqual([2, 3, 6, 7]);
+    expect(streamingTask.getMetrics().subscribers[0].dropped).toBe(2);
+  });
+
+  it('should coalesce superseded status updates but keep artifacts', async () => {
+    const streamingTask = stream({ queueSize: 2, overflowPolicy: 'coalesce-status' });
+    const callback = new ControlledCallback();
+    await streamingTask.subscribe(callback);
+
+    callback.pause();
+    await taskManager.updateTaskStatus(task.id, 'input-required'); // in flight
+    await taskManager.addArtifact(task.id, { artifactId: 'a1', parts: [] } as any);
+    await churn(3);
+    callback.resume();
+    await waitFor(() => streamingTask.getMetrics().subscribers[0].queueDepth === 0, { timeout: 1000 });
+
+    expect(callback.artifactUpdates.map((e) => e.artifact.artifactId)).toEqual(['a1']);
+    expect(callback.states().at(-1)).toBe('input-required');
+    expect(streamingTask.getMetrics().subscribers[0].coalesced).toBe(2);
+  });
+
+  it('should disconnect subscribers that overflow with disconnect', async () => {
+    const streamingTask = stream({ queueSize: 1, overflowPolicy: 'disconnect' });
+    const slow = new ControlledCallback();
+    const fast = new ControlledCallback();
+    await streamingTask.subscribe(slow);
+    await streamingTask.subscribe(fast);
+
+    slow.pause();
+    await churn(3);
+
+    const metrics = streamingTask.getMetrics();
+    expect(metrics.subscribers).toHaveLength(1);
+    expect(metrics.disconnected).toBe(1);
+    expect(fast.statusUpdates).toHaveLength(4);
+  });
+
+  it('should retry transient callback failures', async () => {
+    const streamingTask = stream({ maxRetries: 3 });
+    const callback = new ControlledCallback();
+    await streamingTask.subscribe(callback);
+
+    callback.failuresLeft = 2;
+    await taskManager.updateTaskStatus(task.id, 'completed');
+    await waitFor(() => callback.statusUpdates.length === 2, { timeout: 1000 });
+
+    expect(callback.states()).toEqual(['working', 'completed']);
+    expect(streamingTask.getMetrics().subscribers[0].retries).toBe(2);
+  });
+
+  it('should unsubscribe callbacks that keep failing', async () => {
+    const streamingTask = stream({ maxRetries: 1 });
+    const callback = new ControlledCallback();
+    await streamingTask.subscribe(callback);
+
+    callback.failuresLeft = 10;
+    await taskManager.updateTaskStatus(task.id, 'input-required');
+    await waitFor(() => streamingTask.getMetrics().disconnected === 1, { timeout: 1000 });
+
+    expect(streamingTask.getMetrics().subscribers).toHaveLength(0);
+  });
+
+  it('should report delivery metrics', async () => {
+    const streamingTask = stream();
+    const callback = new ControlledCallback();
+    await streamingTask.subscribe(callback);
+    await churn(2);
+
+    const [metrics] = streamingTask.getMetrics().subscribers;
+    expect(metrics.delivered).toBe(3);
+    expect(metrics.queueDepth).toBe(0);
+    expect(metrics.lastDeliveredAt).toBeDefined();
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * TaskEventLog Unit Tests
+ *
+ * Tests the bounded per-task event log and the sequence numbers TaskManager
+ * stamps on update events
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TaskEventLog } from '../../src/server/task-event-log';
+import { TaskManager, type TaskUpdateEvent } from '../../src/server/task-manager';
+import { createTestMessage } from '../utils';
+
+const event = (taskId: string, sequence: number): TaskUpdateEvent => ({
+  taskId,
+  sequence,
+  status: { state: 'working', timestamp: new Date().toISOString() } as any
+});
+
+describe('TaskEventLog', () => {
+  it('should return events after a sequence number', () => {
+    const log = new TaskEventLog();
+    for (let i = 1; i <= 5; i++) {
+      log.append(event('task-1', i));
+    }
+    log.append(event('task-2', 1));
+
+    expect(log.after('task-1', 3)!.map(e => e.sequence)).toEqual([4, 5]);
+    expect(log.after('task-1', 0)!.map(e => e.sequence)).toEqual([1, 2, 3, 4, 5]);
+    expect(log.after('task-1', 5)).toEqual([]);
+  });
+
+  it('should evict the oldest events beyond its bound', () => {
+    const log = new TaskEventLog(3);
+    for (let i = 1; i <= 5; i++) {
+      log.append(event('task-1', i));
+    }
+
+    expect(log.after('task-1', 2)!.map(e => e.sequence)).toEqual([3, 4, 5]);
+    // Events 2 and earlier are gone, so replay after 1 is impossible
+    expect(log.after('task-1', 1)).toBeUndefined();
+  });
+
+  it('should evict the least recently updated tasks beyond its bound', () => {
+    const log = new TaskEventLog(10, 2);
+    log.append(event('task-1', 1));
+    log.append(event('task-2', 1));
+    log.append(event('task-1', 2));
+    log.append(event('task-3', 1));
+
+    expect(log.after('task-2', 0)).toBeUndefined();
+    expect(log.after('task-1', 0)!.map(e => e.sequence)).toEqual([1, 2]);
+    expect(log.after('task-3', 0)!.map(e => e.sequence)).toEqual([1]);
+  });
+
+  it('should return undefined for tasks it has no events for', () => {
+    const log = new TaskEventLog();
+
+    expect(log.after('unknown', 0)).toBeUndefined();
+  });
+});
+
+describe('TaskManager event sequence numbers', () => {
+  let taskManager: TaskManager;
+
+  beforeEach(() => {
+    taskManager = new TaskManager(undefined, { eventLogSize: 10 });
+  });
+
+  it('should stamp status and artifact events with increasing sequence numbers', async () => {
+    const events: TaskUpdateEvent[] = [];
+    taskManager.on('task:update', (e: TaskUpdateEvent) => events.push(e));
+
+    const task = await taskManager.createTask(createTestMessage('Hello'));
+    await taskManager.addArtifact(task.id, { artifactId: 'a1', parts: [] } as any);
+    await taskManager.updateTaskStatus(task.id, 'completed');
+
+    expect(events.map(e => e.sequence)).toEqual([1, 2, 3, 4]);
+    expect((await taskManager.getTaskSnapshot(task.id)).sequence).toBe(4);
+  });
+
+  it('should keep sequences separate per task', async () => {
+    const task1 = await taskManager.createTask(createTestMessage('Task 1'));
+    const task2 = await taskManager.createTask(createTestMessage('Task 2'));
+    await taskManager.updateTaskStatus(task1.id, 'completed');
+
+    expect((await taskManager.getTaskSnapshot(task1.id)).sequence).toBe(3);
+    expect((await taskManager.getTaskSnapshot(task2.id)).sequence).toBe(2);
+  });
+
+  it('should replay missed events from the log', async () => {
+    const task = await taskManager.createTask(createTestMessage('Hello'));
+    await taskManager.updateTaskStatus(task.id, 'input-required');
+    await taskManager.updateTaskStatus(task.id, 'working');
+
+    const missed = taskManager.getEventsAfter(task.id, 2)!;
+
+    expect(missed.map(e => e.status.state)).toEqual(['input-required', 'working']);
+  });
+});
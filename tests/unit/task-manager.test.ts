@@ -107,8 +107,9 @@ describe('TaskManager', () => {
       const result = await taskManager.listTasks({});
 
       expect(result.tasks).toHaveLength(3);
-      expect(result.total).toBe(3);
-      expect(result.hasMore).toBe(false);
+      expect(result.totalSize).toBe(3);
+      expect(result.pageSize).toBe(50);
+      expect(result.nextPageToken).toBe('');
     });
 
     it('should filter by contextId', async () => {
@@ -128,9 +129,7 @@ describe('TaskManager', () => {
       await taskManager.createTask(createTestMessage('Task 2'));
       await taskManager.updateTaskStatus(task1.id, 'completed');
 
-      const result = await taskManager.listTasks({
-        filter: { states: ['completed'] }
-      });
+      const result = await taskManager.listTasks({ status: 'completed' as TaskState });
 
       expect(result.tasks).toHaveLength(1);
       expect(result.tasks[0].status.state).toBe('completed');
@@ -142,13 +141,89 @@ describe('TaskManager', () => {
         await taskManager.createTask(createTestMessage(`Task ${i}`));
       }
 
-      const page1 = await taskManager.listTasks({ limit: 5, offset: 0 });
-      const page2 = await taskManager.listTasks({ limit: 5, offset: 5 });
+      const page1 = await taskManager.listTasks({ pageSize: 5 });
+      const page2 = await taskManager.listTasks({ pageSize: 5, pageToken: page1.nextPageToken });
 
       expect(page1.tasks).toHaveLength(5);
-      expect(page1.hasMore).toBe(true);
+      expect(page1.nextPageToken).not.toBe('');
       expect(page2.tasks).toHaveLength(5);
-      expect(page2.hasMore).toBe(false);
+      expect(page2.nextPageToken).toBe('');
+
+      const ids = [...page1.tasks, ...page2.tasks].map(t => t.id);
+      expect(new Set(ids).size).toBe(10);
+    });
+
+    it('should keep pages stable when tasks are inserted between requests', async () => {
+      for (let i = 0; i < 6; i++) {
+        await taskManager.createTask(createTestMessage(`Task ${i}`));
+      }
+
+      const page1 = await taskManager.listTasks({ pageSize: 3 });
+      await taskManager.createTask(createTestMessage('Inserted while paging'));
+      const page2 = await taskManager.listTasks({ pageSize: 3, pageToken: page1.nextPageToken });
+
+      const ids = [...page1.tasks, ...page2.tasks].map(t => t.id);
+      expect(new Set(ids).size).toBe(6);
+      expect(page2.nextPageToken).toBe('');
+    });
+
+    it('should reject a tampered page token', async () => {
+      for (let i = 0; i < 3; i++) {
+        await taskManager.createTask(createTestMessage(`Task ${i}`));
+      }
+      const page1 = await taskManager.listTasks({ pageSize: 1 });
+      const [body, signature] = page1.nextPageToken.split('.');
+      const tampered = `${body}.${signature.slice(0, -2)}xx`;
+
+      await expect(
+        taskManager.listTasks({ pageSize: 1, pageToken: tampered })
+      ).rejects.toThrow('Invalid page token signature');
+    });
+
+    it('should reject a page token reused with different filters', async () => {
+      for (let i = 0; i < 3; i++) {
+        await taskManager.createTask(createTestMessage(`Task ${i}`, { contextId: 'ctx' }));
+      }
+      const page1 = await taskManager.listTasks({ pageSize: 1, contextId: 'ctx' });
+
+      await expect(
+        taskManager.listTasks({ pageSize: 1, contextId: 'other', pageToken: page1.nextPageToken })
+      ).rejects.toThrow('does not match');
+    });
+
+    it('should reject an out of range pageSize', async () => {
+      await expect(taskManager.listTasks({ pageSize: 0 })).rejects.toThrow('pageSize');
+      await expect(taskManager.listTasks({ pageSize: 101 })).rejects.toThrow('pageSize');
+    });
+
+    it('should trim history and drop artifacts unless requested', async () => {
+      const task = await taskManager.createTask(createTestMessage('Task'));
+      await taskManager.addMessageToHistory(task.id, createTestMessage('Second'));
+      await taskManager.addArtifact(task.id, {
+        artifactId: 'a1',
+        parts: [{ kind: 'text' as const, text: 'Content' }]
+      } as any);
+
+      const trimmed = await taskManager.listTasks({ historyLength: 1 });
+      const full = await taskManager.listTasks({ includeArtifacts: true });
+
+      expect(trimmed.tasks[0].history).toHaveLength(1);
+      expect(trimmed.tasks[0].artifacts).toEqual([]);
+      expect(full.tasks[0].history).toHaveLength(2);
+      expect(full.tasks[0].artifacts).toHaveLength(1);
+    });
+
+    it('should filter by lastUpdatedAfter', async () => {
+      const old = await taskManager.createTask(createTestMessage('Old'));
+      await new Promise(resolve => setTimeout(resolve, 5));
+      const since = String(Date.now());
+      await new Promise(resolve => setTimeout(resolve, 5));
+      const recent = await taskManager.createTask(createTestMessage('Recent'));
+
+      const result = await taskManager.listTasks({ lastUpdatedAfter: since });
+
+      expect(result.tasks.map(t => t.id)).toEqual([recent.id]);
+      expect(result.tasks.map(t => t.id)).not.toContain(old.id);
     });
   });
 
@@ -253,7 +328,7 @@ describe('TaskManager', () => {
         updates.push(event);
       });
 
-      await taskManager.updateTaskStatus(task.id, 'completed');
+      await taskManager.updateTaskStatus(task.id, 'input-required');
 
       await waitFor(() => updates.length > 0, { timeout: 1000 });
       expect(updates.length).toBeGreaterThan(0);
@@ -269,6 +344,87 @@ describe('TaskManager', () => {
     });
   });
 
+  describe('push notification configs', () => {
+    const webhook = (id: string) => ({
+      id,
+      url: `https://hooks.example.com/${id}`,
+      token: `token-${id}`,
+      authentication: undefined
+    });
+
+    it('should store the config passed at creation as the first webhook', async () => {
+      const task = await taskManager.createTask(createTestMessage('Hello'), {
+        notificationConfig: webhook('initial'),
+        userId: 'user-1'
+      });
+
+      const { configs } = await taskManager.listPushNotificationConfigs(task.id);
+      expect(configs.map(c => c.id)).toEqual(['initial']);
+      expect(task.metadata).toEqual({ userId: 'user-1' });
+    });
+
+    it('should add, replace and delete configs', async () => {
+      const task = await taskManager.createTask(createTestMessage('Hello'));
+
+      await taskManager.setPushNotificationConfig(task.id, webhook('a'));
+      await taskManager.setPushNotificationConfig(task.id, webhook('b'));
+      await taskManager.setPushNotificationConfig(task.id, { ...webhook('a'), token: 'rotated' });
+
+      expect((await taskManager.getPushNotificationConfig(task.id, 'a')).token).toBe('rotated');
+      expect((await taskManager.listPushNotificationConfigs(task.id)).configs.map(c => c.id)).toEqual(['a', 'b']);
+
+      await taskManager.deletePushNotificationConfig(task.id, 'a');
+
+      await expect(taskManager.getPushNotificationConfig(task.id, 'a')).rejects.toMatchObject({ code: 'NOT_FOUND' });
+      await expect(taskManager.deletePushNotificationConfig(task.id, 'a')).rejects.toMatchObject({ code: 'NOT_FOUND' });
+    });
+
+    it('should assign an ID when none is given', async () => {
+      const task = await taskManager.createTask(createTestMessage('Hello'));
+
+      const stored = await taskManager.setPushNotificationConfig(task.id, webhook(''));
+
+      expect(stored.id).toBeTruthy();
+    });
+
+    it('should paginate configs', async () => {
+      const task = await taskManager.createTask(createTestMessage('Hello'));
+      for (const id of ['a', 'b', 'c', 'd', 'e']) {
+        await taskManager.setPushNotificationConfig(task.id, webhook(id));
+      }
+
+      const page1 = await taskManager.listPushNotificationConfigs(task.id, 2);
+      // Deleting an already returned config must not shift later pages
+      await taskManager.deletePushNotificationConfig(task.id, 'b');
+      const page2 = await taskManager.listPushNotificationConfigs(task.id, 2, page1.nextPageToken);
+      const page3 = await taskManager.listPushNotificationConfigs(task.id, 2, page2.nextPageToken);
+
+      expect(page1.configs.map(c => c.id)).toEqual(['a', 'b']);
+      expect(page2.configs.map(c => c.id)).toEqual(['c', 'd']);
+      expect(page3.configs.map(c => c.id)).toEqual(['e']);
+      expect(page3.nextPageToken).toBe('');
+    });
+
+    it('should reject page tokens from another task', async () => {
+      const task1 = await taskManager.createTask(createTestMessage('Task 1'));
+      const task2 = await taskManager.createTask(createTestMessage('Task 2'));
+      await taskManager.setPushNotificationConfig(task1.id, webhook('a'));
+      await taskManager.setPushNotificationConfig(task1.id, webhook('b'));
+
+      const page = await taskManager.listPushNotificationConfigs(task1.id, 1);
+
+      await expect(
+        taskManager.listPushNotificationConfigs(task2.id, 1, page.nextPageToken)
+      ).rejects.toMatchObject({ code: 'INVALID_PARAMS' });
+    });
+
+    it('should throw for unknown tasks', async () => {
+      await expect(
+        taskManager.setPushNotificationConfig('missing', webhook('a'))
+      ).rejects.toMatchObject({ code: 'TASK_NOT_FOUND' });
+    });
+  });
+
   describe('getTaskCount', () => {
     it('should return correct task count', async () => {
       expect(taskManager.getTaskCount()).toBe(0);
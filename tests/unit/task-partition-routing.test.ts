@@ -0,0 +1,80 @@
+/**
+ * Task Partition Routing Unit Tests
+ *
+ * Tests how the Workers deployment picks the partition of a request from
+ * the task or context it names
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createHash } from 'crypto';
+import {
+  assertInPartition,
+  assignContextId,
+  partitionOfTaskId,
+  partitionTaskId,
+  routeJsonRpc
+} from '../../src/server/task-partition-routing';
+import { InvalidRequestError, TaskNotFoundError, UnsupportedOperationError } from '../../src/shared/errors';
+
+const idFromName = (name: string) => createHash('sha256').update(name).digest('hex');
+
+describe('task partition routing', () => {
+  const partition = idFromName('ctx-1');
+
+  it('should recover the partition from a task ID', () => {
+    expect(partitionOfTaskId(partitionTaskId(partition, 'abc'))).toBe(partition);
+    expect(partitionOfTaskId('abc')).toBeUndefined();
+  });
+
+  it('should route by task ID before context ID', () => {
+    const other = idFromName('ctx-2');
+    const route = routeJsonRpc(
+      { jsonrpc: '2.0', id: 1, method: 'tasks/get', params: { id: partitionTaskId(other, 'abc'), contextId: 'ctx-1' } },
+      idFromName
+    );
+
+    expect(route).toEqual({ partitionId: other });
+  });
+
+  it('should route messages by their context', () => {
+    const route = routeJsonRpc(
+      { jsonrpc: '2.0', id: 1, method: 'message/send', params: { message: { messageId: 'm1', contextId: 'ctx-1' } } },
+      idFromName
+    );
+
+    expect(route).toEqual({ partitionId: partition, contextId: 'ctx-1' });
+  });
+
+  it('should start a new context for messages without one', () => {
+    const request = { jsonrpc: '2.0', id: 1, method: 'message/send', params: { message: { messageId: 'm1' } as any } };
+    const route = routeJsonRpc(request, idFromName);
+
+    expect(request.params.message.contextId).toBeTruthy();
+    expect(route).toEqual({ partitionId: idFromName(request.params.message.contextId), contextId: request.params.message.contextId });
+  });
+
+  it('should reject requests it cannot route', () => {
+    expect(() => routeJsonRpc({ jsonrpc: '2.0', id: 1, method: 'tasks/get', params: { id: 'abc' } }, idFromName))
+      .toThrow(TaskNotFoundError);
+    expect(() => routeJsonRpc({ jsonrpc: '2.0', id: 1, method: 'tasks/list', params: {} }, idFromName))
+      .toThrow(UnsupportedOperationError);
+  });
+
+  it('should keep a batch in one partition', () => {
+    const get = (contextId: string) => ({ jsonrpc: '2.0', id: contextId, method: 'tasks/list', params: { contextId } });
+
+    expect(routeJsonRpc([get('ctx-1'), get('ctx-1')], idFromName).partitionId).toBe(partition);
+    expect(() => routeJsonRpc([get('ctx-1'), get('ctx-2')], idFromName)).toThrow(InvalidRequestError);
+  });
+
+  it('should keep messages received by a partition in its context', () => {
+    const request = { jsonrpc: '2.0', id: 1, method: 'message/send', params: { message: { messageId: 'm1' } as any } };
+
+    assignContextId(request, 'ctx-1');
+    expect(request.params.message.contextId).toBe('ctx-1');
+    expect(() => assertInPartition(request, partition, idFromName)).not.toThrow();
+
+    request.params.message.contextId = 'ctx-2';
+    expect(() => assertInPartition(request, partition, idFromName)).toThrow(InvalidRequestError);
+  });
+});
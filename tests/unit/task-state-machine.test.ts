@@ -0,0 +1,144 @@
+/**
+ * Task State Machine Tests
+ *
+ * Tests the transition table, rejection of illegal transitions and the
+ * per-task transition log kept by TaskManager
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TaskManager } from '../../src/server/task-manager';
+import {
+  canTransition,
+  canonicalState,
+  InvalidStateTransitionError,
+  isInterruptedState,
+  isTerminalState
+} from '../../src/server/task-state-machine';
+import { createTestMessage } from '../utils';
+
+describe('Task State Machine', () => {
+  describe('canonicalState', () => {
+    it('should resolve JSON, proto enum and proto JSON names', () => {
+      expect(canonicalState('working' as any)).toBe('working');
+      expect(canonicalState(2 as any)).toBe('working');
+      expect(canonicalState('TASK_STATE_INPUT_REQUIRED' as any)).toBe('input-required');
+      expect(canonicalState(5 as any)).toBe('canceled');
+      expect(canonicalState(0 as any)).toBeUndefined();
+    });
+  });
+
+  describe('canTransition', () => {
+    it.each([
+      ['submitted', 'working'],
+      ['working', 'input-required'],
+      ['working', 'auth-required'],
+      ['input-required', 'working'],
+      ['auth-required', 'working'],
+      ['working', 'completed'],
+      ['working', 'failed'],
+      ['working', 'canceled'],
+      ['submitted', 'rejected'],
+      ['working', 'working']
+    ])('should allow %s -> %s', (from, to) => {
+      expect(canTransition(from as any, to as any)).toBe(true);
+    });
+
+    it.each([
+      ['completed', 'working'],
+      ['canceled', 'completed'],
+      ['failed', 'working'],
+      ['rejected', 'submitted'],
+      ['submitted', 'completed'],
+      ['input-required', 'completed'],
+      ['working', 'submitted']
+    ])('should reject %s -> %s', (from, to) => {
+      expect(canTransition(from as any, to as any)).toBe(false);
+    });
+
+    it('should compare enum and string states', () => {
+      expect(canTransition('working' as any, 3 as any)).toBe(true);
+      expect(canTransition(3 as any, 'working' as any)).toBe(false);
+    });
+  });
+
+  it('should classify terminal and interrupted states', () => {
+    expect(isTerminalState('completed' as any)).toBe(true);
+    expect(isTerminalState(7 as any)).toBe(true);
+    expect(isTerminalState('input-required' as any)).toBe(false);
+    expect(isInterruptedState('auth-required' as any)).toBe(true);
+    expect(isInterruptedState('working' as any)).toBe(false);
+  });
+
+  describe('TaskManager enforcement', () => {
+    let taskManager: TaskManager;
+
+    beforeEach(() => {
+      taskManager = new TaskManager();
+    });
+
+    it('should reject moving a completed task back to working', async () => {
+      const task = await taskManager.createTask(createTestMessage('Test'));
+      await taskManager.updateTaskStatus(task.id, 'completed');
+
+      await expect(
+        taskManager.updateTaskStatus(task.id, 'working')
+      ).rejects.toBeInstanceOf(InvalidStateTransitionError);
+
+      const unchanged = await taskManager.getTask(task.id);
+      expect(unchanged.status.state).toBe('completed');
+    });
+
+    it('should expose the error code and states on rejection', async () => {
+      const task = await taskManager.createTask(createTestMessage('Test'));
+      await taskManager.updateTaskStatus(task.id, 'failed');
+
+      const error = await taskManager
+        .updateTaskStatus(task.id, 'completed')
+        .catch((err) => err);
+
+      expect(error.code).toBe('INVALID_STATE_TRANSITION');
+      expect(error.taskId).toBe(task.id);
+      expect(error.from).toBe('failed');
+      expect(error.to).toBe('completed');
+    });
+
+    it('should not emit an update for a rejected transition', async () => {
+      const task = await taskManager.createTask(createTestMessage('Test'));
+      await taskManager.updateTaskStatus(task.id, 'canceled');
+      const events: any[] = [];
+      taskManager.on('task:update', (event) => events.push(event));
+
+      await expect(taskManager.updateTaskStatus(task.id, 'working')).rejects.toThrow();
+
+      expect(events).toHaveLength(0);
+    });
+
+    it('should record the full lifecycle in the transition log', async () => {
+      const task = await taskManager.createTask(createTestMessage('Test'));
+      await taskManager.updateTaskStatus(task.id, 'input-required');
+      await taskManager.updateTaskStatus(task.id, 'working');
+      await taskManager.updateTaskStatus(task.id, 'completed', createTestMessage('Done', { messageId: 'msg-done' }));
+
+      const transitions = await taskManager.getStateTransitions(task.id);
+
+      expect(transitions.map((t) => [t.from, t.to])).toEqual([
+        [undefined, 'submitted'],
+        ['submitted', 'working'],
+        ['working', 'input-required'],
+        ['input-required', 'working'],
+        ['working', 'completed']
+      ]);
+      expect(transitions[4].messageId).toBe('msg-done');
+      expect(transitions.every((t) => typeof t.timestamp === 'string')).toBe(true);
+    });
+
+    it('should keep the transition log out of getTask', async () => {
+      const task = await taskManager.createTask(createTestMessage('Test'));
+
+      const retrieved = await taskManager.getTask(task.id);
+
+      expect(retrieved).not.toHaveProperty('stateTransitions');
+      expect(await taskManager.getStateTransitions(task.id)).toHaveLength(2);
+    });
+  });
+});
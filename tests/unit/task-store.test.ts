@@ -0,0 +1,195 @@
+/**
+ * TaskStore Unit Tests
+ *
+ * Tests the bundled TaskStore implementations and that TaskManager state
+ * survives a restart when backed by a file store
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, appendFileSync } from 'fs';
+import { createRequire } from 'module';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { TaskManager } from '../../src/server/task-manager';
+import { InMemoryTaskStore } from '../../src/server/store/in-memory-task-store';
+import { JsonlTaskStore } from '../../src/server/store/jsonl-task-store';
+import { SqliteTaskStore } from '../../src/server/store/sqlite-task-store';
+import type { TaskStore } from '../../src/server/store/task-store';
+import { createTestMessage } from '../utils';
+
+const hasNodeSqlite = (() => {
+  try {
+    createRequire(import.meta.url)('node:sqlite');
+    return true;
+  } catch {
+    return false;
+  }
+})();
+
+describe('TaskStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'a2a-task-store-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  const implementations: Array<[string, () => TaskStore, boolean]> = [
+    ['InMemoryTaskStore', () => new InMemoryTaskStore(), true],
+    ['JsonlTaskStore', () => new JsonlTaskStore({ filename: join(dir, 'tasks.jsonl') }), true],
+    ['SqliteTaskStore', () => new SqliteTaskStore({ filename: join(dir, 'tasks.db') }), hasNodeSqlite]
+  ];
+
+  for (const [name, createStore, supported] of implementations) {
+    describe.runIf(supported)(name, () => {
+      it('should store and retrieve tasks through TaskManager', async () => {
+        const taskManager = new TaskManager(createStore());
+        const task = await taskManager.createTask(createTestMessage('Hello'));
+
+        const retrieved = await taskManager.getTask(task.id);
+
+        expect(retrieved.id).toBe(task.id);
+        expect(retrieved.status.state).toBe('working');
+        expect(taskManager.getTaskCount()).toBe(1);
+      });
+
+      it('should keep concurrent updates of one task', async () => {
+        const taskManager = new TaskManager(createStore());
+        const task = await taskManager.createTask(createTestMessage('Hello'));
+
+        await Promise.all([
+          taskManager.addMessageToHistory(task.id, createTestMessage('One')),
+          taskManager.addMessageToHistory(task.id, createTestMessage('Two')),
+          taskManager.addArtifact(task.id, { artifactId: 'a1', name: '', description: '', parts: [], metadata: undefined, extensions: [] }),
+          taskManager.updateTaskStatus(task.id, 'completed')
+        ]);
+
+        const retrieved = await taskManager.getTask(task.id);
+        expect(retrieved.history).toHaveLength(3);
+        expect(retrieved.artifacts).toHaveLength(1);
+        expect(retrieved.status.state).toBe('completed');
+      });
+
+      it('should delete and clear tasks', async () => {
+        const store = createStore();
+        const taskManager = new TaskManager(store);
+        const task1 = await taskManager.createTask(createTestMessage('Task 1'));
+        await taskManager.createTask(createTestMessage('Task 2'));
+
+        expect(await store.delete(task1.id)).toBe(true);
+        expect(await store.delete(task1.id)).toBe(false);
+        expect(store.size()).toBe(1);
+
+        taskManager.clearAllTasks();
+
+        expect(store.size()).toBe(0);
+        expect(await store.list()).toEqual([]);
+      });
+    });
+  }
+
+  describe('JsonlTaskStore', () => {
+    it('should restore tasks, history, artifacts and tool calls after restart', async () => {
+      const filename = join(dir, 'tasks.jsonl');
+      const taskManager = new TaskManager(new JsonlTaskStore({ filename }));
+
+      const task = await taskManager.createTask(createTestMessage('Persist me'), { userId: 'user1' });
+      await taskManager.addMessageToHistory(task.id, createTestMessage('Second message'));
+      await taskManager.addArtifact(task.id, {
+        artifactId: 'artifact-1',
+        name: 'Result',
+        parts: [{ kind: 'text' as const, text: 'Artifact content' }]
+      } as any);
+      await taskManager.addToolCall(task.id, {
+        callId: 'call-1',
+        name: 'calculator',
+        input: { a: 1 },
+        status: 'validating',
+        timestamp: new Date().toISOString()
+      } as any);
+      await taskManager.updateToolCall(task.id, 'call-1', {
+        callId: 'call-1',
+        name: 'calculator',
+        input: { a: 1 },
+        status: 'success',
+        result: 1,
+        timestamp: new Date().toISOString()
+      } as any);
+      await taskManager.updateTaskStatus(task.id, 'completed');
+
+      // Simulate a restart with a fresh store over the same file
+      const restarted = new TaskManager(new JsonlTaskStore({ filename }));
+      const restored = await restarted.getTask(task.id);
+
+      expect(restarted.getTaskCount()).toBe(1);
+      expect(restored.status.state).toBe('completed');
+      expect(restored.metadata).toEqual({ userId: 'user1' });
+      expect(restored.history).toHaveLength(2);
+      expect(restored.artifacts).toHaveLength(1);
+      expect(await restarted.getToolCalls(task.id)).toEqual([
+        expect.objectContaining({ callId: 'call-1', status: 'success' })
+      ]);
+    });
+
+    it('should append one record per write', async () => {
+      const filename = join(dir, 'tasks.jsonl');
+      const taskManager = new TaskManager(new JsonlTaskStore({ filename }));
+
+      await taskManager.createTask(createTestMessage('Test'));
+
+      const records = readFileSync(filename, 'utf8').trim().split('\n').map((line) => JSON.parse(line));
+      // Initial put + submitted->working status put
+      expect(records).toHaveLength(2);
+      expect(records.every((r) => r.op === 'put')).toBe(true);
+      expect(records[1].task.status.state).toBe('working');
+    });
+
+    it('should skip a torn trailing line', async () => {
+      const filename = join(dir, 'tasks.jsonl');
+      const taskManager = new TaskManager(new JsonlTaskStore({ filename }));
+      const task = await taskManager.createTask(createTestMessage('Test'));
+      appendFileSync(filename, '{"op":"put","task":{"id":');
+
+      const store = new JsonlTaskStore({ filename });
+
+      expect(store.size()).toBe(1);
+      expect((await store.get(task.id))?.id).toBe(task.id);
+    });
+
+    it('should compact the log to one record per task', async () => {
+      const filename = join(dir, 'tasks.jsonl');
+      const store = new JsonlTaskStore({ filename });
+      const taskManager = new TaskManager(store);
+      const task = await taskManager.createTask(createTestMessage('Test'));
+      await taskManager.updateTaskStatus(task.id, 'completed');
+
+      store.compact();
+
+      const lines = readFileSync(filename, 'utf8').trim().split('\n');
+      expect(lines).toHaveLength(1);
+      const reopened = new JsonlTaskStore({ filename });
+      expect((await reopened.get(task.id))?.status.state).toBe('completed');
+    });
+  });
+
+  describe.runIf(hasNodeSqlite)('SqliteTaskStore', () => {
+    it('should restore tasks after restart', async () => {
+      const filename = join(dir, 'tasks.db');
+      const store = new SqliteTaskStore({ filename });
+      const taskManager = new TaskManager(store);
+      const task = await taskManager.createTask(createTestMessage('Persist me'));
+      await taskManager.updateTaskStatus(task.id, 'completed');
+      store.close();
+
+      const reopened = new SqliteTaskStore({ filename });
+      const restored = await new TaskManager(reopened).getTask(task.id);
+
+      expect(restored.status.state).toBe('completed');
+      expect(restored.history).toHaveLength(1);
+      reopened.close();
+    });
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * In-process Durable Object, KV and WebSocketPair mocks
+ *
+ * Enough of the Workers runtime to run TaskPartition objects in Node
+ * without Miniflare: storage, the WebSocket hibernation API and a
+ * namespace that can evict instances.
+ */
+
+import { createHash } from 'crypto';
+
+/**
+ * In-memory Durable Object storage
+ *
+ * Values are cloned on the way in and out, like the real storage API.
+ */
+export class MockDurableObjectStorage {
+  readonly data = new Map<string, unknown>();
+
+  async get<T>(key: string): Promise<T | undefined> {
+    return this.data.has(key) ? structuredClone(this.data.get(key) as T) : undefined;
+  }
+
+  async put(key: string, value: unknown): Promise<void> {
+    this.data.set(key, structuredClone(value));
+  }
+
+  async delete(keys: string | string[]): Promise<boolean | number> {
+    if (Array.isArray(keys)) {
+      return keys.filter((key) => this.data.delete(key)).length;
+    }
+    return this.data.delete(keys);
+  }
+
+  async list<T>(options: { prefix?: string } = {}): Promise<Map<string, T>> {
+    const entries = Array.from(this.data.entries())
+      .filter(([key]) => key.startsWith(options.prefix ?? ''))
+      .sort(([a], [b]) => a.localeCompare(b));
+    return new Map(entries.map(([key, value]) => [key, structuredClone(value as T)]));
+  }
+}
+
+/**
+ * In-memory KV namespace (text values only)
+ *
+ * Keys past their `expiration` read as missing, like the real KV.
+ */
+export class MockKVNamespace {
+  readonly data = new Map<string, { value: string; expiration?: number }>();
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.data.get(key);
+    if (!entry || (entry.expiration && entry.expiration * 1000 <= Date.now())) {
+      return null;
+    }
+    return entry.value;
+  }
+
+  async put(key: string, value: string, options: { expiration?: number } = {}): Promise<void> {
+    this.data.set(key, { value, expiration: options.expiration });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.data.delete(key);
+  }
+
+  async list(options: { prefix?: string } = {}) {
+    const names = Array.from(this.data.keys()).filter((key) => key.startsWith(options.prefix ?? ''));
+    const live = [];
+    for (const name of names.sort()) {
+      if ((await this.get(name)) !== null) {
+        live.push({ name, expiration: this.data.get(name)!.expiration });
+      }
+    }
+    return { keys: live, list_complete: true, cursor: '' };
+  }
+}
+
+/**
+ * One end of a WebSocketPair, with the hibernation attachment API
+ *
+ * Messages sent on one end are recorded in `received` of the other.
+ */
+export class MockWebSocket {
+  peer?: MockWebSocket;
+  readonly received: string[] = [];
+  closed = false;
+  private attachment: unknown;
+
+  send(message: string) {
+    if (this.closed) {
+      throw new Error('WebSocket is closed');
+    }
+    this.peer?.received.push(message);
+  }
+
+  close() {
+    this.closed = true;
+  }
+
+  serializeAttachment(value: unknown) {
+    this.attachment = structuredClone(value);
+  }
+
+  deserializeAttachment(): unknown {
+    return structuredClone(this.attachment);
+  }
+
+  /** Parsed messages received so far */
+  messages(): any[] {
+    return this.received.map((message) => JSON.parse(message));
+  }
+}
+
+export class MockDurableObjectId {
+  constructor(private readonly hex: string) {}
+
+  toString(): string {
+    return this.hex;
+  }
+
+  equals(other: MockDurableObjectId): boolean {
+    return other.hex === this.hex;
+  }
+}
+
+/**
+ * Durable Object state with the WebSocket hibernation API
+ *
+ * Storage and accepted sockets belong to the state, so they survive an
+ * eviction of the object instance.
+ */
+export class MockDurableObjectState {
+  readonly storage = new MockDurableObjectStorage();
+  private readonly sockets: MockWebSocket[] = [];
+  private ready: Promise<unknown> = Promise.resolve();
+
+  constructor(readonly id: MockDurableObjectId) {}
+
+  blockConcurrencyWhile<T>(callback: () => Promise<T>): Promise<T> {
+    const result = callback();
+    this.ready = result.catch(() => undefined);
+    return result;
+  }
+
+  /** Resolves once the object finished its blockConcurrencyWhile() work */
+  waitUntilReady(): Promise<unknown> {
+    return this.ready;
+  }
+
+  acceptWebSocket(ws: MockWebSocket) {
+    this.sockets.push(ws);
+  }
+
+  getWebSockets(): MockWebSocket[] {
+    return this.sockets.filter((ws) => !ws.closed);
+  }
+}
+
+/**
+ * Durable Object namespace that runs objects in-process
+ *
+ * `evict()` drops an object instance but keeps its state, the way the
+ * runtime does when a hibernating object leaves memory.
+ */
+export class MockDurableObjectNamespace<T extends { fetch(request: Request): Promise<Response> }> {
+  private readonly states = new Map<string, MockDurableObjectState>();
+  private readonly instances = new Map<string, T>();
+
+  constructor(private readonly create: (state: MockDurableObjectState) => T) {}
+
+  idFromName(name: string): MockDurableObjectId {
+    return new MockDurableObjectId(createHash('sha256').update(name).digest('hex'));
+  }
+
+  idFromString(hex: string): MockDurableObjectId {
+    if (!/^[0-9a-f]{64}$/.test(hex)) {
+      throw new TypeError('Invalid Durable Object ID');
+    }
+    return new MockDurableObjectId(hex);
+  }
+
+  get(id: MockDurableObjectId) {
+    return {
+      fetch: async (request: Request) => {
+        const instance = await this.instance(id);
+        return instance.fetch(request);
+      }
+    };
+  }
+
+  /** The live instance of an object, created (or woken up) on demand */
+  async instance(id: MockDurableObjectId): Promise<T> {
+    const key = id.toString();
+    let state = this.states.get(key);
+    if (!state) {
+      state = new MockDurableObjectState(id);
+      this.states.set(key, state);
+    }
+
+    let instance = this.instances.get(key);
+    if (!instance) {
+      instance = this.create(state);
+      this.instances.set(key, instance);
+    }
+    await state.waitUntilReady();
+    return instance;
+  }
+
+  state(id: MockDurableObjectId): MockDurableObjectState | undefined {
+    return this.states.get(id.toString());
+  }
+
+  evict(id: MockDurableObjectId) {
+    this.instances.delete(id.toString());
+  }
+}
+
+/**
+ * Install the Durable Object globals the Workers code uses:
+ * `WebSocketPair`, and `Response` accepting `status: 101` with `webSocket`
+ */
+export function setupDurableObjectGlobals() {
+  (globalThis as any).WebSocketPair = class {
+    0: MockWebSocket;
+    1: MockWebSocket;
+
+    constructor() {
+      this[0] = new MockWebSocket();
+      this[1] = new MockWebSocket();
+      this[0].peer = this[1];
+      this[1].peer = this[0];
+    }
+  };
+
+  const FetchResponse = globalThis.Response;
+  if ((FetchResponse as any).workersMock) {
+    return;
+  }
+  globalThis.Response = class WorkersResponse extends FetchResponse {
+    static workersMock = true;
+    webSocket?: MockWebSocket;
+
+    constructor(body?: BodyInit | null, init?: ResponseInit & { webSocket?: MockWebSocket }) {
+      // Node's Response rejects the 101 status of WebSocket upgrades
+      super(body, init?.status === 101 ? { ...init, status: 200 } : init);
+      if (init?.status === 101) {
+        Object.defineProperty(this, 'status', { value: 101 });
+        this.webSocket = init.webSocket;
+      }
+    }
+  } as any;
+}